@@ -15,11 +15,22 @@ import { createMilestonesRouter } from "./routes/milestones";
 import { createNotificationsRouter } from "./routes/notifications";
 import { createProfileRouter } from "./routes/profile";
 import { createAdminRouter } from "./routes/admin";
+import { createAttachmentsRouter } from "./routes/attachments";
+import { createSkillsRouter } from "./routes/skills";
+import { createWalletRouter } from "./routes/wallet";
+import { createDisputesRouter } from "./routes/disputes";
+import { createTimesheetsRouter } from "./routes/timesheets";
+import { createInvoicesRouter } from "./routes/invoices";
+import { createReviewsRouter } from "./routes/reviews";
+import { createUsersRouter } from "./routes/users";
+import { createChatRouter } from "./routes/chat";
+import { createConversationsRouter } from "./routes/conversations";
 
 import { authenticateToken, requireRole } from "./middleware/auth";
 import { errorHandler } from "./middleware/errorHandler";
 
 import { setupSocketHandlers } from "./socket";
+import { startAutoReleaseScheduler } from "./services/autoRelease.service";
 import { ApiResponse } from "./types";
 
 dotenv.config();
@@ -73,6 +84,24 @@ app.use(
   createNotificationsRouter(prisma)
 );
 app.use("/api/profile", authenticateToken, createProfileRouter(prisma));
+app.use(
+  "/api/attachments",
+  authenticateToken,
+  createAttachmentsRouter(prisma)
+);
+app.use("/api/skills", authenticateToken, createSkillsRouter(prisma));
+app.use("/api/wallet", authenticateToken, createWalletRouter(prisma));
+app.use("/api/disputes", authenticateToken, createDisputesRouter(prisma));
+app.use("/api/timesheets", authenticateToken, createTimesheetsRouter(prisma));
+app.use("/api/invoices", authenticateToken, createInvoicesRouter(prisma));
+app.use("/api/reviews", authenticateToken, createReviewsRouter(prisma));
+app.use("/api/users", authenticateToken, createUsersRouter(prisma));
+app.use("/api/chat", authenticateToken, createChatRouter(prisma));
+app.use(
+  "/api/conversations",
+  authenticateToken,
+  createConversationsRouter(prisma)
+);
 app.use(
   "/api/admin",
   authenticateToken,
@@ -111,6 +140,7 @@ process.on("SIGINT", gracefulShutdown);
 
 server.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+  startAutoReleaseScheduler(prisma);
   console.log(
     `Client URL: ${process.env.CLIENT_URL || "http://localhost:5000"}`
   );
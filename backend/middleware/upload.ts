@@ -0,0 +1,46 @@
+// src/middleware/upload.ts
+import { Request, Response, NextFunction } from "express";
+import multer from "multer";
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_UPLOAD,
+} from "../services/attachment.service";
+
+// Files are buffered in memory and handed to the storage driver, which decides where they live.
+const upload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (_req, file, cb) => {
+    if (ALLOWED_ATTACHMENT_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`File type ${file.mimetype} is not allowed.`));
+    }
+  },
+  limits: {
+    fileSize: MAX_ATTACHMENT_SIZE,
+    files: MAX_ATTACHMENTS_PER_UPLOAD,
+  },
+});
+
+// Runs the multer middleware on the "files" field but reports size/type violations as
+// 400s instead of letting them fall through to the global error handler.
+export const handleAttachmentUpload = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  upload.array("files", MAX_ATTACHMENTS_PER_UPLOAD)(req, res, (err: unknown) => {
+    if (err) {
+      const message =
+        err instanceof multer.MulterError && err.code === "LIMIT_FILE_SIZE"
+          ? `Each file must be smaller than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)}MB.`
+          : err instanceof Error
+          ? err.message
+          : "Upload failed";
+      res.status(400).json({ success: false, error: message });
+      return;
+    }
+    next();
+  });
+};
@@ -0,0 +1,31 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- AlterTable
+ALTER TABLE "public"."Task" ADD COLUMN     "searchVector" tsvector;
+
+-- Keep the search vector in sync whenever a task is created or its text changes.
+CREATE FUNCTION "public"."task_search_vector_update"() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW."title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW."description", '')), 'B');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "task_search_vector_trigger"
+BEFORE INSERT OR UPDATE OF "title", "description" ON "public"."Task"
+FOR EACH ROW EXECUTE FUNCTION "public"."task_search_vector_update"();
+
+-- Backfill existing tasks
+UPDATE "public"."Task" SET
+  "searchVector" =
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'B');
+
+-- CreateIndex
+CREATE INDEX "Task_searchVector_idx" ON "public"."Task" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Task_title_idx" ON "public"."Task" USING GIN ("title" gin_trgm_ops);
@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "public"."SkillProficiency" AS ENUM ('beginner', 'intermediate', 'expert');
+
+-- CreateTable
+CREATE TABLE "public"."Skill" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "category" "public"."TaskCategory",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Skill_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."TaskSkill" (
+    "taskId" TEXT NOT NULL,
+    "skillId" TEXT NOT NULL,
+
+    CONSTRAINT "TaskSkill_pkey" PRIMARY KEY ("taskId","skillId")
+);
+
+-- CreateTable
+CREATE TABLE "public"."UserSkill" (
+    "userId" TEXT NOT NULL,
+    "skillId" TEXT NOT NULL,
+    "proficiency" "public"."SkillProficiency" NOT NULL DEFAULT 'intermediate',
+
+    CONSTRAINT "UserSkill_pkey" PRIMARY KEY ("userId","skillId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Skill_name_key" ON "public"."Skill"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Skill_slug_key" ON "public"."Skill"("slug");
+
+-- CreateIndex
+CREATE INDEX "TaskSkill_skillId_idx" ON "public"."TaskSkill"("skillId");
+
+-- CreateIndex
+CREATE INDEX "UserSkill_skillId_idx" ON "public"."UserSkill"("skillId");
+
+-- AddForeignKey
+ALTER TABLE "public"."TaskSkill" ADD CONSTRAINT "TaskSkill_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "public"."Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."TaskSkill" ADD CONSTRAINT "TaskSkill_skillId_fkey" FOREIGN KEY ("skillId") REFERENCES "public"."Skill"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."UserSkill" ADD CONSTRAINT "UserSkill_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."UserSkill" ADD CONSTRAINT "UserSkill_skillId_fkey" FOREIGN KEY ("skillId") REFERENCES "public"."Skill"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "public"."BidRevision" (
+    "id" TEXT NOT NULL,
+    "bidId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "proposal" TEXT NOT NULL,
+    "timeline" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BidRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BidRevision_bidId_idx" ON "public"."BidRevision"("bidId");
+
+-- AddForeignKey
+ALTER TABLE "public"."BidRevision" ADD CONSTRAINT "BidRevision_bidId_fkey" FOREIGN KEY ("bidId") REFERENCES "public"."Bid"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."Bid" ADD COLUMN     "isShortlisted" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "rejectionReason" TEXT;
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "public"."OfferStatus" AS ENUM ('pending', 'accepted', 'declined', 'countered', 'cancelled');
+
+-- CreateTable
+CREATE TABLE "public"."BidOffer" (
+    "id" TEXT NOT NULL,
+    "bidId" TEXT NOT NULL,
+    "proposerId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "timeline" TEXT NOT NULL,
+    "message" TEXT,
+    "status" "public"."OfferStatus" NOT NULL DEFAULT 'pending',
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BidOffer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BidOffer_bidId_idx" ON "public"."BidOffer"("bidId");
+
+-- AddForeignKey
+ALTER TABLE "public"."BidOffer" ADD CONSTRAINT "BidOffer_bidId_fkey" FOREIGN KEY ("bidId") REFERENCES "public"."Bid"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."BidOffer" ADD CONSTRAINT "BidOffer_proposerId_fkey" FOREIGN KEY ("proposerId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
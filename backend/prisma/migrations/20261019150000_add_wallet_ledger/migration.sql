@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "public"."WalletKind" AS ENUM ('user', 'escrow', 'external');
+
+-- CreateEnum
+CREATE TYPE "public"."LedgerEntryType" AS ENUM ('deposit', 'escrow_fund', 'escrow_release', 'payout');
+
+-- CreateTable
+CREATE TABLE "public"."Wallet" (
+    "id" TEXT NOT NULL,
+    "kind" "public"."WalletKind" NOT NULL,
+    "userId" TEXT,
+    "taskId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Wallet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."LedgerEntry" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "walletId" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "type" "public"."LedgerEntryType" NOT NULL,
+    "milestoneId" TEXT,
+    "reference" TEXT,
+    "description" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Wallet_userId_key" ON "public"."Wallet"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Wallet_taskId_key" ON "public"."Wallet"("taskId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_walletId_idx" ON "public"."LedgerEntry"("walletId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_transactionId_idx" ON "public"."LedgerEntry"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_milestoneId_idx" ON "public"."LedgerEntry"("milestoneId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Wallet" ADD CONSTRAINT "Wallet_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Wallet" ADD CONSTRAINT "Wallet_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "public"."Task"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LedgerEntry" ADD CONSTRAINT "LedgerEntry_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "public"."Wallet"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Ledger entries are immutable: corrections are posted as new, reversing transactions.
+CREATE FUNCTION "public"."ledger_entry_immutable"() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'LedgerEntry rows are append-only';
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "ledger_entry_immutable_trigger"
+  BEFORE UPDATE OR DELETE ON "public"."LedgerEntry"
+  FOR EACH ROW EXECUTE FUNCTION "public"."ledger_entry_immutable"();
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "public"."MilestoneEventType" AS ENUM ('submitted', 'changes_requested', 'payment_released');
+
+-- AlterTable
+ALTER TABLE "public"."Task" ADD COLUMN     "maxRevisions" INTEGER NOT NULL DEFAULT 2;
+
+-- CreateTable
+CREATE TABLE "public"."MilestoneEvent" (
+    "id" TEXT NOT NULL,
+    "milestoneId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "type" "public"."MilestoneEventType" NOT NULL,
+    "feedback" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MilestoneEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MilestoneEvent_milestoneId_idx" ON "public"."MilestoneEvent"("milestoneId");
+
+-- AddForeignKey
+ALTER TABLE "public"."MilestoneEvent" ADD CONSTRAINT "MilestoneEvent_milestoneId_fkey" FOREIGN KEY ("milestoneId") REFERENCES "public"."Milestone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."MilestoneEvent" ADD CONSTRAINT "MilestoneEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "public"."MilestoneEventType" ADD VALUE 'payment_auto_released';
+
+-- AlterTable
+ALTER TABLE "public"."Milestone" ADD COLUMN     "autoReleaseAt" TIMESTAMP(3),
+ADD COLUMN     "autoReleaseRemindersSent" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Milestone_status_autoReleaseAt_idx" ON "public"."Milestone"("status", "autoReleaseAt");
+
+-- Work already awaiting review gets the default 14-day window from its last update.
+UPDATE "public"."Milestone"
+SET "autoReleaseAt" = "updatedAt" + INTERVAL '14 days'
+WHERE "status" = 'completed';
@@ -0,0 +1,77 @@
+-- CreateEnum
+CREATE TYPE "public"."DisputeStatus" AS ENUM ('open', 'resolved');
+
+-- CreateEnum
+CREATE TYPE "public"."DisputeResolution" AS ENUM ('release_full', 'refund_full', 'split');
+
+-- AlterEnum
+ALTER TYPE "public"."MilestoneStatus" ADD VALUE 'disputed';
+
+-- AlterEnum
+ALTER TYPE "public"."MilestoneEventType" ADD VALUE 'dispute_opened';
+ALTER TYPE "public"."MilestoneEventType" ADD VALUE 'dispute_resolved';
+
+-- AlterEnum
+ALTER TYPE "public"."LedgerEntryType" ADD VALUE 'escrow_refund';
+
+-- AlterTable
+ALTER TABLE "public"."Attachment" ADD COLUMN     "disputeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."Dispute" (
+    "id" TEXT NOT NULL,
+    "milestoneId" TEXT NOT NULL,
+    "openedById" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "public"."DisputeStatus" NOT NULL DEFAULT 'open',
+    "resolution" "public"."DisputeResolution",
+    "freelancerAmount" DOUBLE PRECISION,
+    "resolutionNote" TEXT,
+    "resolvedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Dispute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."DisputeEvidence" (
+    "id" TEXT NOT NULL,
+    "disputeId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DisputeEvidence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Attachment_disputeId_idx" ON "public"."Attachment"("disputeId");
+
+-- CreateIndex
+CREATE INDEX "Dispute_milestoneId_idx" ON "public"."Dispute"("milestoneId");
+
+-- CreateIndex
+CREATE INDEX "Dispute_status_createdAt_idx" ON "public"."Dispute"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DisputeEvidence_disputeId_idx" ON "public"."DisputeEvidence"("disputeId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Attachment" ADD CONSTRAINT "Attachment_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "public"."Dispute"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Dispute" ADD CONSTRAINT "Dispute_milestoneId_fkey" FOREIGN KEY ("milestoneId") REFERENCES "public"."Milestone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Dispute" ADD CONSTRAINT "Dispute_openedById_fkey" FOREIGN KEY ("openedById") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Dispute" ADD CONSTRAINT "Dispute_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DisputeEvidence" ADD CONSTRAINT "DisputeEvidence_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "public"."Dispute"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DisputeEvidence" ADD CONSTRAINT "DisputeEvidence_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
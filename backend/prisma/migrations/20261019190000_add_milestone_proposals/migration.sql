@@ -0,0 +1,26 @@
+-- AlterEnum
+ALTER TYPE "public"."MilestoneStatus" ADD VALUE 'proposed' BEFORE 'pending';
+
+-- AlterEnum
+ALTER TYPE "public"."MilestoneEventType" ADD VALUE 'proposed';
+ALTER TYPE "public"."MilestoneEventType" ADD VALUE 'proposal_approved';
+ALTER TYPE "public"."MilestoneEventType" ADD VALUE 'proposal_declined';
+
+-- CreateTable
+CREATE TABLE "public"."BidMilestone" (
+    "id" TEXT NOT NULL,
+    "bidId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "amount" DOUBLE PRECISION NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BidMilestone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BidMilestone_bidId_position_key" ON "public"."BidMilestone"("bidId", "position");
+
+-- AddForeignKey
+ALTER TABLE "public"."BidMilestone" ADD CONSTRAINT "BidMilestone_bidId_fkey" FOREIGN KEY ("bidId") REFERENCES "public"."Bid"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterEnum
+ALTER TYPE "public"."MilestoneEventType" ADD VALUE 'updated';
+ALTER TYPE "public"."MilestoneEventType" ADD VALUE 'amount_change_requested';
+ALTER TYPE "public"."MilestoneEventType" ADD VALUE 'amount_change_accepted';
+ALTER TYPE "public"."MilestoneEventType" ADD VALUE 'amount_change_declined';
+ALTER TYPE "public"."MilestoneEventType" ADD VALUE 'cancelled';
+
+-- AlterTable
+ALTER TABLE "public"."Milestone" ADD COLUMN     "dependsOnId" TEXT,
+ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "proposedAmount" DOUBLE PRECISION;
+
+-- Existing milestones keep the creation order they were listed in so far.
+UPDATE "public"."Milestone" AS m
+SET "position" = ordered."rank"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "taskId" ORDER BY "createdAt") - 1 AS "rank"
+    FROM "public"."Milestone"
+) AS ordered
+WHERE m."id" = ordered."id";
+
+-- CreateIndex
+CREATE INDEX "Milestone_taskId_position_idx" ON "public"."Milestone"("taskId", "position");
+
+-- AddForeignKey
+ALTER TABLE "public"."Milestone" ADD CONSTRAINT "Milestone_dependsOnId_fkey" FOREIGN KEY ("dependsOnId") REFERENCES "public"."Milestone"("id") ON DELETE SET NULL ON UPDATE CASCADE;
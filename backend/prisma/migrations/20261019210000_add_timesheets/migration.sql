@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "public"."TimesheetStatus" AS ENUM ('open', 'submitted', 'approved', 'disputed');
+
+-- AlterTable
+ALTER TABLE "public"."Task" ADD COLUMN     "weeklyHourCap" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "public"."LedgerEntry" ADD COLUMN     "timesheetId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."Timesheet" (
+    "id" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "freelancerId" TEXT NOT NULL,
+    "weekStart" TIMESTAMP(3) NOT NULL,
+    "status" "public"."TimesheetStatus" NOT NULL DEFAULT 'open',
+    "hourlyRate" DOUBLE PRECISION,
+    "amount" DOUBLE PRECISION,
+    "submittedAt" TIMESTAMP(3),
+    "reviewedAt" TIMESTAMP(3),
+    "disputeReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Timesheet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."TimeEntry" (
+    "id" TEXT NOT NULL,
+    "timesheetId" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+    "minutes" INTEGER NOT NULL DEFAULT 0,
+    "memo" TEXT NOT NULL DEFAULT '',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TimeEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Timesheet_taskId_freelancerId_weekStart_key" ON "public"."Timesheet"("taskId", "freelancerId", "weekStart");
+
+-- CreateIndex
+CREATE INDEX "TimeEntry_timesheetId_idx" ON "public"."TimeEntry"("timesheetId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_timesheetId_idx" ON "public"."LedgerEntry"("timesheetId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Timesheet" ADD CONSTRAINT "Timesheet_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "public"."Task"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Timesheet" ADD CONSTRAINT "Timesheet_freelancerId_fkey" FOREIGN KEY ("freelancerId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."TimeEntry" ADD CONSTRAINT "TimeEntry_timesheetId_fkey" FOREIGN KEY ("timesheetId") REFERENCES "public"."Timesheet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "public"."InvoiceKind" AS ENUM ('invoice', 'receipt');
+
+-- CreateTable
+CREATE TABLE "public"."Invoice" (
+    "id" TEXT NOT NULL,
+    "number" SERIAL NOT NULL,
+    "kind" "public"."InvoiceKind" NOT NULL,
+    "recipientId" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "milestoneId" TEXT,
+    "timesheetId" TEXT,
+    "clientName" TEXT NOT NULL,
+    "freelancerName" TEXT NOT NULL,
+    "taskTitle" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "platformFee" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "paidAt" TIMESTAMP(3) NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Invoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_number_key" ON "public"."Invoice"("number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_storageKey_key" ON "public"."Invoice"("storageKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_kind_milestoneId_key" ON "public"."Invoice"("kind", "milestoneId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_kind_timesheetId_key" ON "public"."Invoice"("kind", "timesheetId");
+
+-- CreateIndex
+CREATE INDEX "Invoice_recipientId_createdAt_idx" ON "public"."Invoice"("recipientId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."Invoice" ADD CONSTRAINT "Invoice_recipientId_fkey" FOREIGN KEY ("recipientId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Invoice" ADD CONSTRAINT "Invoice_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "public"."Task"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
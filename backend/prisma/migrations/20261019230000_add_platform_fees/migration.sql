@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "public"."WalletKind" ADD VALUE 'platform';
+
+-- AlterEnum
+ALTER TYPE "public"."LedgerEntryType" ADD VALUE 'platform_fee';
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "public"."Task" ADD COLUMN "completedAt" TIMESTAMP(3);
+
+-- Tasks completed before this column existed open their review window from their last update.
+UPDATE "public"."Task" SET "completedAt" = "updatedAt" WHERE "status" = 'completed';
+
+-- CreateTable
+CREATE TABLE "public"."Review" (
+    "id" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "reviewerId" TEXT NOT NULL,
+    "revieweeId" TEXT NOT NULL,
+    "rating" INTEGER NOT NULL,
+    "communication" INTEGER NOT NULL,
+    "quality" INTEGER NOT NULL,
+    "timeliness" INTEGER NOT NULL,
+    "comment" TEXT NOT NULL,
+    "revealAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Review_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Review_taskId_reviewerId_key" ON "public"."Review"("taskId", "reviewerId");
+
+-- CreateIndex
+CREATE INDEX "Review_revieweeId_revealAt_idx" ON "public"."Review"("revieweeId", "revealAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."Review" ADD CONSTRAINT "Review_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "public"."Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Review" ADD CONSTRAINT "Review_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Review" ADD CONSTRAINT "Review_revieweeId_fkey" FOREIGN KEY ("revieweeId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
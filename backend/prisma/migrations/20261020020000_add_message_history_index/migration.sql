@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Message_taskId_createdAt_idx" ON "public"."Message"("taskId", "createdAt");
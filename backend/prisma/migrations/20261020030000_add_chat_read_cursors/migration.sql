@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "public"."ChatReadCursor" (
+    "taskId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "lastReadAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChatReadCursor_pkey" PRIMARY KEY ("taskId","userId")
+);
+
+-- CreateIndex
+CREATE INDEX "ChatReadCursor_userId_idx" ON "public"."ChatReadCursor"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ChatReadCursor" ADD CONSTRAINT "ChatReadCursor_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "public"."Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ChatReadCursor" ADD CONSTRAINT "ChatReadCursor_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "public"."Message" ADD COLUMN     "bidId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."BidReadCursor" (
+    "bidId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "lastReadAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BidReadCursor_pkey" PRIMARY KEY ("bidId","userId")
+);
+
+-- CreateIndex
+CREATE INDEX "Message_bidId_createdAt_idx" ON "public"."Message"("bidId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "BidReadCursor_userId_idx" ON "public"."BidReadCursor"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Message" ADD CONSTRAINT "Message_bidId_fkey" FOREIGN KEY ("bidId") REFERENCES "public"."Bid"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."BidReadCursor" ADD CONSTRAINT "BidReadCursor_bidId_fkey" FOREIGN KEY ("bidId") REFERENCES "public"."Bid"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."BidReadCursor" ADD CONSTRAINT "BidReadCursor_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
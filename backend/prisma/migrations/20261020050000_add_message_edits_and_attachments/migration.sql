@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "public"."Message" ADD COLUMN     "editedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."Attachment" ADD COLUMN     "messageId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."MessageRevision" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MessageRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MessageRevision_messageId_idx" ON "public"."MessageRevision"("messageId");
+
+-- CreateIndex
+CREATE INDEX "Attachment_messageId_idx" ON "public"."Attachment"("messageId");
+
+-- AddForeignKey
+ALTER TABLE "public"."MessageRevision" ADD CONSTRAINT "MessageRevision_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "public"."Message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Attachment" ADD CONSTRAINT "Attachment_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "public"."Message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."Milestone" ADD COLUMN     "autoReleaseFailures" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "autoReleaseRetryAt" TIMESTAMP(3);
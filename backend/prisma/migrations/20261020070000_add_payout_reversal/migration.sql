@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."LedgerEntryType" ADD VALUE 'payout_reversal';
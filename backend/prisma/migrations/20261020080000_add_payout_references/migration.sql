@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "public"."PayoutReference" (
+    "transactionId" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PayoutReference_pkey" PRIMARY KEY ("transactionId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayoutReference_reference_key" ON "public"."PayoutReference"("reference");
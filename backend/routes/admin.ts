@@ -1,10 +1,22 @@
 // src/routes/admin.ts
 import express, { Response } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { ApiResponse, AuthRequest, AdminStatsData, User, TaskWithClient } from '../types';
+import { body, query, validationResult } from 'express-validator';
+import { BidStatus, MilestoneEventType, MilestoneStatus, PrismaClient } from '@prisma/client';
+import { ApiResponse, AuthRequest, AdminStatsData, AdminSkill, Skill, SkillRequestBody, User, TaskWithClient, Task, TaskCategory, TaskStatus, UpdateTaskStatusRequestBody, Dispute, DisputeResolution, DisputeStatus, DisputeSummary, ResolveDisputeRequestBody } from '../types';
+import { transitionTaskStatus, TaskStatusTransitionError } from '../services/taskStatus.service';
+import { notifyUser, notifyUsers } from '../services/notification.service';
+import { slugifySkill } from '../services/skill.service';
+import { disputeSummaryInclude } from '../services/dispute.service';
+import { promptForReviews } from '../services/review.service';
+import { cancelTask, settleMilestone } from '../services/milestonePayment.service';
+import { fromCents, LedgerError, PLATFORM_WALLET_ID, sumEntriesCents, toCents } from '../services/ledger.service';
+import { PaymentDeclinedError } from '../services/payment.service';
 
 const router = express.Router();
 
+// Statuses that only make sense once a freelancer has been hired for the task.
+const FREELANCER_STATUSES: TaskStatus[] = [TaskStatus.assigned, TaskStatus.in_progress];
+
 export const createAdminRouter = (prisma: PrismaClient) => {
   
   router.get('/stats', async (_req: AuthRequest, res: Response<ApiResponse<AdminStatsData>>): Promise<void> => {
@@ -14,8 +26,15 @@ export const createAdminRouter = (prisma: PrismaClient) => {
       const totalBids = await prisma.bid.count();
       const openTasks = await prisma.task.count({ where: { status: 'open' } });
       const completedTasks = await prisma.task.count({ where: { status: 'completed' } });
+      const platformRevenueCents = await sumEntriesCents(prisma, { walletId: PLATFORM_WALLET_ID });
+      const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+      const recentRevenueCents = await sumEntriesCents(prisma, { walletId: PLATFORM_WALLET_ID, createdAt: { gte: since } });
 
-      const stats: AdminStatsData = { totalUsers, totalTasks, totalBids, openTasks, completedTasks };
+      const stats: AdminStatsData = {
+        totalUsers, totalTasks, totalBids, openTasks, completedTasks,
+        platformRevenue: fromCents(platformRevenueCents),
+        platformRevenueLast30Days: fromCents(recentRevenueCents),
+      };
       res.json({ success: true, data: stats });
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to fetch admin stats';
@@ -77,6 +96,57 @@ export const createAdminRouter = (prisma: PrismaClient) => {
     }
   });
 
+  // Admin moderation still goes through the task state machine, so e.g. a completed task cannot be reopened.
+  router.patch('/tasks/:id/status',
+    [
+      body('status').isIn(Object.values(TaskStatus)).withMessage(`Status must be one of: ${Object.values(TaskStatus).join(', ')}`)
+    ],
+    async (req: AuthRequest<{ id: string }, ApiResponse<Task>, UpdateTaskStatusRequestBody>, res: Response<ApiResponse<Task>>): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            const response: ApiResponse = { success: false, error: 'Validation failed', data: errors.array() };
+            res.status(400).json(response);
+            return;
+        }
+
+        const { id } = req.params;
+        const { status } = req.body;
+        const task = await prisma.task.findUnique({ where: { id } });
+        if (!task) {
+            res.status(404).json({ success: false, error: "Task not found." });
+            return;
+        }
+
+        if (FREELANCER_STATUSES.includes(status)) {
+            const acceptedBid = await prisma.bid.findFirst({ where: { taskId: id, status: BidStatus.accepted }, select: { id: true } });
+            if (!acceptedBid) {
+                res.status(400).json({ success: false, error: `A task needs an accepted bid before it can be marked ${status.replace('_', ' ')}.` });
+                return;
+            }
+        }
+
+        if (status === TaskStatus.cancelled) {
+            await cancelTask(prisma, task, { actorId: req.user?.id ?? null });
+        } else {
+            await transitionTaskStatus(prisma, task, status);
+        }
+        await notifyUser(prisma, task.clientId, `An administrator changed the status of your project "${task.title}" to ${status.replace('_', ' ')}.`);
+        if (status === TaskStatus.completed) {
+            await promptForReviews(prisma, task);
+        }
+
+        res.json({ success: true, message: `Task "${task.title}" is now ${status}.`, data: { ...task, status } });
+    } catch (error: unknown) {
+        if (error instanceof TaskStatusTransitionError || error instanceof LedgerError) {
+            res.status(400).json({ success: false, error: error.message });
+            return;
+        }
+        const errorMessage = error instanceof Error ? error.message : 'Failed to update task status';
+        res.status(500).json({ success: false, error: errorMessage });
+    }
+  });
+
   router.delete('/tasks/:id', async (req: AuthRequest<{ id: string }>, res: Response<ApiResponse<null>>): Promise<void> => {
     try {
         const { id } = req.params;
@@ -96,5 +166,225 @@ export const createAdminRouter = (prisma: PrismaClient) => {
     }
   });
 
+  // Open disputes come oldest first so the queue is worked in order.
+  router.get('/disputes',
+    [
+      query('status').optional().isIn(Object.values(DisputeStatus)).withMessage(`Status must be one of: ${Object.values(DisputeStatus).join(', ')}`)
+    ],
+    async (req: AuthRequest<{}, ApiResponse<DisputeSummary[]>, {}, { status?: DisputeStatus }>, res: Response<ApiResponse<DisputeSummary[]>>): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            const response: ApiResponse = { success: false, error: 'Validation failed', data: errors.array() };
+            res.status(400).json(response);
+            return;
+        }
+
+        const status = req.query.status ?? DisputeStatus.open;
+        const disputes = await prisma.dispute.findMany({
+            where: { status },
+            include: disputeSummaryInclude,
+            orderBy: status === DisputeStatus.open ? { createdAt: 'asc' } : { resolvedAt: 'desc' }
+        });
+        res.json({ success: true, data: disputes });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to fetch disputes';
+        res.status(500).json({ success: false, error: errorMessage });
+    }
+  });
+
+  // The ruling settles the milestone's escrow: all to the freelancer, all back to the client, or split.
+  router.post('/disputes/:id/resolve',
+    [
+      body('resolution').isIn(Object.values(DisputeResolution)).withMessage(`Resolution must be one of: ${Object.values(DisputeResolution).join(', ')}`),
+      body('freelancerAmount').if(body('resolution').equals(DisputeResolution.split)).isFloat({ gt: 0 }).withMessage('A split needs the amount paid to the freelancer').toFloat(),
+      body('note').trim().isLength({ min: 10, max: 2000 }).withMessage('Note must be between 10 and 2000 characters')
+    ],
+    async (req: AuthRequest<{ id: string }, ApiResponse<Dispute>, ResolveDisputeRequestBody>, res: Response<ApiResponse<Dispute>>): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            const response: ApiResponse = { success: false, error: 'Validation failed', data: errors.array() };
+            res.status(400).json(response);
+            return;
+        }
+
+        const { id } = req.params;
+        const { resolution, freelancerAmount, note } = req.body;
+        const dispute = await prisma.dispute.findUnique({
+            where: { id },
+            include: { milestone: { include: { task: { include: { bids: { where: { status: BidStatus.accepted } } } } } } }
+        });
+        if (!dispute) {
+            res.status(404).json({ success: false, error: "Dispute not found." });
+            return;
+        }
+        if (dispute.status !== DisputeStatus.open) {
+            res.status(400).json({ success: false, error: 'This dispute has already been resolved.' });
+            return;
+        }
+
+        const { milestone } = dispute;
+        const milestoneCents = toCents(milestone.amount);
+        let freelancerCents = milestoneCents;
+        if (resolution === DisputeResolution.refund_full) {
+            freelancerCents = 0;
+        } else if (resolution === DisputeResolution.split) {
+            freelancerCents = toCents(freelancerAmount ?? 0);
+            if (freelancerCents >= milestoneCents) {
+                res.status(400).json({ success: false, error: `A split must pay the freelancer less than the milestone amount of $${milestone.amount.toFixed(2)}.` });
+                return;
+            }
+        }
+
+        let resolvedDispute: Dispute | undefined;
+        await settleMilestone(prisma, milestone, {
+            fromStatus: MilestoneStatus.disputed,
+            toStatus: freelancerCents > 0 ? MilestoneStatus.paid : MilestoneStatus.cancelled,
+            freelancerCents,
+            actorId: req.user!.id,
+            eventType: MilestoneEventType.dispute_resolved,
+            note,
+            onSettled: async (tx) => {
+                resolvedDispute = await tx.dispute.update({
+                    where: { id },
+                    data: {
+                        status: DisputeStatus.resolved,
+                        resolution,
+                        freelancerAmount: fromCents(freelancerCents),
+                        resolutionNote: note,
+                        resolvedById: req.user!.id,
+                        resolvedAt: new Date()
+                    }
+                });
+            }
+        });
+
+        const refundCents = milestoneCents - freelancerCents;
+        await notifyUsers(
+            prisma,
+            [milestone.task.clientId, ...milestone.task.bids.map((bid) => bid.freelancerId)],
+            `The dispute on milestone "${milestone.title}" was resolved: $${fromCents(freelancerCents).toFixed(2)} paid to the freelancer, $${fromCents(refundCents).toFixed(2)} refunded to the client.`
+        );
+
+        res.json({ success: true, message: 'Dispute resolved.', data: resolvedDispute });
+    } catch (error: unknown) {
+        if (error instanceof LedgerError || error instanceof TaskStatusTransitionError) {
+            res.status(400).json({ success: false, error: error.message });
+            return;
+        }
+        if (error instanceof PaymentDeclinedError) {
+            res.status(402).json({ success: false, error: error.message });
+            return;
+        }
+        const errorMessage = error instanceof Error ? error.message : 'Failed to resolve dispute';
+        res.status(500).json({ success: false, error: errorMessage });
+    }
+  });
+
+  router.get('/skills', async (_req: AuthRequest, res: Response<ApiResponse<AdminSkill[]>>): Promise<void> => {
+    try {
+        const skills = await prisma.skill.findMany({
+            orderBy: { name: 'asc' },
+            include: { _count: { select: { tasks: true, users: true } } }
+        });
+        res.json({ success: true, data: skills });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to fetch skills';
+        res.status(500).json({ success: false, error: errorMessage });
+    }
+  });
+
+  const skillValidators = (optionalName: boolean) => [
+    (optionalName ? body('name').optional() : body('name')).trim().isLength({ min: 1, max: 50 }).withMessage('Skill name must be between 1 and 50 characters'),
+    body('category').optional({ values: 'null' }).isIn(Object.values(TaskCategory)).withMessage(`Category must be one of: ${Object.values(TaskCategory).join(', ')}`)
+  ];
+
+  router.post('/skills', skillValidators(false), async (req: AuthRequest<{}, ApiResponse<Skill>, SkillRequestBody>, res: Response<ApiResponse<Skill>>): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            const response: ApiResponse = { success: false, error: 'Validation failed', data: errors.array() };
+            res.status(400).json(response);
+            return;
+        }
+
+        const { name, category } = req.body;
+        const slug = slugifySkill(name);
+        if (!slug) {
+            res.status(400).json({ success: false, error: 'Skill names need at least one Latin letter or digit to build a URL slug from.' });
+            return;
+        }
+        const existingSkill = await prisma.skill.findFirst({
+            where: { OR: [{ slug }, { name: { equals: name, mode: 'insensitive' } }] }
+        });
+        if (existingSkill) {
+            res.status(409).json({ success: false, error: `A skill named "${existingSkill.name}" already exists.` });
+            return;
+        }
+
+        const skill = await prisma.skill.create({ data: { name, slug, category } });
+        res.status(201).json({ success: true, message: `Skill "${skill.name}" created.`, data: skill });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to create skill';
+        res.status(500).json({ success: false, error: errorMessage });
+    }
+  });
+
+  router.patch('/skills/:id', skillValidators(true), async (req: AuthRequest<{ id: string }, ApiResponse<Skill>, Partial<SkillRequestBody>>, res: Response<ApiResponse<Skill>>): Promise<void> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            const response: ApiResponse = { success: false, error: 'Validation failed', data: errors.array() };
+            res.status(400).json(response);
+            return;
+        }
+
+        const { id } = req.params;
+        const { name, category } = req.body;
+        const skill = await prisma.skill.findUnique({ where: { id } });
+        if (!skill) {
+            res.status(404).json({ success: false, error: "Skill not found." });
+            return;
+        }
+
+        // The slug is kept on rename: task filters and saved searches refer to skills by slug.
+        if (name) {
+            const clash = await prisma.skill.findFirst({
+                where: { id: { not: id }, name: { equals: name, mode: 'insensitive' } }
+            });
+            if (clash) {
+                res.status(409).json({ success: false, error: `A skill named "${clash.name}" already exists.` });
+                return;
+            }
+        }
+
+        const updatedSkill = await prisma.skill.update({ where: { id }, data: { name, category } });
+        res.json({ success: true, message: `Skill "${updatedSkill.name}" updated.`, data: updatedSkill });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to update skill';
+        res.status(500).json({ success: false, error: errorMessage });
+    }
+  });
+
+  router.delete('/skills/:id', async (req: AuthRequest<{ id: string }>, res: Response<ApiResponse<null>>): Promise<void> => {
+    try {
+        const { id } = req.params;
+        const skill = await prisma.skill.findUnique({ where: { id } });
+        if (!skill) {
+            res.status(404).json({ success: false, error: "Skill not found." });
+            return;
+        }
+
+        // Task and freelancer links are removed by the cascade.
+        await prisma.skill.delete({ where: { id } });
+
+        res.json({ success: true, message: `Skill "${skill.name}" has been deleted.` });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to delete skill';
+        res.status(500).json({ success: false, error: errorMessage });
+    }
+  });
+
   return router;
 };
\ No newline at end of file
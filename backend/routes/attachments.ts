@@ -0,0 +1,314 @@
+// backend/routes/attachments.ts
+import express, { NextFunction, Response } from "express";
+import { param, validationResult } from "express-validator";
+import { MilestoneStatus, PrismaClient } from "@prisma/client";
+import { ApiResponse, AuthRequest, AttachmentSummary, UserRole } from "../types";
+import {
+  createStorageKey,
+  getStorageDriver,
+  sendStoredFile,
+} from "../services/storage.service";
+import { handleAttachmentUpload } from "../middleware/upload";
+import {
+  ATTACHMENT_PARENT_TYPES,
+  AttachmentParentType,
+  attachmentParentFields,
+  getAttachmentParent,
+  getAttachmentPermissions,
+} from "../services/attachment.service";
+
+const router = express.Router();
+
+const attachmentSelect = {
+  id: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  uploaderId: true,
+  taskId: true,
+  bidId: true,
+  milestoneId: true,
+  disputeId: true,
+  messageId: true,
+  createdAt: true,
+  uploader: { select: { id: true, firstName: true, lastName: true } },
+};
+
+const parentValidators = [
+  param("parentType")
+    .isIn(ATTACHMENT_PARENT_TYPES)
+    .withMessage(`Parent type must be one of: ${ATTACHMENT_PARENT_TYPES.join(", ")}`),
+  param("parentId").isUUID().withMessage("Valid parent ID is required"),
+];
+
+const LOCKED_DELIVERABLE_STATUSES: MilestoneStatus[] = [
+  MilestoneStatus.completed,
+  MilestoneStatus.paid,
+  MilestoneStatus.disputed,
+];
+
+type ParentParams = { parentType: AttachmentParentType; parentId: string };
+
+export const createAttachmentsRouter = (prisma: PrismaClient) => {
+  // GET /api/attachments/:id/download - Stream a file after checking access to its parent
+  router.get(
+    "/:id/download",
+    async (req: AuthRequest<{ id: string }>, res: Response<ApiResponse>) => {
+      try {
+        if (!req.user) {
+          return res
+            .status(401)
+            .json({ success: false, error: "User not authenticated" });
+        }
+
+        const attachment = await prisma.attachment.findUnique({
+          where: { id: req.params.id },
+        });
+        if (!attachment) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Attachment not found." });
+        }
+
+        const { parentType, parentId } = getAttachmentParent(attachment);
+        const permissions = await getAttachmentPermissions(
+          prisma,
+          parentType,
+          parentId,
+          req.user
+        );
+        if (!permissions?.canView) {
+          return res.status(403).json({
+            success: false,
+            error: "You are not authorized to download this file.",
+          });
+        }
+
+        const stream = await getStorageDriver().read(attachment.storageKey);
+        res.attachment(attachment.fileName);
+        res.type(attachment.mimeType);
+        sendStoredFile(stream, res);
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to download file";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // DELETE /api/attachments/:id - The uploader (or an admin) removes a file
+  router.delete(
+    "/:id",
+    async (req: AuthRequest<{ id: string }>, res: Response<ApiResponse<null>>) => {
+      try {
+        const attachment = await prisma.attachment.findUnique({
+          where: { id: req.params.id },
+        });
+        if (!attachment) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Attachment not found." });
+        }
+        if (
+          attachment.uploaderId !== req.user?.id &&
+          req.user?.role !== UserRole.admin
+        ) {
+          return res.status(403).json({
+            success: false,
+            error: "You can only delete files you uploaded.",
+          });
+        }
+        // Chat files are part of the conversation record, so they go with their message.
+        if (attachment.messageId && req.user?.role !== UserRole.admin) {
+          return res.status(400).json({
+            success: false,
+            error: "Files sent in chat are removed by deleting their message.",
+          });
+        }
+
+        // Submitted work stays on record while it is reviewed, paid or disputed.
+        if (attachment.milestoneId && req.user?.role !== UserRole.admin) {
+          const milestone = await prisma.milestone.findUnique({
+            where: { id: attachment.milestoneId },
+            select: { status: true },
+          });
+          if (milestone && LOCKED_DELIVERABLE_STATUSES.includes(milestone.status)) {
+            return res.status(400).json({
+              success: false,
+              error: "Files on a submitted milestone can no longer be deleted.",
+            });
+          }
+        }
+
+        await prisma.attachment.delete({ where: { id: attachment.id } });
+        await getStorageDriver().remove(attachment.storageKey);
+
+        res.json({ success: true, message: "File deleted.", data: null });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to delete file";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // GET /api/attachments/:parentType/:parentId - List files attached to a task, bid, milestone, dispute or message
+  router.get(
+    "/:parentType/:parentId",
+    parentValidators,
+    async (
+      req: AuthRequest<ParentParams>,
+      res: Response<ApiResponse<AttachmentSummary[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        const response: ApiResponse = {
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        };
+        return res.status(400).json(response);
+      }
+
+      try {
+        if (!req.user) {
+          return res
+            .status(401)
+            .json({ success: false, error: "User not authenticated" });
+        }
+
+        const { parentType, parentId } = req.params;
+        const permissions = await getAttachmentPermissions(
+          prisma,
+          parentType,
+          parentId,
+          req.user
+        );
+        if (!permissions) {
+          return res
+            .status(404)
+            .json({ success: false, error: `The ${parentType} was not found.` });
+        }
+        if (!permissions.canView) {
+          return res.status(403).json({
+            success: false,
+            error: "You are not authorized to view these files.",
+          });
+        }
+
+        const attachments = await prisma.attachment.findMany({
+          where: attachmentParentFields(parentType, parentId),
+          select: attachmentSelect,
+          orderBy: { createdAt: "asc" },
+        });
+
+        res.json({ success: true, data: attachments });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to fetch files";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // POST /api/attachments/:parentType/:parentId - Upload one or more files (field name "files")
+  router.post(
+    "/:parentType/:parentId",
+    parentValidators,
+    async (
+      req: AuthRequest<ParentParams>,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      // Check the parameters and permissions before accepting any file data.
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        if (!req.user) {
+          return res
+            .status(401)
+            .json({ success: false, error: "User not authenticated" });
+        }
+
+        const { parentType, parentId } = req.params;
+        const permissions = await getAttachmentPermissions(
+          prisma,
+          parentType,
+          parentId,
+          req.user
+        );
+        if (!permissions) {
+          return res
+            .status(404)
+            .json({ success: false, error: `The ${parentType} was not found.` });
+        }
+        if (!permissions.canUpload) {
+          return res.status(403).json({
+            success: false,
+            error: `You are not allowed to attach files to this ${parentType}.`,
+          });
+        }
+        next();
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Upload failed";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    },
+    handleAttachmentUpload,
+    async (
+      req: AuthRequest<ParentParams>,
+      res: Response<ApiResponse<AttachmentSummary[]>>
+    ) => {
+      try {
+        const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+        if (files.length === 0) {
+          return res
+            .status(400)
+            .json({ success: false, error: "No files provided" });
+        }
+
+        const { parentType, parentId } = req.params;
+        const storage = getStorageDriver();
+
+        const attachments: AttachmentSummary[] = [];
+        for (const file of files) {
+          const storageKey = createStorageKey(file.originalname);
+          await storage.save(storageKey, file.buffer);
+          attachments.push(
+            await prisma.attachment.create({
+              data: {
+                fileName: file.originalname,
+                mimeType: file.mimetype,
+                size: file.size,
+                storageKey,
+                uploaderId: req.user!.id,
+                ...attachmentParentFields(parentType, parentId),
+              },
+              select: attachmentSelect,
+            })
+          );
+        }
+
+        res.status(201).json({
+          success: true,
+          message: `${attachments.length} file(s) uploaded successfully`,
+          data: attachments,
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Upload failed";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  return router;
+};
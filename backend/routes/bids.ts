@@ -1,6 +1,11 @@
 // backend/routes/bids.ts
 import express, { Response } from "express";
-import { body, ValidationError, validationResult } from "express-validator";
+import {
+  body,
+  query,
+  ValidationError,
+  validationResult,
+} from "express-validator";
 import { PrismaClient } from "@prisma/client";
 import {
   ApiResponse,
@@ -12,11 +17,104 @@ import {
   TaskStatus,
   UserRole,
   BidStatus,
+  UpdateBidRequestBody,
+  RejectBidRequestBody,
+  ShortlistBidRequestBody,
+  CreateBidOfferRequestBody,
+  BidOfferParams,
+  BidOffer,
+  OfferStatus,
+  BidMilestone,
+  BidMilestoneInput,
+  MilestoneStatus,
+  FeeEstimate,
 } from "../types";
 import { getSocketIoInstance } from "../socket";
+import { notifyUser } from "../services/notification.service";
+import {
+  transitionTaskStatus,
+  TaskStatusTransitionError,
+} from "../services/taskStatus.service";
+import { fundMilestonesWithCharge } from "../services/milestonePayment.service";
+import { fromCents, LedgerError, toCents } from "../services/ledger.service";
+import { PaymentDeclinedError } from "../services/payment.service";
+import { nextMilestonePosition } from "../services/milestone.service";
+import { quoteFee } from "../services/fee.service";
+import { getRatingStats } from "../services/review.service";
+import { userPublicProfileSelect } from "../services/user.service";
+import { mergeBidThreadIntoTaskChat } from "../services/chat.service";
 
 const router = express.Router();
 
+// Closes any open negotiation round when the bid itself leaves the pending state.
+const cancelPendingOffers = () => ({
+  updateMany: {
+    where: { status: OfferStatus.pending },
+    data: { status: OfferStatus.cancelled, respondedAt: new Date() },
+  },
+});
+
+// Lets an open TaskDetail page for either party refetch the bid without a reload.
+const emitNegotiationUpdate = (
+  bid: { id: string; taskId: string; freelancerId: string },
+  clientId: string
+) =>
+  getSocketIoInstance()
+    .to(`user_${clientId}`)
+    .to(`user_${bid.freelancerId}`)
+    .emit("bid_negotiation_updated", { bidId: bid.id, taskId: bid.taskId });
+
+const MAX_PLAN_MILESTONES = 20;
+
+const milestonePlanValidators = () => [
+  body("milestones")
+    .optional()
+    .isArray({ max: MAX_PLAN_MILESTONES })
+    .withMessage(`A milestone plan can have at most ${MAX_PLAN_MILESTONES} stages`),
+  body("milestones.*.title")
+    .trim()
+    .isLength({ min: 5, max: 100 })
+    .withMessage("Each milestone title must be between 5 and 100 characters"),
+  body("milestones.*.description")
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage("Milestone descriptions must be at most 1000 characters"),
+  body("milestones.*.amount")
+    .isFloat({ gt: 0 })
+    .toFloat()
+    .withMessage("Each milestone amount must be a positive number"),
+  body("milestones.*.dueDate")
+    .isISO8601()
+    .toDate()
+    .withMessage("Each milestone needs a valid due date"),
+];
+
+const planTotalCents = (plan: { amount: number }[]) =>
+  plan.reduce((sum, stage) => sum + toCents(stage.amount), 0);
+
+const toPlanRows = (plan: BidMilestoneInput[]) =>
+  plan.map((stage, position) => ({
+    position,
+    title: stage.title,
+    description: stage.description ?? "",
+    amount: stage.amount,
+    dueDate: stage.dueDate,
+  }));
+
+const isSamePlan = (plan: BidMilestoneInput[], current: BidMilestone[]) =>
+  plan.length === current.length &&
+  toPlanRows(plan).every((stage, position) => {
+    const existing = current.find((row) => row.position === position);
+    return (
+      existing !== undefined &&
+      existing.title === stage.title &&
+      existing.description === stage.description &&
+      existing.amount === stage.amount &&
+      existing.dueDate.getTime() === stage.dueDate.getTime()
+    );
+  });
+
 export const createBidsRouter = (prisma: PrismaClient) => {
    // GET /api/bids/my-bids - Fetch all bids for the current freelancer
    router.get(
@@ -58,22 +156,39 @@ export const createBidsRouter = (prisma: PrismaClient) => {
     ) => {
       try {
         const { taskId } = req.params;
+        const task = await prisma.task.findUnique({
+          where: { id: taskId },
+          select: { clientId: true },
+        });
         const taskBids: BidWithFreelancer[] = await prisma.bid.findMany({
           where: { taskId },
           include: {
-            freelancer: {
-              select: {
-                id: true,
-                firstName: true,
-                lastName: true,
-                email: true,
-              },
-            },
+            freelancer: { select: userPublicProfileSelect },
+            revisions: { orderBy: { createdAt: "desc" } },
+            offers: { orderBy: { createdAt: "asc" } },
+            milestonePlan: { orderBy: { position: "asc" } },
           },
           orderBy: { createdAt: "desc" },
         });
 
-        res.json({ success: true, data: taskBids });
+        // Shortlists, rejection reasons and negotiations are private to the client and that bidder.
+        const isTaskClient =
+          task?.clientId === req.user?.id || req.user?.role === UserRole.admin;
+        const ratings = await getRatingStats(
+          prisma,
+          taskBids.map((bid) => bid.freelancerId)
+        );
+        const visibleBids = taskBids.map((taskBid) => {
+          const bid = {
+            ...taskBid,
+            freelancerRating: ratings.get(taskBid.freelancerId) ?? null,
+          };
+          return isTaskClient || bid.freelancerId === req.user?.id
+            ? bid
+            : { ...bid, isShortlisted: false, rejectionReason: null, offers: [] };
+        });
+
+        res.json({ success: true, data: visibleBids });
       } catch (error: unknown) {
         const errorMessage =
           error instanceof Error ? error.message : "Failed to fetch bids";
@@ -82,6 +197,69 @@ export const createBidsRouter = (prisma: PrismaClient) => {
     }
   );
 
+  // GET /api/bids/task/:taskId/fee-estimate?amount= - The service fee the current freelancer
+  // would pay on this amount, so it can be shown before they bid
+  router.get(
+    "/task/:taskId/fee-estimate",
+    [
+      query("amount")
+        .isFloat({ gt: 0 })
+        .withMessage("Amount must be a positive number"),
+    ],
+    async (
+      req: AuthRequest<TaskIdParams, ApiResponse, {}, { amount: string }>,
+      res: Response<ApiResponse<FeeEstimate | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        if (!req.user || req.user.role !== UserRole.freelancer) {
+          return res.status(403).json({
+            success: false,
+            error: "Only freelancers can estimate fees.",
+          });
+        }
+        const task = await prisma.task.findUnique({
+          where: { id: req.params.taskId },
+          select: { clientId: true, category: true },
+        });
+        if (!task) {
+          return res.status(404).json({ success: false, error: "Task not found." });
+        }
+
+        const amountCents = toCents(Number(req.query.amount));
+        const quote = await quoteFee(prisma, {
+          clientId: task.clientId,
+          freelancerId: req.user.id,
+          category: task.category,
+          amountCents,
+        });
+        res.json({
+          success: true,
+          data: {
+            amount: fromCents(amountCents),
+            fee: fromCents(quote.feeCents),
+            net: fromCents(amountCents - quote.feeCents),
+            effectivePercent: quote.effectivePercent,
+            minimumApplied: quote.minimumApplied,
+            priorBillings: fromCents(quote.priorBillingsCents),
+          },
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to estimate the fee";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
   // POST /api/bids - Submit a new bid for a task
   router.post(
     "/",
@@ -98,6 +276,7 @@ export const createBidsRouter = (prisma: PrismaClient) => {
         .trim()
         .isLength({ min: 1 })
         .withMessage("Timeline is required"),
+      ...milestonePlanValidators(),
     ],
     async (
       req: AuthRequest<{}, ApiResponse<Bid>, CreateBidRequestBody>,
@@ -120,9 +299,16 @@ export const createBidsRouter = (prisma: PrismaClient) => {
           });
         }
 
-        const { taskId, amount, proposal, timeline } = req.body;
+        const { taskId, amount, proposal, timeline, milestones = [] } = req.body;
         const freelancerId = req.user.id;
 
+        if (planTotalCents(milestones) > toCents(amount)) {
+          return res.status(400).json({
+            success: false,
+            error: "The milestone plan adds up to more than the bid amount.",
+          });
+        }
+
         const task = await prisma.task.findUnique({ where: { id: taskId } });
         if (!task) {
           return res
@@ -153,7 +339,14 @@ export const createBidsRouter = (prisma: PrismaClient) => {
         }
 
         const newBid: Bid = await prisma.bid.create({
-          data: { taskId, freelancerId, amount, proposal, timeline },
+          data: {
+            taskId,
+            freelancerId,
+            amount,
+            proposal,
+            timeline,
+            milestonePlan: { create: toPlanRows(milestones) },
+          },
         });
 
         // --- REAL-TIME NOTIFICATION ---
@@ -178,6 +371,586 @@ export const createBidsRouter = (prisma: PrismaClient) => {
     }
   );
 
+  // PATCH /api/bids/:bidId - The bidder revises a pending bid; the previous terms are kept as a revision
+  router.patch(
+    "/:bidId",
+    [
+      body("amount")
+        .optional()
+        .isFloat({ gt: 0 })
+        .toFloat()
+        .withMessage("Amount must be a positive number"),
+      body("proposal")
+        .optional()
+        .trim()
+        .isLength({ min: 30 })
+        .withMessage("Proposal must be at least 30 characters long"),
+      body("timeline")
+        .optional()
+        .trim()
+        .isLength({ min: 1 })
+        .withMessage("Timeline is required"),
+      ...milestonePlanValidators(),
+    ],
+    async (
+      req: AuthRequest<{ bidId: string }, ApiResponse<Bid>, UpdateBidRequestBody>,
+      res: Response<ApiResponse<Bid | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const bid = await prisma.bid.findUnique({
+          where: { id: req.params.bidId },
+          include: { task: true, milestonePlan: true },
+        });
+        if (!bid) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Bid not found." });
+        }
+        if (bid.freelancerId !== req.user?.id) {
+          return res.status(403).json({
+            success: false,
+            error: "You can only edit your own bids.",
+          });
+        }
+        if (bid.status !== BidStatus.pending || bid.task.status !== TaskStatus.open) {
+          return res.status(400).json({
+            success: false,
+            error: "Bids can only be edited while they are pending and the task is open.",
+          });
+        }
+
+        const pendingOffer = await prisma.bidOffer.findFirst({
+          where: { bidId: bid.id, status: OfferStatus.pending },
+        });
+        if (pendingOffer) {
+          return res.status(409).json({
+            success: false,
+            error: "Resolve the open counter-offer before editing your bid.",
+          });
+        }
+
+        const { amount = bid.amount, proposal = bid.proposal, timeline = bid.timeline } = req.body;
+        const milestones =
+          req.body.milestones && !isSamePlan(req.body.milestones, bid.milestonePlan)
+            ? req.body.milestones
+            : undefined;
+        if (
+          amount === bid.amount &&
+          proposal === bid.proposal &&
+          timeline === bid.timeline &&
+          milestones === undefined
+        ) {
+          return res.status(400).json({
+            success: false,
+            error: "No changes to save.",
+          });
+        }
+        if (planTotalCents(milestones ?? bid.milestonePlan) > toCents(amount)) {
+          return res.status(400).json({
+            success: false,
+            error: "The milestone plan adds up to more than the bid amount.",
+          });
+        }
+
+        const [, updatedBid] = await prisma.$transaction([
+          prisma.bidRevision.create({
+            data: {
+              bidId: bid.id,
+              amount: bid.amount,
+              proposal: bid.proposal,
+              timeline: bid.timeline,
+            },
+          }),
+          prisma.bid.update({
+            where: { id: bid.id },
+            data: {
+              amount,
+              proposal,
+              timeline,
+              // A new plan replaces the old one outright.
+              ...(milestones && {
+                milestonePlan: { deleteMany: {}, create: toPlanRows(milestones) },
+              }),
+            },
+          }),
+        ]);
+
+        const amountChange = amount !== bid.amount ? ` (now $${amount}, was $${bid.amount})` : "";
+        await notifyUser(
+          prisma,
+          bid.task.clientId,
+          `A bid on your project "${bid.task.title}" was updated${amountChange}.`
+        );
+
+        res.json({
+          success: true,
+          message: "Bid updated successfully",
+          data: updatedBid,
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to update bid";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // PATCH /api/bids/:bidId/withdraw - The bidder pulls a pending bid off the table
+  router.patch(
+    "/:bidId/withdraw",
+    async (req: AuthRequest<{ bidId: string }>, res: Response<ApiResponse<Bid>>) => {
+      try {
+        const bid = await prisma.bid.findUnique({
+          where: { id: req.params.bidId },
+          include: { task: true },
+        });
+        if (!bid) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Bid not found." });
+        }
+        if (bid.freelancerId !== req.user?.id) {
+          return res.status(403).json({
+            success: false,
+            error: "You can only withdraw your own bids.",
+          });
+        }
+        if (bid.status !== BidStatus.pending || bid.task.status !== TaskStatus.open) {
+          return res.status(400).json({
+            success: false,
+            error: "Bids can only be withdrawn while they are pending and the task is open.",
+          });
+        }
+
+        const withdrawnBid = await prisma.bid.update({
+          where: { id: bid.id },
+          data: { status: BidStatus.withdrawn, offers: cancelPendingOffers() },
+        });
+
+        await notifyUser(
+          prisma,
+          bid.task.clientId,
+          `A $${bid.amount} bid on your project "${bid.task.title}" was withdrawn.`
+        );
+
+        res.json({
+          success: true,
+          message: "Bid withdrawn",
+          data: withdrawnBid,
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to withdraw bid";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // PATCH /api/bids/:bidId/reject - The task owner turns down a single bid
+  router.patch(
+    "/:bidId/reject",
+    [
+      body("reason")
+        .optional()
+        .trim()
+        .isLength({ max: 500 })
+        .withMessage("Reason must be at most 500 characters"),
+    ],
+    async (
+      req: AuthRequest<{ bidId: string }, ApiResponse<Bid>, RejectBidRequestBody>,
+      res: Response<ApiResponse<Bid | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const bid = await prisma.bid.findUnique({
+          where: { id: req.params.bidId },
+          include: { task: true },
+        });
+        if (!bid) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Bid not found." });
+        }
+        if (bid.task.clientId !== req.user?.id) {
+          return res.status(403).json({
+            success: false,
+            error: "You are not authorized to reject bids for this task.",
+          });
+        }
+        if (bid.status !== BidStatus.pending || bid.task.status !== TaskStatus.open) {
+          return res.status(400).json({
+            success: false,
+            error: "Only pending bids on an open task can be rejected.",
+          });
+        }
+
+        const reason = req.body.reason || null;
+        const rejectedBid = await prisma.bid.update({
+          where: { id: bid.id },
+          data: {
+            status: BidStatus.rejected,
+            rejectionReason: reason,
+            isShortlisted: false,
+            offers: cancelPendingOffers(),
+          },
+        });
+
+        await notifyUser(
+          prisma,
+          bid.freelancerId,
+          `Your bid on "${bid.task.title}" was declined.${reason ? ` Reason: ${reason}` : ""}`
+        );
+
+        res.json({
+          success: true,
+          message: "Bid rejected",
+          data: rejectedBid,
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to reject bid";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // PATCH /api/bids/:bidId/shortlist - The task owner marks or unmarks a pending bid as a favourite
+  router.patch(
+    "/:bidId/shortlist",
+    [
+      body("shortlisted")
+        .isBoolean()
+        .toBoolean()
+        .withMessage("shortlisted must be true or false"),
+    ],
+    async (
+      req: AuthRequest<{ bidId: string }, ApiResponse<Bid>, ShortlistBidRequestBody>,
+      res: Response<ApiResponse<Bid | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const bid = await prisma.bid.findUnique({
+          where: { id: req.params.bidId },
+          include: { task: true },
+        });
+        if (!bid) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Bid not found." });
+        }
+        if (bid.task.clientId !== req.user?.id) {
+          return res.status(403).json({
+            success: false,
+            error: "You are not authorized to shortlist bids for this task.",
+          });
+        }
+        if (bid.status !== BidStatus.pending) {
+          return res.status(400).json({
+            success: false,
+            error: "Only pending bids can be shortlisted.",
+          });
+        }
+
+        const updatedBid = await prisma.bid.update({
+          where: { id: bid.id },
+          data: { isShortlisted: req.body.shortlisted },
+        });
+
+        res.json({
+          success: true,
+          message: req.body.shortlisted ? "Bid shortlisted" : "Bid removed from shortlist",
+          data: updatedBid,
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to update shortlist";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // POST /api/bids/:bidId/offers - Propose new terms for a pending bid.
+  // The client opens a negotiation; after that each side answers the other's open offer with a counter.
+  router.post(
+    "/:bidId/offers",
+    [
+      body("amount")
+        .isFloat({ gt: 0 })
+        .toFloat()
+        .withMessage("Amount must be a positive number"),
+      body("timeline")
+        .trim()
+        .isLength({ min: 1 })
+        .withMessage("Timeline is required"),
+      body("message")
+        .optional()
+        .trim()
+        .isLength({ max: 1000 })
+        .withMessage("Message must be at most 1000 characters"),
+    ],
+    async (
+      req: AuthRequest<{ bidId: string }, ApiResponse<BidOffer>, CreateBidOfferRequestBody>,
+      res: Response<ApiResponse<BidOffer | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const userId = req.user?.id;
+        const bid = await prisma.bid.findUnique({
+          where: { id: req.params.bidId },
+          include: {
+            task: true,
+            offers: { where: { status: OfferStatus.pending } },
+          },
+        });
+        if (!bid) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Bid not found." });
+        }
+
+        const isClient = bid.task.clientId === userId;
+        if (!isClient && bid.freelancerId !== userId) {
+          return res.status(403).json({
+            success: false,
+            error: "Only the client and the bidder can negotiate this bid.",
+          });
+        }
+        if (bid.status !== BidStatus.pending || bid.task.status !== TaskStatus.open) {
+          return res.status(400).json({
+            success: false,
+            error: "Only pending bids on an open task can be negotiated.",
+          });
+        }
+
+        const [openOffer] = bid.offers;
+        if (!openOffer && !isClient) {
+          return res.status(400).json({
+            success: false,
+            error: "To change your terms without a counter-offer, edit your bid instead.",
+          });
+        }
+        if (openOffer?.proposerId === userId) {
+          return res.status(409).json({
+            success: false,
+            error: "You are still waiting for a response to your last offer.",
+          });
+        }
+
+        const { amount, timeline, message } = req.body;
+        const offer = await prisma.$transaction(async (tx) => {
+          if (openOffer) {
+            await tx.bidOffer.update({
+              where: { id: openOffer.id },
+              data: { status: OfferStatus.countered, respondedAt: new Date() },
+            });
+          }
+          return tx.bidOffer.create({
+            data: { bidId: bid.id, proposerId: userId!, amount, timeline, message },
+          });
+        });
+
+        const recipientId = isClient ? bid.freelancerId : bid.task.clientId;
+        const verb = openOffer ? "countered with" : "proposed";
+        await notifyUser(
+          prisma,
+          recipientId,
+          `${isClient ? "The client" : "The freelancer"} ${verb} $${amount} (${timeline}) for "${bid.task.title}".`
+        );
+        emitNegotiationUpdate(bid, bid.task.clientId);
+
+        res.status(201).json({
+          success: true,
+          message: openOffer ? "Counter-offer sent" : "Offer sent",
+          data: offer,
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to send offer";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // Shared by the accept and decline routes below; only the party that received the offer may answer it.
+  const respondToOffer =
+    (accepted: boolean) =>
+    async (
+      req: AuthRequest<BidOfferParams>,
+      res: Response<ApiResponse<BidOffer>>
+    ) => {
+      try {
+        const { bidId, offerId } = req.params;
+        const offer = await prisma.bidOffer.findFirst({
+          where: { id: offerId, bidId },
+          include: { bid: { include: { task: true } } },
+        });
+        if (!offer) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Offer not found." });
+        }
+
+        const { bid } = offer;
+        const userId = req.user?.id;
+        const isClient = bid.task.clientId === userId;
+        if ((!isClient && bid.freelancerId !== userId) || offer.proposerId === userId) {
+          return res.status(403).json({
+            success: false,
+            error: "Only the other party can respond to this offer.",
+          });
+        }
+        if (offer.status !== OfferStatus.pending) {
+          return res.status(400).json({
+            success: false,
+            error: "This offer has already been answered.",
+          });
+        }
+
+        const updatedOffer = await prisma.$transaction(async (tx) => {
+          const answered = await tx.bidOffer.update({
+            where: { id: offer.id },
+            data: {
+              status: accepted ? OfferStatus.accepted : OfferStatus.declined,
+              respondedAt: new Date(),
+            },
+          });
+          if (accepted) {
+            // The agreed terms become the bid, so hiring later uses them; the old terms stay in the history.
+            await tx.bidRevision.create({
+              data: {
+                bidId: bid.id,
+                amount: bid.amount,
+                proposal: bid.proposal,
+                timeline: bid.timeline,
+              },
+            });
+            await tx.bid.update({
+              where: { id: bid.id },
+              data: { amount: offer.amount, timeline: offer.timeline },
+            });
+          }
+          return answered;
+        });
+
+        await notifyUser(
+          prisma,
+          offer.proposerId,
+          accepted
+            ? `Your offer of $${offer.amount} (${offer.timeline}) for "${bid.task.title}" was accepted.`
+            : `Your offer of $${offer.amount} for "${bid.task.title}" was declined.`
+        );
+        emitNegotiationUpdate(bid, bid.task.clientId);
+
+        res.json({
+          success: true,
+          message: accepted ? "Offer accepted. The bid now reflects the agreed terms." : "Offer declined",
+          data: updatedOffer,
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to respond to offer";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    };
+
+  // PATCH /api/bids/:bidId/offers/:offerId/accept - Agree to the offer; the bid takes the offered terms
+  router.patch("/:bidId/offers/:offerId/accept", respondToOffer(true));
+
+  // PATCH /api/bids/:bidId/offers/:offerId/decline - Turn the offer down; the bid keeps its current terms
+  router.patch("/:bidId/offers/:offerId/decline", respondToOffer(false));
+
+  // PATCH /api/bids/:bidId/offers/:offerId/cancel - The proposer takes back an offer nobody has answered yet
+  router.patch(
+    "/:bidId/offers/:offerId/cancel",
+    async (
+      req: AuthRequest<BidOfferParams>,
+      res: Response<ApiResponse<BidOffer>>
+    ) => {
+      try {
+        const { bidId, offerId } = req.params;
+        const offer = await prisma.bidOffer.findFirst({
+          where: { id: offerId, bidId },
+          include: { bid: { include: { task: true } } },
+        });
+        if (!offer) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Offer not found." });
+        }
+        if (offer.proposerId !== req.user?.id) {
+          return res.status(403).json({
+            success: false,
+            error: "You can only cancel your own offers.",
+          });
+        }
+        if (offer.status !== OfferStatus.pending) {
+          return res.status(400).json({
+            success: false,
+            error: "This offer has already been answered.",
+          });
+        }
+
+        const cancelledOffer = await prisma.bidOffer.update({
+          where: { id: offer.id },
+          data: { status: OfferStatus.cancelled, respondedAt: new Date() },
+        });
+
+        const { bid } = offer;
+        const recipientId =
+          offer.proposerId === bid.task.clientId ? bid.freelancerId : bid.task.clientId;
+        await notifyUser(
+          prisma,
+          recipientId,
+          `An offer of $${offer.amount} for "${bid.task.title}" was withdrawn.`
+        );
+        emitNegotiationUpdate(bid, bid.task.clientId);
+
+        res.json({
+          success: true,
+          message: "Offer cancelled",
+          data: cancelledOffer,
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to cancel offer";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
   // PATCH /api/bids/:bidId/accept - Accept a bid and hire the freelancer
   router.patch(
     "/:bidId/accept",
@@ -194,7 +967,12 @@ export const createBidsRouter = (prisma: PrismaClient) => {
 
         const bidToAccept = await prisma.bid.findUnique({
           where: { id: bidId },
-          include: { task: true, freelancer: true },
+          include: {
+            task: true,
+            freelancer: true,
+            offers: { where: { status: OfferStatus.pending } },
+            milestonePlan: { orderBy: { position: "asc" } },
+          },
         });
 
         if (!bidToAccept) {
@@ -210,6 +988,13 @@ export const createBidsRouter = (prisma: PrismaClient) => {
           });
         }
 
+        if (bidToAccept.status !== BidStatus.pending) {
+          return res.status(400).json({
+            success: false,
+            error: "Only pending bids can be accepted.",
+          });
+        }
+
         if (bidToAccept.task.status !== "open") {
           return res.status(400).json({
             success: false,
@@ -217,32 +1002,87 @@ export const createBidsRouter = (prisma: PrismaClient) => {
           });
         }
 
-        // --- DATABASE TRANSACTION ---
-        await prisma.$transaction(async (tx) => {
-          // 1. Accept the winning bid
-          await tx.bid.update({
-            where: { id: bidId },
-            data: { status: BidStatus.accepted },
+        // Hiring always uses agreed terms, so an unanswered offer has to be settled first.
+        if (bidToAccept.offers.length > 0) {
+          return res.status(400).json({
+            success: false,
+            error: "This bid has an open counter-offer. Settle or cancel it before hiring.",
           });
+        }
 
-          // 2. Reject all other bids for this task
-          await tx.bid.updateMany({
-            where: { taskId: bidToAccept.taskId, NOT: { id: bidId } },
-            data: { status: BidStatus.rejected },
+        // Counter-offers can lower the amount after the plan was written.
+        const planCents = planTotalCents(bidToAccept.milestonePlan);
+        if (planCents > toCents(bidToAccept.amount)) {
+          return res.status(400).json({
+            success: false,
+            error: "This bid's milestone plan adds up to more than the agreed amount. Ask the freelancer to update it before hiring.",
           });
+        }
 
-          // 3. Update the task status to 'assigned'
-          await tx.task.update({
-            where: { id: bidToAccept.taskId },
-            data: { status: TaskStatus.assigned },
-          });
-        });
+        // --- DATABASE TRANSACTION ---
+        // The milestone plan becomes real milestones, charged and funded into escrow in one go.
+        await fundMilestonesWithCharge(
+          prisma,
+          {
+            clientId,
+            taskId: bidToAccept.taskId,
+            amount: fromCents(planCents),
+            description: `Escrow for the milestone plan of "${bidToAccept.task.title}"`,
+          },
+          async (tx) => {
+            // 1. Accept the winning bid
+            await tx.bid.update({
+              where: { id: bidId },
+              data: { status: BidStatus.accepted },
+            });
+
+            // 2. Reject all other bids for this task (withdrawn bids keep their status)
+            await tx.bid.updateMany({
+              where: { taskId: bidToAccept.taskId, status: BidStatus.pending, NOT: { id: bidId } },
+              data: {
+                status: BidStatus.rejected,
+                rejectionReason: "The client hired another freelancer.",
+              },
+            });
+            await tx.bidOffer.updateMany({
+              where: { bid: { taskId: bidToAccept.taskId }, status: OfferStatus.pending },
+              data: { status: OfferStatus.cancelled, respondedAt: new Date() },
+            });
+
+            // 3. Move the task to 'assigned' and carry the pre-hire thread into its chat
+            await transitionTaskStatus(tx, bidToAccept.task, TaskStatus.assigned);
+            await mergeBidThreadIntoTaskChat(tx, bidToAccept.taskId, bidId);
+
+            // 4. Materialise the freelancer's milestone plan, in order
+            const firstPosition = await nextMilestonePosition(tx, bidToAccept.taskId);
+            const milestones = [];
+            for (const stage of bidToAccept.milestonePlan) {
+              milestones.push(
+                await tx.milestone.create({
+                  data: {
+                    taskId: bidToAccept.taskId,
+                    title: stage.title,
+                    description: stage.description,
+                    amount: stage.amount,
+                    dueDate: stage.dueDate,
+                    position: firstPosition + stage.position,
+                    status: MilestoneStatus.pending,
+                  },
+                })
+              );
+            }
+            return { milestones, result: undefined };
+          }
+        );
 
         // --- NOTIFICATIONS & REAL-TIME EVENTS (Post-Transaction) ---
         const io = getSocketIoInstance();
 
         // Notify the winning freelancer
-        const freelancerMessage = `Congratulations! Your bid for "${bidToAccept.task.title}" has been accepted.`;
+        const planCount = bidToAccept.milestonePlan.length;
+        const freelancerMessage = `Congratulations! Your bid for "${bidToAccept.task.title}" has been accepted.${
+          planCount > 0 ? ` The ${planCount} milestone(s) from your plan are funded in escrow.` : ""
+        }`;
         const freelancerNotification = await prisma.notification.create({
           data: {
             userId: bidToAccept.freelancerId,
@@ -271,6 +1111,12 @@ export const createBidsRouter = (prisma: PrismaClient) => {
           message: "Bid accepted and freelancer hired successfully.",
         });
       } catch (error: unknown) {
+        if (error instanceof TaskStatusTransitionError || error instanceof LedgerError) {
+          return res.status(400).json({ success: false, error: error.message });
+        }
+        if (error instanceof PaymentDeclinedError) {
+          return res.status(402).json({ success: false, error: error.message });
+        }
         console.error("Accept bid error:", error);
         const errorMessage =
           error instanceof Error ? error.message : "Failed to accept bid.";
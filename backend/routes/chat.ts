@@ -0,0 +1,312 @@
+// backend/routes/chat.ts
+import express, { NextFunction, Response } from "express";
+import {
+  body,
+  matchedData,
+  param,
+  query,
+  ValidationError,
+  validationResult,
+} from "express-validator";
+import { PrismaClient } from "@prisma/client";
+import {
+  ApiResponse,
+  AuthRequest,
+  MessageHistory,
+  MessageListQuery,
+  MessageWithSender,
+  UserRole,
+} from "../types";
+import {
+  createMessage,
+  deleteMessage,
+  editMessage,
+  getMessageHistory,
+  getMessagePage,
+  isUserAuthorizedForThread,
+  MAX_MESSAGE_LENGTH,
+  MAX_MESSAGE_PAGE_SIZE,
+  MessageRuleError,
+  toChatThread,
+} from "../services/chat.service";
+import {
+  createStorageKey,
+  getStorageDriver,
+} from "../services/storage.service";
+import { handleAttachmentUpload } from "../middleware/upload";
+import { requireRole } from "../middleware/auth";
+import { broadcastMessageUpdate, broadcastNewMessage } from "../socket";
+
+const router = express.Router();
+
+type ThreadParams = { taskId: string; bidId?: string };
+
+export const createChatRouter = (prisma: PrismaClient) => {
+  // GET /api/chat/task/:taskId?cursor=&limit= - Chat history, newest first
+  // GET /api/chat/task/:taskId/bid/:bidId?cursor=&limit= - The same for a bid's pre-hire thread
+  router.get(
+    "/task/:taskId{/bid/:bidId}",
+    [
+      query("cursor")
+        .optional()
+        .isUUID()
+        .withMessage("Cursor must be a valid message ID"),
+      query("limit")
+        .optional()
+        .isInt({ min: 1, max: MAX_MESSAGE_PAGE_SIZE })
+        .toInt()
+        .withMessage(`Limit must be between 1 and ${MAX_MESSAGE_PAGE_SIZE}`),
+    ],
+    async (
+      req: AuthRequest<ThreadParams>,
+      res: Response<ApiResponse<MessageWithSender[] | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const thread = toChatThread(req.params);
+        if (!(await isUserAuthorizedForThread(prisma, req.user!.id, thread))) {
+          return res.status(403).json({
+            success: false,
+            error: "You are not authorized to view this chat.",
+          });
+        }
+
+        // Express 5 re-parses req.query on every access, so read the sanitized values instead.
+        const page = matchedData(req, { locations: ["query"] }) as MessageListQuery;
+        const { messages, meta } = await getMessagePage(prisma, thread, page);
+        res.json({ success: true, data: messages, meta });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to fetch messages.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // POST /api/chat/task/:taskId/messages - Send a message with files (multipart, field name "files")
+  // POST /api/chat/task/:taskId/bid/:bidId/messages - The same in a bid's pre-hire thread
+  router.post(
+    "/task/:taskId{/bid/:bidId}/messages",
+    // Check the thread before accepting any file data.
+    async (
+      req: AuthRequest<ThreadParams>,
+      res: Response<ApiResponse>,
+      next: NextFunction
+    ) => {
+      try {
+        const thread = toChatThread(req.params);
+        const canPost = await isUserAuthorizedForThread(
+          prisma,
+          req.user!.id,
+          thread,
+          { toPost: true }
+        );
+        if (!canPost) {
+          return res.status(403).json({
+            success: false,
+            error: "You are not authorized to send messages to this chat.",
+          });
+        }
+        next();
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to send message.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    },
+    handleAttachmentUpload,
+    [
+      body("content")
+        .optional()
+        .isString()
+        .isLength({ max: MAX_MESSAGE_LENGTH })
+        .withMessage(`Message must be at most ${MAX_MESSAGE_LENGTH} characters`),
+    ],
+    async (
+      req: AuthRequest<ThreadParams>,
+      res: Response<ApiResponse<MessageWithSender | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+        const content: string = req.body.content ?? "";
+
+        const storage = getStorageDriver();
+        const stored = [];
+        for (const file of files) {
+          const storageKey = createStorageKey(file.originalname);
+          await storage.save(storageKey, file.buffer);
+          stored.push({
+            fileName: file.originalname,
+            mimeType: file.mimetype,
+            size: file.size,
+            storageKey,
+          });
+        }
+
+        const message = await createMessage(
+          prisma,
+          toChatThread(req.params),
+          req.user!.id,
+          content,
+          stored
+        );
+        await broadcastNewMessage(prisma, message);
+        res.status(201).json({ success: true, data: message });
+      } catch (error: unknown) {
+        if (error instanceof MessageRuleError) {
+          return res.status(400).json({ success: false, error: error.message });
+        }
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to send message.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // PATCH /api/chat/messages/:messageId - The sender corrects a recent message
+  router.patch(
+    "/messages/:messageId",
+    [
+      param("messageId").isUUID().withMessage("Valid message ID is required"),
+      body("content")
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: MAX_MESSAGE_LENGTH })
+        .withMessage(
+          `Message must be between 1 and ${MAX_MESSAGE_LENGTH} characters`
+        ),
+    ],
+    async (
+      req: AuthRequest<{ messageId: string }>,
+      res: Response<ApiResponse<MessageWithSender | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const message = await editMessage(
+          prisma,
+          req.params.messageId,
+          req.user!.id,
+          req.body.content
+        );
+        if (!message) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Message not found." });
+        }
+        broadcastMessageUpdate(message);
+        res.json({ success: true, message: "Message edited.", data: message });
+      } catch (error: unknown) {
+        if (error instanceof MessageRuleError) {
+          return res.status(400).json({ success: false, error: error.message });
+        }
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to edit message.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // DELETE /api/chat/messages/:messageId - The sender retracts a recent message
+  router.delete(
+    "/messages/:messageId",
+    [param("messageId").isUUID().withMessage("Valid message ID is required")],
+    async (
+      req: AuthRequest<{ messageId: string }>,
+      res: Response<ApiResponse<MessageWithSender | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const message = await deleteMessage(
+          prisma,
+          req.params.messageId,
+          req.user!.id
+        );
+        if (!message) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Message not found." });
+        }
+        broadcastMessageUpdate(message);
+        res.json({ success: true, message: "Message deleted.", data: message });
+      } catch (error: unknown) {
+        if (error instanceof MessageRuleError) {
+          return res.status(400).json({ success: false, error: error.message });
+        }
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to delete message.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // GET /api/chat/messages/:messageId/history - Admin only: the stored message and its earlier versions
+  router.get(
+    "/messages/:messageId/history",
+    requireRole([UserRole.admin]),
+    [param("messageId").isUUID().withMessage("Valid message ID is required")],
+    async (
+      req: AuthRequest<{ messageId: string }>,
+      res: Response<ApiResponse<MessageHistory | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const history = await getMessageHistory(prisma, req.params.messageId);
+        if (!history) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Message not found." });
+        }
+        res.json({ success: true, data: history });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to fetch message history.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  return router;
+};
@@ -0,0 +1,96 @@
+// backend/routes/conversations.ts
+import express, { Response } from "express";
+import {
+  matchedData,
+  query,
+  ValidationError,
+  validationResult,
+} from "express-validator";
+import { PrismaClient } from "@prisma/client";
+import {
+  ApiResponse,
+  AuthRequest,
+  ConversationListQuery,
+  ConversationSummary,
+} from "../types";
+import {
+  countUnreadConversationMessages,
+  listConversations,
+  MAX_CONVERSATION_PAGE_SIZE,
+} from "../services/chat.service";
+
+const router = express.Router();
+
+export const createConversationsRouter = (prisma: PrismaClient) => {
+  // GET /api/conversations - The user's inbox, one page at a time: chats with their last message and unread count
+  router.get(
+    "/",
+    [
+      query("cursor")
+        .optional()
+        .isUUID()
+        .withMessage("Cursor must be a valid task or bid ID"),
+      query("limit")
+        .optional()
+        .isInt({ min: 1, max: MAX_CONVERSATION_PAGE_SIZE })
+        .toInt()
+        .withMessage(`Limit must be between 1 and ${MAX_CONVERSATION_PAGE_SIZE}`),
+    ],
+    async (
+      req: AuthRequest,
+      res: Response<ApiResponse<ConversationSummary[] | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const page = matchedData(req, {
+          locations: ["query"],
+        }) as ConversationListQuery;
+        const { conversations, meta } = await listConversations(
+          prisma,
+          req.user!.id,
+          page
+        );
+        res.json({ success: true, data: conversations, meta });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to fetch conversations.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // GET /api/conversations/unread-count - Unread messages across every chat, for the navigation badge
+  router.get(
+    "/unread-count",
+    async (
+      req: AuthRequest,
+      res: Response<ApiResponse<{ unreadCount: number }>>
+    ) => {
+      try {
+        const unreadCount = await countUnreadConversationMessages(
+          prisma,
+          req.user!.id
+        );
+        res.json({ success: true, data: { unreadCount } });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to count unread messages.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  return router;
+};
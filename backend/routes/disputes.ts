@@ -0,0 +1,288 @@
+// backend/routes/disputes.ts
+import express, { Response } from "express";
+import {
+  body,
+  param,
+  ValidationError,
+  validationResult,
+} from "express-validator";
+import {
+  BidStatus,
+  DisputeStatus,
+  MilestoneEventType,
+  MilestoneStatus,
+  PrismaClient,
+  UserRole,
+} from "@prisma/client";
+import {
+  ApiResponse,
+  AuthRequest,
+  Dispute,
+  DisputeDetail,
+  DisputeEvidenceRequestBody,
+  DisputeEvidenceWithAuthor,
+  DisputeIdParams,
+  OpenDisputeRequestBody,
+} from "../types";
+import { notifyUsers } from "../services/notification.service";
+import {
+  canAccessDispute,
+  disputeDetailInclude,
+  findDisputeParties,
+} from "../services/dispute.service";
+
+const router = express.Router();
+
+// Paid and cancelled milestones are settled; a disputed one already has a case open.
+const DISPUTABLE_STATUSES: MilestoneStatus[] = [
+  MilestoneStatus.pending,
+  MilestoneStatus.in_progress,
+  MilestoneStatus.completed,
+];
+
+const disputeIdValidator = () =>
+  param("disputeId").isUUID().withMessage("Valid dispute ID is required");
+
+export const createDisputesRouter = (prisma: PrismaClient) => {
+  // POST /api/disputes - The client or hired freelancer disputes a milestone
+  router.post(
+    "/",
+    [
+      body("milestoneId").isUUID().withMessage("Valid milestone ID is required"),
+      body("reason")
+        .trim()
+        .isLength({ min: 20, max: 2000 })
+        .withMessage("Reason must be between 20 and 2000 characters"),
+    ],
+    async (
+      req: AuthRequest<{}, ApiResponse<Dispute>, OpenDisputeRequestBody>,
+      res: Response<ApiResponse<Dispute | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const { milestoneId, reason } = req.body;
+        const userId = req.user!.id;
+
+        const milestone = await prisma.milestone.findUnique({
+          where: { id: milestoneId },
+          include: {
+            task: {
+              include: {
+                bids: {
+                  where: { status: BidStatus.accepted },
+                  select: { freelancerId: true },
+                },
+              },
+            },
+          },
+        });
+        if (!milestone) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Milestone not found." });
+        }
+
+        const { clientId } = milestone.task;
+        const freelancerId = milestone.task.bids[0]?.freelancerId;
+        if (!freelancerId) {
+          return res.status(400).json({
+            success: false,
+            error: "Only milestones of an assigned task can be disputed.",
+          });
+        }
+        if (userId !== clientId && userId !== freelancerId) {
+          return res.status(403).json({
+            success: false,
+            error:
+              "Only the client and the hired freelancer can dispute this milestone.",
+          });
+        }
+
+        if (!DISPUTABLE_STATUSES.includes(milestone.status)) {
+          return res.status(400).json({
+            success: false,
+            error:
+              milestone.status === MilestoneStatus.disputed
+                ? "This milestone is already under dispute."
+                : `A ${milestone.status} milestone cannot be disputed.`,
+          });
+        }
+
+        const dispute = await prisma.$transaction(async (tx) => {
+          // Freezes release, auto-release and revision requests until an admin rules.
+          const { count } = await tx.milestone.updateMany({
+            where: { id: milestoneId, status: milestone.status },
+            data: { status: MilestoneStatus.disputed, autoReleaseAt: null },
+          });
+          if (count === 0) {
+            throw new Error(
+              "The milestone was modified by another request. Please retry."
+            );
+          }
+          await tx.milestoneEvent.create({
+            data: {
+              milestoneId,
+              actorId: userId,
+              type: MilestoneEventType.dispute_opened,
+              feedback: reason,
+            },
+          });
+          return tx.dispute.create({
+            data: { milestoneId, openedById: userId, reason },
+          });
+        });
+
+        const admins = await prisma.user.findMany({
+          where: { role: UserRole.admin },
+          select: { id: true },
+        });
+        const otherParty = userId === clientId ? freelancerId : clientId;
+        await notifyUsers(
+          prisma,
+          [otherParty, ...admins.map((admin) => admin.id)],
+          `A dispute was opened on milestone "${milestone.title}" of "${milestone.task.title}". Payments on it are frozen until it is resolved.`
+        );
+
+        res.status(201).json({
+          success: true,
+          message: "Dispute opened. An admin will review it.",
+          data: dispute,
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to open dispute.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // GET /api/disputes/:disputeId - The dispute with its evidence, for the parties and admins
+  router.get(
+    "/:disputeId",
+    [disputeIdValidator()],
+    async (
+      req: AuthRequest<DisputeIdParams>,
+      res: Response<ApiResponse<DisputeDetail | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const { disputeId } = req.params;
+        const parties = await findDisputeParties(prisma, disputeId);
+        if (!parties) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Dispute not found." });
+        }
+        if (!canAccessDispute(parties, req.user!)) {
+          return res.status(403).json({
+            success: false,
+            error: "You are not authorized to view this dispute.",
+          });
+        }
+
+        const dispute = await prisma.dispute.findUniqueOrThrow({
+          where: { id: disputeId },
+          include: disputeDetailInclude,
+        });
+        res.json({ success: true, data: dispute });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to fetch dispute.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // POST /api/disputes/:disputeId/evidence - Add a statement to an open dispute
+  router.post(
+    "/:disputeId/evidence",
+    [
+      disputeIdValidator(),
+      body("message")
+        .trim()
+        .isLength({ min: 1, max: 2000 })
+        .withMessage("Message must be between 1 and 2000 characters"),
+    ],
+    async (
+      req: AuthRequest<
+        DisputeIdParams,
+        ApiResponse<DisputeEvidenceWithAuthor>,
+        DisputeEvidenceRequestBody
+      >,
+      res: Response<ApiResponse<DisputeEvidenceWithAuthor | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const { disputeId } = req.params;
+        const userId = req.user!.id;
+        const parties = await findDisputeParties(prisma, disputeId);
+        if (!parties) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Dispute not found." });
+        }
+        if (!canAccessDispute(parties, req.user!)) {
+          return res.status(403).json({
+            success: false,
+            error: "You are not authorized to add evidence to this dispute.",
+          });
+        }
+        if (parties.status !== DisputeStatus.open) {
+          return res.status(400).json({
+            success: false,
+            error: "This dispute has been resolved.",
+          });
+        }
+
+        const evidence = await prisma.disputeEvidence.create({
+          data: { disputeId, authorId: userId, message: req.body.message },
+          include: disputeDetailInclude.evidence.include,
+        });
+
+        await notifyUsers(
+          prisma,
+          [parties.clientId, parties.freelancerId].filter(
+            (id): id is string => Boolean(id) && id !== userId
+          ),
+          `New evidence was added to the dispute on milestone "${parties.milestoneTitle}".`
+        );
+
+        res.status(201).json({
+          success: true,
+          message: "Evidence added.",
+          data: evidence,
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to add evidence.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  return router;
+};
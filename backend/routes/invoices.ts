@@ -0,0 +1,110 @@
+// backend/routes/invoices.ts
+import express, { Response } from "express";
+import {
+  param,
+  query,
+  ValidationError,
+  validationResult,
+} from "express-validator";
+import { Invoice, InvoiceKind, PrismaClient, UserRole } from "@prisma/client";
+import { ApiResponse, AuthRequest, InvoiceSummary } from "../types";
+import { sendStoredFile } from "../services/storage.service";
+import {
+  formatDocumentNumber,
+  readInvoicePdf,
+} from "../services/invoice.service";
+
+const router = express.Router();
+
+const toInvoiceSummary = ({
+  storageKey: _storageKey,
+  ...invoice
+}: Invoice): InvoiceSummary => ({
+  ...invoice,
+  documentNumber: formatDocumentNumber(invoice),
+});
+
+export const createInvoicesRouter = (prisma: PrismaClient) => {
+  // GET /api/invoices - Invoices (as client) and receipts (as freelancer) issued to the user
+  router.get(
+    "/",
+    [
+      query("kind")
+        .optional()
+        .isIn(Object.values(InvoiceKind))
+        .withMessage(
+          `Kind must be one of: ${Object.values(InvoiceKind).join(", ")}`
+        ),
+    ],
+    async (
+      req: AuthRequest<{}, ApiResponse, {}, { kind?: InvoiceKind }>,
+      res: Response<ApiResponse<InvoiceSummary[] | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const invoices = await prisma.invoice.findMany({
+          where: { recipientId: req.user!.id, kind: req.query.kind },
+          orderBy: { number: "desc" },
+        });
+        res.json({ success: true, data: invoices.map(toInvoiceSummary) });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to fetch invoices.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // GET /api/invoices/:invoiceId/download - The PDF, for its recipient or an admin
+  router.get(
+    "/:invoiceId/download",
+    [param("invoiceId").isUUID().withMessage("Valid invoice ID is required")],
+    async (
+      req: AuthRequest<{ invoiceId: string }>,
+      res: Response<ApiResponse<ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const invoice = await prisma.invoice.findUnique({
+          where: { id: req.params.invoiceId },
+        });
+        if (
+          !invoice ||
+          (invoice.recipientId !== req.user!.id &&
+            req.user!.role !== UserRole.admin)
+        ) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Invoice not found." });
+        }
+
+        const stream = await readInvoicePdf(invoice);
+        res.attachment(`${formatDocumentNumber(invoice)}.pdf`);
+        res.type("application/pdf");
+        sendStoredFile(stream, res);
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to download invoice.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  return router;
+};
@@ -1,36 +1,115 @@
 // backend/routes/milestones.ts
 import express, { Response } from "express";
 import { body, ValidationError, validationResult } from "express-validator";
-import {
-  PrismaClient,
-  TaskStatus,
-  MilestoneStatus,
-  UserRole,
-} from "@prisma/client";
+import { BidStatus, PrismaClient, MilestoneStatus } from "@prisma/client";
 import {
   ApiResponse,
   CreateMilestoneRequestBody,
+  DeclineMilestoneRequestBody,
+  UpdateMilestoneRequestBody,
+  CancelMilestoneRequestBody,
+  ReorderMilestonesRequestBody,
   AuthRequest,
   TaskIdParams,
   Milestone,
+  MilestoneEventType,
+  MilestoneWithEvents,
+  RequestMilestoneChangesRequestBody,
+  UserRole,
 } from "../types";
 import { getSocketIoInstance } from "../socket";
+import { notifyUser } from "../services/notification.service";
+import { TaskStatusTransitionError } from "../services/taskStatus.service";
+import { PaymentDeclinedError } from "../services/payment.service";
+import { LedgerError, toCents } from "../services/ledger.service";
+import {
+  changeMilestoneAmount,
+  fundMilestonesWithCharge,
+  releaseMilestonePayment,
+  settleMilestone,
+} from "../services/milestonePayment.service";
+import {
+  assertTaskAcceptsMilestones,
+  assertValidDependency,
+  assertWithinBidAmount,
+  MilestoneRuleError,
+  nextMilestonePosition,
+} from "../services/milestone.service";
+import { getAutoReleaseDate } from "../services/autoRelease.service";
 
 const router = express.Router();
 
+// Shared by create and edit; on edit every field is optional.
+const milestoneFieldValidators = (optional: boolean) => {
+  const field = (name: string) =>
+    optional ? body(name).optional() : body(name);
+  return [
+    field("title")
+      .trim()
+      .isLength({ min: 5 })
+      .withMessage("Title must be at least 5 characters long"),
+    field("description")
+      .trim()
+      .isLength({ min: 10 })
+      .withMessage("Description must be at least 10 characters long"),
+    field("amount")
+      .isFloat({ gt: 0 })
+      .toFloat()
+      .withMessage("Amount must be a positive number"),
+    field("dueDate")
+      .isISO8601()
+      .toDate()
+      .withMessage("Due date must be a valid ISO 8601 date"),
+    // null or "" clears the dependency.
+    body("dependsOnId")
+      .optional({ values: "null" })
+      .if(body("dependsOnId").notEmpty())
+      .isUUID()
+      .withMessage("Dependency must be a valid milestone ID"),
+  ];
+};
+
+const milestoneWithTaskInclude = {
+  task: { include: { bids: { where: { status: BidStatus.accepted } } } },
+};
+
 export const createMilestonesRouter = (prisma: PrismaClient) => {
   // GET /api/milestones/task/:taskId - Fetch all milestones for a task
   router.get(
     "/task/:taskId",
     async (
-      req: AuthRequest<TaskIdParams, ApiResponse<Milestone[]>>,
-      res: Response<ApiResponse<Milestone[]>>
+      req: AuthRequest<TaskIdParams, ApiResponse<MilestoneWithEvents[]>>,
+      res: Response<ApiResponse<MilestoneWithEvents[]>>
     ) => {
       try {
         const { taskId } = req.params;
-        const taskMilestones: Milestone[] = await prisma.milestone.findMany({
+        const task = await prisma.task.findUnique({
+          where: { id: taskId },
+          include: { bids: { where: { status: BidStatus.accepted } } },
+        });
+        if (!task) {
+          return res.status(404).json({ success: false, error: "Task not found." });
+        }
+        // Revision feedback and dispute records are private to the contract's parties.
+        const userId = req.user!.id;
+        if (
+          task.clientId !== userId &&
+          task.bids[0]?.freelancerId !== userId &&
+          req.user!.role !== UserRole.admin
+        ) {
+          return res.status(403).json({
+            success: false,
+            error: "Only the client and the hired freelancer can see milestones.",
+          });
+        }
+
+        const taskMilestones = await prisma.milestone.findMany({
           where: { taskId },
-          orderBy: { createdAt: "asc" },
+          include: {
+            events: { orderBy: { createdAt: "asc" } },
+            disputes: { orderBy: { createdAt: "desc" } },
+          },
+          orderBy: [{ position: "asc" }, { createdAt: "asc" }],
         });
         res.json({ success: true, data: taskMilestones });
       } catch (error: unknown) {
@@ -46,21 +125,7 @@ export const createMilestonesRouter = (prisma: PrismaClient) => {
     "/",
     [
       body("taskId").isUUID().withMessage("Valid Task ID is required"),
-      body("title")
-        .trim()
-        .isLength({ min: 5 })
-        .withMessage("Title must be at least 5 characters long"),
-      body("description")
-        .trim()
-        .isLength({ min: 10 })
-        .withMessage("Description must be at least 10 characters long"),
-      body("amount")
-        .isFloat({ gt: 0 })
-        .withMessage("Amount must be a positive number"),
-      body("dueDate")
-        .isISO8601()
-        .toDate()
-        .withMessage("Due date must be a valid ISO 8601 date"),
+      ...milestoneFieldValidators(false),
     ],
     async (
       req: AuthRequest<{}, ApiResponse<Milestone>, CreateMilestoneRequestBody>,
@@ -76,40 +141,86 @@ export const createMilestonesRouter = (prisma: PrismaClient) => {
       }
 
       try {
-        if (!req.user || req.user.role !== UserRole.client) {
-          return res.status(403).json({
-            success: false,
-            error: "Only clients can create milestones.",
-          });
-        }
-
         const { taskId, title, description, amount, dueDate } = req.body;
+        const dependsOnId = req.body.dependsOnId || null;
+        const userId = req.user!.id;
         const task = await prisma.task.findUnique({
           where: { id: taskId },
           include: { bids: { where: { status: "accepted" } } },
         });
 
-        if (!task || task.clientId !== req.user.id) {
+        const freelancerId = task?.bids[0]?.freelancerId;
+        if (!task || (task.clientId !== userId && freelancerId !== userId)) {
           return res.status(403).json({
             success: false,
             error: "Unauthorized to create milestones for this task.",
           });
         }
 
-        const newMilestone = await prisma.milestone.create({
-          data: {
+        assertTaskAcceptsMilestones(task);
+        await assertWithinBidAmount(prisma, taskId, { amount });
+        if (dependsOnId) {
+          await assertValidDependency(prisma, { taskId }, dependsOnId);
+        }
+
+        // The hired freelancer can only propose; nothing is charged until the client approves.
+        if (userId === freelancerId) {
+          const proposal = await prisma.milestone.create({
+            data: {
+              taskId,
+              title,
+              description,
+              amount,
+              dueDate,
+              dependsOnId,
+              position: await nextMilestonePosition(prisma, taskId),
+              status: MilestoneStatus.proposed,
+              events: {
+                create: { type: MilestoneEventType.proposed, actorId: userId },
+              },
+            },
+          });
+          await notifyUser(
+            prisma,
+            task.clientId,
+            `Your freelancer proposed a new $${amount} milestone "${title}" on "${task.title}". Approve it to fund it into escrow.`
+          );
+          return res.status(201).json({
+            success: true,
+            message: "Milestone proposed. The client has been asked to approve it.",
+            data: proposal,
+          });
+        }
+
+        // The client is charged up front and the money sits in the task's escrow
+        // wallet until the milestone is paid out.
+        const newMilestone = await fundMilestonesWithCharge(
+          prisma,
+          {
+            clientId: userId,
             taskId,
-            title,
-            description,
             amount,
-            dueDate,
-            status: MilestoneStatus.pending,
+            description: `Escrow for milestone "${title}"`,
           },
-        });
+          async (tx) => {
+            const milestone = await tx.milestone.create({
+              data: {
+                taskId,
+                title,
+                description,
+                amount,
+                dueDate,
+                dependsOnId,
+                position: await nextMilestonePosition(tx, taskId),
+                status: MilestoneStatus.pending,
+              },
+            });
+            return { milestones: [milestone], result: milestone };
+          }
+        );
 
         // Notify the assigned freelancer, if one exists
-        if (task.bids.length > 0) {
-          const freelancerId = task.bids[0].freelancerId;
+        if (freelancerId) {
           const notificationMessage = `A new milestone "${title}" was added to your project "${task.title}".`;
           const notification = await prisma.notification.create({
             data: { userId: freelancerId, message: notificationMessage },
@@ -121,10 +232,16 @@ export const createMilestonesRouter = (prisma: PrismaClient) => {
 
         res.status(201).json({
           success: true,
-          message: "Milestone created successfully",
+          message: "Milestone created and funded into escrow.",
           data: newMilestone,
         });
       } catch (error: unknown) {
+        if (error instanceof MilestoneRuleError) {
+          return res.status(400).json({ success: false, error: error.message });
+        }
+        if (error instanceof PaymentDeclinedError) {
+          return res.status(402).json({ success: false, error: error.message });
+        }
         const errorMessage =
           error instanceof Error
             ? error.message
@@ -134,6 +251,618 @@ export const createMilestonesRouter = (prisma: PrismaClient) => {
     }
   );
 
+  // PATCH /api/milestones/:milestoneId/approve - Client accepts and funds a proposed milestone
+  router.patch(
+    "/:milestoneId/approve",
+    async (
+      req: AuthRequest<{ milestoneId: string }>,
+      res: Response<ApiResponse<Milestone>>
+    ) => {
+      try {
+        const { milestoneId } = req.params;
+        const clientId = req.user!.id;
+
+        const milestone = await prisma.milestone.findUnique({
+          where: { id: milestoneId },
+          include: {
+            task: { include: { bids: { where: { status: "accepted" } } } },
+          },
+        });
+        if (!milestone)
+          return res
+            .status(404)
+            .json({ success: false, error: "Milestone not found." });
+
+        if (milestone.task.clientId !== clientId) {
+          return res.status(403).json({
+            success: false,
+            error: "Only the client can approve proposed milestones.",
+          });
+        }
+        if (milestone.status !== MilestoneStatus.proposed) {
+          return res.status(400).json({
+            success: false,
+            error: "Only proposed milestones can be approved.",
+          });
+        }
+        assertTaskAcceptsMilestones(milestone.task);
+
+        const approvedMilestone = await fundMilestonesWithCharge(
+          prisma,
+          {
+            clientId,
+            taskId: milestone.taskId,
+            amount: milestone.amount,
+            description: `Escrow for milestone "${milestone.title}"`,
+          },
+          async (tx) => {
+            const { count } = await tx.milestone.updateMany({
+              where: { id: milestoneId, status: MilestoneStatus.proposed },
+              data: { status: MilestoneStatus.pending },
+            });
+            if (count === 0) {
+              throw new LedgerError("This proposal was already answered.");
+            }
+            await assertWithinBidAmount(tx, milestone.taskId, {
+              amount: milestone.amount,
+              excludeMilestoneId: milestoneId,
+            });
+            await tx.milestoneEvent.create({
+              data: {
+                milestoneId,
+                actorId: clientId,
+                type: MilestoneEventType.proposal_approved,
+              },
+            });
+            const approved = await tx.milestone.findUniqueOrThrow({
+              where: { id: milestoneId },
+            });
+            return { milestones: [approved], result: approved };
+          }
+        );
+
+        const freelancerId = milestone.task.bids[0]?.freelancerId;
+        if (freelancerId) {
+          await notifyUser(
+            prisma,
+            freelancerId,
+            `Your proposed milestone "${milestone.title}" was approved and funded into escrow.`
+          );
+        }
+
+        res.json({
+          success: true,
+          message: "Milestone approved and funded into escrow.",
+          data: approvedMilestone,
+        });
+      } catch (error: unknown) {
+        if (error instanceof LedgerError || error instanceof MilestoneRuleError) {
+          return res.status(400).json({ success: false, error: error.message });
+        }
+        if (error instanceof PaymentDeclinedError) {
+          return res.status(402).json({ success: false, error: error.message });
+        }
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to approve milestone.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // PATCH /api/milestones/:milestoneId/decline - Client turns down a proposed milestone
+  router.patch(
+    "/:milestoneId/decline",
+    [
+      body("reason")
+        .optional()
+        .trim()
+        .isLength({ max: 500 })
+        .withMessage("Reason must be at most 500 characters"),
+    ],
+    async (
+      req: AuthRequest<
+        { milestoneId: string },
+        ApiResponse<Milestone>,
+        DeclineMilestoneRequestBody
+      >,
+      res: Response<ApiResponse<Milestone | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const { milestoneId } = req.params;
+        const clientId = req.user!.id;
+        const reason = req.body.reason || undefined;
+
+        const milestone = await prisma.milestone.findUnique({
+          where: { id: milestoneId },
+          include: {
+            task: { include: { bids: { where: { status: "accepted" } } } },
+          },
+        });
+        if (!milestone)
+          return res
+            .status(404)
+            .json({ success: false, error: "Milestone not found." });
+
+        if (milestone.task.clientId !== clientId) {
+          return res.status(403).json({
+            success: false,
+            error: "Only the client can decline proposed milestones.",
+          });
+        }
+
+        // Declined proposals are kept as cancelled milestones so the history stays visible.
+        const declinedMilestone = await prisma.$transaction(async (tx) => {
+          const { count } = await tx.milestone.updateMany({
+            where: { id: milestoneId, status: MilestoneStatus.proposed },
+            data: { status: MilestoneStatus.cancelled },
+          });
+          if (count === 0) return null;
+          await tx.milestoneEvent.create({
+            data: {
+              milestoneId,
+              actorId: clientId,
+              type: MilestoneEventType.proposal_declined,
+              feedback: reason,
+            },
+          });
+          return tx.milestone.findUniqueOrThrow({ where: { id: milestoneId } });
+        });
+        if (!declinedMilestone) {
+          return res.status(400).json({
+            success: false,
+            error: "Only proposed milestones can be declined.",
+          });
+        }
+
+        const freelancerId = milestone.task.bids[0]?.freelancerId;
+        if (freelancerId) {
+          await notifyUser(
+            prisma,
+            freelancerId,
+            `Your proposed milestone "${milestone.title}" was declined${reason ? `: ${reason}` : "."}`
+          );
+        }
+
+        res.json({
+          success: true,
+          message: "Milestone proposal declined.",
+          data: declinedMilestone,
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to decline milestone.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // PUT /api/milestones/task/:taskId/order - Client sets the order milestones are worked in
+  router.put(
+    "/task/:taskId/order",
+    [
+      body("milestoneIds")
+        .isArray({ min: 1 })
+        .withMessage("milestoneIds must be a non-empty array"),
+      body("milestoneIds.*").isUUID().withMessage("Invalid milestone ID"),
+    ],
+    async (
+      req: AuthRequest<
+        TaskIdParams,
+        ApiResponse<Milestone[]>,
+        ReorderMilestonesRequestBody
+      >,
+      res: Response<ApiResponse<Milestone[] | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const { taskId } = req.params;
+        const { milestoneIds } = req.body;
+
+        const task = await prisma.task.findUnique({
+          where: { id: taskId },
+          select: { clientId: true, milestones: { select: { id: true } } },
+        });
+        if (!task || task.clientId !== req.user!.id) {
+          return res.status(403).json({
+            success: false,
+            error: "Only the client can reorder this task's milestones.",
+          });
+        }
+
+        const currentIds = new Set(task.milestones.map((m) => m.id));
+        if (
+          new Set(milestoneIds).size !== milestoneIds.length ||
+          milestoneIds.length !== currentIds.size ||
+          milestoneIds.some((id) => !currentIds.has(id))
+        ) {
+          return res.status(400).json({
+            success: false,
+            error: "The new order must list every milestone of the task exactly once.",
+          });
+        }
+
+        const reordered = await prisma.$transaction(
+          milestoneIds.map((id, position) =>
+            prisma.milestone.update({ where: { id }, data: { position } })
+          )
+        );
+
+        res.json({
+          success: true,
+          message: "Milestone order saved.",
+          data: reordered,
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to reorder milestones.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // PATCH /api/milestones/:milestoneId - Client edits a milestone before work on it is submitted
+  router.patch(
+    "/:milestoneId",
+    milestoneFieldValidators(true),
+    async (
+      req: AuthRequest<
+        { milestoneId: string },
+        ApiResponse<Milestone>,
+        UpdateMilestoneRequestBody
+      >,
+      res: Response<ApiResponse<Milestone | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const { milestoneId } = req.params;
+        const clientId = req.user!.id;
+        const { title, description, dueDate, amount } = req.body;
+
+        const milestone = await prisma.milestone.findUnique({
+          where: { id: milestoneId },
+          include: milestoneWithTaskInclude,
+        });
+        if (!milestone)
+          return res
+            .status(404)
+            .json({ success: false, error: "Milestone not found." });
+
+        if (milestone.task.clientId !== clientId) {
+          return res.status(403).json({
+            success: false,
+            error: "Only the client can edit this milestone.",
+          });
+        }
+        if (milestone.status !== MilestoneStatus.pending) {
+          return res.status(400).json({
+            success: false,
+            error: "Only pending milestones can be edited.",
+          });
+        }
+
+        const dependsOnId =
+          req.body.dependsOnId === undefined
+            ? undefined
+            : req.body.dependsOnId || null;
+        if (dependsOnId) {
+          await assertValidDependency(prisma, milestone, dependsOnId);
+        }
+        const amountChanged =
+          amount !== undefined && toCents(amount) !== toCents(milestone.amount);
+        if (amountChanged) {
+          await assertWithinBidAmount(prisma, milestone.taskId, {
+            amount,
+            excludeMilestoneId: milestoneId,
+          });
+        }
+
+        const freelancerId = milestone.task.bids[0]?.freelancerId;
+        const changedDetails =
+          (title !== undefined && title !== milestone.title) ||
+          (description !== undefined && description !== milestone.description) ||
+          (dueDate !== undefined &&
+            dueDate.getTime() !== milestone.dueDate.getTime()) ||
+          (dependsOnId !== undefined && dependsOnId !== milestone.dependsOnId);
+
+        if (!changedDetails && !amountChanged) {
+          return res
+            .status(400)
+            .json({ success: false, error: "No changes to save." });
+        }
+
+        let updatedMilestone: Milestone = milestone;
+        if (changedDetails) {
+          updatedMilestone = await prisma.milestone.update({
+            where: { id: milestoneId },
+            data: {
+              title,
+              description,
+              dueDate,
+              dependsOnId,
+              events: {
+                create: { type: MilestoneEventType.updated, actorId: clientId },
+              },
+            },
+          });
+        }
+
+        // The freelancer agreed to the current amount, so a change waits for their consent.
+        // Without a hired freelancer there is nobody to ask.
+        if (amountChanged && freelancerId) {
+          updatedMilestone = await prisma.milestone.update({
+            where: { id: milestoneId },
+            data: {
+              proposedAmount: amount,
+              events: {
+                create: {
+                  type: MilestoneEventType.amount_change_requested,
+                  actorId: clientId,
+                  feedback: `$${milestone.amount.toFixed(2)} → $${amount.toFixed(2)}`,
+                },
+              },
+            },
+          });
+        } else if (amountChanged) {
+          updatedMilestone = await changeMilestoneAmount(prisma, milestone, {
+            amount,
+            actorId: clientId,
+            eventType: MilestoneEventType.updated,
+          });
+        }
+
+        if (freelancerId) {
+          await notifyUser(
+            prisma,
+            freelancerId,
+            amountChanged
+              ? `The client asked to change milestone "${milestone.title}" from $${milestone.amount} to $${amount}. Please accept or decline the new amount.`
+              : `The client updated milestone "${updatedMilestone.title}".`
+          );
+        }
+
+        res.json({
+          success: true,
+          message:
+            amountChanged && freelancerId
+              ? "Milestone updated. The new amount applies once the freelancer accepts it."
+              : "Milestone updated.",
+          data: updatedMilestone,
+        });
+      } catch (error: unknown) {
+        if (error instanceof MilestoneRuleError || error instanceof LedgerError) {
+          return res.status(400).json({ success: false, error: error.message });
+        }
+        if (error instanceof PaymentDeclinedError) {
+          return res.status(402).json({ success: false, error: error.message });
+        }
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to update milestone.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // Freelancer's answer to a pending amount change on a milestone.
+  const respondToAmountChange =
+    (accept: boolean) =>
+    async (
+      req: AuthRequest<{ milestoneId: string }>,
+      res: Response<ApiResponse<Milestone>>
+    ) => {
+      try {
+        const { milestoneId } = req.params;
+        const freelancerId = req.user!.id;
+
+        const milestone = await prisma.milestone.findUnique({
+          where: { id: milestoneId },
+          include: milestoneWithTaskInclude,
+        });
+        if (!milestone)
+          return res
+            .status(404)
+            .json({ success: false, error: "Milestone not found." });
+
+        if (milestone.task.bids[0]?.freelancerId !== freelancerId) {
+          return res.status(403).json({
+            success: false,
+            error: "Only the hired freelancer can answer an amount change.",
+          });
+        }
+        if (
+          milestone.status !== MilestoneStatus.pending ||
+          milestone.proposedAmount === null
+        ) {
+          return res.status(400).json({
+            success: false,
+            error: "There is no pending amount change on this milestone.",
+          });
+        }
+
+        const proposedAmount = milestone.proposedAmount;
+        const updatedMilestone = accept
+          ? await changeMilestoneAmount(prisma, milestone, {
+              amount: proposedAmount,
+              actorId: freelancerId,
+              eventType: MilestoneEventType.amount_change_accepted,
+            })
+          : await prisma.milestone.update({
+              where: { id: milestoneId },
+              data: {
+                proposedAmount: null,
+                events: {
+                  create: {
+                    type: MilestoneEventType.amount_change_declined,
+                    actorId: freelancerId,
+                  },
+                },
+              },
+            });
+
+        await notifyUser(
+          prisma,
+          milestone.task.clientId,
+          accept
+            ? `The freelancer accepted the new $${proposedAmount} amount for milestone "${milestone.title}".`
+            : `The freelancer declined changing milestone "${milestone.title}" to $${proposedAmount}. It stays at $${milestone.amount}.`
+        );
+
+        res.json({
+          success: true,
+          message: accept ? "New amount accepted." : "Amount change declined.",
+          data: updatedMilestone,
+        });
+      } catch (error: unknown) {
+        if (error instanceof MilestoneRuleError || error instanceof LedgerError) {
+          return res.status(400).json({ success: false, error: error.message });
+        }
+        if (error instanceof PaymentDeclinedError) {
+          return res.status(402).json({ success: false, error: error.message });
+        }
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to answer the amount change.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    };
+
+  // PATCH /api/milestones/:milestoneId/amount-change/accept
+  router.patch("/:milestoneId/amount-change/accept", respondToAmountChange(true));
+
+  // PATCH /api/milestones/:milestoneId/amount-change/decline
+  router.patch("/:milestoneId/amount-change/decline", respondToAmountChange(false));
+
+  // PATCH /api/milestones/:milestoneId/cancel - Client cancels a pending milestone; its escrow is refunded
+  router.patch(
+    "/:milestoneId/cancel",
+    [
+      body("reason")
+        .optional()
+        .trim()
+        .isLength({ max: 500 })
+        .withMessage("Reason must be at most 500 characters"),
+    ],
+    async (
+      req: AuthRequest<
+        { milestoneId: string },
+        ApiResponse<Milestone>,
+        CancelMilestoneRequestBody
+      >,
+      res: Response<ApiResponse<Milestone | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const { milestoneId } = req.params;
+        const clientId = req.user!.id;
+        const reason = req.body.reason || undefined;
+
+        const milestone = await prisma.milestone.findUnique({
+          where: { id: milestoneId },
+          include: milestoneWithTaskInclude,
+        });
+        if (!milestone)
+          return res
+            .status(404)
+            .json({ success: false, error: "Milestone not found." });
+
+        if (milestone.task.clientId !== clientId) {
+          return res.status(403).json({
+            success: false,
+            error: "Only the client can cancel this milestone.",
+          });
+        }
+        // Submitted work has to be reviewed, sent back or disputed instead.
+        if (milestone.status !== MilestoneStatus.pending) {
+          return res.status(400).json({
+            success: false,
+            error: "Only pending milestones can be cancelled.",
+          });
+        }
+
+        const cancelledMilestone = await settleMilestone(prisma, milestone, {
+          fromStatus: MilestoneStatus.pending,
+          toStatus: MilestoneStatus.cancelled,
+          freelancerCents: 0,
+          actorId: clientId,
+          eventType: MilestoneEventType.cancelled,
+          note: reason,
+          onSettled: async (tx) => {
+            await tx.milestone.update({
+              where: { id: milestoneId },
+              data: { proposedAmount: null },
+            });
+            await tx.milestone.updateMany({
+              where: { dependsOnId: milestoneId },
+              data: { dependsOnId: null },
+            });
+          },
+        });
+
+        const freelancerId = milestone.task.bids[0]?.freelancerId;
+        if (freelancerId) {
+          await notifyUser(
+            prisma,
+            freelancerId,
+            `The client cancelled milestone "${milestone.title}"${reason ? `: ${reason}` : "."}`
+          );
+        }
+
+        res.json({
+          success: true,
+          message: "Milestone cancelled. Its escrow was refunded to your wallet.",
+          data: cancelledMilestone,
+        });
+      } catch (error: unknown) {
+        if (
+          error instanceof TaskStatusTransitionError ||
+          error instanceof LedgerError
+        ) {
+          return res.status(400).json({ success: false, error: error.message });
+        }
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to cancel milestone.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
   // PATCH /api/milestones/:milestoneId/complete - Freelancer requests completion
   router.patch(
     "/:milestoneId/complete",
@@ -149,6 +878,7 @@ export const createMilestonesRouter = (prisma: PrismaClient) => {
           where: { id: milestoneId },
           include: {
             task: { include: { bids: { where: { status: "accepted" } } } },
+            dependsOn: { select: { title: true, status: true } },
           },
         });
 
@@ -165,19 +895,63 @@ export const createMilestonesRouter = (prisma: PrismaClient) => {
           });
         }
 
-        if (milestone.status !== MilestoneStatus.pending) {
+        // in_progress means the client sent the work back for changes.
+        if (
+          milestone.status !== MilestoneStatus.pending &&
+          milestone.status !== MilestoneStatus.in_progress
+        ) {
           return res.status(400).json({
             success: false,
             error: `Milestone is already ${milestone.status}.`,
           });
         }
 
-        const updatedMilestone = await prisma.milestone.update({
-          where: { id: milestoneId },
-          data: { status: MilestoneStatus.completed },
+        if (milestone.dependsOn && milestone.dependsOn.status !== MilestoneStatus.paid) {
+          return res.status(400).json({
+            success: false,
+            error: `This milestone depends on "${milestone.dependsOn.title}", which has not been paid yet.`,
+          });
+        }
+
+        // Submitting work withdraws any amount change the freelancer has not answered.
+        // Conditioned on the status so a concurrent dispute or payment is not overwritten.
+        const updatedMilestone = await prisma.$transaction(async (tx) => {
+          const { count } = await tx.milestone.updateMany({
+            where: {
+              id: milestoneId,
+              status: { in: [MilestoneStatus.pending, MilestoneStatus.in_progress] },
+            },
+            data: {
+              status: MilestoneStatus.completed,
+              proposedAmount: null,
+              autoReleaseAt: getAutoReleaseDate(new Date()),
+              autoReleaseRemindersSent: 0,
+              autoReleaseFailures: 0,
+              autoReleaseRetryAt: null,
+            },
+          });
+          if (count === 0) return null;
+          await tx.milestoneEvent.create({
+            data: {
+              milestoneId,
+              type: MilestoneEventType.submitted,
+              actorId: assignedFreelancerId,
+            },
+          });
+          return tx.milestone.findUniqueOrThrow({ where: { id: milestoneId } });
         });
+        if (!updatedMilestone) {
+          return res.status(409).json({
+            success: false,
+            error: "The milestone was changed by another request. Please reload and try again.",
+          });
+        }
 
-        const notificationMessage = `${req.user?.email} has marked milestone "${milestone.title}" as complete. Please review and release payment.`;
+        const freelancer = await prisma.user.findUniqueOrThrow({
+          where: { id: assignedFreelancerId },
+          select: { firstName: true, lastName: true },
+        });
+        const notificationMessage = `${freelancer.firstName} ${freelancer.lastName} has marked milestone "${milestone.title}" as complete. Please review it: payment is released automatically on ${updatedMilestone.autoReleaseAt!.toUTCString()} unless you request changes.`;
         const notification = await prisma.notification.create({
           data: {
             userId: milestone.task.clientId,
@@ -203,6 +977,122 @@ export const createMilestonesRouter = (prisma: PrismaClient) => {
     }
   );
 
+  // PATCH /api/milestones/:milestoneId/request-changes - Client sends submitted work back
+  router.patch(
+    "/:milestoneId/request-changes",
+    [
+      body("feedback")
+        .trim()
+        .isLength({ min: 10, max: 2000 })
+        .withMessage("Feedback must be between 10 and 2000 characters"),
+    ],
+    async (
+      req: AuthRequest<
+        { milestoneId: string },
+        ApiResponse<Milestone>,
+        RequestMilestoneChangesRequestBody
+      >,
+      res: Response<ApiResponse<Milestone | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const { milestoneId } = req.params;
+        const { feedback } = req.body;
+
+        const milestone = await prisma.milestone.findUnique({
+          where: { id: milestoneId },
+          include: {
+            task: { include: { bids: { where: { status: "accepted" } } } },
+            _count: {
+              select: {
+                events: {
+                  where: { type: MilestoneEventType.changes_requested },
+                },
+              },
+            },
+          },
+        });
+
+        if (!milestone)
+          return res
+            .status(404)
+            .json({ success: false, error: "Milestone not found." });
+
+        if (milestone.task.clientId !== req.user?.id) {
+          return res.status(403).json({
+            success: false,
+            error: "You are not authorized to review this milestone.",
+          });
+        }
+
+        if (milestone.status !== MilestoneStatus.completed) {
+          return res.status(400).json({
+            success: false,
+            error: "Changes can only be requested on submitted work.",
+          });
+        }
+
+        const { maxRevisions } = milestone.task;
+        if (milestone._count.events >= maxRevisions) {
+          return res.status(400).json({
+            success: false,
+            error: `All ${maxRevisions} revision rounds for this milestone have been used.`,
+          });
+        }
+
+        const updatedMilestone = await prisma.$transaction(async (tx) => {
+          // Conditioned on the reviewed status so a concurrent release cannot be undone.
+          const { count } = await tx.milestone.updateMany({
+            where: { id: milestoneId, status: MilestoneStatus.completed },
+            data: { status: MilestoneStatus.in_progress, autoReleaseAt: null },
+          });
+          if (count === 0) {
+            throw new Error(
+              "The milestone was modified by another request. Please retry."
+            );
+          }
+          await tx.milestoneEvent.create({
+            data: {
+              milestoneId,
+              actorId: milestone.task.clientId,
+              type: MilestoneEventType.changes_requested,
+              feedback,
+            },
+          });
+          return tx.milestone.findUniqueOrThrow({ where: { id: milestoneId } });
+        });
+
+        const freelancerId = milestone.task.bids[0]?.freelancerId;
+        if (freelancerId) {
+          const remaining = maxRevisions - milestone._count.events - 1;
+          await notifyUser(
+            prisma,
+            freelancerId,
+            `The client requested changes to milestone "${milestone.title}" (${remaining} revision ${remaining === 1 ? "round" : "rounds"} left).`
+          );
+        }
+
+        res.json({
+          success: true,
+          message: "Changes requested.",
+          data: updatedMilestone,
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to request changes.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
   // PATCH /api/milestones/:milestoneId/release-payment - Client releases payment
   router.patch(
     "/:milestoneId/release-payment",
@@ -242,37 +1132,14 @@ export const createMilestonesRouter = (prisma: PrismaClient) => {
           });
         }
 
-        // --- TRANSACTION FOR PAYMENT AND POTENTIAL TASK COMPLETION ---
-        const [updatedMilestone] = await prisma.$transaction(async (tx) => {
-          // 1. Update milestone to PAID
-          const paidMilestone = await tx.milestone.update({
-            where: { id: milestoneId },
-            data: { status: MilestoneStatus.paid },
-          });
-
-          // 2. Check if all other milestones are also paid to complete the task
-          const remainingMilestones = await tx.milestone.count({
-            where: {
-              taskId: milestone.taskId,
-              status: { not: MilestoneStatus.paid },
-            },
-          });
-
-          if (remainingMilestones === 0) {
-            await tx.task.update({
-              where: { id: milestone.taskId },
-              data: { status: TaskStatus.completed },
-            });
-          } else if (milestone.task.status === TaskStatus.assigned) {
-            // Auto-transition task to in_progress on first payment
-            await tx.task.update({
-              where: { id: milestone.taskId },
-              data: { status: TaskStatus.in_progress },
-            });
+        const updatedMilestone = await releaseMilestonePayment(
+          prisma,
+          milestone,
+          {
+            actorId: milestone.task.clientId,
+            eventType: MilestoneEventType.payment_released,
           }
-
-          return [paidMilestone];
-        });
+        );
 
         const freelancerId = milestone.task.bids[0].freelancerId;
         const notificationMessage = `Payment for milestone "${milestone.title}" has been released by the client.`;
@@ -289,6 +1156,15 @@ export const createMilestonesRouter = (prisma: PrismaClient) => {
           data: updatedMilestone,
         });
       } catch (error: unknown) {
+        if (
+          error instanceof TaskStatusTransitionError ||
+          error instanceof LedgerError
+        ) {
+          return res.status(400).json({ success: false, error: error.message });
+        }
+        if (error instanceof PaymentDeclinedError) {
+          return res.status(402).json({ success: false, error: error.message });
+        }
         const errorMessage =
           error instanceof Error ? error.message : "Failed to release payment.";
         res.status(500).json({ success: false, error: errorMessage });
@@ -2,7 +2,21 @@
 import express, { Response, Request } from "express";
 import { body, ValidationError, validationResult } from "express-validator";
 import { PrismaClient } from "@prisma/client";
-import { ApiResponse, AuthRequest, User } from "../types";
+import {
+  ApiResponse,
+  AuthRequest,
+  SkillProficiency,
+  UpdateUserSkillsRequestBody,
+  User,
+  UserRole,
+  UserSkillSummary,
+} from "../types";
+import {
+  MAX_USER_SKILLS,
+  findUnknownSkillIds,
+  toUserSkillSummary,
+  userSkillsSelect,
+} from "../services/skill.service";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
@@ -73,9 +87,14 @@ export const createProfileRouter = (prisma: PrismaClient) => {
             createdAt: true,
             updatedAt: true,
             avatarUrl: true,
+            bio: true,
             portfolioUrl: true,
             githubUrl: true,
             linkedinUrl: true,
+            skills: {
+              select: userSkillsSelect,
+              orderBy: { skill: { name: "asc" } },
+            },
           },
         });
 
@@ -86,7 +105,8 @@ export const createProfileRouter = (prisma: PrismaClient) => {
           });
         }
 
-        res.json({ success: true, data: user as unknown as User });
+        const profile = { ...user, skills: user.skills.map(toUserSkillSummary) };
+        res.json({ success: true, data: profile as unknown as User });
       } catch (error: unknown) {
         const errorMessage =
           error instanceof Error ? error.message : "Failed to fetch profile";
@@ -107,6 +127,11 @@ export const createProfileRouter = (prisma: PrismaClient) => {
         .trim()
         .isLength({ min: 1 })
         .withMessage("Last name is required"),
+      body("bio")
+        .optional()
+        .trim()
+        .isLength({ max: 2000 })
+        .withMessage("Bio must be at most 2000 characters"),
       body("portfolioUrl")
         .optional({ checkFalsy: true })
         .isURL()
@@ -141,12 +166,19 @@ export const createProfileRouter = (prisma: PrismaClient) => {
           });
         }
 
-        const { firstName, lastName, portfolioUrl, githubUrl, linkedinUrl } =
+        const { firstName, lastName, bio, portfolioUrl, githubUrl, linkedinUrl } =
           req.body;
 
         const updatedUser = await prisma.user.update({
           where: { id: req.user.id },
-          data: { firstName, lastName, portfolioUrl, githubUrl, linkedinUrl },
+          data: {
+            firstName,
+            lastName,
+            bio,
+            portfolioUrl,
+            githubUrl,
+            linkedinUrl,
+          },
           select: {
             id: true,
             email: true,
@@ -155,6 +187,7 @@ export const createProfileRouter = (prisma: PrismaClient) => {
             role: true,
             isVerified: true,
             avatarUrl: true,
+            bio: true,
             portfolioUrl: true,
             githubUrl: true,
             linkedinUrl: true,
@@ -176,6 +209,96 @@ export const createProfileRouter = (prisma: PrismaClient) => {
     }
   );
 
+  // --- PUT /api/profile/skills ---
+  // Replaces the freelancer's skill list with the submitted one.
+  router.put(
+    "/skills",
+    [
+      body("skills")
+        .isArray({ max: MAX_USER_SKILLS })
+        .withMessage(`You can list at most ${MAX_USER_SKILLS} skills.`),
+      body("skills.*.skillId").isUUID().withMessage("Valid skill ID is required"),
+      body("skills.*.proficiency")
+        .isIn(Object.values(SkillProficiency))
+        .withMessage(
+          `Proficiency must be one of: ${Object.values(SkillProficiency).join(", ")}`
+        ),
+    ],
+    async (
+      req: AuthRequest<
+        {},
+        ApiResponse<UserSkillSummary[]>,
+        UpdateUserSkillsRequestBody
+      >,
+      res: Response<ApiResponse<UserSkillSummary[] | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        if (!req.user?.id) {
+          return res.status(401).json({
+            success: false,
+            error: "User not authenticated",
+          });
+        }
+        // Skills are what freelancers are matched to tasks by.
+        if (req.user.role !== UserRole.freelancer) {
+          return res.status(403).json({
+            success: false,
+            error: "Only freelancers can list skills.",
+          });
+        }
+        const userId = req.user.id;
+
+        // The last entry wins if the same skill is submitted twice.
+        const skills = [
+          ...new Map(req.body.skills.map((s) => [s.skillId, s])).values(),
+        ];
+        const unknownIds = await findUnknownSkillIds(
+          prisma,
+          skills.map((s) => s.skillId)
+        );
+        if (unknownIds.length > 0) {
+          return res.status(400).json({
+            success: false,
+            error: "One or more selected skills no longer exist.",
+          });
+        }
+
+        const [, updatedSkills] = await prisma.$transaction([
+          prisma.userSkill.deleteMany({ where: { userId } }),
+          prisma.userSkill.createManyAndReturn({
+            data: skills.map(({ skillId, proficiency }) => ({
+              userId,
+              skillId,
+              proficiency,
+            })),
+            select: userSkillsSelect,
+          }),
+        ]);
+
+        res.json({
+          success: true,
+          message: "Skills updated successfully",
+          data: updatedSkills
+            .map(toUserSkillSummary)
+            .sort((a, b) => a.name.localeCompare(b.name)),
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to update skills";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
   // --- POST /api/profile/picture ---
 router.post(
   "/picture",
@@ -0,0 +1,157 @@
+// backend/routes/reviews.ts
+import express, { Response } from "express";
+import { body, ValidationError, validationResult } from "express-validator";
+import { PrismaClient, TaskStatus } from "@prisma/client";
+import {
+  ApiResponse,
+  AuthRequest,
+  CreateReviewRequestBody,
+  Review,
+  ReviewWithAuthor,
+  TaskIdParams,
+  TaskReviewSummary,
+} from "../types";
+import { notifyUser } from "../services/notification.service";
+import {
+  getReviewDeadline,
+  getReviewParties,
+  isReviewRevealed,
+  REVIEW_SCORES,
+  ReviewRuleError,
+  submitReview,
+} from "../services/review.service";
+
+const router = express.Router();
+
+const reviewerSelect = {
+  reviewer: { select: { id: true, firstName: true, lastName: true } },
+};
+
+export const createReviewsRouter = (prisma: PrismaClient) => {
+  // GET /api/reviews/task/:taskId - The requester's review and, once revealed, the other side's
+  router.get(
+    "/task/:taskId",
+    async (
+      req: AuthRequest<TaskIdParams>,
+      res: Response<ApiResponse<TaskReviewSummary>>
+    ) => {
+      try {
+        const task = await prisma.task.findUnique({
+          where: { id: req.params.taskId },
+        });
+        if (!task) {
+          return res.status(404).json({ success: false, error: "Task not found." });
+        }
+        const userId = req.user!.id;
+        const parties = await getReviewParties(prisma, task);
+        if (!parties || ![parties.clientId, parties.freelancerId].includes(userId)) {
+          return res.status(403).json({
+            success: false,
+            error: "Only the client and the hired freelancer can see these reviews.",
+          });
+        }
+
+        const reviews: ReviewWithAuthor[] = await prisma.review.findMany({
+          where: { taskId: task.id },
+          include: reviewerSelect,
+        });
+        const myReview = reviews.find((review) => review.reviewerId === userId);
+        const theirReview = reviews.find((review) => review.reviewerId !== userId);
+        const reviewDeadline = getReviewDeadline(task);
+
+        res.json({
+          success: true,
+          data: {
+            canReview:
+              task.status === TaskStatus.completed &&
+              !myReview &&
+              reviewDeadline !== null &&
+              reviewDeadline > new Date(),
+            reviewDeadline,
+            myReview: myReview ?? null,
+            theirReview:
+              theirReview && isReviewRevealed(theirReview) ? theirReview : null,
+            theyHaveReviewed: theirReview !== undefined,
+          },
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to fetch reviews.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // POST /api/reviews/task/:taskId - Review the other side of a completed task
+  router.post(
+    "/task/:taskId",
+    [
+      ...REVIEW_SCORES.map((score) =>
+        body(score)
+          .isInt({ min: 1, max: 5 })
+          .toInt()
+          .withMessage(`${score} must be a whole number from 1 to 5`)
+      ),
+      body("comment")
+        .trim()
+        .isLength({ min: 10, max: 2000 })
+        .withMessage("Comment must be between 10 and 2000 characters"),
+    ],
+    async (
+      req: AuthRequest<TaskIdParams, ApiResponse, CreateReviewRequestBody>,
+      res: Response<ApiResponse<Review | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const task = await prisma.task.findUnique({
+          where: { id: req.params.taskId },
+        });
+        if (!task) {
+          return res.status(404).json({ success: false, error: "Task not found." });
+        }
+
+        const { rating, communication, quality, timeliness, comment } = req.body;
+        const review = await submitReview(prisma, task, {
+          reviewerId: req.user!.id,
+          rating,
+          communication,
+          quality,
+          timeliness,
+          comment,
+        });
+
+        await notifyUser(
+          prisma,
+          review.revieweeId,
+          isReviewRevealed(review)
+            ? `Both reviews for "${task.title}" are in and now visible.`
+            : `You have a new review for "${task.title}". Leave yours to see it.`
+        );
+        res.status(201).json({
+          success: true,
+          message: isReviewRevealed(review)
+            ? "Review submitted. Both reviews are now visible."
+            : "Review submitted. It stays hidden until the other side reviews or the window closes.",
+          data: review,
+        });
+      } catch (error: unknown) {
+        if (error instanceof ReviewRuleError) {
+          return res.status(400).json({ success: false, error: error.message });
+        }
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to submit review.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  return router;
+};
@@ -0,0 +1,69 @@
+// backend/routes/skills.ts
+import express, { Response } from "express";
+import { query, matchedData, validationResult } from "express-validator";
+import { Prisma, PrismaClient } from "@prisma/client";
+import { ApiResponse, AuthRequest, SkillSummary, TaskCategory } from "../types";
+import { skillSummarySelect } from "../services/skill.service";
+
+const router = express.Router();
+
+const DEFAULT_SUGGESTION_LIMIT = 10;
+const MAX_SUGGESTION_LIMIT = 50;
+
+export const createSkillsRouter = (prisma: PrismaClient) => {
+  // GET /api/skills - Autocomplete over the curated skill list, most used first
+  router.get(
+    "/",
+    [
+      query("q").optional().trim().isLength({ max: 100 }).withMessage("Search term must be at most 100 characters"),
+      query("category")
+        .optional()
+        .isIn(Object.values(TaskCategory))
+        .withMessage(`Category must be one of: ${Object.values(TaskCategory).join(", ")}`),
+      query("limit")
+        .optional()
+        .isInt({ min: 1, max: MAX_SUGGESTION_LIMIT })
+        .toInt()
+        .withMessage(`Limit must be between 1 and ${MAX_SUGGESTION_LIMIT}`),
+    ],
+    async (req: AuthRequest, res: Response<ApiResponse<SkillSummary[]>>) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        const response: ApiResponse = {
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        };
+        return res.status(400).json(response);
+      }
+
+      try {
+        const { q, category, limit = DEFAULT_SUGGESTION_LIMIT } = matchedData(req, { locations: ["query"] }) as {
+          q?: string;
+          category?: TaskCategory;
+          limit?: number;
+        };
+
+        const where: Prisma.SkillWhereInput = {};
+        if (q) where.name = { contains: q, mode: "insensitive" };
+        // Skills without a category are general-purpose and fit any task.
+        if (category) where.OR = [{ category }, { category: null }];
+
+        const skills = await prisma.skill.findMany({
+          where,
+          select: skillSummarySelect,
+          orderBy: [{ tasks: { _count: "desc" } }, { name: "asc" }],
+          take: limit,
+        });
+
+        res.json({ success: true, data: skills });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to fetch skills";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  return router;
+};
@@ -1,43 +1,300 @@
 // src/routes/tasks.ts
 import express, { Response } from 'express';
-import { body, validationResult } from 'express-validator';
-import { PrismaClient } from '@prisma/client';
+import { body, query, matchedData, validationResult } from 'express-validator';
+import { PrismaClient, Prisma } from '@prisma/client';
 import {
   ApiResponse,
   CreateTaskRequestBody,
+  UpdateTaskRequestBody,
+  CancelTaskRequestBody,
   AuthRequest,
   TaskWithClient,
+  TaskListQuery,
+  TaskSearchData,
+  TaskSearchResult,
+  RecommendedTask,
+  TaskSortOption,
   Task,
   TaskCategory,
+  TaskStatus,
   BudgetType,
-  UserRole
+  UserRole,
+  BidStatus
 } from '../types'; // No .js extension
+import { searchOpenTasks, suggestTaskTitles, TaskSearchFilters } from '../services/search.service';
+import { transitionTaskStatus, TaskStatusTransitionError } from '../services/taskStatus.service';
+import { cancelTask } from '../services/milestonePayment.service';
+import { LedgerError } from '../services/ledger.service';
+import { notifyUsers } from '../services/notification.service';
+import { recommendTaskIds } from '../services/recommendation.service';
+import { MAX_TASK_SKILLS, findUnknownSkillIds, flattenTaskSkills, taskSkillsInclude } from '../services/skill.service';
+import { userPublicProfileSelect } from '../services/user.service';
 
 const router = express.Router();
 
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+// Below this many hits the search response also carries "did you mean" suggestions.
+const SUGGESTION_THRESHOLD = 3;
+const DEFAULT_RECOMMENDATION_COUNT = 5;
+const MAX_RECOMMENDATION_COUNT = 20;
+const MAX_REVISION_ROUNDS = 10;
+
+const TASK_SORT_OPTIONS: Record<TaskSortOption, Prisma.TaskOrderByWithRelationInput> = {
+  newest: { createdAt: 'desc' },
+  oldest: { createdAt: 'asc' },
+  budget_high: { budget: 'desc' },
+  budget_low: { budget: 'asc' },
+  deadline_soon: { deadline: 'asc' },
+};
+
+// "react,node-js" -> ['react', 'node-js']
+const parseSkillSlugs = (value: unknown): string[] =>
+  String(value).split(',').map((slug) => slug.trim().toLowerCase()).filter(Boolean);
+
+const skillsQueryValidator = () =>
+  query('skills').optional().customSanitizer(parseSkillSlugs)
+    .isArray({ max: MAX_TASK_SKILLS }).withMessage(`Filter by at most ${MAX_TASK_SKILLS} skills`);
+
+const skillIdsBodyValidators = () => [
+  body('skillIds').optional().isArray({ max: MAX_TASK_SKILLS }).withMessage(`A task can require at most ${MAX_TASK_SKILLS} skills`),
+  body('skillIds.*').isUUID().withMessage('Each skill ID must be a valid UUID'),
+];
+
+const maxRevisionsValidator = () =>
+  body('maxRevisions').optional().isInt({ min: 0, max: MAX_REVISION_ROUNDS }).toInt()
+    .withMessage(`Revision rounds must be between 0 and ${MAX_REVISION_ROUNDS}`);
+
+// Only meaningful for hourly tasks; null means the freelancer may log any number of hours.
+const weeklyHourCapValidator = () =>
+  body('weeklyHourCap').optional({ values: 'null' }).isFloat({ gt: 0, max: 168 }).toFloat()
+    .withMessage('Weekly hour cap must be between 0 and 168 hours');
+
+// Translates the validated query string into a Prisma filter for the task list.
+const buildTaskWhere = (filters: TaskListQuery): Prisma.TaskWhereInput => {
+  const where: Prisma.TaskWhereInput = {};
+
+  if (filters.q) {
+    where.OR = [
+      { title: { contains: filters.q, mode: 'insensitive' } },
+      { description: { contains: filters.q, mode: 'insensitive' } },
+    ];
+  }
+  if (filters.category) where.category = filters.category;
+  if (filters.budgetType) where.budgetType = filters.budgetType;
+  if (filters.status) where.status = filters.status;
+  if (filters.clientId) where.clientId = filters.clientId;
+  // A task matches when it requires any of the selected skills.
+  if (filters.skills?.length) where.skills = { some: { skill: { slug: { in: filters.skills } } } };
+
+  if (filters.minBudget !== undefined || filters.maxBudget !== undefined) {
+    where.budget = { gte: filters.minBudget, lte: filters.maxBudget };
+  }
+  if (filters.deadlineFrom || filters.deadlineTo) {
+    where.deadline = { gte: filters.deadlineFrom, lte: filters.deadlineTo };
+  }
+
+  return where;
+};
+
 export const createTasksRouter = (prisma: PrismaClient) => {
 
-  router.get('/', async (_req: AuthRequest<{}, ApiResponse<TaskWithClient[]>>, res: Response<ApiResponse<TaskWithClient[]>>): Promise<void> => {
-    try {
-      const tasks: TaskWithClient[] = await prisma.task.findMany({
-        include: { client: { select: { id: true, firstName: true, lastName: true, email: true } } },
-        orderBy: { createdAt: 'desc' }
-      });
+  router.get('/',
+    [
+      query('q').optional().trim().isLength({ max: 200 }).withMessage('Search term must be at most 200 characters'),
+      query('category').optional().isIn(Object.values(TaskCategory)).withMessage(`Category must be one of: ${Object.values(TaskCategory).join(', ')}`),
+      query('minBudget').optional().isFloat({ min: 0 }).toFloat().withMessage('Minimum budget must be a positive number'),
+      query('maxBudget').optional().isFloat({ min: 0 }).toFloat().withMessage('Maximum budget must be a positive number'),
+      query('budgetType').optional().isIn(Object.values(BudgetType)).withMessage(`Budget type must be one of: ${Object.values(BudgetType).join(', ')}`),
+      query('status').optional().isIn(Object.values(TaskStatus)).withMessage(`Status must be one of: ${Object.values(TaskStatus).join(', ')}`),
+      query('clientId').optional().isUUID().withMessage('Client ID must be a valid UUID'),
+      skillsQueryValidator(),
+      query('deadlineFrom').optional().isISO8601().toDate().withMessage('deadlineFrom must be a valid ISO 8601 date'),
+      query('deadlineTo').optional().isISO8601().toDate().withMessage('deadlineTo must be a valid ISO 8601 date'),
+      query('sort').optional().isIn(Object.keys(TASK_SORT_OPTIONS)).withMessage(`Sort must be one of: ${Object.keys(TASK_SORT_OPTIONS).join(', ')}`),
+      query('cursor').optional().isUUID().withMessage('Cursor must be a valid task ID'),
+      query('limit').optional().isInt({ min: 1, max: MAX_PAGE_SIZE }).toInt().withMessage(`Limit must be between 1 and ${MAX_PAGE_SIZE}`),
+    ],
+    async (req: AuthRequest<{}, ApiResponse<TaskWithClient[]>>, res: Response<ApiResponse<TaskWithClient[]>>): Promise<void> => {
+      try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+          const response: ApiResponse = {
+            success: false,
+            error: 'Validation failed',
+            data: errors.array()
+          };
+          res.status(400).json(response);
+          return;
+        }
 
-      const response: ApiResponse<TaskWithClient[]> = {
-        success: true,
-        data: tasks
-      };
-      res.json(response);
-    } catch (error: unknown) {
-      console.error('Failed to fetch tasks:', error);
-      const response: ApiResponse = {
-        success: false,
-        error: (error instanceof Error) ? error.message : 'Failed to fetch tasks'
-      };
-      res.status(500).json(response);
+        // Express 5 re-parses req.query on every access, so read the sanitized values instead.
+        const filters = matchedData(req, { locations: ['query'] }) as TaskListQuery;
+        const limit = filters.limit ?? DEFAULT_PAGE_SIZE;
+        const where = buildTaskWhere(filters);
+
+        const [total, page] = await Promise.all([
+          prisma.task.count({ where }),
+          prisma.task.findMany({
+            where,
+            include: { client: { select: userPublicProfileSelect }, ...taskSkillsInclude },
+            // The id tiebreaker keeps the cursor stable when several tasks share a budget or date.
+            orderBy: [TASK_SORT_OPTIONS[filters.sort ?? 'newest'], { id: 'asc' }],
+            take: limit + 1,
+            ...(filters.cursor && { cursor: { id: filters.cursor }, skip: 1 }),
+          }),
+        ]);
+
+        const hasMore = page.length > limit;
+        const tasks: TaskWithClient[] = (hasMore ? page.slice(0, limit) : page).map(flattenTaskSkills);
+
+        const response: ApiResponse<TaskWithClient[]> = {
+          success: true,
+          data: tasks,
+          meta: {
+            total,
+            hasMore,
+            nextCursor: hasMore ? tasks[tasks.length - 1].id : null,
+          }
+        };
+        res.json(response);
+      } catch (error: unknown) {
+        console.error('Failed to fetch tasks:', error);
+        const response: ApiResponse = {
+          success: false,
+          error: (error instanceof Error) ? error.message : 'Failed to fetch tasks'
+        };
+        res.status(500).json(response);
+      }
     }
-  });
+  );
+
+
+  // GET /api/tasks/search - Relevance-ranked full-text search over open tasks.
+  // The cursor is an opaque offset into the ranked result list.
+  router.get('/search',
+    [
+      query('q').trim().isLength({ min: 2, max: 200 }).withMessage('Search term must be between 2 and 200 characters'),
+      query('category').optional().isIn(Object.values(TaskCategory)).withMessage(`Category must be one of: ${Object.values(TaskCategory).join(', ')}`),
+      query('minBudget').optional().isFloat({ min: 0 }).toFloat().withMessage('Minimum budget must be a positive number'),
+      query('maxBudget').optional().isFloat({ min: 0 }).toFloat().withMessage('Maximum budget must be a positive number'),
+      query('budgetType').optional().isIn(Object.values(BudgetType)).withMessage(`Budget type must be one of: ${Object.values(BudgetType).join(', ')}`),
+      query('deadlineFrom').optional().isISO8601().toDate().withMessage('deadlineFrom must be a valid ISO 8601 date'),
+      query('deadlineTo').optional().isISO8601().toDate().withMessage('deadlineTo must be a valid ISO 8601 date'),
+      skillsQueryValidator(),
+      query('cursor').optional().isInt({ min: 0 }).toInt().withMessage('Cursor must be a non-negative integer'),
+      query('limit').optional().isInt({ min: 1, max: MAX_PAGE_SIZE }).toInt().withMessage(`Limit must be between 1 and ${MAX_PAGE_SIZE}`),
+    ],
+    async (req: AuthRequest, res: Response<ApiResponse<TaskSearchData>>): Promise<void> => {
+      try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+          const response: ApiResponse = {
+            success: false,
+            error: 'Validation failed',
+            data: errors.array()
+          };
+          res.status(400).json(response);
+          return;
+        }
+
+        const { q, cursor = 0, limit = DEFAULT_PAGE_SIZE, ...filters } = matchedData(req, { locations: ['query'] }) as TaskSearchFilters & {
+          q: string;
+          cursor?: number;
+          limit?: number;
+        };
+
+        const { rows, total } = await searchOpenTasks(prisma, q, { ...filters, limit, offset: cursor });
+
+        const tasks = await prisma.task.findMany({
+          where: { id: { in: rows.map((row) => row.id) } },
+          include: { client: { select: userPublicProfileSelect }, ...taskSkillsInclude },
+        });
+        const tasksById = new Map(tasks.map((task) => [task.id, flattenTaskSkills(task)]));
+
+        // Keep the relevance order from the search query when merging in the full rows.
+        const results: TaskSearchResult[] = rows.flatMap((row) => {
+          const task = tasksById.get(row.id);
+          return task ? [{ ...task, rank: row.rank, titleHighlight: row.titleHighlight, snippet: row.snippet }] : [];
+        });
+
+        const suggestions = cursor === 0 && total < SUGGESTION_THRESHOLD
+          ? await suggestTaskTitles(prisma, q)
+          : [];
+
+        const nextOffset = cursor + rows.length;
+        const hasMore = nextOffset < total;
+
+        const response: ApiResponse<TaskSearchData> = {
+          success: true,
+          data: { results, suggestions },
+          meta: {
+            total,
+            hasMore,
+            nextCursor: hasMore ? String(nextOffset) : null,
+          }
+        };
+        res.json(response);
+      } catch (error: unknown) {
+        console.error('Failed to search tasks:', error);
+        const response: ApiResponse = {
+          success: false,
+          error: (error instanceof Error) ? error.message : 'Failed to search tasks'
+        };
+        res.status(500).json(response);
+      }
+    }
+  );
+
+
+  // GET /api/tasks/recommended - Open tasks ranked for the signed-in freelancer.
+  router.get('/recommended',
+    [
+      query('limit').optional().isInt({ min: 1, max: MAX_RECOMMENDATION_COUNT }).toInt().withMessage(`Limit must be between 1 and ${MAX_RECOMMENDATION_COUNT}`),
+    ],
+    async (req: AuthRequest, res: Response<ApiResponse<RecommendedTask[]>>): Promise<void> => {
+      try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+          const response: ApiResponse = {
+            success: false,
+            error: 'Validation failed',
+            data: errors.array()
+          };
+          res.status(400).json(response);
+          return;
+        }
+
+        if (!req.user || req.user.role !== UserRole.freelancer) {
+          res.status(403).json({ success: false, error: 'Only freelancers receive task recommendations' });
+          return;
+        }
+
+        const { limit = DEFAULT_RECOMMENDATION_COUNT } = matchedData(req, { locations: ['query'] }) as { limit?: number };
+        const ranked = await recommendTaskIds(prisma, req.user.id, limit);
+
+        const tasks = await prisma.task.findMany({
+          where: { id: { in: ranked.map((r) => r.id) } },
+          include: { client: { select: userPublicProfileSelect }, ...taskSkillsInclude },
+        });
+        const tasksById = new Map(tasks.map((task) => [task.id, flattenTaskSkills(task)]));
+
+        const recommendations: RecommendedTask[] = ranked.flatMap(({ id, score, reasons }) => {
+          const task = tasksById.get(id);
+          return task ? [{ ...task, score, reasons }] : [];
+        });
+
+        res.json({ success: true, data: recommendations });
+      } catch (error: unknown) {
+        console.error('Failed to recommend tasks:', error);
+        const response: ApiResponse = {
+          success: false,
+          error: (error instanceof Error) ? error.message : 'Failed to recommend tasks'
+        };
+        res.status(500).json(response);
+      }
+    }
+  );
 
 
   router.get('/:id', async (req: AuthRequest<{ id: string }>, res: Response<ApiResponse<TaskWithClient>>): Promise<void> => {
@@ -49,14 +306,8 @@ export const createTasksRouter = (prisma: PrismaClient) => {
         include: {
           // We include the related client and select only the public fields
           // This matches the `TaskWithClient` type the frontend expects.
-          client: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true,
-            },
-          },
+          client: { select: userPublicProfileSelect },
+          ...taskSkillsInclude,
         },
       });
 
@@ -66,7 +317,7 @@ export const createTasksRouter = (prisma: PrismaClient) => {
       }
 
       // Send the task with the client's public profile included
-      res.json({ success: true, data: task });
+      res.json({ success: true, data: flattenTaskSkills(task) });
     } catch (error: unknown) {
       console.error(`Failed to fetch task with ID ${req.params.id}:`, error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to fetch task';
@@ -84,7 +335,10 @@ export const createTasksRouter = (prisma: PrismaClient) => {
       body('category').isIn(Object.values(TaskCategory)).withMessage(`Category must be one of: ${Object.values(TaskCategory).join(', ')}`),
       body('budget').isNumeric().toFloat().withMessage('Budget must be a number'),
       body('budgetType').isIn(Object.values(BudgetType)).withMessage(`Budget type must be one of: ${Object.values(BudgetType).join(', ')}`),
-      body('deadline').isISO8601().toDate().withMessage('Deadline must be a valid ISO 8601 date')
+      body('deadline').isISO8601().toDate().withMessage('Deadline must be a valid ISO 8601 date'),
+      maxRevisionsValidator(),
+      weeklyHourCapValidator(),
+      ...skillIdsBodyValidators()
     ],
     async (req: AuthRequest<{}, ApiResponse<Task>, CreateTaskRequestBody>, res: Response<ApiResponse<Task>>): Promise<void> => {
       try {
@@ -108,7 +362,13 @@ export const createTasksRouter = (prisma: PrismaClient) => {
           return;
         }
 
-        const { title, description, category, budget, budgetType, deadline } = req.body;
+        const { title, description, category, budget, budgetType, deadline, maxRevisions, weeklyHourCap, skillIds = [] } = req.body;
+
+        const unknownSkillIds = await findUnknownSkillIds(prisma, skillIds);
+        if (unknownSkillIds.length > 0) {
+          res.status(400).json({ success: false, error: 'One or more selected skills no longer exist.' });
+          return;
+        }
 
         const task: Task = await prisma.task.create({
           data: {
@@ -118,8 +378,11 @@ export const createTasksRouter = (prisma: PrismaClient) => {
             budget: budget,
             budgetType,
             deadline: deadline,
+            maxRevisions,
+            weeklyHourCap,
             status: 'open',
             clientId: req.user.id,
+            skills: { create: [...new Set(skillIds)].map((skillId) => ({ skillId })) },
           }
         });
 
@@ -141,5 +404,173 @@ export const createTasksRouter = (prisma: PrismaClient) => {
     }
   );
 
+  // PATCH /api/tasks/:id - The owning client edits a task while it is still open for bidding.
+  router.patch('/:id',
+    [
+      body('title').optional().trim().isLength({ min: 1 }).withMessage('Title is required'),
+      body('description').optional().trim().isLength({ min: 10 }).withMessage('Description must be at least 10 characters long'),
+      body('category').optional().isIn(Object.values(TaskCategory)).withMessage(`Category must be one of: ${Object.values(TaskCategory).join(', ')}`),
+      body('budget').optional().isFloat({ gt: 0 }).toFloat().withMessage('Budget must be a positive number'),
+      body('budgetType').optional().isIn(Object.values(BudgetType)).withMessage(`Budget type must be one of: ${Object.values(BudgetType).join(', ')}`),
+      body('deadline').optional().isISO8601().toDate().withMessage('Deadline must be a valid ISO 8601 date'),
+      maxRevisionsValidator(),
+      weeklyHourCapValidator(),
+      ...skillIdsBodyValidators()
+    ],
+    async (req: AuthRequest<{ id: string }, ApiResponse<Task>, UpdateTaskRequestBody>, res: Response<ApiResponse<Task>>): Promise<void> => {
+      try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+          const response: ApiResponse = {
+            success: false,
+            error: 'Validation failed',
+            data: errors.array()
+          };
+          res.status(400).json(response);
+          return;
+        }
+
+        const task = await prisma.task.findUnique({
+          where: { id: req.params.id },
+          include: { bids: { select: { freelancerId: true } } },
+        });
+        if (!task) {
+          res.status(404).json({ success: false, error: 'Task not found' });
+          return;
+        }
+        if (task.clientId !== req.user?.id) {
+          res.status(403).json({ success: false, error: 'You are not authorized to edit this task.' });
+          return;
+        }
+        if (task.status !== TaskStatus.open) {
+          res.status(400).json({ success: false, error: 'Only tasks that are still open for bidding can be edited.' });
+          return;
+        }
+
+        const { title, description, category, budget, budgetType, deadline, maxRevisions, weeklyHourCap, skillIds } = req.body;
+        if (skillIds) {
+          const unknownSkillIds = await findUnknownSkillIds(prisma, skillIds);
+          if (unknownSkillIds.length > 0) {
+            res.status(400).json({ success: false, error: 'One or more selected skills no longer exist.' });
+            return;
+          }
+        }
+
+        const updatedTask: Task = await prisma.task.update({
+          where: { id: task.id },
+          data: {
+            title, description, category, budget, budgetType, deadline, maxRevisions, weeklyHourCap,
+            // Sending skillIds replaces the task's skill list; leaving it out keeps the current one.
+            ...(skillIds && {
+              skills: { deleteMany: {}, create: [...new Set(skillIds)].map((skillId) => ({ skillId })) },
+            }),
+          },
+        });
+
+        await notifyUsers(
+          prisma,
+          task.bids.map((bid) => bid.freelancerId),
+          `The project "${updatedTask.title}" you bid on has been updated by the client. Please review the changes.`
+        );
+
+        res.json({ success: true, message: 'Task updated successfully', data: updatedTask });
+      } catch (error: unknown) {
+        console.error(`Failed to update task with ID ${req.params.id}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'Failed to update task';
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // PATCH /api/tasks/:id/cancel - The owning client cancels a task that is not yet completed.
+  router.patch('/:id/cancel',
+    [
+      body('reason').optional().trim().isLength({ max: 500 }).withMessage('Reason must be at most 500 characters')
+    ],
+    async (req: AuthRequest<{ id: string }, ApiResponse<Task>, CancelTaskRequestBody>, res: Response<ApiResponse<Task>>): Promise<void> => {
+      try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+          const response: ApiResponse = {
+            success: false,
+            error: 'Validation failed',
+            data: errors.array()
+          };
+          res.status(400).json(response);
+          return;
+        }
+
+        const task = await prisma.task.findUnique({
+          where: { id: req.params.id },
+          include: { bids: { where: { status: { not: BidStatus.withdrawn } }, select: { freelancerId: true } } },
+        });
+        if (!task) {
+          res.status(404).json({ success: false, error: 'Task not found' });
+          return;
+        }
+        if (task.clientId !== req.user?.id) {
+          res.status(403).json({ success: false, error: 'You are not authorized to cancel this task.' });
+          return;
+        }
+
+        // Unfinished milestones are refunded to the client's wallet with the task.
+        await cancelTask(prisma, task, { actorId: task.clientId, note: req.body.reason });
+
+        const reason = req.body.reason ? ` Reason: ${req.body.reason}` : '';
+        await notifyUsers(
+          prisma,
+          task.bids.map((bid) => bid.freelancerId),
+          `The project "${task.title}" you bid on has been cancelled by the client.${reason}`
+        );
+
+        const { bids, ...cancelledTask } = task;
+        res.json({ success: true, message: 'Task cancelled', data: { ...cancelledTask, status: TaskStatus.cancelled } });
+      } catch (error: unknown) {
+        if (error instanceof TaskStatusTransitionError || error instanceof LedgerError) {
+          res.status(400).json({ success: false, error: error.message });
+          return;
+        }
+        console.error(`Failed to cancel task with ID ${req.params.id}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'Failed to cancel task';
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // PATCH /api/tasks/:id/reopen - The owning client reopens a cancelled task for bidding.
+  router.patch('/:id/reopen', async (req: AuthRequest<{ id: string }>, res: Response<ApiResponse<Task>>): Promise<void> => {
+    try {
+      const task = await prisma.task.findUnique({
+        where: { id: req.params.id },
+        include: { bids: { where: { status: BidStatus.accepted }, select: { id: true } } },
+      });
+      if (!task) {
+        res.status(404).json({ success: false, error: 'Task not found' });
+        return;
+      }
+      if (task.clientId !== req.user?.id) {
+        res.status(403).json({ success: false, error: 'You are not authorized to reopen this task.' });
+        return;
+      }
+      if (task.bids.length > 0) {
+        res.status(400).json({ success: false, error: 'A task that already had a freelancer hired cannot be reopened. Please post a new task instead.' });
+        return;
+      }
+
+      await transitionTaskStatus(prisma, task, TaskStatus.open);
+
+      const { bids, ...reopenedTask } = task;
+      res.json({ success: true, message: 'Task reopened for bidding', data: { ...reopenedTask, status: TaskStatus.open } });
+    } catch (error: unknown) {
+      if (error instanceof TaskStatusTransitionError) {
+        res.status(400).json({ success: false, error: error.message });
+        return;
+      }
+      console.error(`Failed to reopen task with ID ${req.params.id}:`, error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to reopen task';
+      res.status(500).json({ success: false, error: errorMessage });
+    }
+  });
+
   return router;
 };
\ No newline at end of file
@@ -0,0 +1,799 @@
+// backend/routes/timesheets.ts
+import express, { Response } from "express";
+import {
+  body,
+  param,
+  ValidationError,
+  validationResult,
+} from "express-validator";
+import { PrismaClient, TimesheetStatus } from "@prisma/client";
+import {
+  ApiResponse,
+  AuthRequest,
+  DisputeTimesheetRequestBody,
+  HourlyContractSummary,
+  StartTimerRequestBody,
+  TaskIdParams,
+  TimeEntry,
+  TimeEntryRequestBody,
+  Timesheet,
+  UpdateTimeEntryRequestBody,
+  WeeklyHourCapRequestBody,
+} from "../types";
+import { notifyUser } from "../services/notification.service";
+import { PaymentDeclinedError } from "../services/payment.service";
+import { LedgerError } from "../services/ledger.service";
+import { TaskStatusTransitionError } from "../services/taskStatus.service";
+import { promptForReviews } from "../services/review.service";
+import {
+  approveTimesheet,
+  assertContractActive,
+  assertWithinWeeklyCap,
+  EDITABLE_TIMESHEET_STATUSES,
+  endHourlyContract,
+  findHourlyContract,
+  getEditableTimesheet,
+  getRemainingWeeklyMinutes,
+  getWeekEnd,
+  getWeekStart,
+  MAX_ENTRY_MINUTES,
+  minutesBetween,
+  TimesheetRuleError,
+} from "../services/timesheet.service";
+
+const router = express.Router();
+
+// Cap on the weekly hour cap itself: every hour of a week.
+const MAX_WEEKLY_HOURS = 168;
+
+const memoValidator = () =>
+  body("memo")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Memo must be at most 500 characters");
+
+const entryIdValidator = () =>
+  param("entryId").isUUID().withMessage("Valid time entry ID is required");
+
+const timesheetIdValidator = () =>
+  param("timesheetId").isUUID().withMessage("Valid timesheet ID is required");
+
+const sendRuleError = (res: Response, error: unknown): boolean => {
+  if (error instanceof TimesheetRuleError || error instanceof LedgerError) {
+    res.status(400).json({ success: false, error: error.message });
+    return true;
+  }
+  return false;
+};
+
+// Shared checks for manual entries, whether new or edited.
+const checkEntryTimes = (startedAt: Date, endedAt: Date): string | null => {
+  if (endedAt <= startedAt) return "The end time must be after the start time.";
+  if (endedAt > new Date()) return "Time cannot be logged in the future.";
+  if (minutesBetween(startedAt, endedAt) > MAX_ENTRY_MINUTES) {
+    return "A single entry cannot be longer than 24 hours.";
+  }
+  return null;
+};
+
+export const createTimesheetsRouter = (prisma: PrismaClient) => {
+  // Loads an entry with everything needed to check the hired freelancer may change it.
+  const findEntry = (entryId: string) =>
+    prisma.timeEntry.findUnique({
+      where: { id: entryId },
+      include: { timesheet: true },
+    });
+
+  // GET /api/timesheets/task/:taskId - Rate, cap and every week of time on an hourly contract
+  router.get(
+    "/task/:taskId",
+    async (
+      req: AuthRequest<TaskIdParams>,
+      res: Response<ApiResponse<HourlyContractSummary>>
+    ) => {
+      try {
+        const contract = await findHourlyContract(prisma, req.params.taskId);
+        if (!contract) {
+          return res.status(404).json({
+            success: false,
+            error: "This task has no hourly contract.",
+          });
+        }
+        const userId = req.user!.id;
+        if (
+          contract.clientId !== userId &&
+          contract.bids[0].freelancerId !== userId
+        ) {
+          return res.status(403).json({
+            success: false,
+            error: "Only the client and the hired freelancer can see timesheets.",
+          });
+        }
+
+        const timesheets = await prisma.timesheet.findMany({
+          where: { taskId: contract.id },
+          include: { entries: { orderBy: { startedAt: "asc" } } },
+          orderBy: { weekStart: "desc" },
+        });
+        res.json({
+          success: true,
+          data: {
+            hourlyRate: contract.bids[0].amount,
+            weeklyHourCap: contract.weeklyHourCap,
+            timesheets,
+          },
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to fetch timesheets.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // PUT /api/timesheets/task/:taskId/cap - The client sets or removes the weekly hour cap
+  router.put(
+    "/task/:taskId/cap",
+    [
+      body("weeklyHourCap")
+        .optional({ values: "null" })
+        .isFloat({ gt: 0, max: MAX_WEEKLY_HOURS })
+        .toFloat()
+        .withMessage(
+          `Weekly hour cap must be between 0 and ${MAX_WEEKLY_HOURS} hours`
+        ),
+    ],
+    async (
+      req: AuthRequest<TaskIdParams, ApiResponse, WeeklyHourCapRequestBody>,
+      res: Response<ApiResponse<ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const contract = await findHourlyContract(prisma, req.params.taskId);
+        if (!contract) {
+          return res.status(404).json({
+            success: false,
+            error: "This task has no hourly contract.",
+          });
+        }
+        if (contract.clientId !== req.user!.id) {
+          return res.status(403).json({
+            success: false,
+            error: "Only the client can change the weekly hour cap.",
+          });
+        }
+
+        const weeklyHourCap = req.body.weeklyHourCap ?? null;
+        await prisma.task.update({
+          where: { id: contract.id },
+          data: { weeklyHourCap },
+        });
+        await notifyUser(
+          prisma,
+          contract.bids[0].freelancerId,
+          weeklyHourCap === null
+            ? `The weekly hour cap on "${contract.title}" was removed.`
+            : `The weekly hour cap on "${contract.title}" is now ${weeklyHourCap} hours.`
+        );
+        res.json({ success: true, message: "Weekly hour cap updated." });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to update the cap.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // PATCH /api/timesheets/task/:taskId/end - The client ends the contract and completes the task
+  router.patch(
+    "/task/:taskId/end",
+    async (req: AuthRequest<TaskIdParams>, res: Response<ApiResponse>) => {
+      try {
+        const contract = await findHourlyContract(prisma, req.params.taskId);
+        if (!contract) {
+          return res.status(404).json({
+            success: false,
+            error: "This task has no hourly contract.",
+          });
+        }
+        if (contract.clientId !== req.user!.id) {
+          return res.status(403).json({
+            success: false,
+            error: "Only the client can end the contract.",
+          });
+        }
+
+        await endHourlyContract(prisma, contract);
+        await notifyUser(
+          prisma,
+          contract.bids[0].freelancerId,
+          `The client ended the contract for "${contract.title}".`
+        );
+        await promptForReviews(prisma, contract).catch((error) =>
+          console.error(
+            `Failed to send review prompts for task ${contract.id}:`,
+            error
+          )
+        );
+        res.json({ success: true, message: "Contract ended." });
+      } catch (error: unknown) {
+        if (sendRuleError(res, error)) return;
+        if (error instanceof TaskStatusTransitionError) {
+          return res.status(400).json({ success: false, error: error.message });
+        }
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to end the contract.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // POST /api/timesheets/task/:taskId/timer - The hired freelancer starts a timer
+  router.post(
+    "/task/:taskId/timer",
+    [memoValidator()],
+    async (
+      req: AuthRequest<TaskIdParams, ApiResponse<TimeEntry>, StartTimerRequestBody>,
+      res: Response<ApiResponse<TimeEntry | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const contract = await findHourlyContract(prisma, req.params.taskId);
+        if (!contract || contract.bids[0].freelancerId !== req.user!.id) {
+          return res.status(403).json({
+            success: false,
+            error: "Only the hired freelancer of an hourly task can log time.",
+          });
+        }
+        assertContractActive(contract);
+
+        const running = await prisma.timeEntry.findFirst({
+          where: { endedAt: null, timesheet: { taskId: contract.id } },
+        });
+        if (running) {
+          return res.status(400).json({
+            success: false,
+            error: "A timer is already running on this task.",
+          });
+        }
+
+        const startedAt = new Date();
+        const timesheet = await getEditableTimesheet(prisma, contract, startedAt);
+        if ((await getRemainingWeeklyMinutes(prisma, contract, timesheet.id)) <= 0) {
+          return res.status(400).json({
+            success: false,
+            error: `You have reached the weekly cap of ${contract.weeklyHourCap} hours.`,
+          });
+        }
+
+        const entry = await prisma.timeEntry.create({
+          data: { timesheetId: timesheet.id, startedAt, memo: req.body.memo },
+        });
+        res.status(201).json({ success: true, message: "Timer started.", data: entry });
+      } catch (error: unknown) {
+        if (sendRuleError(res, error)) return;
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to start the timer.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // PATCH /api/timesheets/entries/:entryId/stop - Stops a running timer
+  router.patch(
+    "/entries/:entryId/stop",
+    [entryIdValidator()],
+    async (
+      req: AuthRequest<{ entryId: string }>,
+      res: Response<ApiResponse<TimeEntry | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const entry = await findEntry(req.params.entryId);
+        if (!entry || entry.timesheet.freelancerId !== req.user!.id) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Time entry not found." });
+        }
+        if (entry.endedAt) {
+          return res.status(400).json({
+            success: false,
+            error: "This timer was already stopped.",
+          });
+        }
+        const contract = await findHourlyContract(prisma, entry.timesheet.taskId);
+        if (!contract) {
+          return res.status(400).json({
+            success: false,
+            error: "This task no longer has an hourly contract.",
+          });
+        }
+
+        // Time past the weekly cap or the one-day limit is not counted.
+        const remaining = await getRemainingWeeklyMinutes(
+          prisma,
+          contract,
+          entry.timesheetId,
+          entry.id
+        );
+        const minutes = Math.min(
+          minutesBetween(entry.startedAt, new Date()),
+          remaining,
+          MAX_ENTRY_MINUTES
+        );
+        const endedAt = new Date(entry.startedAt.getTime() + minutes * 60 * 1000);
+
+        const stopped = await prisma.timeEntry.update({
+          where: { id: entry.id },
+          data: { endedAt, minutes },
+        });
+        res.json({ success: true, message: "Timer stopped.", data: stopped });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to stop the timer.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // POST /api/timesheets/task/:taskId/entries - The hired freelancer logs time by hand
+  router.post(
+    "/task/:taskId/entries",
+    [
+      body("startedAt")
+        .isISO8601()
+        .toDate()
+        .withMessage("Start time must be a valid ISO 8601 date"),
+      body("endedAt")
+        .isISO8601()
+        .toDate()
+        .withMessage("End time must be a valid ISO 8601 date"),
+      memoValidator(),
+    ],
+    async (
+      req: AuthRequest<TaskIdParams, ApiResponse<TimeEntry>, TimeEntryRequestBody>,
+      res: Response<ApiResponse<TimeEntry | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const { startedAt, endedAt, memo } = req.body;
+        const contract = await findHourlyContract(prisma, req.params.taskId);
+        if (!contract || contract.bids[0].freelancerId !== req.user!.id) {
+          return res.status(403).json({
+            success: false,
+            error: "Only the hired freelancer of an hourly task can log time.",
+          });
+        }
+        assertContractActive(contract);
+        const timeError = checkEntryTimes(startedAt, endedAt);
+        if (timeError) {
+          return res.status(400).json({ success: false, error: timeError });
+        }
+
+        const minutes = minutesBetween(startedAt, endedAt);
+        const entry = await prisma.$transaction(async (tx) => {
+          const timesheet = await getEditableTimesheet(tx, contract, startedAt);
+          await assertWithinWeeklyCap(tx, contract, timesheet.id, minutes);
+          return tx.timeEntry.create({
+            data: { timesheetId: timesheet.id, startedAt, endedAt, minutes, memo },
+          });
+        });
+        res.status(201).json({ success: true, message: "Time logged.", data: entry });
+      } catch (error: unknown) {
+        if (sendRuleError(res, error)) return;
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to log time.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // PATCH /api/timesheets/entries/:entryId - Corrects a stopped entry's times or memo
+  router.patch(
+    "/entries/:entryId",
+    [
+      entryIdValidator(),
+      body("startedAt")
+        .optional()
+        .isISO8601()
+        .toDate()
+        .withMessage("Start time must be a valid ISO 8601 date"),
+      body("endedAt")
+        .optional()
+        .isISO8601()
+        .toDate()
+        .withMessage("End time must be a valid ISO 8601 date"),
+      memoValidator(),
+    ],
+    async (
+      req: AuthRequest<
+        { entryId: string },
+        ApiResponse<TimeEntry>,
+        UpdateTimeEntryRequestBody
+      >,
+      res: Response<ApiResponse<TimeEntry | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const entry = await findEntry(req.params.entryId);
+        if (!entry || entry.timesheet.freelancerId !== req.user!.id) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Time entry not found." });
+        }
+        if (!EDITABLE_TIMESHEET_STATUSES.includes(entry.timesheet.status)) {
+          return res.status(400).json({
+            success: false,
+            error: `This entry's timesheet is ${entry.timesheet.status} and can no longer change.`,
+          });
+        }
+        const { memo } = req.body;
+        const startedAt = req.body.startedAt ?? entry.startedAt;
+        const endedAt = req.body.endedAt ?? entry.endedAt;
+        const timesChanged =
+          req.body.startedAt !== undefined || req.body.endedAt !== undefined;
+
+        if (timesChanged) {
+          if (!endedAt) {
+            return res.status(400).json({
+              success: false,
+              error: "Stop the timer before changing its times.",
+            });
+          }
+          const timeError = checkEntryTimes(startedAt, endedAt);
+          if (timeError) {
+            return res.status(400).json({ success: false, error: timeError });
+          }
+          if (
+            getWeekStart(startedAt).getTime() !==
+            entry.timesheet.weekStart.getTime()
+          ) {
+            return res.status(400).json({
+              success: false,
+              error: "An entry cannot be moved to another week. Delete it and log it again.",
+            });
+          }
+        }
+
+        const contract = await findHourlyContract(prisma, entry.timesheet.taskId);
+        if (!contract) {
+          return res.status(400).json({
+            success: false,
+            error: "This task no longer has an hourly contract.",
+          });
+        }
+        const minutes =
+          timesChanged && endedAt ? minutesBetween(startedAt, endedAt) : entry.minutes;
+
+        const updated = await prisma.$transaction(async (tx) => {
+          if (timesChanged) {
+            await assertWithinWeeklyCap(tx, contract, entry.timesheetId, minutes, entry.id);
+          }
+          return tx.timeEntry.update({
+            where: { id: entry.id },
+            data: timesChanged ? { startedAt, endedAt, minutes, memo } : { memo },
+          });
+        });
+        res.json({ success: true, message: "Time entry updated.", data: updated });
+      } catch (error: unknown) {
+        if (sendRuleError(res, error)) return;
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to update time entry.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // DELETE /api/timesheets/entries/:entryId - Removes an entry from an unsubmitted week
+  router.delete(
+    "/entries/:entryId",
+    [entryIdValidator()],
+    async (
+      req: AuthRequest<{ entryId: string }>,
+      res: Response<ApiResponse<ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const entry = await findEntry(req.params.entryId);
+        if (!entry || entry.timesheet.freelancerId !== req.user!.id) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Time entry not found." });
+        }
+        if (!EDITABLE_TIMESHEET_STATUSES.includes(entry.timesheet.status)) {
+          return res.status(400).json({
+            success: false,
+            error: `This entry's timesheet is ${entry.timesheet.status} and can no longer change.`,
+          });
+        }
+
+        await prisma.timeEntry.delete({ where: { id: entry.id } });
+        res.json({ success: true, message: "Time entry deleted." });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to delete time entry.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // PATCH /api/timesheets/:timesheetId/submit - The freelancer sends a finished week for review
+  router.patch(
+    "/:timesheetId/submit",
+    [timesheetIdValidator()],
+    async (
+      req: AuthRequest<{ timesheetId: string }>,
+      res: Response<ApiResponse<Timesheet | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const timesheet = await prisma.timesheet.findUnique({
+          where: { id: req.params.timesheetId },
+          include: {
+            task: true,
+            entries: { select: { endedAt: true, minutes: true } },
+          },
+        });
+        if (!timesheet || timesheet.freelancerId !== req.user!.id) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Timesheet not found." });
+        }
+        if (!EDITABLE_TIMESHEET_STATUSES.includes(timesheet.status)) {
+          return res.status(400).json({
+            success: false,
+            error: "This timesheet was already submitted.",
+          });
+        }
+        if (getWeekEnd(timesheet.weekStart) > new Date()) {
+          return res.status(400).json({
+            success: false,
+            error: "A week can only be submitted once it is over.",
+          });
+        }
+        if (timesheet.entries.some((entry) => entry.endedAt === null)) {
+          return res.status(400).json({
+            success: false,
+            error: "Stop the running timer before submitting.",
+          });
+        }
+        const totalMinutes = timesheet.entries.reduce(
+          (sum, entry) => sum + entry.minutes,
+          0
+        );
+        if (totalMinutes === 0) {
+          return res.status(400).json({
+            success: false,
+            error: "There is no time to submit for this week.",
+          });
+        }
+
+        const { count } = await prisma.timesheet.updateMany({
+          where: {
+            id: timesheet.id,
+            status: { in: EDITABLE_TIMESHEET_STATUSES },
+          },
+          data: { status: TimesheetStatus.submitted, submittedAt: new Date() },
+        });
+        if (count === 0) {
+          return res.status(400).json({
+            success: false,
+            error: "This timesheet was already submitted.",
+          });
+        }
+
+        await notifyUser(
+          prisma,
+          timesheet.task.clientId,
+          `${(totalMinutes / 60).toFixed(2)} hours were submitted for review on "${timesheet.task.title}".`
+        );
+        const submitted = await prisma.timesheet.findUniqueOrThrow({
+          where: { id: timesheet.id },
+        });
+        res.json({
+          success: true,
+          message: "Timesheet submitted for the client's approval.",
+          data: submitted,
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to submit timesheet.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // PATCH /api/timesheets/:timesheetId/approve - The client approves and pays a submitted week
+  router.patch(
+    "/:timesheetId/approve",
+    [timesheetIdValidator()],
+    async (
+      req: AuthRequest<{ timesheetId: string }>,
+      res: Response<ApiResponse<Timesheet | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const timesheet = await prisma.timesheet.findUnique({
+          where: { id: req.params.timesheetId },
+        });
+        const contract =
+          timesheet && (await findHourlyContract(prisma, timesheet.taskId));
+        if (!timesheet || !contract || contract.clientId !== req.user!.id) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Timesheet not found." });
+        }
+        if (timesheet.status !== TimesheetStatus.submitted) {
+          return res.status(400).json({
+            success: false,
+            error: "Only submitted timesheets can be approved.",
+          });
+        }
+
+        const approved = await approveTimesheet(prisma, timesheet, contract);
+        await notifyUser(
+          prisma,
+          timesheet.freelancerId,
+          `Your hours on "${contract.title}" were approved and $${approved.amount?.toFixed(2)} was paid to your balance.`
+        );
+        res.json({
+          success: true,
+          message: `Timesheet approved and $${approved.amount?.toFixed(2)} paid.`,
+          data: approved,
+        });
+      } catch (error: unknown) {
+        if (sendRuleError(res, error)) return;
+        if (error instanceof TaskStatusTransitionError) {
+          return res.status(400).json({ success: false, error: error.message });
+        }
+        if (error instanceof PaymentDeclinedError) {
+          return res.status(402).json({ success: false, error: error.message });
+        }
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to approve timesheet.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // PATCH /api/timesheets/:timesheetId/dispute - The client sends a submitted week back
+  router.patch(
+    "/:timesheetId/dispute",
+    [
+      timesheetIdValidator(),
+      body("reason")
+        .trim()
+        .isLength({ min: 10, max: 2000 })
+        .withMessage("Reason must be between 10 and 2000 characters"),
+    ],
+    async (
+      req: AuthRequest<
+        { timesheetId: string },
+        ApiResponse<Timesheet>,
+        DisputeTimesheetRequestBody
+      >,
+      res: Response<ApiResponse<Timesheet | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const timesheet = await prisma.timesheet.findUnique({
+          where: { id: req.params.timesheetId },
+          include: { task: true },
+        });
+        if (!timesheet || timesheet.task.clientId !== req.user!.id) {
+          return res
+            .status(404)
+            .json({ success: false, error: "Timesheet not found." });
+        }
+
+        const { count } = await prisma.timesheet.updateMany({
+          where: { id: timesheet.id, status: TimesheetStatus.submitted },
+          data: {
+            status: TimesheetStatus.disputed,
+            disputeReason: req.body.reason,
+            reviewedAt: new Date(),
+          },
+        });
+        if (count === 0) {
+          return res.status(400).json({
+            success: false,
+            error: "Only submitted timesheets can be disputed.",
+          });
+        }
+
+        await notifyUser(
+          prisma,
+          timesheet.freelancerId,
+          `The client disputed your hours for the week of ${timesheet.weekStart.toISOString().slice(0, 10)} on "${timesheet.task.title}": ${req.body.reason}`
+        );
+        const disputed = await prisma.timesheet.findUniqueOrThrow({
+          where: { id: timesheet.id },
+        });
+        res.json({
+          success: true,
+          message: "Timesheet sent back to the freelancer.",
+          data: disputed,
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to dispute timesheet.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  return router;
+};
@@ -0,0 +1,96 @@
+// backend/routes/users.ts
+import express, { Response } from "express";
+import { param, ValidationError, validationResult } from "express-validator";
+import { PrismaClient } from "@prisma/client";
+import { ApiResponse, AuthRequest, PublicUserProfile } from "../types";
+import { toUserSkillSummary, userSkillsSelect } from "../services/skill.service";
+import { getRatingStats } from "../services/review.service";
+import {
+  countCompletedJobs,
+  userPublicProfileSelect,
+} from "../services/user.service";
+
+const router = express.Router();
+
+const RECENT_REVIEWS_LIMIT = 10;
+
+export const createUsersRouter = (prisma: PrismaClient) => {
+  // GET /api/users/:id/public - Another user's public profile, ratings and recent reviews
+  router.get(
+    "/:id/public",
+    [param("id").isUUID().withMessage("Valid user ID is required")],
+    async (
+      req: AuthRequest<{ id: string }>,
+      res: Response<ApiResponse<PublicUserProfile | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const { id } = req.params;
+        const user = await prisma.user.findUnique({
+          where: { id },
+          select: {
+            ...userPublicProfileSelect,
+            bio: true,
+            role: true,
+            portfolioUrl: true,
+            githubUrl: true,
+            linkedinUrl: true,
+            createdAt: true,
+            skills: {
+              select: userSkillsSelect,
+              orderBy: { skill: { name: "asc" } },
+            },
+          },
+        });
+        if (!user) {
+          return res.status(404).json({ success: false, error: "User not found." });
+        }
+
+        const [ratings, completedJobs, recentReviews] = await Promise.all([
+          getRatingStats(prisma, [id]),
+          countCompletedJobs(prisma, id),
+          prisma.review.findMany({
+            where: { revieweeId: id, revealAt: { lte: new Date() } },
+            select: {
+              id: true,
+              rating: true,
+              comment: true,
+              createdAt: true,
+              reviewer: { select: userPublicProfileSelect },
+              task: { select: { id: true, title: true } },
+            },
+            orderBy: { createdAt: "desc" },
+            take: RECENT_REVIEWS_LIMIT,
+          }),
+        ]);
+
+        const { createdAt, skills, ...profile } = user;
+        res.json({
+          success: true,
+          data: {
+            ...profile,
+            skills: skills.map(toUserSkillSummary),
+            rating: ratings.get(id) ?? null,
+            completedJobs,
+            memberSince: createdAt,
+            recentReviews,
+          },
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to fetch profile.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  return router;
+};
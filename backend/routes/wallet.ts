@@ -0,0 +1,235 @@
+// backend/routes/wallet.ts
+import express, { Response } from "express";
+import { body, ValidationError, validationResult } from "express-validator";
+import {
+  BidStatus,
+  LedgerEntry,
+  LedgerEntryType,
+  PrismaClient,
+  WalletKind,
+} from "@prisma/client";
+import {
+  ApiResponse,
+  AuthRequest,
+  WalletLedgerEntry,
+  WalletSummary,
+  WithdrawRequestBody,
+} from "../types";
+import {
+  fromCents,
+  getExternalWallet,
+  getUserWallet,
+  getWalletBalanceCents,
+  lockWallet,
+  postTransfer,
+  sumEntriesCents,
+  toCents,
+} from "../services/ledger.service";
+import {
+  getPaymentProvider,
+  PaymentDeclinedError,
+} from "../services/payment.service";
+
+const router = express.Router();
+
+const RECENT_ENTRIES_LIMIT = 50;
+
+const toWalletLedgerEntry = ({
+  walletId: _walletId,
+  amountCents,
+  ...entry
+}: LedgerEntry): WalletLedgerEntry => ({
+  ...entry,
+  amount: fromCents(amountCents),
+});
+
+export const createWalletRouter = (prisma: PrismaClient) => {
+  // GET /api/wallet - Balance, escrow held on the user's tasks and recent ledger entries
+  router.get(
+    "/",
+    async (req: AuthRequest, res: Response<ApiResponse<WalletSummary>>) => {
+      try {
+        const userId = req.user!.id;
+        const wallet = await getUserWallet(prisma, userId);
+
+        const [balanceCents, inEscrowCents, entries] = await Promise.all([
+          getWalletBalanceCents(prisma, wallet.id),
+          sumEntriesCents(prisma, {
+            wallet: {
+              kind: WalletKind.escrow,
+              task: {
+                OR: [
+                  { clientId: userId },
+                  {
+                    bids: {
+                      some: { freelancerId: userId, status: BidStatus.accepted },
+                    },
+                  },
+                ],
+              },
+            },
+          }),
+          prisma.ledgerEntry.findMany({
+            where: { walletId: wallet.id },
+            orderBy: [{ createdAt: "desc" }, { id: "asc" }],
+            take: RECENT_ENTRIES_LIMIT,
+          }),
+        ]);
+
+        // Payout references are stored apart from their ledger entries; see PayoutReference.
+        const payoutReferences = await prisma.payoutReference.findMany({
+          where: {
+            transactionId: {
+              in: entries
+                .filter((entry) => entry.type === LedgerEntryType.payout)
+                .map((entry) => entry.transactionId),
+            },
+          },
+        });
+        const referenceByTransaction = new Map(
+          payoutReferences.map((payout) => [payout.transactionId, payout.reference])
+        );
+
+        res.json({
+          success: true,
+          data: {
+            balance: fromCents(balanceCents),
+            inEscrow: fromCents(inEscrowCents),
+            entries: entries.map((entry) =>
+              toWalletLedgerEntry({
+                ...entry,
+                reference:
+                  entry.reference ??
+                  referenceByTransaction.get(entry.transactionId) ??
+                  null,
+              })
+            ),
+          },
+        });
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to fetch wallet.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  // POST /api/wallet/withdraw - Pay part of the balance out through the payment provider
+  router.post(
+    "/withdraw",
+    [
+      body("amount")
+        .isFloat({ gt: 0 })
+        .toFloat()
+        .withMessage("Amount must be a positive number"),
+    ],
+    async (
+      req: AuthRequest<
+        {},
+        ApiResponse<WalletLedgerEntry[]>,
+        WithdrawRequestBody
+      >,
+      res: Response<ApiResponse<WalletLedgerEntry[] | ValidationError[]>>
+    ) => {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: "Validation failed",
+          data: errors.array(),
+        });
+      }
+
+      try {
+        const userId = req.user!.id;
+        const amountCents = toCents(req.body.amount);
+
+        // The withdrawal is booked while the wallet is locked so the balance cannot be
+        // spent twice; the provider is called after the commit and a declined payout
+        // is booked back to the wallet.
+        const withdrawal = await prisma.$transaction(async (tx) => {
+          const [wallet, external] = await Promise.all([
+            getUserWallet(tx, userId),
+            getExternalWallet(tx),
+          ]);
+          await lockWallet(tx, wallet.id);
+
+          const balanceCents = await getWalletBalanceCents(tx, wallet.id);
+          if (amountCents > balanceCents) {
+            return null;
+          }
+
+          const transactionId = await postTransfer(tx, {
+            fromWalletId: wallet.id,
+            toWalletId: external.id,
+            amountCents,
+            type: LedgerEntryType.payout,
+            description: "Withdrawal",
+          });
+          return { transactionId, walletId: wallet.id, externalWalletId: external.id };
+        });
+
+        if (!withdrawal) {
+          return res.status(400).json({
+            success: false,
+            error: "You cannot withdraw more than your available balance.",
+          });
+        }
+
+        const { transactionId, walletId, externalWalletId } = withdrawal;
+        let payout: { reference: string };
+        try {
+          payout = await getPaymentProvider().payout({
+            userId,
+            amountCents,
+            description: "Wallet withdrawal",
+          });
+        } catch (error) {
+          if (error instanceof PaymentDeclinedError) {
+            await postTransfer(prisma, {
+              fromWalletId: externalWalletId,
+              toWalletId: walletId,
+              amountCents,
+              type: LedgerEntryType.payout_reversal,
+              description: "Withdrawal declined",
+            });
+          } else {
+            // The outcome is unknown, so the withdrawal stays booked for manual follow-up.
+            console.error(`Payout for withdrawal ${transactionId} failed:`, error);
+          }
+          throw error;
+        }
+
+        await prisma.payoutReference
+          .create({
+            data: { transactionId, reference: payout.reference },
+          })
+          .catch((error) =>
+            console.error(
+              `Failed to record payout reference ${payout.reference} for withdrawal ${transactionId}:`,
+              error
+            )
+          );
+        const entries = await prisma.ledgerEntry.findMany({
+          where: { transactionId, walletId },
+        });
+        const reference = payout.reference;
+
+        res.status(201).json({
+          success: true,
+          message: "Withdrawal sent.",
+          data: entries.map((entry) => toWalletLedgerEntry({ ...entry, reference })),
+        });
+      } catch (error: unknown) {
+        if (error instanceof PaymentDeclinedError) {
+          return res.status(402).json({ success: false, error: error.message });
+        }
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to withdraw funds.";
+        res.status(500).json({ success: false, error: errorMessage });
+      }
+    }
+  );
+
+  return router;
+};
@@ -0,0 +1,172 @@
+import {
+  Attachment,
+  BidStatus,
+  DisputeStatus,
+  MilestoneStatus,
+  Prisma,
+  PrismaClient,
+  TaskStatus,
+  UserRole,
+} from "@prisma/client";
+import { JwtPayload } from "../types";
+import { canAccessDispute, findDisputeParties } from "./dispute.service";
+import { isUserAuthorizedForThread } from "./chat.service";
+
+export const ATTACHMENT_PARENT_TYPES = [
+  "task",
+  "bid",
+  "milestone",
+  "dispute",
+  "message",
+] as const;
+export type AttachmentParentType = (typeof ATTACHMENT_PARENT_TYPES)[number];
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB
+export const MAX_ATTACHMENTS_PER_UPLOAD = 5;
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "application/zip",
+  "application/x-zip-compressed",
+  "text/plain",
+  "text/csv",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+];
+
+export interface AttachmentPermissions {
+  canView: boolean;
+  canUpload: boolean;
+}
+
+// The foreign-key column for a parent, usable both as a filter and as create data.
+export const attachmentParentFields = (
+  parentType: AttachmentParentType,
+  parentId: string
+): Pick<
+  Prisma.AttachmentUncheckedCreateInput,
+  "taskId" | "bidId" | "milestoneId" | "disputeId" | "messageId"
+> => {
+  switch (parentType) {
+    case "task":
+      return { taskId: parentId };
+    case "bid":
+      return { bidId: parentId };
+    case "milestone":
+      return { milestoneId: parentId };
+    case "dispute":
+      return { disputeId: parentId };
+    case "message":
+      return { messageId: parentId };
+  }
+};
+
+export const getAttachmentParent = (
+  attachment: Attachment
+): { parentType: AttachmentParentType; parentId: string } => {
+  if (attachment.taskId) return { parentType: "task", parentId: attachment.taskId };
+  if (attachment.bidId) return { parentType: "bid", parentId: attachment.bidId };
+  if (attachment.milestoneId) {
+    return { parentType: "milestone", parentId: attachment.milestoneId };
+  }
+  if (attachment.disputeId) {
+    return { parentType: "dispute", parentId: attachment.disputeId };
+  }
+  if (attachment.messageId) {
+    return { parentType: "message", parentId: attachment.messageId };
+  }
+  throw new Error(`Attachment ${attachment.id} has no parent.`);
+};
+
+// Resolves what the user may do with files attached to the given record.
+// Returns null when the record does not exist.
+//  - task briefs are visible to every signed-in user so freelancers can read them before bidding
+//  - bid samples are visible to the bidder and the task's client
+//  - milestone deliverables are visible to the task's client and hired freelancer only
+//  - dispute evidence is visible to both parties and admins, and can be added while the dispute is open
+//  - chat files are visible to the chat's participants and admins, and are only added by sending a message
+export const getAttachmentPermissions = async (
+  prisma: PrismaClient,
+  parentType: AttachmentParentType,
+  parentId: string,
+  user: JwtPayload
+): Promise<AttachmentPermissions | null> => {
+  const isAdmin = user.role === UserRole.admin;
+
+  switch (parentType) {
+    case "task": {
+      const task = await prisma.task.findUnique({ where: { id: parentId } });
+      if (!task) return null;
+      return {
+        canView: true,
+        canUpload:
+          task.clientId === user.id &&
+          task.status !== TaskStatus.completed &&
+          task.status !== TaskStatus.cancelled,
+      };
+    }
+    case "bid": {
+      const bid = await prisma.bid.findUnique({
+        where: { id: parentId },
+        include: { task: { select: { clientId: true } } },
+      });
+      if (!bid) return null;
+      const isBidder = bid.freelancerId === user.id;
+      return {
+        canView: isAdmin || isBidder || bid.task.clientId === user.id,
+        canUpload: isBidder && bid.status === BidStatus.pending,
+      };
+    }
+    case "milestone": {
+      const milestone = await prisma.milestone.findUnique({
+        where: { id: parentId },
+        include: {
+          task: {
+            select: {
+              clientId: true,
+              bids: {
+                where: { status: BidStatus.accepted },
+                select: { freelancerId: true },
+              },
+            },
+          },
+        },
+      });
+      if (!milestone) return null;
+      const isHiredFreelancer = milestone.task.bids[0]?.freelancerId === user.id;
+      return {
+        canView: isAdmin || isHiredFreelancer || milestone.task.clientId === user.id,
+        canUpload:
+          isHiredFreelancer &&
+          (milestone.status === MilestoneStatus.pending ||
+            milestone.status === MilestoneStatus.in_progress),
+      };
+    }
+    case "dispute": {
+      const parties = await findDisputeParties(prisma, parentId);
+      if (!parties) return null;
+      const canView = canAccessDispute(parties, user);
+      return { canView, canUpload: canView && parties.status === DisputeStatus.open };
+    }
+    case "message": {
+      const message = await prisma.message.findUnique({
+        where: { id: parentId },
+        select: { taskId: true, bidId: true, deletedAt: true },
+      });
+      if (!message) return null;
+      // Files go with their message when it is deleted; admins keep access for disputes.
+      const canView =
+        isAdmin ||
+        (!message.deletedAt &&
+          (await isUserAuthorizedForThread(prisma, user.id, message)));
+      return { canView, canUpload: false };
+    }
+  }
+};
@@ -0,0 +1,189 @@
+import {
+  BidStatus,
+  MilestoneEventType,
+  Milestone,
+  MilestoneStatus,
+  PrismaClient,
+} from "@prisma/client";
+import { notifyUser } from "./notification.service";
+import { releaseMilestonePayment } from "./milestonePayment.service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Retries of a failing auto-release back off exponentially up to this long.
+const MAX_RETRY_DELAY_MS = DAY_MS;
+// Releases and reminders are processed in batches so one slow tick cannot pile up work.
+const BATCH_SIZE = 50;
+
+export interface AutoReleaseConfig {
+  // Days the client has to review submitted work before it is paid automatically.
+  reviewDays: number;
+  // Days before the auto-release at which the client is reminded, largest first.
+  reminderDays: number[];
+  intervalMs: number;
+}
+
+// Falls back when the variable is unset, empty or not a positive number, so a typo cannot
+// turn the scheduler into a busy loop.
+const readPositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Read lazily so values from .env are in place by the time the scheduler starts.
+export const getAutoReleaseConfig = (): AutoReleaseConfig => {
+  const reviewDays = readPositiveInt(process.env.AUTO_RELEASE_DAYS, 14);
+  const reminderDays = (process.env.AUTO_RELEASE_REMINDER_DAYS || "3,1")
+    .split(",")
+    .map((value) => parseInt(value.trim(), 10))
+    .filter((days) => days > 0 && days < reviewDays)
+    .sort((a, b) => b - a);
+  const intervalMinutes = readPositiveInt(process.env.AUTO_RELEASE_INTERVAL_MINUTES, 15);
+  return { reviewDays, reminderDays, intervalMs: intervalMinutes * 60 * 1000 };
+};
+
+export const getAutoReleaseDate = (submittedAt: Date): Date =>
+  new Date(submittedAt.getTime() + getAutoReleaseConfig().reviewDays * DAY_MS);
+
+const milestoneWithTaskInclude = {
+  task: { include: { bids: { where: { status: BidStatus.accepted } } } },
+};
+
+// Schedules the next attempt at twice the previous delay, starting from one scheduler interval.
+const recordFailedRelease = async (
+  prisma: PrismaClient,
+  milestone: Pick<Milestone, "id" | "autoReleaseFailures">,
+  now: Date,
+  intervalMs: number
+) => {
+  const failures = milestone.autoReleaseFailures + 1;
+  const delayMs = Math.min(intervalMs * 2 ** (failures - 1), MAX_RETRY_DELAY_MS);
+  await prisma.milestone
+    .update({
+      where: { id: milestone.id },
+      data: {
+        autoReleaseFailures: failures,
+        autoReleaseRetryAt: new Date(now.getTime() + delayMs),
+      },
+    })
+    .catch((error) =>
+      console.error(`Failed to record auto-release failure for milestone ${milestone.id}:`, error)
+    );
+};
+
+const releaseDueMilestones = async (
+  prisma: PrismaClient,
+  now: Date,
+  intervalMs: number
+) => {
+  // Milestones that failed recently wait out their back-off so they cannot fill every batch.
+  const due = await prisma.milestone.findMany({
+    where: {
+      status: MilestoneStatus.completed,
+      autoReleaseAt: { lte: now },
+      OR: [{ autoReleaseRetryAt: null }, { autoReleaseRetryAt: { lte: now } }],
+    },
+    include: milestoneWithTaskInclude,
+    orderBy: { autoReleaseAt: "asc" },
+    take: BATCH_SIZE,
+  });
+
+  for (const milestone of due) {
+    try {
+      await releaseMilestonePayment(prisma, milestone, {
+        actorId: null,
+        eventType: MilestoneEventType.payment_auto_released,
+      });
+    } catch (error) {
+      console.error(`Auto-release of milestone ${milestone.id} failed:`, error);
+      await recordFailedRelease(prisma, milestone, now, intervalMs);
+      continue;
+    }
+
+    const freelancerId = milestone.task.bids[0].freelancerId;
+    await notifyUser(
+      prisma,
+      freelancerId,
+      `Payment for milestone "${milestone.title}" was released automatically after the review period ended.`
+    );
+    await notifyUser(
+      prisma,
+      milestone.task.clientId,
+      `You did not review milestone "${milestone.title}" in time, so its payment was released to the freelancer.`
+    );
+  }
+};
+
+const sendReminders = async (
+  prisma: PrismaClient,
+  now: Date,
+  reminderDays: number[]
+) => {
+  if (reminderDays.length === 0) return;
+
+  const pending = await prisma.milestone.findMany({
+    where: {
+      status: MilestoneStatus.completed,
+      autoReleaseAt: {
+        gt: now,
+        lte: new Date(now.getTime() + reminderDays[0] * DAY_MS),
+      },
+      autoReleaseRemindersSent: { lt: reminderDays.length },
+    },
+    include: { task: { select: { clientId: true } } },
+    take: BATCH_SIZE,
+  });
+
+  for (const milestone of pending) {
+    const releaseAt = milestone.autoReleaseAt!;
+    // Reminders whose moment has passed. If the job was down, only the latest is sent.
+    const dueCount = reminderDays.filter(
+      (days) => now.getTime() >= releaseAt.getTime() - days * DAY_MS
+    ).length;
+    if (dueCount <= milestone.autoReleaseRemindersSent) continue;
+
+    const { count } = await prisma.milestone.updateMany({
+      where: {
+        id: milestone.id,
+        autoReleaseRemindersSent: milestone.autoReleaseRemindersSent,
+      },
+      data: { autoReleaseRemindersSent: dueCount },
+    });
+    if (count === 0) continue;
+
+    await notifyUser(
+      prisma,
+      milestone.task.clientId,
+      `Milestone "${milestone.title}" is waiting for your review. Payment will be released automatically on ${releaseAt.toUTCString()} unless you request changes.`
+    );
+  }
+};
+
+export const runAutoRelease = async (
+  prisma: PrismaClient,
+  now: Date = new Date()
+): Promise<void> => {
+  const { reminderDays, intervalMs } = getAutoReleaseConfig();
+  await releaseDueMilestones(prisma, now, intervalMs);
+  await sendReminders(prisma, now, reminderDays);
+};
+
+// Runs in-process. Ticks never overlap: a tick that is still running makes the next one a no-op.
+export const startAutoReleaseScheduler = (prisma: PrismaClient): NodeJS.Timeout => {
+  const { intervalMs } = getAutoReleaseConfig();
+  let isRunning = false;
+
+  const tick = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await runAutoRelease(prisma);
+    } catch (error) {
+      console.error("Auto-release run failed:", error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  void tick();
+  return setInterval(tick, intervalMs);
+};
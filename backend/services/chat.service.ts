@@ -0,0 +1,554 @@
+import { BidStatus, Prisma, PrismaClient } from "@prisma/client";
+import {
+  ChatReadState,
+  ChatThread,
+  ConversationSummary,
+  MessageHistory,
+  MessagePage,
+  MessageWithSender,
+  PaginationMeta,
+} from "../types";
+import { userPublicProfileSelect } from "./user.service";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export const DEFAULT_MESSAGE_PAGE_SIZE = 30;
+export const MAX_MESSAGE_PAGE_SIZE = 100;
+
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+export const MAX_MESSAGE_LENGTH = 5000;
+
+export const messageInclude = {
+  sender: { select: { id: true, firstName: true, lastName: true } },
+  attachments: {
+    select: { id: true, fileName: true, mimeType: true, size: true },
+    orderBy: { createdAt: "asc" },
+  },
+} satisfies Prisma.MessageInclude;
+
+export class MessageRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MessageRuleError";
+  }
+}
+
+// A deleted message keeps its place in the chat but shows nothing of what it said.
+// The stored content stays available to admins through getMessageHistory.
+export const toMessageView = (message: MessageWithSender): MessageWithSender =>
+  message.deletedAt ? { ...message, content: "", attachments: [] } : message;
+
+// A task's chat is private to its client and the hired freelancer.
+export const isUserAuthorizedForTask = async (
+  db: Db,
+  userId: string,
+  taskId: string
+): Promise<boolean> => {
+  const task = await db.task.findUnique({
+    where: { id: taskId },
+    select: {
+      clientId: true,
+      bids: {
+        where: { status: BidStatus.accepted },
+        select: { freelancerId: true },
+      },
+    },
+  });
+
+  if (!task) return false;
+
+  if (task.clientId === userId) return true;
+
+  const acceptedFreelancerId = task.bids[0]?.freelancerId;
+  if (acceptedFreelancerId && acceptedFreelancerId === userId) return true;
+
+  return false;
+};
+
+// Pre-hire threads are open to the task's client and the bidder. Posting stops once the
+// bid is no longer pending: an accepted bid's thread carries on in the task chat, and
+// rejected or withdrawn ones stay readable.
+export const isUserAuthorizedForThread = async (
+  db: Db,
+  userId: string,
+  thread: ChatThread,
+  options: { toPost?: boolean } = {}
+): Promise<boolean> => {
+  if (!thread.bidId) return isUserAuthorizedForTask(db, userId, thread.taskId);
+
+  const bid = await db.bid.findFirst({
+    where: { id: thread.bidId, taskId: thread.taskId },
+    select: {
+      freelancerId: true,
+      status: true,
+      task: { select: { clientId: true } },
+    },
+  });
+  if (!bid) return false;
+  if (bid.freelancerId !== userId && bid.task.clientId !== userId) return false;
+  return !options.toPost || bid.status === BidStatus.pending;
+};
+
+// Keeps only the thread fields of a socket payload, with the task chat's bidId as null.
+export const toChatThread = ({ taskId, bidId }: ChatThread): ChatThread => ({
+  taskId,
+  bidId: bidId ?? null,
+});
+
+export const getThreadRoom = (thread: ChatThread): string =>
+  thread.bidId ? `bid_${thread.bidId}` : `task_${thread.taskId}`;
+
+const threadMessageWhere = (thread: ChatThread): Prisma.MessageWhereInput => ({
+  taskId: thread.taskId,
+  bidId: thread.bidId ?? null,
+});
+
+// One page of a chat, newest first. Pass the previous page's nextCursor to walk back
+// through older messages.
+export const getMessagePage = async (
+  db: Db,
+  thread: ChatThread,
+  page: { cursor?: string; limit?: number } = {}
+): Promise<MessagePage> => {
+  const limit = page.limit ?? DEFAULT_MESSAGE_PAGE_SIZE;
+  const where = threadMessageWhere(thread);
+  const [total, rows] = await Promise.all([
+    db.message.count({ where }),
+    db.message.findMany({
+      where,
+      include: messageInclude,
+      // The id tiebreaker keeps the cursor stable when messages share a timestamp.
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(page.cursor && { cursor: { id: page.cursor }, skip: 1 }),
+    }),
+  ]);
+
+  const hasMore = rows.length > limit;
+  const messages = hasMore ? rows.slice(0, limit) : rows;
+  return {
+    messages: messages.map(toMessageView),
+    meta: {
+      total,
+      hasMore,
+      nextCursor: hasMore ? messages[messages.length - 1].id : null,
+    },
+  };
+};
+
+// Applied to every message that is sent or edited, whichever way it arrives. Text may
+// only be left out when files are attached, which edits never are.
+const assertValidContent = (content: unknown, hasFiles = false): void => {
+  if (typeof content !== "string" || content.length > MAX_MESSAGE_LENGTH) {
+    throw new MessageRuleError(
+      `A message must be at most ${MAX_MESSAGE_LENGTH} characters.`
+    );
+  }
+  if (!content.trim() && !hasFiles) {
+    throw new MessageRuleError("A message needs some text or at least one file.");
+  }
+};
+
+export const createMessage = async (
+  db: Db,
+  thread: ChatThread,
+  senderId: string,
+  content: string,
+  files: Omit<Prisma.AttachmentCreateManyMessageInput, "uploaderId">[] = []
+): Promise<MessageWithSender> => {
+  assertValidContent(content, files.length > 0);
+  return db.message.create({
+    data: {
+      taskId: thread.taskId,
+      bidId: thread.bidId ?? null,
+      senderId,
+      content,
+      attachments: {
+        createMany: {
+          data: files.map((file) => ({ ...file, uploaderId: senderId })),
+        },
+      },
+    },
+    include: messageInclude,
+  });
+};
+
+// Only the sender may change a message, and only for a short while after sending it.
+const findChangeableMessage = async (
+  db: Db,
+  messageId: string,
+  userId: string
+) => {
+  const message = await db.message.findUnique({ where: { id: messageId } });
+  if (!message) return null;
+  if (message.senderId !== userId) {
+    throw new MessageRuleError("You can only change your own messages.");
+  }
+  if (message.deletedAt) {
+    throw new MessageRuleError("This message has been deleted.");
+  }
+  const windowEnd =
+    message.createdAt.getTime() + MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+  if (Date.now() > windowEnd) {
+    throw new MessageRuleError(
+      `Messages can only be changed within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes of sending.`
+    );
+  }
+  return message;
+};
+
+// Replaces the content, keeping the previous version as a revision. Returns null when
+// the message does not exist.
+export const editMessage = async (
+  db: Db,
+  messageId: string,
+  userId: string,
+  content: string
+): Promise<MessageWithSender | null> => {
+  assertValidContent(content);
+  const message = await findChangeableMessage(db, messageId, userId);
+  if (!message) return null;
+  if (message.content === content) {
+    throw new MessageRuleError("The message is unchanged.");
+  }
+  return db.message.update({
+    where: { id: messageId },
+    data: {
+      content,
+      editedAt: new Date(),
+      revisions: { create: { content: message.content } },
+    },
+    include: messageInclude,
+  });
+};
+
+// Soft-deletes the message. Returns null when the message does not exist.
+export const deleteMessage = async (
+  db: Db,
+  messageId: string,
+  userId: string
+): Promise<MessageWithSender | null> => {
+  const message = await findChangeableMessage(db, messageId, userId);
+  if (!message) return null;
+  const deleted = await db.message.update({
+    where: { id: messageId },
+    data: { deletedAt: new Date() },
+    include: messageInclude,
+  });
+  return toMessageView(deleted);
+};
+
+// The stored message with every earlier version, for admins looking into a dispute.
+export const getMessageHistory = (
+  db: Db,
+  messageId: string
+): Promise<MessageHistory | null> =>
+  db.message.findUnique({
+    where: { id: messageId },
+    include: {
+      ...messageInclude,
+      revisions: { orderBy: { createdAt: "asc" } },
+    },
+  });
+
+// Moves the user's read cursor forward to readAt; an older time leaves it where it is.
+// Returns the cursor's position afterwards.
+export const advanceReadCursor = async (
+  db: Db,
+  thread: ChatThread,
+  userId: string,
+  readAt: Date
+): Promise<Date> => {
+  const { taskId, bidId } = thread;
+  const cursor = bidId
+    ? await db.bidReadCursor.upsert({
+        where: { bidId_userId: { bidId, userId } },
+        create: { bidId, userId, lastReadAt: readAt },
+        update: {},
+      })
+    : await db.chatReadCursor.upsert({
+        where: { taskId_userId: { taskId, userId } },
+        create: { taskId, userId, lastReadAt: readAt },
+        update: {},
+      });
+  if (cursor.lastReadAt >= readAt) return cursor.lastReadAt;
+  // Conditioned on the old position so a concurrent, newer read is never moved back.
+  const behind = { userId, lastReadAt: { lt: readAt } };
+  const data = { lastReadAt: readAt };
+  if (bidId) {
+    await db.bidReadCursor.updateMany({ where: { ...behind, bidId }, data });
+  } else {
+    await db.chatReadCursor.updateMany({ where: { ...behind, taskId }, data });
+  }
+  return readAt;
+};
+
+// Marks everything up to and including the given message as read. Returns null when
+// the message is not part of this chat.
+export const markMessagesRead = async (
+  db: Db,
+  thread: ChatThread,
+  userId: string,
+  messageId: string
+): Promise<Date | null> => {
+  const message = await db.message.findFirst({
+    where: { id: messageId, ...threadMessageWhere(thread) },
+    select: { createdAt: true },
+  });
+  return message
+    ? advanceReadCursor(db, thread, userId, message.createdAt)
+    : null;
+};
+
+export const getReadState = async (
+  db: Db,
+  thread: ChatThread
+): Promise<ChatReadState> => {
+  const select = { userId: true, lastReadAt: true };
+  return {
+    ...toChatThread(thread),
+    cursors: thread.bidId
+      ? await db.bidReadCursor.findMany({
+          where: { bidId: thread.bidId },
+          select,
+        })
+      : await db.chatReadCursor.findMany({
+          where: { taskId: thread.taskId },
+          select,
+        }),
+  };
+};
+
+// Hiring a bidder turns their pre-hire thread into the start of the task chat, carrying
+// over how far each side had read it.
+export const mergeBidThreadIntoTaskChat = async (
+  db: Db,
+  taskId: string,
+  bidId: string
+): Promise<void> => {
+  await db.message.updateMany({
+    where: { taskId, bidId },
+    data: { bidId: null },
+  });
+  const cursors = await db.bidReadCursor.findMany({ where: { bidId } });
+  for (const cursor of cursors) {
+    await advanceReadCursor(db, { taskId }, cursor.userId, cursor.lastReadAt);
+  }
+  await db.bidReadCursor.deleteMany({ where: { bidId } });
+};
+
+// Who a chat is between: the client and the hired freelancer, or the bidder for a
+// pre-hire thread.
+export const getThreadParticipantIds = async (
+  db: Db,
+  thread: ChatThread
+): Promise<string[]> => {
+  const task = await db.task.findUnique({
+    where: { id: thread.taskId },
+    select: {
+      clientId: true,
+      bids: {
+        where: thread.bidId
+          ? { id: thread.bidId }
+          : { status: BidStatus.accepted },
+        select: { freelancerId: true },
+      },
+    },
+  });
+  if (!task) return [];
+  return [task.clientId, ...task.bids.map((bid) => bid.freelancerId)];
+};
+
+export const DEFAULT_CONVERSATION_PAGE_SIZE = 20;
+export const MAX_CONVERSATION_PAGE_SIZE = 50;
+
+// Every chat the user is part of, with their read cursor: task chats once someone is
+// hired, and pre-hire threads that have messages in them.
+const userThreadsSql = (userId: string) => Prisma.sql`
+  SELECT t."id" AS "taskId", NULL::text AS "bidId", c."lastReadAt"
+  FROM "Task" t
+  JOIN "Bid" b ON b."taskId" = t."id" AND b."status" = 'accepted'
+  LEFT JOIN "ChatReadCursor" c ON c."taskId" = t."id" AND c."userId" = ${userId}
+  WHERE t."clientId" = ${userId} OR b."freelancerId" = ${userId}
+  UNION ALL
+  SELECT b."taskId", b."id", c."lastReadAt"
+  FROM "Bid" b
+  JOIN "Task" t ON t."id" = b."taskId"
+  LEFT JOIN "BidReadCursor" c ON c."bidId" = b."id" AND c."userId" = ${userId}
+  WHERE b."status" <> 'accepted'
+    AND (b."freelancerId" = ${userId} OR t."clientId" = ${userId})
+    AND EXISTS (SELECT 1 FROM "Message" m WHERE m."bidId" = b."id")
+`;
+
+// Matches messages `m` to the thread `th` they belong to.
+const threadMessagesSql = Prisma.sql`m."taskId" = th."taskId"
+  AND (m."bidId" = th."bidId" OR (m."bidId" IS NULL AND th."bidId" IS NULL))`;
+
+const unreadMessagesSql = (userId: string) => Prisma.sql`m."senderId" <> ${userId}
+  AND (th."lastReadAt" IS NULL OR m."createdAt" > th."lastReadAt")`;
+
+interface ConversationRow {
+  taskId: string;
+  bidId: string | null;
+  lastReadAt: Date | null;
+  lastMessageId: string | null;
+  unreadCount: number;
+  total: number;
+}
+
+// One page of the user's inbox, most recent activity first. Threads are keyed by their
+// bid id, or the task id for a task chat; pass the previous page's nextCursor to go on.
+export const listConversations = async (
+  db: Db,
+  userId: string,
+  page: { cursor?: string; limit?: number } = {}
+): Promise<{ conversations: ConversationSummary[]; meta: PaginationMeta }> => {
+  const limit = page.limit ?? DEFAULT_CONVERSATION_PAGE_SIZE;
+  const afterCursor = page.cursor
+    ? Prisma.sql`(s."sortAt", s."key") < (SELECT c."sortAt", c."key" FROM summaries c WHERE c."key" = ${page.cursor})`
+    : Prisma.sql`TRUE`;
+
+  // Last message and unread count of every thread in one round trip.
+  const rows = await db.$queryRaw<ConversationRow[]>`
+    WITH threads AS (${userThreadsSql(userId)}),
+    summaries AS (
+      SELECT
+        th."taskId",
+        th."bidId",
+        th."lastReadAt",
+        COALESCE(th."bidId", th."taskId") AS "key",
+        last."id" AS "lastMessageId",
+        COALESCE(last."createdAt", '-infinity'::timestamp) AS "sortAt",
+        (
+          SELECT COUNT(*)::int FROM "Message" m
+          WHERE ${threadMessagesSql} AND ${unreadMessagesSql(userId)}
+        ) AS "unreadCount"
+      FROM threads th
+      LEFT JOIN LATERAL (
+        SELECT m."id", m."createdAt" FROM "Message" m
+        WHERE ${threadMessagesSql}
+        ORDER BY m."createdAt" DESC, m."id" DESC
+        LIMIT 1
+      ) last ON TRUE
+    )
+    SELECT
+      s."taskId",
+      s."bidId",
+      s."lastReadAt",
+      s."lastMessageId",
+      s."unreadCount",
+      (SELECT COUNT(*)::int FROM summaries) AS "total"
+    FROM summaries s
+    WHERE ${afterCursor}
+    ORDER BY s."sortAt" DESC, s."key" DESC
+    LIMIT ${limit + 1}
+  `;
+
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const [messages, tasks, bids] = await Promise.all([
+    db.message.findMany({
+      where: {
+        id: { in: pageRows.flatMap((row) => row.lastMessageId ?? []) },
+      },
+      include: messageInclude,
+    }),
+    db.task.findMany({
+      where: {
+        id: { in: pageRows.flatMap((row) => (row.bidId ? [] : row.taskId)) },
+      },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        client: { select: userPublicProfileSelect },
+        bids: {
+          where: { status: BidStatus.accepted },
+          select: { freelancer: { select: userPublicProfileSelect } },
+        },
+      },
+    }),
+    db.bid.findMany({
+      where: { id: { in: pageRows.flatMap((row) => row.bidId ?? []) } },
+      select: {
+        id: true,
+        freelancer: { select: userPublicProfileSelect },
+        task: {
+          select: {
+            title: true,
+            status: true,
+            client: { select: userPublicProfileSelect },
+          },
+        },
+      },
+    }),
+  ]);
+  const messagesById = new Map(messages.map((message) => [message.id, message]));
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+  const bidsById = new Map(bids.map((bid) => [bid.id, bid]));
+
+  // A task or bid deleted since the first query is left out.
+  const conversations = pageRows.flatMap((row): ConversationSummary[] => {
+    const lastMessage = row.lastMessageId
+      ? messagesById.get(row.lastMessageId)
+      : undefined;
+    const summary = {
+      taskId: row.taskId,
+      lastMessage: lastMessage ? toMessageView(lastMessage) : null,
+      lastReadAt: row.lastReadAt,
+      unreadCount: row.unreadCount,
+    };
+    if (row.bidId) {
+      const bid = bidsById.get(row.bidId);
+      if (!bid) return [];
+      return [
+        {
+          ...summary,
+          bidId: bid.id,
+          taskTitle: bid.task.title,
+          taskStatus: bid.task.status,
+          counterpart:
+            bid.task.client.id === userId ? bid.freelancer : bid.task.client,
+        },
+      ];
+    }
+    const task = tasksById.get(row.taskId);
+    if (!task?.bids[0]) return [];
+    return [
+      {
+        ...summary,
+        bidId: null,
+        taskTitle: task.title,
+        taskStatus: task.status,
+        counterpart:
+          task.client.id === userId ? task.bids[0].freelancer : task.client,
+      },
+    ];
+  });
+
+  return {
+    conversations,
+    meta: {
+      total: rows[0]?.total ?? 0,
+      hasMore,
+      nextCursor: hasMore
+        ? pageRows[pageRows.length - 1].bidId ?? pageRows[pageRows.length - 1].taskId
+        : null,
+    },
+  };
+};
+
+// Unread messages across every chat the user is part of, for the navigation badge.
+export const countUnreadConversationMessages = async (
+  db: Db,
+  userId: string
+): Promise<number> => {
+  const [{ unreadCount }] = await db.$queryRaw<{ unreadCount: number }[]>`
+    WITH threads AS (${userThreadsSql(userId)})
+    SELECT COUNT(*)::int AS "unreadCount"
+    FROM threads th
+    JOIN "Message" m ON ${threadMessagesSql}
+    WHERE ${unreadMessagesSql(userId)}
+  `;
+  return unreadCount;
+};
@@ -0,0 +1,79 @@
+import {
+  BidStatus,
+  DisputeStatus,
+  Prisma,
+  PrismaClient,
+  UserRole,
+} from "@prisma/client";
+import { JwtPayload } from "../types";
+
+const userNameSelect = { id: true, firstName: true, lastName: true };
+
+export const disputeSummaryInclude = {
+  openedBy: { select: userNameSelect },
+  milestone: {
+    select: {
+      id: true,
+      title: true,
+      amount: true,
+      status: true,
+      task: { select: { id: true, title: true, clientId: true } },
+    },
+  },
+  _count: { select: { evidence: true } },
+} satisfies Prisma.DisputeInclude;
+
+export const disputeDetailInclude = {
+  ...disputeSummaryInclude,
+  evidence: {
+    include: { author: { select: userNameSelect } },
+    orderBy: { createdAt: "asc" },
+  },
+} satisfies Prisma.DisputeInclude;
+
+export interface DisputeParties {
+  status: DisputeStatus;
+  milestoneTitle: string;
+  clientId: string;
+  freelancerId: string | undefined;
+}
+
+// The two sides of a dispute: the task's client and its hired freelancer.
+export const findDisputeParties = async (
+  prisma: PrismaClient,
+  disputeId: string
+): Promise<DisputeParties | null> => {
+  const dispute = await prisma.dispute.findUnique({
+    where: { id: disputeId },
+    select: {
+      status: true,
+      milestone: {
+        select: {
+          title: true,
+          task: {
+            select: {
+              clientId: true,
+              bids: {
+                where: { status: BidStatus.accepted },
+                select: { freelancerId: true },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!dispute) return null;
+  return {
+    status: dispute.status,
+    milestoneTitle: dispute.milestone.title,
+    clientId: dispute.milestone.task.clientId,
+    freelancerId: dispute.milestone.task.bids[0]?.freelancerId,
+  };
+};
+
+// Admins take part in every dispute so they can ask questions while arbitrating.
+export const canAccessDispute = (parties: DisputeParties, user: JwtPayload) =>
+  user.role === UserRole.admin ||
+  parties.clientId === user.id ||
+  parties.freelancerId === user.id;
@@ -0,0 +1,165 @@
+import {
+  BidStatus,
+  LedgerEntryType,
+  Prisma,
+  PrismaClient,
+  TaskCategory,
+  WalletKind,
+} from "@prisma/client";
+import { sumEntriesCents, toCents } from "./ledger.service";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// One band of the sliding commission. A tier applies to the part of a freelancer's
+// lifetime billings with a client that falls below `upTo` (in dollars); the last tier
+// has no upper bound.
+export interface FeeTier {
+  upTo: number | null;
+  percent: number;
+}
+
+export interface FeeRules {
+  tiers: FeeTier[];
+  // Charged instead when the tiers come to less, but never more than the payment itself.
+  minimumFee: number;
+}
+
+export interface FeeSchedule extends FeeRules {
+  categoryOverrides: Partial<Record<TaskCategory, Partial<FeeRules>>>;
+}
+
+export const DEFAULT_FEE_SCHEDULE: FeeSchedule = {
+  tiers: [
+    { upTo: 500, percent: 20 },
+    { upTo: 10000, percent: 10 },
+    { upTo: null, percent: 5 },
+  ],
+  minimumFee: 0.5,
+  categoryOverrides: {},
+};
+
+export class FeeScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeeScheduleError";
+  }
+}
+
+const assertValidRules = (rules: Partial<FeeRules>, label: string): void => {
+  if (rules.minimumFee !== undefined && !(rules.minimumFee >= 0)) {
+    throw new FeeScheduleError(`${label}: minimumFee must be zero or more.`);
+  }
+  if (rules.tiers === undefined) return;
+  if (rules.tiers.length === 0 || rules.tiers[rules.tiers.length - 1].upTo !== null) {
+    throw new FeeScheduleError(`${label}: the last tier must have no upper bound.`);
+  }
+  let previous = 0;
+  for (const tier of rules.tiers) {
+    if (!(tier.percent >= 0 && tier.percent <= 100)) {
+      throw new FeeScheduleError(`${label}: tier percentages must be between 0 and 100.`);
+    }
+    if (tier.upTo !== null) {
+      if (!(tier.upTo > previous)) {
+        throw new FeeScheduleError(`${label}: tier bounds must increase.`);
+      }
+      previous = tier.upTo;
+    }
+  }
+};
+
+export const parseFeeSchedule = (json: string): FeeSchedule => {
+  const schedule: FeeSchedule = { ...DEFAULT_FEE_SCHEDULE, ...JSON.parse(json) };
+  assertValidRules(schedule, "Fee schedule");
+  for (const [category, rules] of Object.entries(schedule.categoryOverrides)) {
+    if (!Object.values(TaskCategory).includes(category as TaskCategory)) {
+      throw new FeeScheduleError(`Fee schedule: unknown category "${category}".`);
+    }
+    assertValidRules(rules, `Fee override for ${category}`);
+  }
+  return schedule;
+};
+
+let feeSchedule: FeeSchedule | undefined;
+
+// PLATFORM_FEE_SCHEDULE may hold a JSON schedule; anything it leaves out keeps the default.
+export const getFeeSchedule = (): FeeSchedule => {
+  if (!feeSchedule) {
+    const json = process.env.PLATFORM_FEE_SCHEDULE;
+    feeSchedule = json ? parseFeeSchedule(json) : DEFAULT_FEE_SCHEDULE;
+  }
+  return feeSchedule;
+};
+
+export const getFeeRules = (category: TaskCategory): FeeRules => {
+  const schedule = getFeeSchedule();
+  return { ...schedule, ...schedule.categoryOverrides[category] };
+};
+
+export interface FeeQuote {
+  feeCents: number;
+  // Billings with the client before this payment, which decide where in the tiers it lands.
+  priorBillingsCents: number;
+  // The tiers' share before the minimum was applied, as a percentage of the payment.
+  effectivePercent: number;
+  minimumApplied: boolean;
+}
+
+// Works out the commission on one payment. Each slice of the payment is charged at the
+// tier its position in the lifetime billings falls into, so crossing a threshold only
+// lowers the rate on the part above it.
+export const calculateFee = (
+  rules: FeeRules,
+  amountCents: number,
+  priorBillingsCents: number
+): FeeQuote => {
+  let tierFee = 0;
+  let lowerCents = 0;
+  for (const tier of rules.tiers) {
+    const upperCents = tier.upTo === null ? Infinity : toCents(tier.upTo);
+    const start = Math.max(priorBillingsCents, lowerCents);
+    const end = Math.min(priorBillingsCents + amountCents, upperCents);
+    if (end > start) tierFee += ((end - start) * tier.percent) / 100;
+    lowerCents = upperCents;
+  }
+  const tierFeeCents = Math.round(tierFee);
+  const minimumCents = toCents(rules.minimumFee);
+  const minimumApplied = amountCents > 0 && tierFeeCents < minimumCents;
+  return {
+    feeCents: Math.min(minimumApplied ? minimumCents : tierFeeCents, amountCents),
+    priorBillingsCents,
+    effectivePercent: amountCents > 0 ? (tierFeeCents / amountCents) * 100 : 0,
+    minimumApplied,
+  };
+};
+
+// Everything released from escrow to this freelancer on the client's tasks, before fees.
+export const getLifetimeBillingsCents = async (
+  db: Db,
+  clientId: string,
+  freelancerId: string
+): Promise<number> =>
+  -(await sumEntriesCents(db, {
+    type: LedgerEntryType.escrow_release,
+    wallet: {
+      kind: WalletKind.escrow,
+      task: {
+        clientId,
+        bids: { some: { freelancerId, status: BidStatus.accepted } },
+      },
+    },
+  }));
+
+export const quoteFee = async (
+  db: Db,
+  payment: {
+    clientId: string;
+    freelancerId: string;
+    category: TaskCategory;
+    amountCents: number;
+  }
+): Promise<FeeQuote> =>
+  calculateFee(
+    getFeeRules(payment.category),
+    payment.amountCents,
+    await getLifetimeBillingsCents(db, payment.clientId, payment.freelancerId)
+  );
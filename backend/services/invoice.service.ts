@@ -0,0 +1,166 @@
+import { randomUUID } from "crypto";
+import { Readable } from "stream";
+import { Invoice, InvoiceKind, PrismaClient } from "@prisma/client";
+import { fromCents } from "./ledger.service";
+import { getStorageDriver } from "./storage.service";
+import { PAGE_WIDTH, PdfPage, PdfText, renderPdf } from "./pdf.service";
+
+const PLATFORM_NAME = "Freelance Hub";
+
+const DOCUMENT_PREFIXES: Record<InvoiceKind, string> = {
+  [InvoiceKind.invoice]: "INV",
+  [InvoiceKind.receipt]: "RCT",
+};
+
+// INV-000042 for the client's copy, RCT-000042 for the freelancer's.
+export const formatDocumentNumber = (invoice: Pick<Invoice, "kind" | "number">) =>
+  `${DOCUMENT_PREFIXES[invoice.kind]}-${String(invoice.number).padStart(6, "0")}`;
+
+const formatMoney = (amount: number) => `$${amount.toFixed(2)}`;
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+const MARGIN = 50;
+const VALUE_X = 400;
+
+const layoutInvoice = (invoice: Invoice): PdfPage => {
+  const isReceipt = invoice.kind === InvoiceKind.receipt;
+  const texts: PdfText[] = [];
+  let y = 780;
+  const row = (label: string, value: string, bold = false) => {
+    texts.push({ text: label, x: MARGIN, y, bold });
+    texts.push({ text: value, x: VALUE_X, y, bold });
+    y -= 18;
+  };
+
+  texts.push({
+    text: isReceipt ? "RECEIPT" : "INVOICE",
+    x: MARGIN,
+    y,
+    size: 22,
+    bold: true,
+  });
+  texts.push({ text: PLATFORM_NAME, x: VALUE_X, y, size: 12, bold: true });
+  y -= 40;
+  row("Document number", formatDocumentNumber(invoice));
+  row("Issued", formatDate(invoice.createdAt));
+  row("Paid", formatDate(invoice.paidAt));
+  y -= 12;
+  row("Client", invoice.clientName);
+  row("Freelancer", invoice.freelancerName);
+  y -= 12;
+  row("Project", invoice.taskTitle);
+  row("Item", invoice.description);
+  y -= 20;
+
+  const rules = [{ y: y + 12, fromX: MARGIN, toX: PAGE_WIDTH - MARGIN }];
+  row("Amount", formatMoney(invoice.amount));
+  row("Platform fee", formatMoney(invoice.platformFee));
+  rules.push({ y: y + 12, fromX: MARGIN, toX: PAGE_WIDTH - MARGIN });
+  if (isReceipt) {
+    row("Paid to you", formatMoney(invoice.amount - invoice.platformFee), true);
+  } else {
+    row("Total charged", formatMoney(invoice.amount), true);
+  }
+  y -= 30;
+  texts.push({
+    text: isReceipt
+      ? "The net amount was credited to your wallet balance."
+      : "This amount was held in escrow and released to the freelancer.",
+    x: MARGIN,
+    y,
+    size: 9,
+  });
+
+  return { texts, rules };
+};
+
+export const renderInvoicePdf = (invoice: Invoice): Buffer =>
+  renderPdf(layoutInvoice(invoice), formatDocumentNumber(invoice));
+
+export interface PaymentDocumentInput {
+  taskId: string;
+  clientId: string;
+  freelancerId: string;
+  // Exactly one, matching what was paid.
+  milestoneId?: string;
+  timesheetId?: string;
+  description: string;
+  amountCents: number;
+  platformFeeCents?: number;
+  paidAt: Date;
+}
+
+// Issues the client's invoice and the freelancer's receipt for a payment and stores
+// their PDFs. Runs after the payment has committed, so callers log failures rather
+// than failing the payment; a missing PDF is regenerated on download.
+export const issuePaymentDocuments = async (
+  prisma: PrismaClient,
+  payment: PaymentDocumentInput
+): Promise<Invoice[]> => {
+  const [task, client, freelancer] = await Promise.all([
+    prisma.task.findUniqueOrThrow({
+      where: { id: payment.taskId },
+      select: { title: true },
+    }),
+    prisma.user.findUniqueOrThrow({
+      where: { id: payment.clientId },
+      select: { firstName: true, lastName: true },
+    }),
+    prisma.user.findUniqueOrThrow({
+      where: { id: payment.freelancerId },
+      select: { firstName: true, lastName: true },
+    }),
+  ]);
+  const shared = {
+    taskId: payment.taskId,
+    milestoneId: payment.milestoneId,
+    timesheetId: payment.timesheetId,
+    clientName: `${client.firstName} ${client.lastName}`,
+    freelancerName: `${freelancer.firstName} ${freelancer.lastName}`,
+    taskTitle: task.title,
+    description: payment.description,
+    amount: fromCents(payment.amountCents),
+    platformFee: fromCents(payment.platformFeeCents ?? 0),
+    paidAt: payment.paidAt,
+  };
+
+  const invoices = await prisma.$transaction([
+    prisma.invoice.create({
+      data: {
+        ...shared,
+        kind: InvoiceKind.invoice,
+        recipientId: payment.clientId,
+        storageKey: `invoice-${randomUUID()}.pdf`,
+      },
+    }),
+    prisma.invoice.create({
+      data: {
+        ...shared,
+        kind: InvoiceKind.receipt,
+        recipientId: payment.freelancerId,
+        storageKey: `invoice-${randomUUID()}.pdf`,
+      },
+    }),
+  ]);
+  for (const invoice of invoices) {
+    await getStorageDriver().save(invoice.storageKey, renderInvoicePdf(invoice));
+  }
+  return invoices;
+};
+
+export const readInvoicePdf = async (invoice: Invoice): Promise<Readable> => {
+  try {
+    return await getStorageDriver().read(invoice.storageKey);
+  } catch {
+    const pdf = renderInvoicePdf(invoice);
+    await getStorageDriver().save(invoice.storageKey, pdf);
+    return Readable.from(pdf);
+  }
+};
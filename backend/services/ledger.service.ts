@@ -0,0 +1,315 @@
+import { randomUUID } from "crypto";
+import {
+  LedgerEntryType,
+  Prisma,
+  PrismaClient,
+  Wallet,
+  WalletKind,
+} from "@prisma/client";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// The single wallet standing for the outside world: money charged by the payment
+// provider enters through it and payouts leave through it, so it runs negative.
+export const EXTERNAL_WALLET_ID = "external";
+
+// The marketplace's own wallet, credited with the service fee on every payout.
+export const PLATFORM_WALLET_ID = "platform";
+
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
+
+export const toCents = (amount: number): number => Math.round(amount * 100);
+export const fromCents = (cents: number): number => cents / 100;
+
+export const getUserWallet = (db: Db, userId: string): Promise<Wallet> =>
+  db.wallet.upsert({
+    where: { userId },
+    create: { kind: WalletKind.user, userId },
+    update: {},
+  });
+
+export const getEscrowWallet = (db: Db, taskId: string): Promise<Wallet> =>
+  db.wallet.upsert({
+    where: { taskId },
+    create: { kind: WalletKind.escrow, taskId },
+    update: {},
+  });
+
+export const getExternalWallet = (db: Db): Promise<Wallet> =>
+  db.wallet.upsert({
+    where: { id: EXTERNAL_WALLET_ID },
+    create: { id: EXTERNAL_WALLET_ID, kind: WalletKind.external },
+    update: {},
+  });
+
+export const getPlatformWallet = (db: Db): Promise<Wallet> =>
+  db.wallet.upsert({
+    where: { id: PLATFORM_WALLET_ID },
+    create: { id: PLATFORM_WALLET_ID, kind: WalletKind.platform },
+    update: {},
+  });
+
+// Row lock held until the surrounding transaction ends, so two requests cannot
+// both spend the same balance.
+export const lockWallet = async (
+  tx: Prisma.TransactionClient,
+  walletId: string
+): Promise<void> => {
+  await tx.$queryRaw`SELECT "id" FROM "public"."Wallet" WHERE "id" = ${walletId} FOR UPDATE`;
+};
+
+interface Transfer {
+  fromWalletId: string;
+  toWalletId: string;
+  amountCents: number;
+  type: LedgerEntryType;
+  description: string;
+  milestoneId?: string;
+  timesheetId?: string;
+  reference?: string;
+}
+
+// Writes one balanced transaction: a debit on the source and a matching credit
+// on the destination. Returns the id shared by both entries.
+export const postTransfer = async (db: Db, transfer: Transfer): Promise<string> => {
+  const { fromWalletId, toWalletId, amountCents, ...details } = transfer;
+  if (!Number.isInteger(amountCents) || amountCents <= 0) {
+    throw new LedgerError("Ledger amounts must be a positive whole number of cents.");
+  }
+  if (fromWalletId === toWalletId) {
+    throw new LedgerError("A transfer needs two different wallets.");
+  }
+
+  const transactionId = randomUUID();
+  const shared = {
+    transactionId,
+    type: details.type,
+    description: details.description,
+    milestoneId: details.milestoneId ?? null,
+    timesheetId: details.timesheetId ?? null,
+    reference: details.reference ?? null,
+  };
+  await db.ledgerEntry.createMany({
+    data: [
+      { ...shared, walletId: fromWalletId, amountCents: -amountCents },
+      { ...shared, walletId: toWalletId, amountCents },
+    ],
+  });
+  return transactionId;
+};
+
+export const sumEntriesCents = async (
+  db: Db,
+  where: Prisma.LedgerEntryWhereInput
+): Promise<number> => {
+  const { _sum } = await db.ledgerEntry.aggregate({
+    where,
+    _sum: { amountCents: true },
+  });
+  return _sum.amountCents ?? 0;
+};
+
+export const getWalletBalanceCents = (db: Db, walletId: string) =>
+  sumEntriesCents(db, { walletId });
+
+// What is still held in escrow for one milestone: everything funded minus everything released.
+export const getMilestoneEscrowCents = (db: Db, milestoneId: string) =>
+  sumEntriesCents(db, { milestoneId, wallet: { kind: WalletKind.escrow } });
+
+// Records a provider charge against the client and moves it straight into the task's escrow.
+export const fundMilestoneEscrow = async (
+  db: Db,
+  input: {
+    clientId: string;
+    taskId: string;
+    milestoneId: string;
+    amountCents: number;
+    reference: string;
+  }
+): Promise<void> => {
+  const [external, client, escrow] = await Promise.all([
+    getExternalWallet(db),
+    getUserWallet(db, input.clientId),
+    getEscrowWallet(db, input.taskId),
+  ]);
+
+  await postTransfer(db, {
+    fromWalletId: external.id,
+    toWalletId: client.id,
+    amountCents: input.amountCents,
+    type: LedgerEntryType.deposit,
+    description: "Card payment",
+    milestoneId: input.milestoneId,
+    reference: input.reference,
+  });
+  await postTransfer(db, {
+    fromWalletId: client.id,
+    toWalletId: escrow.id,
+    amountCents: input.amountCents,
+    type: LedgerEntryType.escrow_fund,
+    description: "Milestone funded into escrow",
+    milestoneId: input.milestoneId,
+  });
+};
+
+// Empties the milestone's escrow: freelancerCents (everything held, if omitted) goes
+// to the freelancer's balance and any remainder back to the client's. Returns what was held.
+export const settleMilestoneEscrow = async (
+  tx: Prisma.TransactionClient,
+  input: {
+    taskId: string;
+    milestoneId: string;
+    // Only needed when something is paid out.
+    freelancerId?: string;
+    clientId: string;
+    freelancerCents?: number;
+  }
+): Promise<number> => {
+  const escrow = await getEscrowWallet(tx, input.taskId);
+  await lockWallet(tx, escrow.id);
+
+  const heldCents = await getMilestoneEscrowCents(tx, input.milestoneId);
+  if (heldCents <= 0) {
+    throw new LedgerError("Nothing is held in escrow for this milestone.");
+  }
+  const freelancerCents = input.freelancerCents ?? heldCents;
+  if (freelancerCents < 0 || freelancerCents > heldCents) {
+    throw new LedgerError("The payout cannot exceed the amount held in escrow.");
+  }
+
+  if (freelancerCents > 0) {
+    if (!input.freelancerId) {
+      throw new LedgerError("This task has no assigned freelancer to pay.");
+    }
+    const freelancer = await getUserWallet(tx, input.freelancerId);
+    await postTransfer(tx, {
+      fromWalletId: escrow.id,
+      toWalletId: freelancer.id,
+      amountCents: freelancerCents,
+      type: LedgerEntryType.escrow_release,
+      description: "Milestone payment released",
+      milestoneId: input.milestoneId,
+    });
+  }
+  if (heldCents > freelancerCents) {
+    const client = await getUserWallet(tx, input.clientId);
+    await postTransfer(tx, {
+      fromWalletId: escrow.id,
+      toWalletId: client.id,
+      amountCents: heldCents - freelancerCents,
+      type: LedgerEntryType.escrow_refund,
+      description: "Milestone escrow refunded",
+      milestoneId: input.milestoneId,
+    });
+  }
+  return heldCents;
+};
+
+// Returns part of a milestone's escrow to the client, e.g. when its amount is lowered.
+export const refundMilestoneEscrow = async (
+  tx: Prisma.TransactionClient,
+  input: {
+    taskId: string;
+    milestoneId: string;
+    clientId: string;
+    amountCents: number;
+  }
+): Promise<void> => {
+  const escrow = await getEscrowWallet(tx, input.taskId);
+  await lockWallet(tx, escrow.id);
+
+  const heldCents = await getMilestoneEscrowCents(tx, input.milestoneId);
+  if (input.amountCents > heldCents) {
+    throw new LedgerError("The refund cannot exceed the amount held in escrow.");
+  }
+  const client = await getUserWallet(tx, input.clientId);
+  await postTransfer(tx, {
+    fromWalletId: escrow.id,
+    toWalletId: client.id,
+    amountCents: input.amountCents,
+    type: LedgerEntryType.escrow_refund,
+    description: "Milestone amount lowered",
+    milestoneId: input.milestoneId,
+  });
+};
+
+// Bills approved hourly work: the provider charge enters the client's wallet and passes
+// through the task's escrow straight to the freelancer, so the ledger shows the same
+// fund and release steps as a milestone while escrow nets to zero.
+export const payTimesheet = async (
+  tx: Prisma.TransactionClient,
+  input: {
+    clientId: string;
+    freelancerId: string;
+    taskId: string;
+    timesheetId: string;
+    amountCents: number;
+    reference: string;
+  }
+): Promise<void> => {
+  const [external, client, escrow, freelancer] = await Promise.all([
+    getExternalWallet(tx),
+    getUserWallet(tx, input.clientId),
+    getEscrowWallet(tx, input.taskId),
+    getUserWallet(tx, input.freelancerId),
+  ]);
+  const shared = {
+    amountCents: input.amountCents,
+    timesheetId: input.timesheetId,
+  };
+
+  await postTransfer(tx, {
+    ...shared,
+    fromWalletId: external.id,
+    toWalletId: client.id,
+    type: LedgerEntryType.deposit,
+    description: "Card payment",
+    reference: input.reference,
+  });
+  await postTransfer(tx, {
+    ...shared,
+    fromWalletId: client.id,
+    toWalletId: escrow.id,
+    type: LedgerEntryType.escrow_fund,
+    description: "Timesheet funded into escrow",
+  });
+  await postTransfer(tx, {
+    ...shared,
+    fromWalletId: escrow.id,
+    toWalletId: freelancer.id,
+    type: LedgerEntryType.escrow_release,
+    description: "Timesheet payment released",
+  });
+};
+
+// Takes the service fee out of a payment the freelancer has just received, so the ledger
+// keeps the gross release and the fee as separate lines.
+export const collectPlatformFee = async (
+  tx: Prisma.TransactionClient,
+  input: {
+    freelancerId: string;
+    feeCents: number;
+    milestoneId?: string;
+    timesheetId?: string;
+  }
+): Promise<void> => {
+  if (input.feeCents <= 0) return;
+  const [freelancer, platform] = await Promise.all([
+    getUserWallet(tx, input.freelancerId),
+    getPlatformWallet(tx),
+  ]);
+  await postTransfer(tx, {
+    fromWalletId: freelancer.id,
+    toWalletId: platform.id,
+    amountCents: input.feeCents,
+    type: LedgerEntryType.platform_fee,
+    description: "Platform service fee",
+    milestoneId: input.milestoneId,
+    timesheetId: input.timesheetId,
+  });
+};
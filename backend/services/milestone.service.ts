@@ -0,0 +1,116 @@
+import {
+  BidStatus,
+  BudgetType,
+  MilestoneStatus,
+  Prisma,
+  PrismaClient,
+  TaskStatus,
+} from "@prisma/client";
+import { fromCents, toCents } from "./ledger.service";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export class MilestoneRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MilestoneRuleError";
+  }
+}
+
+// Milestones are funded straight away, so they can only be added once someone is hired
+// and before the task is closed.
+export const assertTaskAcceptsMilestones = (task: { status: TaskStatus }): void => {
+  if (task.status !== TaskStatus.assigned && task.status !== TaskStatus.in_progress) {
+    throw new MilestoneRuleError(
+      "Milestones can only be added while the task is assigned or in progress."
+    );
+  }
+};
+
+// Milestones of a fixed-budget task may not promise more than the accepted bid.
+// Everything except cancelled milestones counts, proposals included.
+export const assertWithinBidAmount = async (
+  db: Db,
+  taskId: string,
+  change: { amount: number; excludeMilestoneId?: string }
+): Promise<void> => {
+  const task = await db.task.findUnique({
+    where: { id: taskId },
+    select: {
+      budgetType: true,
+      bids: { where: { status: BidStatus.accepted }, select: { amount: true } },
+    },
+  });
+  const bidAmount = task?.bids[0]?.amount;
+  if (!task || task.budgetType !== BudgetType.fixed || bidAmount === undefined) {
+    return;
+  }
+
+  const milestones = await db.milestone.findMany({
+    where: {
+      taskId,
+      status: { not: MilestoneStatus.cancelled },
+      ...(change.excludeMilestoneId && { id: { not: change.excludeMilestoneId } }),
+    },
+    select: { amount: true },
+  });
+  const totalCents =
+    milestones.reduce((sum, milestone) => sum + toCents(milestone.amount), 0) +
+    toCents(change.amount);
+  if (totalCents > toCents(bidAmount)) {
+    throw new MilestoneRuleError(
+      `Milestones would add up to $${fromCents(totalCents).toFixed(2)}, more than the accepted bid of $${bidAmount.toFixed(2)}.`
+    );
+  }
+};
+
+export const nextMilestonePosition = async (
+  db: Db,
+  taskId: string
+): Promise<number> => {
+  const { _max } = await db.milestone.aggregate({
+    where: { taskId },
+    _max: { position: true },
+  });
+  return _max.position === null ? 0 : _max.position + 1;
+};
+
+// A dependency must be another live milestone of the same task and must not lead
+// back to the milestone itself through the chain of dependencies.
+export const assertValidDependency = async (
+  db: Db,
+  milestone: { id?: string; taskId: string },
+  dependsOnId: string
+): Promise<void> => {
+  if (dependsOnId === milestone.id) {
+    throw new MilestoneRuleError("A milestone cannot depend on itself.");
+  }
+  const dependency = await db.milestone.findUnique({
+    where: { id: dependsOnId },
+    select: { taskId: true, status: true },
+  });
+  if (!dependency || dependency.taskId !== milestone.taskId) {
+    throw new MilestoneRuleError(
+      "A milestone can only depend on another milestone of the same task."
+    );
+  }
+  if (dependency.status === MilestoneStatus.cancelled) {
+    throw new MilestoneRuleError("A milestone cannot depend on a cancelled one.");
+  }
+  if (!milestone.id) return;
+
+  const visited = new Set<string>();
+  let currentId: string | null = dependsOnId;
+  while (currentId && !visited.has(currentId)) {
+    if (currentId === milestone.id) {
+      throw new MilestoneRuleError("This dependency would create a cycle.");
+    }
+    visited.add(currentId);
+    const current: { dependsOnId: string | null } | null =
+      await db.milestone.findUnique({
+        where: { id: currentId },
+        select: { dependsOnId: true },
+      });
+    currentId = current?.dependsOnId ?? null;
+  }
+};
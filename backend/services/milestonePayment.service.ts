@@ -0,0 +1,420 @@
+import {
+  Bid,
+  Milestone,
+  MilestoneEventType,
+  MilestoneStatus,
+  OfferStatus,
+  Prisma,
+  PrismaClient,
+  Task,
+  TaskStatus,
+} from "@prisma/client";
+import { getPaymentProvider } from "./payment.service";
+import {
+  collectPlatformFee,
+  fromCents,
+  fundMilestoneEscrow,
+  getMilestoneEscrowCents,
+  LedgerError,
+  refundMilestoneEscrow,
+  settleMilestoneEscrow,
+  toCents,
+} from "./ledger.service";
+import { transitionTaskStatus } from "./taskStatus.service";
+import { assertWithinBidAmount } from "./milestone.service";
+import { issuePaymentDocuments } from "./invoice.service";
+import { quoteFee } from "./fee.service";
+import { promptForReviews } from "./review.service";
+
+// The task's bids are expected to be filtered to the accepted one.
+export type MilestoneWithTask = Milestone & { task: Task & { bids: Bid[] } };
+
+// Used when the database work after a successful charge fails. A failed refund is
+// logged for manual follow-up rather than masking the original error.
+export const refundCharge = (reference: string) =>
+  getPaymentProvider()
+    .refund(reference)
+    .catch((error) =>
+      console.error(`Failed to refund charge ${reference}:`, error)
+    );
+
+// Charges the client once for a batch of milestones and holds the given amount of each in
+// the task's escrow. `write` runs inside the transaction and returns what to fund (usually
+// the milestones it created or activated); the charge is refunded if any of it fails.
+export const fundMilestonesWithCharge = async <T>(
+  prisma: PrismaClient,
+  charge: { clientId: string; taskId: string; amount: number; description: string },
+  write: (
+    tx: Prisma.TransactionClient
+  ) => Promise<{ milestones: Pick<Milestone, "id" | "amount">[]; result: T }>
+): Promise<T> => {
+  const amountCents = toCents(charge.amount);
+  const providerCharge =
+    amountCents > 0
+      ? await getPaymentProvider().charge({
+          userId: charge.clientId,
+          amountCents,
+          description: charge.description,
+        })
+      : null;
+
+  return prisma
+    .$transaction(async (tx) => {
+      const { milestones, result } = await write(tx);
+      const fundedCents = milestones.reduce(
+        (sum, milestone) => sum + toCents(milestone.amount),
+        0
+      );
+      if (fundedCents !== amountCents) {
+        throw new LedgerError("The charge does not match the milestones being funded.");
+      }
+      for (const milestone of milestones) {
+        await fundMilestoneEscrow(tx, {
+          clientId: charge.clientId,
+          taskId: charge.taskId,
+          milestoneId: milestone.id,
+          amountCents: toCents(milestone.amount),
+          reference: providerCharge!.reference,
+        });
+      }
+      return result;
+    })
+    .catch(async (error) => {
+      if (providerCharge) await refundCharge(providerCharge.reference);
+      throw error;
+    });
+};
+
+// Moves a pending milestone to a new amount and keeps its escrow in step: an increase is
+// charged to the client, a decrease goes back to the client's wallet. Milestones created
+// before escrow existed hold nothing, so only their amount changes.
+export const changeMilestoneAmount = async (
+  prisma: PrismaClient,
+  milestone: Milestone & { task: Task },
+  change: { amount: number; actorId: string; eventType: MilestoneEventType }
+): Promise<Milestone> => {
+  const heldCents = await getMilestoneEscrowCents(prisma, milestone.id);
+  const deltaCents = heldCents > 0 ? toCents(change.amount) - heldCents : 0;
+
+  return fundMilestonesWithCharge(
+    prisma,
+    {
+      clientId: milestone.task.clientId,
+      taskId: milestone.taskId,
+      amount: fromCents(Math.max(deltaCents, 0)),
+      description: `Escrow top-up for milestone "${milestone.title}"`,
+    },
+    async (tx) => {
+      // Conditioned on the amount read above so a concurrent change is not funded twice.
+      const { count } = await tx.milestone.updateMany({
+        where: {
+          id: milestone.id,
+          status: MilestoneStatus.pending,
+          amount: milestone.amount,
+        },
+        data: { amount: change.amount, proposedAmount: null },
+      });
+      if (count === 0) {
+        throw new LedgerError(
+          "The milestone was modified by another request. Please retry."
+        );
+      }
+      await assertWithinBidAmount(tx, milestone.taskId, {
+        amount: change.amount,
+        excludeMilestoneId: milestone.id,
+      });
+      if (deltaCents < 0) {
+        await refundMilestoneEscrow(tx, {
+          taskId: milestone.taskId,
+          milestoneId: milestone.id,
+          clientId: milestone.task.clientId,
+          amountCents: -deltaCents,
+        });
+      }
+      await tx.milestoneEvent.create({
+        data: {
+          milestoneId: milestone.id,
+          actorId: change.actorId,
+          type: change.eventType,
+          feedback: `$${milestone.amount.toFixed(2)} → $${change.amount.toFixed(2)}`,
+        },
+      });
+      const updated = await tx.milestone.findUniqueOrThrow({
+        where: { id: milestone.id },
+      });
+      return {
+        milestones:
+          deltaCents > 0 ? [{ id: milestone.id, amount: fromCents(deltaCents) }] : [],
+        result: updated,
+      };
+    }
+  );
+};
+
+// Proposals still waiting for the client lapse when the task completes.
+const closeOpenProposals = async (tx: Prisma.TransactionClient, taskId: string) => {
+  const proposals = await tx.milestone.findMany({
+    where: { taskId, status: MilestoneStatus.proposed },
+    select: { id: true },
+  });
+  if (proposals.length === 0) return;
+  await tx.milestone.updateMany({
+    where: { id: { in: proposals.map((proposal) => proposal.id) } },
+    data: { status: MilestoneStatus.cancelled },
+  });
+  await tx.milestoneEvent.createMany({
+    data: proposals.map((proposal) => ({
+      milestoneId: proposal.id,
+      actorId: null,
+      type: MilestoneEventType.proposal_declined,
+      feedback: "The task was completed before this proposal was answered.",
+    })),
+  });
+};
+
+export interface MilestoneSettlement {
+  // The status the milestone must still be in, so it can never be settled twice.
+  fromStatus: MilestoneStatus;
+  toStatus: typeof MilestoneStatus.paid | typeof MilestoneStatus.cancelled;
+  // The freelancer's share; defaults to the full milestone. The rest is refunded to the client.
+  freelancerCents?: number;
+  actorId: string | null;
+  eventType: MilestoneEventType;
+  note?: string;
+  // Extra writes that must commit or roll back together with the settlement.
+  onSettled?: (tx: Prisma.TransactionClient) => Promise<unknown>;
+}
+
+// Divides a milestone's escrow between freelancer and client, takes the platform fee
+// from the freelancer's share, records who settled it and moves the task along. Every
+// way a milestone gets paid or refunded ends here.
+export const settleMilestone = async (
+  prisma: PrismaClient,
+  milestone: MilestoneWithTask,
+  settlement: MilestoneSettlement
+): Promise<Milestone> => {
+  const freelancerId = milestone.task.bids[0]?.freelancerId;
+  const freelancerCents = settlement.freelancerCents ?? toCents(milestone.amount);
+  if (!freelancerId && freelancerCents > 0) {
+    throw new LedgerError("This task has no assigned freelancer to pay.");
+  }
+
+  // Milestones created before escrow existed hold nothing, so the freelancer's share is charged now.
+  const heldCents = await getMilestoneEscrowCents(prisma, milestone.id);
+  const legacyCharge =
+    heldCents > 0 || freelancerCents === 0
+      ? null
+      : await getPaymentProvider().charge({
+          userId: milestone.task.clientId,
+          amountCents: freelancerCents,
+          description: `Payment for milestone "${milestone.title}"`,
+        });
+
+  const { settledMilestone: settled, feeCents, taskCompleted } = await prisma
+    .$transaction(async (tx) => {
+      // 1. Settle the escrowed funds and update the milestone status.
+      // The status condition stops a concurrent request from settling twice.
+      const { count } = await tx.milestone.updateMany({
+        where: { id: milestone.id, status: settlement.fromStatus },
+        data: { status: settlement.toStatus, autoReleaseAt: null },
+      });
+      if (count === 0) {
+        throw new LedgerError("Payment for this milestone was already settled.");
+      }
+      if (legacyCharge) {
+        await fundMilestoneEscrow(tx, {
+          clientId: milestone.task.clientId,
+          taskId: milestone.taskId,
+          milestoneId: milestone.id,
+          amountCents: freelancerCents,
+          reference: legacyCharge.reference,
+        });
+      }
+      let feeCents = 0;
+      if (legacyCharge || heldCents > 0) {
+        // Quoted before the release so this payment is not counted in its own tier.
+        if (freelancerId && freelancerCents > 0) {
+          ({ feeCents } = await quoteFee(tx, {
+            clientId: milestone.task.clientId,
+            freelancerId,
+            category: milestone.task.category,
+            amountCents: freelancerCents,
+          }));
+        }
+        await settleMilestoneEscrow(tx, {
+          taskId: milestone.taskId,
+          milestoneId: milestone.id,
+          freelancerId,
+          clientId: milestone.task.clientId,
+          freelancerCents,
+        });
+        if (freelancerId) {
+          await collectPlatformFee(tx, {
+            freelancerId,
+            feeCents,
+            milestoneId: milestone.id,
+          });
+        }
+      }
+      await tx.milestoneEvent.create({
+        data: {
+          milestoneId: milestone.id,
+          actorId: settlement.actorId,
+          type: settlement.eventType,
+          feedback: settlement.note,
+        },
+      });
+      await settlement.onSettled?.(tx);
+      const settledMilestone = await tx.milestone.findUniqueOrThrow({
+        where: { id: milestone.id },
+      });
+
+      // 2. Complete the task once nothing is left to settle and something was paid.
+      // A cancelled task can still have delivered milestones to settle; its status stays as it is.
+      const [task, remainingMilestones, paidMilestones] = await Promise.all([
+        tx.task.findUniqueOrThrow({
+          where: { id: milestone.taskId },
+          select: { id: true, status: true },
+        }),
+        tx.milestone.count({
+          where: {
+            taskId: milestone.taskId,
+            // Unanswered proposals were never funded, so they do not hold the task open.
+            status: {
+              notIn: [
+                MilestoneStatus.paid,
+                MilestoneStatus.cancelled,
+                MilestoneStatus.proposed,
+              ],
+            },
+          },
+        }),
+        tx.milestone.count({
+          where: { taskId: milestone.taskId, status: MilestoneStatus.paid },
+        }),
+      ]);
+
+      const isTaskActive =
+        task.status === TaskStatus.assigned || task.status === TaskStatus.in_progress;
+      const taskCompleted =
+        isTaskActive && remainingMilestones === 0 && paidMilestones > 0;
+      if (taskCompleted) {
+        await transitionTaskStatus(tx, task, TaskStatus.completed);
+        await closeOpenProposals(tx, task.id);
+      } else if (
+        settlement.toStatus === MilestoneStatus.paid &&
+        task.status === TaskStatus.assigned
+      ) {
+        // Auto-transition task to in_progress on first payment
+        await transitionTaskStatus(tx, task, TaskStatus.in_progress);
+      }
+
+      return { settledMilestone, feeCents, taskCompleted };
+    })
+    .catch(async (error) => {
+      if (legacyCharge) await refundCharge(legacyCharge.reference);
+      throw error;
+    });
+
+  // 3. Issue the invoice and receipt for whatever reached the freelancer.
+  if (
+    settlement.toStatus === MilestoneStatus.paid &&
+    freelancerId &&
+    freelancerCents > 0
+  ) {
+    await issuePaymentDocuments(prisma, {
+      taskId: milestone.taskId,
+      clientId: milestone.task.clientId,
+      freelancerId,
+      milestoneId: milestone.id,
+      description: `Milestone "${milestone.title}"`,
+      amountCents: freelancerCents,
+      platformFeeCents: feeCents,
+      paidAt: settled.updatedAt,
+    }).catch((error) =>
+      console.error(
+        `Failed to issue invoices for milestone ${milestone.id}:`,
+        error
+      )
+    );
+  }
+  // 4. Ask both sides for feedback once the last milestone has settled.
+  if (taskCompleted) {
+    await promptForReviews(prisma, milestone.task).catch((error) =>
+      console.error(
+        `Failed to send review prompts for task ${milestone.taskId}:`,
+        error
+      )
+    );
+  }
+  return settled;
+};
+
+// Pays a completed milestone out of escrow in full. Shared by the client's release
+// action and the auto-release job.
+export const releaseMilestonePayment = (
+  prisma: PrismaClient,
+  milestone: MilestoneWithTask,
+  release: {
+    actorId: string | null;
+    eventType:
+      | typeof MilestoneEventType.payment_released
+      | typeof MilestoneEventType.payment_auto_released;
+  }
+): Promise<Milestone> =>
+  settleMilestone(prisma, milestone, {
+    fromStatus: MilestoneStatus.completed,
+    toStatus: MilestoneStatus.paid,
+    ...release,
+  });
+
+// Cancels a task together with the work that has not been delivered yet: every pending or
+// in-progress milestone is refunded to the client in full and open bid negotiations are
+// closed. Delivered milestones are left for the parties to settle.
+export const cancelTask = (
+  prisma: PrismaClient,
+  task: Pick<Task, "id" | "status" | "clientId">,
+  cancellation: { actorId: string | null; note?: string }
+): Promise<void> =>
+  prisma.$transaction(async (tx) => {
+    await transitionTaskStatus(tx, task, TaskStatus.cancelled);
+
+    const liveMilestones = await tx.milestone.findMany({
+      where: {
+        taskId: task.id,
+        status: { in: [MilestoneStatus.pending, MilestoneStatus.in_progress] },
+      },
+      select: { id: true, status: true },
+    });
+    for (const milestone of liveMilestones) {
+      const { count } = await tx.milestone.updateMany({
+        where: { id: milestone.id, status: milestone.status },
+        data: { status: MilestoneStatus.cancelled, proposedAmount: null },
+      });
+      if (count === 0) {
+        throw new LedgerError("A milestone was modified by another request. Please retry.");
+      }
+      // Milestones created before escrow existed hold nothing to refund.
+      if ((await getMilestoneEscrowCents(tx, milestone.id)) > 0) {
+        await settleMilestoneEscrow(tx, {
+          taskId: task.id,
+          milestoneId: milestone.id,
+          clientId: task.clientId,
+          freelancerCents: 0,
+        });
+      }
+      await tx.milestoneEvent.create({
+        data: {
+          milestoneId: milestone.id,
+          actorId: cancellation.actorId,
+          type: MilestoneEventType.cancelled,
+          feedback: cancellation.note,
+        },
+      });
+    }
+
+    await tx.bidOffer.updateMany({
+      where: { bid: { taskId: task.id }, status: OfferStatus.pending },
+      data: { status: OfferStatus.cancelled, respondedAt: new Date() },
+    });
+  });
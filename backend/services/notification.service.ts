@@ -0,0 +1,26 @@
+import { Notification, Prisma, PrismaClient } from "@prisma/client";
+import { getSocketIoInstance } from "../socket";
+
+// Persists a notification and pushes it to the user's personal socket room.
+export const notifyUser = async (
+  db: PrismaClient | Prisma.TransactionClient,
+  userId: string,
+  message: string
+): Promise<Notification> => {
+  const notification = await db.notification.create({
+    data: { userId, message },
+  });
+  getSocketIoInstance()
+    .to(`user_${userId}`)
+    .emit("new_notification", notification);
+  return notification;
+};
+
+export const notifyUsers = (
+  db: PrismaClient | Prisma.TransactionClient,
+  userIds: string[],
+  message: string
+): Promise<Notification[]> =>
+  Promise.all(
+    [...new Set(userIds)].map((userId) => notifyUser(db, userId, message))
+  );
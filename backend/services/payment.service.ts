@@ -0,0 +1,64 @@
+import { randomUUID } from "crypto";
+
+// Providers move real money in and out of the platform; everything that happens
+// to it in between is recorded by the ledger service. Amounts are integer cents.
+export interface PaymentRequest {
+  userId: string;
+  amountCents: number;
+  description: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  charge(input: PaymentRequest): Promise<{ reference: string }>;
+  refund(reference: string): Promise<void>;
+  payout(input: PaymentRequest): Promise<{ reference: string }>;
+}
+
+export class PaymentDeclinedError extends Error {
+  constructor(message = "The payment was declined.") {
+    super(message);
+    this.name = "PaymentDeclinedError";
+  }
+}
+
+// Accepts every request and keeps nothing beyond the references it hands out,
+// so escrow flows can be exercised locally without a payment account.
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+  private readonly refunded = new Set<string>();
+
+  async charge(input: PaymentRequest): Promise<{ reference: string }> {
+    if (input.amountCents <= 0) {
+      throw new PaymentDeclinedError("Charge amount must be positive.");
+    }
+    return { reference: `fake_ch_${randomUUID()}` };
+  }
+
+  async refund(reference: string): Promise<void> {
+    if (this.refunded.has(reference)) {
+      throw new Error(`Charge ${reference} has already been refunded.`);
+    }
+    this.refunded.add(reference);
+  }
+
+  async payout(input: PaymentRequest): Promise<{ reference: string }> {
+    if (input.amountCents <= 0) {
+      throw new PaymentDeclinedError("Payout amount must be positive.");
+    }
+    return { reference: `fake_po_${randomUUID()}` };
+  }
+}
+
+let paymentProvider: PaymentProvider | undefined;
+
+export const getPaymentProvider = (): PaymentProvider => {
+  if (!paymentProvider) {
+    const provider = process.env.PAYMENT_PROVIDER || "fake";
+    if (provider !== "fake") {
+      throw new Error(`Unsupported payment provider: ${provider}`);
+    }
+    paymentProvider = new FakePaymentProvider();
+  }
+  return paymentProvider;
+};
@@ -0,0 +1,77 @@
+// A deliberately small PDF writer for generated documents such as invoices: one A4
+// page of text in the standard Helvetica fonts plus horizontal rules. The standard
+// fonts are built into every PDF reader, so nothing needs to be embedded.
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export interface PdfText {
+  text: string;
+  // Points from the left and bottom edges of the page.
+  x: number;
+  y: number;
+  size?: number;
+  bold?: boolean;
+}
+
+export interface PdfRule {
+  y: number;
+  fromX: number;
+  toX: number;
+}
+
+export interface PdfPage {
+  texts: PdfText[];
+  rules?: PdfRule[];
+}
+
+// Text goes out in WinAnsi encoding; characters outside Latin-1 are replaced.
+const escapeText = (text: string): string =>
+  text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/[^\x20-\xff]/g, "?")
+    .replace(/([\\()])/g, "\\$1");
+
+const renderContent = (page: PdfPage): string => {
+  const commands: string[] = [];
+  for (const rule of page.rules ?? []) {
+    commands.push(`0.5 w ${rule.fromX} ${rule.y} m ${rule.toX} ${rule.y} l S`);
+  }
+  for (const item of page.texts) {
+    const font = item.bold ? "F2" : "F1";
+    commands.push(
+      `BT /${font} ${item.size ?? 10} Tf ${item.x} ${item.y} Td (${escapeText(item.text)}) Tj ET`
+    );
+  }
+  return commands.join("\n");
+};
+
+export const renderPdf = (page: PdfPage, title: string): Buffer => {
+  const content = renderContent(page);
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+    `<< /Title (${escapeText(title)}) /Producer (Freelance Hub) >>`,
+  ];
+
+  // Offsets in the cross-reference table are byte positions, so build in latin1.
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, "latin1"));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    pdf += `${String(offset).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(pdf, "latin1");
+};
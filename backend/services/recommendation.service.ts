@@ -0,0 +1,202 @@
+import {
+  BidStatus,
+  BudgetType,
+  PrismaClient,
+  SkillProficiency,
+  TaskCategory,
+  TaskStatus,
+} from "@prisma/client";
+
+// Everything the scorer knows about a freelancer. Built from the database by
+// loadFreelancerSignals, but plain data so scoreTask can be exercised with fixtures.
+export interface FreelancerSignals {
+  skills: { skillId: string; proficiency: SkillProficiency }[];
+  bids: {
+    amount: number;
+    status: BidStatus;
+    category: TaskCategory;
+    budgetType: BudgetType;
+  }[];
+}
+
+export interface ScorableTask {
+  id: string;
+  category: TaskCategory;
+  budget: number;
+  budgetType: BudgetType;
+  createdAt: Date;
+  skillIds: string[];
+}
+
+export interface TaskScore {
+  score: number;
+  reasons: string[];
+}
+
+export const RECOMMENDATION_WEIGHTS = {
+  skills: 0.5,
+  category: 0.2,
+  budget: 0.15,
+  successRate: 0.15,
+};
+
+const PROFICIENCY_WEIGHTS: Record<SkillProficiency, number> = {
+  beginner: 0.5,
+  intermediate: 0.8,
+  expert: 1,
+};
+
+// How many recent open tasks are scored per request.
+const CANDIDATE_POOL_SIZE = 200;
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+};
+
+const isDecided = (status: BidStatus) =>
+  status === BidStatus.accepted || status === BidStatus.rejected;
+
+// Share of the task's required skills the freelancer has, weighted by proficiency.
+// Tasks that list no skills get a neutral score instead of being buried.
+const scoreSkills = (task: ScorableTask, signals: FreelancerSignals) => {
+  if (task.skillIds.length === 0) return { value: 0.5, matched: 0 };
+  const proficiencyBySkill = new Map(
+    signals.skills.map((s) => [s.skillId, PROFICIENCY_WEIGHTS[s.proficiency]])
+  );
+  const matched = task.skillIds.filter((id) => proficiencyBySkill.has(id));
+  const total = matched.reduce((sum, id) => sum + proficiencyBySkill.get(id)!, 0);
+  return { value: total / task.skillIds.length, matched: matched.length };
+};
+
+// Share of the freelancer's won work (or, without any wins yet, of their bids) in the task's category.
+const scoreCategory = (task: ScorableTask, signals: FreelancerSignals) => {
+  const accepted = signals.bids.filter((b) => b.status === BidStatus.accepted);
+  const history = accepted.length > 0 ? accepted : signals.bids;
+  if (history.length === 0) return 0;
+  return history.filter((b) => b.category === task.category).length / history.length;
+};
+
+// 1 when the budget equals the freelancer's typical bid for this budget type,
+// falling off with the log-distance so 2x over and 2x under are penalised equally.
+const scoreBudget = (task: ScorableTask, signals: FreelancerSignals) => {
+  const typical = median(
+    signals.bids.filter((b) => b.budgetType === task.budgetType).map((b) => b.amount)
+  );
+  if (typical === null || typical <= 0 || task.budget <= 0) return 0.5;
+  return 1 / (1 + Math.abs(Math.log(task.budget / typical)));
+};
+
+// Laplace-smoothed acceptance rate in the category, so one lucky bid does not dominate.
+const scoreSuccessRate = (task: ScorableTask, signals: FreelancerSignals) => {
+  const decided = signals.bids.filter(
+    (b) => b.category === task.category && isDecided(b.status)
+  );
+  const won = decided.filter((b) => b.status === BidStatus.accepted).length;
+  return (won + 1) / (decided.length + 2);
+};
+
+// Pure and deterministic: the same task and signals always yield the same score.
+export const scoreTask = (task: ScorableTask, signals: FreelancerSignals): TaskScore => {
+  const skills = scoreSkills(task, signals);
+  const category = scoreCategory(task, signals);
+  const budget = scoreBudget(task, signals);
+  const successRate = scoreSuccessRate(task, signals);
+
+  const score =
+    skills.value * RECOMMENDATION_WEIGHTS.skills +
+    category * RECOMMENDATION_WEIGHTS.category +
+    budget * RECOMMENDATION_WEIGHTS.budget +
+    successRate * RECOMMENDATION_WEIGHTS.successRate;
+
+  const reasons: string[] = [];
+  if (skills.matched > 0) {
+    reasons.push(`Matches ${skills.matched} of ${task.skillIds.length} required skills`);
+  }
+  if (category >= 0.3) reasons.push("Similar to work you have done before");
+  if (budget >= 0.7) reasons.push("Budget in line with your usual rates");
+  if (successRate >= 0.6) reasons.push("You win bids in this category");
+
+  return { score: Math.round(score * 1000) / 1000, reasons };
+};
+
+// Highest score first; ties go to the newer task, then the id so the order never wobbles.
+export const rankTasks = <T extends ScorableTask>(
+  tasks: T[],
+  signals: FreelancerSignals
+): (T & TaskScore)[] =>
+  tasks
+    .map((task) => ({ ...task, ...scoreTask(task, signals) }))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.createdAt.getTime() - a.createdAt.getTime() ||
+        a.id.localeCompare(b.id)
+    );
+
+export const loadFreelancerSignals = async (
+  prisma: PrismaClient,
+  freelancerId: string
+): Promise<FreelancerSignals> => {
+  const [skills, bids] = await Promise.all([
+    prisma.userSkill.findMany({
+      where: { userId: freelancerId },
+      select: { skillId: true, proficiency: true },
+    }),
+    prisma.bid.findMany({
+      where: { freelancerId, status: { not: BidStatus.withdrawn } },
+      select: {
+        amount: true,
+        status: true,
+        task: { select: { category: true, budgetType: true } },
+      },
+    }),
+  ]);
+
+  return {
+    skills,
+    bids: bids.map(({ amount, status, task }) => ({ amount, status, ...task })),
+  };
+};
+
+// Scores recent open tasks the freelancer has not bid on and returns the ids of the best ones.
+export const recommendTaskIds = async (
+  prisma: PrismaClient,
+  freelancerId: string,
+  limit: number
+): Promise<{ id: string; score: number; reasons: string[] }[]> => {
+  const [signals, candidates] = await Promise.all([
+    loadFreelancerSignals(prisma, freelancerId),
+    prisma.task.findMany({
+      where: {
+        status: TaskStatus.open,
+        clientId: { not: freelancerId },
+        deadline: { gte: new Date() },
+        bids: { none: { freelancerId } },
+      },
+      select: {
+        id: true,
+        category: true,
+        budget: true,
+        budgetType: true,
+        createdAt: true,
+        skills: { select: { skillId: true } },
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "asc" }],
+      take: CANDIDATE_POOL_SIZE,
+    }),
+  ]);
+
+  const scorable: ScorableTask[] = candidates.map(({ skills, ...task }) => ({
+    ...task,
+    skillIds: skills.map((s) => s.skillId),
+  }));
+
+  return rankTasks(scorable, signals)
+    .slice(0, limit)
+    .map(({ id, score, reasons }) => ({ id, score, reasons }));
+};
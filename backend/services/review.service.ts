@@ -0,0 +1,160 @@
+import {
+  BidStatus,
+  Prisma,
+  PrismaClient,
+  Review,
+  Task,
+  TaskStatus,
+} from "@prisma/client";
+import { notifyUsers } from "./notification.service";
+import { RatingStats } from "../types";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// How long both sides have to review once a task is completed. Reviews still hidden
+// when it ends are revealed anyway.
+export const REVIEW_WINDOW_DAYS = 14;
+
+export const REVIEW_SCORES = [
+  "rating",
+  "communication",
+  "quality",
+  "timeliness",
+] as const;
+
+export type ReviewScore = (typeof REVIEW_SCORES)[number];
+
+export class ReviewRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewRuleError";
+  }
+}
+
+export const getReviewDeadline = (task: Pick<Task, "completedAt">): Date | null =>
+  task.completedAt
+    ? new Date(
+        task.completedAt.getTime() + REVIEW_WINDOW_DAYS * 24 * 60 * 60 * 1000
+      )
+    : null;
+
+export const isReviewRevealed = (review: Pick<Review, "revealAt">): boolean =>
+  review.revealAt <= new Date();
+
+// The two people who may review each other on a task: its client and the hired freelancer.
+export const getReviewParties = async (
+  db: Db,
+  task: Pick<Task, "id" | "clientId">
+): Promise<{ clientId: string; freelancerId: string } | null> => {
+  const acceptedBid = await db.bid.findFirst({
+    where: { taskId: task.id, status: BidStatus.accepted },
+    select: { freelancerId: true },
+  });
+  return acceptedBid
+    ? { clientId: task.clientId, freelancerId: acceptedBid.freelancerId }
+    : null;
+};
+
+// Checks the author may still review this task and returns who the review is about.
+export const assertCanReview = async (
+  db: Db,
+  task: Task,
+  reviewerId: string
+): Promise<string> => {
+  if (task.status !== TaskStatus.completed) {
+    throw new ReviewRuleError("Reviews open once the task is completed.");
+  }
+  const deadline = getReviewDeadline(task);
+  if (deadline && deadline <= new Date()) {
+    throw new ReviewRuleError(
+      `The review window closed ${REVIEW_WINDOW_DAYS} days after completion.`
+    );
+  }
+  const parties = await getReviewParties(db, task);
+  if (!parties || ![parties.clientId, parties.freelancerId].includes(reviewerId)) {
+    throw new ReviewRuleError(
+      "Only the client and the hired freelancer can review this task."
+    );
+  }
+  return reviewerId === parties.clientId
+    ? parties.freelancerId
+    : parties.clientId;
+};
+
+// Stores the review hidden until the window ends, or reveals both right away when the
+// other side has already reviewed.
+export const submitReview = async (
+  prisma: PrismaClient,
+  task: Task,
+  review: Pick<Review, "reviewerId" | "comment"> & Record<ReviewScore, number>
+): Promise<Review> =>
+  prisma.$transaction(async (tx) => {
+    // Serialises the two sides, so reviews submitted together still see each other.
+    await tx.$queryRaw`SELECT "id" FROM "public"."Task" WHERE "id" = ${task.id} FOR UPDATE`;
+    const revieweeId = await assertCanReview(tx, task, review.reviewerId);
+    const existing = await tx.review.findUnique({
+      where: {
+        taskId_reviewerId: { taskId: task.id, reviewerId: review.reviewerId },
+      },
+    });
+    if (existing) {
+      throw new ReviewRuleError("You have already reviewed this task.");
+    }
+
+    const created = await tx.review.create({
+      data: {
+        ...review,
+        taskId: task.id,
+        revieweeId,
+        revealAt: getReviewDeadline(task) ?? new Date(),
+      },
+    });
+    const { count } = await tx.review.updateMany({
+      where: { taskId: task.id, reviewerId: revieweeId },
+      data: { revealAt: created.createdAt },
+    });
+    if (count === 0) return created;
+    return tx.review.update({
+      where: { id: created.id },
+      data: { revealAt: created.createdAt },
+    });
+  });
+
+// Runs once a task is completed; both sides are asked to review each other.
+export const promptForReviews = async (
+  db: Db,
+  task: Pick<Task, "id" | "clientId" | "title">
+): Promise<void> => {
+  const parties = await getReviewParties(db, task);
+  if (!parties) return;
+  await notifyUsers(
+    db,
+    [parties.clientId, parties.freelancerId],
+    `"${task.title}" is complete. Leave a review within ${REVIEW_WINDOW_DAYS} days; neither of you sees the other's review until both are in.`
+  );
+};
+
+// Rating summaries for several users at once, counting revealed reviews only.
+export const getRatingStats = async (
+  db: Db,
+  userIds: string[]
+): Promise<Map<string, RatingStats>> => {
+  const groups = await db.review.groupBy({
+    by: ["revieweeId"],
+    where: { revieweeId: { in: userIds }, revealAt: { lte: new Date() } },
+    _avg: { rating: true, communication: true, quality: true, timeliness: true },
+    _count: { _all: true },
+  });
+  return new Map(
+    groups.map((group) => [
+      group.revieweeId,
+      {
+        count: group._count._all,
+        rating: group._avg.rating ?? 0,
+        communication: group._avg.communication ?? 0,
+        quality: group._avg.quality ?? 0,
+        timeliness: group._avg.timeliness ?? 0,
+      },
+    ])
+  );
+};
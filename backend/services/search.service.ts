@@ -0,0 +1,106 @@
+import { BudgetType, Prisma, PrismaClient, TaskCategory } from "@prisma/client";
+
+// Markers wrapped around matched terms by ts_headline. They are plain characters
+// (not HTML) so the client can render highlights without trusting task content.
+export const HIGHLIGHT_START = "⟦";
+export const HIGHLIGHT_END = "⟧";
+
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}`;
+const SNIPPET_OPTIONS = `${HEADLINE_OPTIONS}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+
+export interface TaskSearchFilters {
+  category?: TaskCategory;
+  budgetType?: BudgetType;
+  minBudget?: number;
+  maxBudget?: number;
+  deadlineFrom?: Date;
+  deadlineTo?: Date;
+  skills?: string[];
+}
+
+interface SearchOptions extends TaskSearchFilters {
+  limit: number;
+  offset: number;
+}
+
+interface RankedTaskRow {
+  id: string;
+  rank: number;
+  titleHighlight: string;
+  snippet: string;
+}
+
+// Any-term match ("react | dashboard | stripe") so partial matches still appear,
+// while ts_rank_cd pushes tasks matching more of the terms to the top.
+const buildTsQuery = (term: string) =>
+  Prisma.sql`replace(plainto_tsquery('english', ${term})::text, '&', '|')::tsquery`;
+
+const buildFilters = (filters: TaskSearchFilters): Prisma.Sql => {
+  const conditions: Prisma.Sql[] = [];
+
+  if (filters.category) conditions.push(Prisma.sql`t."category" = ${filters.category}::"TaskCategory"`);
+  if (filters.budgetType) conditions.push(Prisma.sql`t."budgetType" = ${filters.budgetType}::"BudgetType"`);
+  if (filters.minBudget !== undefined) conditions.push(Prisma.sql`t."budget" >= ${filters.minBudget}`);
+  if (filters.maxBudget !== undefined) conditions.push(Prisma.sql`t."budget" <= ${filters.maxBudget}`);
+  if (filters.deadlineFrom) conditions.push(Prisma.sql`t."deadline" >= ${filters.deadlineFrom}`);
+  if (filters.deadlineTo) conditions.push(Prisma.sql`t."deadline" <= ${filters.deadlineTo}`);
+  if (filters.skills?.length) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "TaskSkill" ts JOIN "Skill" sk ON sk."id" = ts."skillId"
+      WHERE ts."taskId" = t."id" AND sk."slug" IN (${Prisma.join(filters.skills)})
+    )`);
+  }
+
+  return conditions.length > 0
+    ? Prisma.sql`AND ${Prisma.join(conditions, " AND ")}`
+    : Prisma.empty;
+};
+
+export const searchOpenTasks = async (
+  prisma: PrismaClient,
+  term: string,
+  { limit, offset, ...searchFilters }: SearchOptions
+): Promise<{ rows: RankedTaskRow[]; total: number }> => {
+  const query = buildTsQuery(term);
+  const filters = buildFilters(searchFilters);
+
+  const [rows, [{ total }]] = await Promise.all([
+    prisma.$queryRaw<RankedTaskRow[]>`
+      WITH search AS (SELECT ${query} AS q)
+      SELECT
+        t."id",
+        ts_rank_cd(t."searchVector", s.q) AS "rank",
+        ts_headline('english', t."title", s.q, ${HEADLINE_OPTIONS}) AS "titleHighlight",
+        ts_headline('english', t."description", s.q, ${SNIPPET_OPTIONS}) AS "snippet"
+      FROM "Task" t, search s
+      WHERE t."status" = 'open' AND t."searchVector" @@ s.q ${filters}
+      ORDER BY "rank" DESC, t."createdAt" DESC
+      LIMIT ${limit} OFFSET ${offset}
+    `,
+    prisma.$queryRaw<{ total: number }[]>`
+      WITH search AS (SELECT ${query} AS q)
+      SELECT COUNT(*)::int AS "total"
+      FROM "Task" t, search s
+      WHERE t."status" = 'open' AND t."searchVector" @@ s.q ${filters}
+    `,
+  ]);
+
+  return { rows, total };
+};
+
+// Typo-tolerant "did you mean" suggestions based on trigram similarity to open task titles.
+export const suggestTaskTitles = async (
+  prisma: PrismaClient,
+  term: string,
+  limit = 5
+): Promise<string[]> => {
+  const rows = await prisma.$queryRaw<{ title: string }[]>`
+    SELECT t."title"
+    FROM "Task" t
+    WHERE t."status" = 'open' AND ${term} <% t."title"
+    GROUP BY t."title"
+    ORDER BY MAX(word_similarity(${term}, t."title")) DESC
+    LIMIT ${limit}
+  `;
+  return rows.map((row) => row.title);
+};
@@ -0,0 +1,61 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { SkillProficiency, SkillSummary, UserSkillSummary } from "../types";
+
+export const MAX_TASK_SKILLS = 10;
+export const MAX_USER_SKILLS = 30;
+
+// The public shape of a skill wherever it is attached to a task or a user.
+export const skillSummarySelect = {
+  id: true,
+  name: true,
+  slug: true,
+  category: true,
+} satisfies Prisma.SkillSelect;
+
+export const taskSkillsInclude = {
+  skills: {
+    select: { skill: { select: skillSummarySelect } },
+    orderBy: { skill: { name: "asc" } },
+  },
+} satisfies Prisma.TaskInclude;
+
+export const userSkillsSelect = {
+  proficiency: true,
+  skill: { select: skillSummarySelect },
+} satisfies Prisma.UserSkillSelect;
+
+export const toUserSkillSummary = ({
+  proficiency,
+  skill,
+}: {
+  proficiency: SkillProficiency;
+  skill: Omit<UserSkillSummary, "proficiency">;
+}): UserSkillSummary => ({ ...skill, proficiency });
+
+// "Node.js & Express" -> "node-js-express"
+export const slugifySkill = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9+#]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+// Replaces the TaskSkill join rows with the skills themselves.
+export const flattenTaskSkills = <T extends { skills: { skill: SkillSummary }[] }>(
+  task: T
+): Omit<T, "skills"> & { skills: SkillSummary[] } => ({
+  ...task,
+  skills: task.skills.map(({ skill }) => skill),
+});
+
+// Returns the ids from the list that do not match a curated skill.
+export const findUnknownSkillIds = async (
+  db: PrismaClient | Prisma.TransactionClient,
+  skillIds: string[]
+): Promise<string[]> => {
+  const found = await db.skill.findMany({
+    where: { id: { in: skillIds } },
+    select: { id: true },
+  });
+  const known = new Set(found.map((skill) => skill.id));
+  return skillIds.filter((id) => !known.has(id));
+};
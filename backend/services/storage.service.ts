@@ -0,0 +1,81 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { Readable } from "stream";
+import { Response } from "express";
+
+// Storage drivers only deal in opaque keys; what a key belongs to and who may
+// read it is tracked in the database by the attachment service.
+export interface StorageDriver {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+}
+
+export class LocalDiskStorageDriver implements StorageDriver {
+  constructor(private readonly rootDir: string) {
+    fs.mkdirSync(rootDir, { recursive: true });
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    // Keys are generated server-side, but never let one escape the storage root.
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error("Invalid storage key.");
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    await fs.promises.writeFile(this.resolve(key), data);
+  }
+
+  async read(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    await fs.promises.access(filePath, fs.constants.R_OK);
+    return fs.createReadStream(filePath);
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+// Streams a stored file into the response. A read error before anything was sent becomes
+// a 500; after that the only option is to cut the response off.
+export const sendStoredFile = (stream: Readable, res: Response): void => {
+  stream.on("error", (error) => {
+    console.error("Failed to stream file:", error);
+    if (res.headersSent) {
+      res.destroy(error);
+      return;
+    }
+    // The caller already set the file's headers; the error goes out as JSON instead.
+    res.removeHeader("Content-Disposition");
+    res.removeHeader("Content-Type");
+    res.status(500).json({ success: false, error: "Failed to read file." });
+  });
+  // Closes the file when the client goes away before the download finishes.
+  res.on("close", () => stream.destroy());
+  stream.pipe(res);
+};
+
+// A fresh, unguessable key that keeps the upload's extension.
+export const createStorageKey = (fileName: string): string =>
+  `${crypto.randomUUID()}${path.extname(fileName)}`;
+
+let storageDriver: StorageDriver | undefined;
+
+// Attachments live outside public/ so every download goes through an access check.
+export const getStorageDriver = (): StorageDriver => {
+  if (!storageDriver) {
+    const driver = process.env.STORAGE_DRIVER || "local";
+    if (driver !== "local") {
+      throw new Error(`Unsupported storage driver: ${driver}`);
+    }
+    storageDriver = new LocalDiskStorageDriver(
+      process.env.STORAGE_LOCAL_DIR || path.join(__dirname, "../storage")
+    );
+  }
+  return storageDriver;
+};
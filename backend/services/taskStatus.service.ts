@@ -0,0 +1,52 @@
+import { Prisma, PrismaClient, TaskStatus } from "@prisma/client";
+
+// Every legal TaskStatus change. Routes must go through transitionTaskStatus
+// rather than writing `status` directly so this table stays the single source of truth.
+export const TASK_STATUS_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  [TaskStatus.open]: [TaskStatus.assigned, TaskStatus.cancelled],
+  [TaskStatus.assigned]: [
+    TaskStatus.in_progress,
+    TaskStatus.completed,
+    TaskStatus.cancelled,
+  ],
+  [TaskStatus.in_progress]: [TaskStatus.completed, TaskStatus.cancelled],
+  [TaskStatus.completed]: [],
+  [TaskStatus.cancelled]: [TaskStatus.open],
+};
+
+export class TaskStatusTransitionError extends Error {
+  constructor(from: TaskStatus, to: TaskStatus) {
+    super(`A task cannot move from "${from}" to "${to}".`);
+    this.name = "TaskStatusTransitionError";
+  }
+}
+
+export const canTransitionTask = (from: TaskStatus, to: TaskStatus): boolean =>
+  TASK_STATUS_TRANSITIONS[from].includes(to);
+
+export const assertTaskTransition = (from: TaskStatus, to: TaskStatus): void => {
+  if (!canTransitionTask(from, to)) {
+    throw new TaskStatusTransitionError(from, to);
+  }
+};
+
+// Applies a checked transition. The update is conditioned on the status the caller
+// validated against, so a concurrent change surfaces as an error instead of being overwritten.
+export const transitionTaskStatus = async (
+  db: PrismaClient | Prisma.TransactionClient,
+  task: { id: string; status: TaskStatus },
+  to: TaskStatus
+): Promise<void> => {
+  assertTaskTransition(task.status, to);
+
+  const { count } = await db.task.updateMany({
+    where: { id: task.id, status: task.status },
+    data: {
+      status: to,
+      ...(to === TaskStatus.completed && { completedAt: new Date() }),
+    },
+  });
+  if (count === 0) {
+    throw new Error("The task was modified by another request. Please retry.");
+  }
+};
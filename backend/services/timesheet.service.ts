@@ -0,0 +1,284 @@
+import {
+  Bid,
+  BidStatus,
+  BudgetType,
+  Prisma,
+  PrismaClient,
+  Task,
+  TaskStatus,
+  Timesheet,
+  TimesheetStatus,
+} from "@prisma/client";
+import { getPaymentProvider } from "./payment.service";
+import {
+  collectPlatformFee,
+  fromCents,
+  LedgerError,
+  payTimesheet,
+  toCents,
+} from "./ledger.service";
+import { refundCharge } from "./milestonePayment.service";
+import { transitionTaskStatus } from "./taskStatus.service";
+import { issuePaymentDocuments } from "./invoice.service";
+import { quoteFee } from "./fee.service";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+const MINUTE_MS = 60 * 1000;
+const WEEK_MS = 7 * 24 * 60 * MINUTE_MS;
+
+// A single entry may not cover more than a day; longer stretches are logged as several entries.
+export const MAX_ENTRY_MINUTES = 24 * 60;
+
+// Time can only be logged while the contract is running.
+const ACTIVE_CONTRACT_STATUSES: TaskStatus[] = [
+  TaskStatus.assigned,
+  TaskStatus.in_progress,
+];
+
+// Entries can still be added, changed or removed in these states.
+export const EDITABLE_TIMESHEET_STATUSES: TimesheetStatus[] = [
+  TimesheetStatus.open,
+  TimesheetStatus.disputed,
+];
+
+export class TimesheetRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TimesheetRuleError";
+  }
+}
+
+export type HourlyContract = Task & { bids: Bid[] };
+
+// Weeks run from Monday 00:00 UTC.
+export const getWeekStart = (date: Date): Date => {
+  const start = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+  start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  return start;
+};
+
+export const getWeekEnd = (weekStart: Date): Date =>
+  new Date(weekStart.getTime() + WEEK_MS);
+
+export const minutesBetween = (startedAt: Date, endedAt: Date): number =>
+  Math.round((endedAt.getTime() - startedAt.getTime()) / MINUTE_MS);
+
+// Hours are billed by the minute at the accepted bid's hourly rate.
+export const timesheetAmountCents = (minutes: number, hourlyRate: number) =>
+  Math.round((toCents(hourlyRate) * minutes) / 60);
+
+// The task with its accepted bid, or null if it is not an hourly contract.
+export const findHourlyContract = async (
+  db: Db,
+  taskId: string
+): Promise<HourlyContract | null> => {
+  const task = await db.task.findUnique({
+    where: { id: taskId },
+    include: { bids: { where: { status: BidStatus.accepted } } },
+  });
+  if (!task || task.budgetType !== BudgetType.hourly || !task.bids[0]) {
+    return null;
+  }
+  return task;
+};
+
+export const assertContractActive = (contract: HourlyContract): void => {
+  if (!ACTIVE_CONTRACT_STATUSES.includes(contract.status)) {
+    throw new TimesheetRuleError(
+      "Time can only be logged while the contract is running."
+    );
+  }
+};
+
+// The freelancer's timesheet for the week containing `date`, created on first use.
+// Throws if that week was already submitted or approved.
+export const getEditableTimesheet = async (
+  db: Db,
+  contract: HourlyContract,
+  date: Date
+): Promise<Timesheet> => {
+  const freelancerId = contract.bids[0].freelancerId;
+  const weekStart = getWeekStart(date);
+  const timesheet = await db.timesheet.upsert({
+    where: {
+      taskId_freelancerId_weekStart: {
+        taskId: contract.id,
+        freelancerId,
+        weekStart,
+      },
+    },
+    create: { taskId: contract.id, freelancerId, weekStart },
+    update: {},
+  });
+  if (!EDITABLE_TIMESHEET_STATUSES.includes(timesheet.status)) {
+    throw new TimesheetRuleError(
+      `The timesheet for the week of ${weekStart.toISOString().slice(0, 10)} is ${timesheet.status} and can no longer change.`
+    );
+  }
+  return timesheet;
+};
+
+// Minutes still available under the contract's weekly cap, or Infinity without one.
+export const getRemainingWeeklyMinutes = async (
+  db: Db,
+  contract: HourlyContract,
+  timesheetId: string,
+  excludeEntryId?: string
+): Promise<number> => {
+  if (contract.weeklyHourCap === null) return Infinity;
+  const { _sum } = await db.timeEntry.aggregate({
+    where: {
+      timesheetId,
+      ...(excludeEntryId && { id: { not: excludeEntryId } }),
+    },
+    _sum: { minutes: true },
+  });
+  return Math.max(
+    Math.round(contract.weeklyHourCap * 60) - (_sum.minutes ?? 0),
+    0
+  );
+};
+
+export const assertWithinWeeklyCap = async (
+  db: Db,
+  contract: HourlyContract,
+  timesheetId: string,
+  minutes: number,
+  excludeEntryId?: string
+): Promise<void> => {
+  const remaining = await getRemainingWeeklyMinutes(
+    db,
+    contract,
+    timesheetId,
+    excludeEntryId
+  );
+  if (minutes > remaining) {
+    throw new TimesheetRuleError(
+      `This would go over the weekly cap of ${contract.weeklyHourCap} hours; ${(remaining / 60).toFixed(2)} hours are left this week.`
+    );
+  }
+};
+
+// Charges the client for a submitted timesheet at the accepted bid's rate and pays the
+// freelancer. The charge is refunded if recording the approval fails.
+export const approveTimesheet = async (
+  prisma: PrismaClient,
+  timesheet: Timesheet,
+  contract: HourlyContract
+): Promise<Timesheet> => {
+  const hourlyRate = contract.bids[0].amount;
+  const { _sum } = await prisma.timeEntry.aggregate({
+    where: { timesheetId: timesheet.id },
+    _sum: { minutes: true },
+  });
+  const amountCents = timesheetAmountCents(_sum.minutes ?? 0, hourlyRate);
+  if (amountCents <= 0) {
+    throw new TimesheetRuleError("This timesheet has no billable time.");
+  }
+
+  const charge = await getPaymentProvider().charge({
+    userId: contract.clientId,
+    amountCents,
+    description: `Hours for "${contract.title}", week of ${timesheet.weekStart.toISOString().slice(0, 10)}`,
+  });
+
+  const { approved, feeCents } = await prisma
+    .$transaction(async (tx) => {
+      // Conditioned on the status so a timesheet is never billed twice.
+      const { count } = await tx.timesheet.updateMany({
+        where: { id: timesheet.id, status: TimesheetStatus.submitted },
+        data: {
+          status: TimesheetStatus.approved,
+          hourlyRate,
+          amount: fromCents(amountCents),
+          reviewedAt: new Date(),
+          disputeReason: null,
+        },
+      });
+      if (count === 0) {
+        throw new LedgerError("This timesheet was already reviewed.");
+      }
+      const { feeCents } = await quoteFee(tx, {
+        clientId: contract.clientId,
+        freelancerId: timesheet.freelancerId,
+        category: contract.category,
+        amountCents,
+      });
+      await payTimesheet(tx, {
+        clientId: contract.clientId,
+        freelancerId: timesheet.freelancerId,
+        taskId: contract.id,
+        timesheetId: timesheet.id,
+        amountCents,
+        reference: charge.reference,
+      });
+      await collectPlatformFee(tx, {
+        freelancerId: timesheet.freelancerId,
+        feeCents,
+        timesheetId: timesheet.id,
+      });
+      if (contract.status === TaskStatus.assigned) {
+        await transitionTaskStatus(tx, contract, TaskStatus.in_progress);
+      }
+      return {
+        approved: await tx.timesheet.findUniqueOrThrow({
+          where: { id: timesheet.id },
+        }),
+        feeCents,
+      };
+    })
+    .catch(async (error) => {
+      await refundCharge(charge.reference);
+      throw error;
+    });
+
+  await issuePaymentDocuments(prisma, {
+    taskId: contract.id,
+    clientId: contract.clientId,
+    freelancerId: timesheet.freelancerId,
+    timesheetId: timesheet.id,
+    description: `${((_sum.minutes ?? 0) / 60).toFixed(2)} hours, week of ${timesheet.weekStart.toISOString().slice(0, 10)}`,
+    amountCents,
+    platformFeeCents: feeCents,
+    paidAt: approved.reviewedAt ?? new Date(),
+  }).catch((error) =>
+    console.error(
+      `Failed to issue invoices for timesheet ${timesheet.id}:`,
+      error
+    )
+  );
+  return approved;
+};
+
+// Closes a running hourly contract by completing its task. Every submitted week has to be
+// approved or disputed first and the freelancer's timer stopped, so no billed time is lost.
+export const endHourlyContract = (
+  prisma: PrismaClient,
+  contract: HourlyContract
+): Promise<void> =>
+  prisma.$transaction(async (tx) => {
+    assertContractActive(contract);
+    const [awaitingApproval, runningTimers] = await Promise.all([
+      tx.timesheet.count({
+        where: { taskId: contract.id, status: TimesheetStatus.submitted },
+      }),
+      tx.timeEntry.count({
+        where: { timesheet: { taskId: contract.id }, endedAt: null },
+      }),
+    ]);
+    if (awaitingApproval > 0) {
+      throw new TimesheetRuleError(
+        "Approve or dispute every submitted timesheet before ending the contract."
+      );
+    }
+    if (runningTimers > 0) {
+      throw new TimesheetRuleError(
+        "The freelancer's timer is still running. It has to be stopped before the contract can end."
+      );
+    }
+    await transitionTaskStatus(tx, contract, TaskStatus.completed);
+  });
@@ -0,0 +1,25 @@
+import { BidStatus, Prisma, PrismaClient, TaskStatus } from "@prisma/client";
+
+// What any signed-in user may see of another user wherever one is embedded, e.g. the
+// client on a task or the freelancer on a bid. Contact details stay out.
+export const userPublicProfileSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  avatarUrl: true,
+} satisfies Prisma.UserSelect;
+
+// Completed tasks the user took part in, as the client or as the hired freelancer.
+export const countCompletedJobs = (
+  db: PrismaClient | Prisma.TransactionClient,
+  userId: string
+): Promise<number> =>
+  db.task.count({
+    where: {
+      status: TaskStatus.completed,
+      OR: [
+        { clientId: userId },
+        { bids: { some: { freelancerId: userId, status: BidStatus.accepted } } },
+      ],
+    },
+  });
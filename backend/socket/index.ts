@@ -1,6 +1,6 @@
 import { Server, Socket } from "socket.io";
 import jwt from "jsonwebtoken";
-import { PrismaClient, BidStatus } from "@prisma/client";
+import { PrismaClient } from "@prisma/client";
 import {
   JwtPayload,
   JoinTaskPayload,
@@ -8,7 +8,27 @@ import {
   TypingPayload,
   UserTypingPayload,
   MessageWithSender,
+  MarkReadPayload,
+  MessageReadPayload,
+  ChatThread,
+  ThreadMessagePage,
+  EditMessagePayload,
+  DeleteMessagePayload,
 } from "../types";
+import {
+  advanceReadCursor,
+  createMessage,
+  deleteMessage,
+  editMessage,
+  getMessagePage,
+  getReadState,
+  getThreadParticipantIds,
+  getThreadRoom,
+  isUserAuthorizedForThread,
+  markMessagesRead,
+  MessageRuleError,
+  toChatThread,
+} from "../services/chat.service";
 
 interface AuthenticatedSocket extends Socket {
   data: {
@@ -18,6 +38,17 @@ interface AuthenticatedSocket extends Socket {
 
 let ioInstance: Server;
 
+// Socket payloads arrive unchecked; anything that does not name a thread is ignored.
+const parseThread = (payload: unknown): ChatThread | null => {
+  if (typeof payload !== "object" || payload === null) return null;
+  const { taskId, bidId } = payload as Partial<ChatThread>;
+  if (typeof taskId !== "string" || !taskId) return null;
+  if (bidId !== undefined && bidId !== null && typeof bidId !== "string") {
+    return null;
+  }
+  return toChatThread({ taskId, bidId });
+};
+
 export const getSocketIoInstance = (): Server => {
   if (!ioInstance) {
     throw new Error("Socket.IO has not been initialized.");
@@ -25,30 +56,37 @@ export const getSocketIoInstance = (): Server => {
   return ioInstance;
 };
 
-const isUserAuthorizedForTask = async (
+// Shared by the socket event and the REST route that sends messages with files.
+export const broadcastNewMessage = async (
   prisma: PrismaClient,
-  userId: string,
-  taskId: string
-): Promise<boolean> => {
-  const task = await prisma.task.findUnique({
-    where: { id: taskId },
-    select: {
-      clientId: true,
-      bids: {
-        where: { status: BidStatus.accepted },
-        select: { freelancerId: true },
-      },
-    },
-  });
-
-  if (!task) return false;
-
-  if (task.clientId === userId) return true;
-
-  const acceptedFreelancerId = task.bids[0]?.freelancerId;
-  if (acceptedFreelancerId && acceptedFreelancerId === userId) return true;
+  message: MessageWithSender
+): Promise<void> => {
+  const io = getSocketIoInstance();
+  io.to(getThreadRoom(message)).emit("new_message", message);
+  // Inboxes follow every chat their user is in, whether or not it is open.
+  await getThreadParticipantIds(prisma, message)
+    .then((ids) =>
+      io
+        .to(ids.map((id) => `user_${id}`))
+        .emit("conversation_message", message)
+    )
+    .catch((error) => console.error("Failed to update inboxes:", error));
+  // Sending implies having read everything up to this message.
+  await advanceReadCursor(
+    prisma,
+    message,
+    message.senderId,
+    message.createdAt
+  ).catch((error) =>
+    console.error("Failed to move the sender's read cursor:", error)
+  );
+};
 
-  return false;
+// Edits and deletions replace the message in place for everyone viewing the chat.
+export const broadcastMessageUpdate = (message: MessageWithSender): void => {
+  getSocketIoInstance()
+    .to(getThreadRoom(message))
+    .emit("message_updated", message);
 };
 
 export const setupSocketHandlers = (io: Server, prisma: PrismaClient): void => {
@@ -80,85 +118,168 @@ export const setupSocketHandlers = (io: Server, prisma: PrismaClient): void => {
 
     authSocket.join(`user_${currentUser.id}`);
 
+    // Every chat event names a thread: the task chat, or a bid's pre-hire thread when
+    // bidId is set. Each thread has its own room.
     authSocket.on("join_task", async (payload: JoinTaskPayload) => {
-      const { taskId } = payload;
-      const isAuthorized = await isUserAuthorizedForTask(
-        prisma,
-        currentUser.id,
-        taskId
-      );
+      const thread = parseThread(payload);
+      if (!thread) return;
+      const room = getThreadRoom(thread);
+      try {
+        const isAuthorized = await isUserAuthorizedForThread(
+          prisma,
+          currentUser.id,
+          thread
+        );
+
+        if (isAuthorized) {
+          authSocket.join(room);
+          console.log(`User ${currentUser.id} successfully joined room ${room}`);
+
+          // Only the latest page; older history is fetched over REST as the user scrolls up.
+          const page: ThreadMessagePage = {
+            ...thread,
+            ...(await getMessagePage(prisma, thread)),
+          };
+          authSocket.emit("load_messages", page);
+          authSocket.emit("read_state", await getReadState(prisma, thread));
+        } else {
+          console.log(
+            `Unauthorized attempt by user ${currentUser.id} to join room ${room}`
+          );
+          authSocket.emit("unauthorized", {
+            message: "You are not authorized to join this chat.",
+          });
+        }
+      } catch (error) {
+        console.error(`Failed to join room ${room}:`, error);
+        authSocket.emit("error", { message: "Failed to load the chat." });
+      }
+    });
 
-      if (isAuthorized) {
-        authSocket.join(`task_${taskId}`);
-        console.log(
-          `User ${currentUser.id} successfully joined task room ${taskId}`
+    authSocket.on("send_message", async (payload: SendMessagePayload) => {
+      const thread = parseThread(payload);
+      if (!thread) return;
+
+      try {
+        const isAuthorized = await isUserAuthorizedForThread(
+          prisma,
+          currentUser.id,
+          thread,
+          { toPost: true }
         );
+        if (!isAuthorized) {
+          return authSocket.emit("unauthorized", {
+            message: "You are not authorized to send messages to this chat.",
+          });
+        }
 
-        const messages: MessageWithSender[] = await prisma.message.findMany({
-          where: { taskId },
-          orderBy: { createdAt: "asc" },
-          take: 100,
-          include: {
-            sender: { select: { id: true, firstName: true, lastName: true } },
-          },
-        });
-        authSocket.emit("load_messages", messages);
-      } else {
-        console.log(
-          `Unauthorized attempt by user ${currentUser.id} to join task room ${taskId}`
+        const message = await createMessage(
+          prisma,
+          thread,
+          currentUser.id,
+          payload.content
         );
-        authSocket.emit("unauthorized", {
-          message: "You are not authorized to join this chat.",
-        });
+        await broadcastNewMessage(prisma, message);
+      } catch (error) {
+        if (error instanceof MessageRuleError) {
+          return authSocket.emit("error", { message: error.message });
+        }
+        console.error("Failed to save or broadcast message:", error);
+        authSocket.emit("error", { message: "Failed to send message." });
       }
     });
 
-    authSocket.on("send_message", async (payload: SendMessagePayload) => {
-      const { taskId, content } = payload;
+    authSocket.on("edit_message", async (payload: EditMessagePayload) => {
+      if (typeof payload?.messageId !== "string") return;
+      try {
+        const message = await editMessage(
+          prisma,
+          payload.messageId,
+          currentUser.id,
+          payload.content
+        );
+        if (message) broadcastMessageUpdate(message);
+      } catch (error) {
+        if (error instanceof MessageRuleError) {
+          return authSocket.emit("error", { message: error.message });
+        }
+        console.error("Failed to edit message:", error);
+        authSocket.emit("error", { message: "Failed to edit message." });
+      }
+    });
 
-      const isAuthorized = await isUserAuthorizedForTask(
-        prisma,
-        currentUser.id,
-        taskId
-      );
-      if (!isAuthorized) {
-        return authSocket.emit("unauthorized", {
-          message: "You are not authorized to send messages to this chat.",
-        });
+    authSocket.on("delete_message", async (payload: DeleteMessagePayload) => {
+      if (typeof payload?.messageId !== "string") return;
+      try {
+        const message = await deleteMessage(
+          prisma,
+          payload.messageId,
+          currentUser.id
+        );
+        if (message) broadcastMessageUpdate(message);
+      } catch (error) {
+        if (error instanceof MessageRuleError) {
+          return authSocket.emit("error", { message: error.message });
+        }
+        console.error("Failed to delete message:", error);
+        authSocket.emit("error", { message: "Failed to delete message." });
       }
+    });
 
+    authSocket.on("mark_read", async (payload: MarkReadPayload) => {
+      const thread = parseThread(payload);
+      if (!thread || typeof payload.messageId !== "string") return;
+      const { messageId } = payload;
       try {
-        const message: MessageWithSender = await prisma.message.create({
-          data: {
-            taskId: taskId,
-            senderId: currentUser.id,
-            content: content,
-          },
-          include: {
-            sender: { select: { id: true, firstName: true, lastName: true } },
-          },
-        });
-
-        io.to(`task_${taskId}`).emit("new_message", message);
+        const isAuthorized = await isUserAuthorizedForThread(
+          prisma,
+          currentUser.id,
+          thread
+        );
+        if (!isAuthorized) return;
+
+        const lastReadAt = await markMessagesRead(
+          prisma,
+          thread,
+          currentUser.id,
+          messageId
+        );
+        if (!lastReadAt) return;
+        const readPayload: MessageReadPayload = {
+          ...thread,
+          userId: currentUser.id,
+          messageId,
+          lastReadAt,
+        };
+        authSocket.to(getThreadRoom(thread)).emit("message_read", readPayload);
+        io.to(`user_${currentUser.id}`).emit("conversation_read", readPayload);
       } catch (error) {
-        console.error("Failed to save or broadcast message:", error);
-        authSocket.emit("error", { message: "Failed to send message." });
+        console.error("Failed to record read receipt:", error);
       }
     });
 
     authSocket.on("typing", (payload: TypingPayload) => {
-      const { taskId, isTyping } = payload;
+      const thread = parseThread(payload);
+      if (!thread) return;
+      const room = getThreadRoom(thread);
+      // Only sockets that were let into the chat may signal typing to it.
+      if (!authSocket.rooms.has(room)) return;
+
       const typingPayload: UserTypingPayload = {
+        ...thread,
         userId: currentUser.id,
-        isTyping: isTyping,
+        isTyping: payload.isTyping === true,
       };
 
-      authSocket.to(`task_${taskId}`).emit("user_typing", typingPayload);
+      authSocket.to(room).emit("user_typing", typingPayload);
     });
 
-    authSocket.on("leave_task", (payload: { taskId: string }) => {
-      authSocket.leave(`task_${payload.taskId}`);
-      console.log(`User ${currentUser.id} left task room ${payload.taskId}`);
+    authSocket.on("leave_task", (payload: ChatThread) => {
+      const thread = parseThread(payload);
+      if (!thread) return;
+      const room = getThreadRoom(thread);
+      authSocket.leave(room);
+      console.log(`User ${currentUser.id} left room ${room}`);
     });
 
     authSocket.on("disconnect", () => {
@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_FEE_SCHEDULE,
+  FeeScheduleError,
+  calculateFee,
+  parseFeeSchedule,
+} from "../services/fee.service";
+
+test("calculateFee charges the first tier on new billings", () => {
+  assert.deepEqual(calculateFee(DEFAULT_FEE_SCHEDULE, 10000, 0), {
+    feeCents: 2000,
+    priorBillingsCents: 0,
+    effectivePercent: 20,
+    minimumApplied: false,
+  });
+});
+
+test("calculateFee only lowers the rate on the part above a threshold", () => {
+  // $400 billed before, $200 now: $100 at 20% and $100 at 10%.
+  const quote = calculateFee(DEFAULT_FEE_SCHEDULE, 20000, 40000);
+  assert.equal(quote.feeCents, 3000);
+  assert.equal(quote.effectivePercent, 15);
+});
+
+test("calculateFee uses the open-ended last tier", () => {
+  assert.equal(calculateFee(DEFAULT_FEE_SCHEDULE, 100000, 1000000).feeCents, 5000);
+});
+
+test("calculateFee applies the minimum fee", () => {
+  const quote = calculateFee(DEFAULT_FEE_SCHEDULE, 100, 0);
+  assert.equal(quote.feeCents, 50);
+  assert.equal(quote.minimumApplied, true);
+});
+
+test("calculateFee never charges more than the payment", () => {
+  assert.equal(calculateFee(DEFAULT_FEE_SCHEDULE, 30, 0).feeCents, 30);
+});
+
+test("calculateFee charges nothing on an empty payment", () => {
+  assert.deepEqual(calculateFee(DEFAULT_FEE_SCHEDULE, 0, 0), {
+    feeCents: 0,
+    priorBillingsCents: 0,
+    effectivePercent: 0,
+    minimumApplied: false,
+  });
+});
+
+test("parseFeeSchedule keeps defaults for anything left out", () => {
+  const schedule = parseFeeSchedule(
+    JSON.stringify({ categoryOverrides: { design: { minimumFee: 2 } } })
+  );
+  assert.deepEqual(schedule.tiers, DEFAULT_FEE_SCHEDULE.tiers);
+  assert.equal(schedule.categoryOverrides.design?.minimumFee, 2);
+});
+
+test("parseFeeSchedule rejects invalid schedules", () => {
+  assert.throws(
+    () => parseFeeSchedule(JSON.stringify({ tiers: [{ upTo: 100, percent: 10 }] })),
+    FeeScheduleError
+  );
+  assert.throws(
+    () => parseFeeSchedule(JSON.stringify({ categoryOverrides: { cooking: {} } })),
+    FeeScheduleError
+  );
+});
@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { FakePaymentProvider, PaymentDeclinedError } from "../services/payment.service";
+
+const request = { userId: "user-1", amountCents: 2500, description: "Test" };
+
+test("FakePaymentProvider hands out distinct charge and payout references", async () => {
+  const provider = new FakePaymentProvider();
+  const charge = await provider.charge(request);
+  const payout = await provider.payout(request);
+  const secondPayout = await provider.payout(request);
+  assert.match(charge.reference, /^fake_ch_/);
+  assert.match(payout.reference, /^fake_po_/);
+  assert.notEqual(payout.reference, secondPayout.reference);
+});
+
+test("FakePaymentProvider declines non-positive amounts", async () => {
+  const provider = new FakePaymentProvider();
+  await assert.rejects(provider.charge({ ...request, amountCents: 0 }), PaymentDeclinedError);
+  await assert.rejects(provider.payout({ ...request, amountCents: -100 }), PaymentDeclinedError);
+});
+
+test("FakePaymentProvider refunds a charge only once", async () => {
+  const provider = new FakePaymentProvider();
+  const { reference } = await provider.charge(request);
+  await provider.refund(reference);
+  await assert.rejects(provider.refund(reference), /already been refunded/);
+});
@@ -0,0 +1,94 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { BidStatus, BudgetType, SkillProficiency, TaskCategory } from "@prisma/client";
+import {
+  FreelancerSignals,
+  ScorableTask,
+  rankTasks,
+  scoreTask,
+} from "../services/recommendation.service";
+
+const signals: FreelancerSignals = {
+  skills: [
+    { skillId: "skill-react", proficiency: SkillProficiency.expert },
+    { skillId: "skill-css", proficiency: SkillProficiency.beginner },
+  ],
+  bids: [
+    { amount: 500, status: BidStatus.accepted, category: TaskCategory.web_development, budgetType: BudgetType.fixed },
+    { amount: 700, status: BidStatus.rejected, category: TaskCategory.web_development, budgetType: BudgetType.fixed },
+    { amount: 300, status: BidStatus.accepted, category: TaskCategory.design, budgetType: BudgetType.fixed },
+  ],
+};
+
+const createdAt = new Date("2026-01-01T00:00:00Z");
+
+const webTask: ScorableTask = {
+  id: "task-web",
+  category: TaskCategory.web_development,
+  budget: 500,
+  budgetType: BudgetType.fixed,
+  createdAt,
+  skillIds: ["skill-react", "skill-css"],
+};
+
+const writingTask: ScorableTask = {
+  id: "task-writing",
+  category: TaskCategory.writing,
+  budget: 2000,
+  budgetType: BudgetType.fixed,
+  createdAt,
+  skillIds: ["skill-copy"],
+};
+
+const designTask: ScorableTask = {
+  id: "task-design",
+  category: TaskCategory.design,
+  budget: 300,
+  budgetType: BudgetType.hourly,
+  createdAt,
+  skillIds: [],
+};
+
+test("scoreTask weighs skills, category, budget and success rate", () => {
+  assert.deepEqual(scoreTask(webTask, signals), {
+    score: 0.7,
+    reasons: [
+      "Matches 2 of 2 required skills",
+      "Similar to work you have done before",
+      "Budget in line with your usual rates",
+    ],
+  });
+});
+
+test("scoreTask gives neutral scores when there is nothing to compare against", () => {
+  assert.deepEqual(scoreTask(designTask, signals), {
+    score: 0.525,
+    reasons: ["Similar to work you have done before", "You win bids in this category"],
+  });
+});
+
+test("scoreTask scores unrelated work low", () => {
+  assert.deepEqual(scoreTask(writingTask, signals), { score: 0.138, reasons: [] });
+});
+
+test("scoreTask is deterministic", () => {
+  assert.deepEqual(scoreTask(webTask, signals), scoreTask({ ...webTask }, signals));
+});
+
+test("rankTasks orders by score", () => {
+  const ranked = rankTasks([writingTask, designTask, webTask], signals);
+  assert.deepEqual(
+    ranked.map((task) => task.id),
+    ["task-web", "task-design", "task-writing"]
+  );
+});
+
+test("rankTasks breaks ties by newest, then by id", () => {
+  const older = { ...webTask, id: "task-a" };
+  const sameTimeB = { ...webTask, id: "task-c", createdAt: new Date("2026-02-01T00:00:00Z") };
+  const sameTimeA = { ...webTask, id: "task-b", createdAt: new Date("2026-02-01T00:00:00Z") };
+  assert.deepEqual(
+    rankTasks([older, sameTimeB, sameTimeA], signals).map((task) => task.id),
+    ["task-b", "task-c", "task-a"]
+  );
+});
@@ -14,6 +14,27 @@ import {
   Milestone,
   Notification,
   Message,
+  Attachment,
+  Skill,
+  SkillProficiency,
+  BidRevision,
+  BidOffer,
+  OfferStatus,
+  LedgerEntryType,
+  MilestoneEvent,
+  MilestoneEventType,
+  Dispute,
+  DisputeEvidence,
+  DisputeStatus,
+  DisputeResolution,
+  BidMilestone,
+  Timesheet,
+  TimesheetStatus,
+  TimeEntry,
+  Invoice,
+  InvoiceKind,
+  Review,
+  MessageRevision,
 } from "@prisma/client";
 
 export {
@@ -29,6 +50,26 @@ export {
   Milestone,
   Notification,
   Message,
+  Attachment,
+  Skill,
+  SkillProficiency,
+  BidRevision,
+  BidOffer,
+  OfferStatus,
+  LedgerEntryType,
+  MilestoneEvent,
+  MilestoneEventType,
+  Dispute,
+  DisputeEvidence,
+  DisputeStatus,
+  DisputeResolution,
+  BidMilestone,
+  Timesheet,
+  TimesheetStatus,
+  TimeEntry,
+  Invoice,
+  InvoiceKind,
+  Review,
 };
 
 export type JwtPayload = {
@@ -46,11 +87,18 @@ export interface AuthRequest<
   user?: JwtPayload;
 }
 
+export interface PaginationMeta {
+  total: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   message?: string;
   error?: string | object[];
   data?: T;
+  meta?: PaginationMeta;
 }
 
 export interface RegisterRequestBody {
@@ -73,6 +121,49 @@ export interface CreateTaskRequestBody {
   budget: number;
   budgetType: BudgetType;
   deadline: Date;
+  skillIds?: string[];
+  maxRevisions?: number;
+  weeklyHourCap?: number | null;
+}
+
+export type UpdateTaskRequestBody = Partial<CreateTaskRequestBody>;
+
+export interface CancelTaskRequestBody {
+  reason?: string;
+}
+
+export interface UpdateTaskStatusRequestBody {
+  status: TaskStatus;
+}
+
+export type TaskSortOption =
+  | "newest"
+  | "oldest"
+  | "budget_high"
+  | "budget_low"
+  | "deadline_soon";
+
+export interface TaskListQuery {
+  q?: string;
+  category?: TaskCategory;
+  minBudget?: number;
+  maxBudget?: number;
+  budgetType?: BudgetType;
+  status?: TaskStatus;
+  clientId?: string;
+  skills?: string[];
+  deadlineFrom?: Date;
+  deadlineTo?: Date;
+  sort?: TaskSortOption;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface BidMilestoneInput {
+  title: string;
+  description?: string;
+  amount: number;
+  dueDate: Date;
 }
 
 export interface CreateBidRequestBody {
@@ -80,6 +171,44 @@ export interface CreateBidRequestBody {
   amount: number;
   proposal: string;
   timeline: string;
+  // Optional breakdown of the bid into stages; must not add up to more than the amount.
+  milestones?: BidMilestoneInput[];
+}
+
+export interface RejectBidRequestBody {
+  reason?: string;
+}
+
+export interface ShortlistBidRequestBody {
+  shortlisted: boolean;
+}
+
+export interface CreateBidOfferRequestBody {
+  amount: number;
+  timeline: string;
+  message?: string;
+}
+
+export interface BidOfferParams {
+  bidId: string;
+  offerId: string;
+}
+
+export type UpdateBidRequestBody = Partial<
+  Pick<CreateBidRequestBody, "amount" | "proposal" | "timeline" | "milestones">
+>;
+
+export type MilestoneWithEvents = Milestone & {
+  events: MilestoneEvent[];
+  disputes: Dispute[];
+};
+
+export interface DeclineMilestoneRequestBody {
+  reason?: string;
+}
+
+export interface RequestMilestoneChangesRequestBody {
+  feedback: string;
 }
 
 export interface CreateMilestoneRequestBody {
@@ -88,6 +217,20 @@ export interface CreateMilestoneRequestBody {
   description: string;
   amount: number;
   dueDate: Date;
+  dependsOnId?: string;
+}
+
+// An amount different from the current one is only applied once the freelancer accepts it.
+export type UpdateMilestoneRequestBody = Partial<
+  Pick<CreateMilestoneRequestBody, "title" | "description" | "amount" | "dueDate">
+> & { dependsOnId?: string | null };
+
+export interface CancelMilestoneRequestBody {
+  reason?: string;
+}
+
+export interface ReorderMilestonesRequestBody {
+  milestoneIds: string[];
 }
 
 export type AuthResponseData = {
@@ -108,18 +251,251 @@ export type AuthResponseData = {
 
 export type UserPublicProfile = Pick<
   User,
-  "id" | "firstName" | "lastName" | "email"
+  "id" | "firstName" | "lastName" | "avatarUrl"
+>;
+export type SkillSummary = Pick<Skill, "id" | "name" | "slug" | "category">;
+export type TaskWithClient = Task & {
+  client: UserPublicProfile;
+  skills?: SkillSummary[];
+};
+export type TaskSearchResult = TaskWithClient & {
+  rank: number;
+  titleHighlight: string;
+  snippet: string;
+};
+export type RecommendedTask = TaskWithClient & {
+  score: number;
+  reasons: string[];
+};
+export interface TaskSearchData {
+  results: TaskSearchResult[];
+  suggestions: string[];
+}
+// Averages over a user's revealed reviews.
+export interface RatingStats {
+  count: number;
+  rating: number;
+  communication: number;
+  quality: number;
+  timeliness: number;
+}
+export type BidWithFreelancer = Bid & {
+  freelancer: UserPublicProfile;
+  freelancerRating?: RatingStats | null;
+  revisions?: BidRevision[];
+  offers?: BidOffer[];
+  milestonePlan?: BidMilestone[];
+};
+export type MessageAttachment = Pick<
+  Attachment,
+  "id" | "fileName" | "mimeType" | "size"
 >;
-export type TaskWithClient = Task & { client: UserPublicProfile };
-export type BidWithFreelancer = Bid & { freelancer: UserPublicProfile };
 export type MessageWithSender = Message & {
   sender: Pick<User, "id" | "firstName" | "lastName">;
+  attachments: MessageAttachment[];
+};
+
+// A message as stored, including deleted content and every earlier version.
+export type MessageHistory = MessageWithSender & {
+  revisions: MessageRevision[];
 };
 
+// A page of chat history, newest first.
+export interface MessagePage {
+  messages: MessageWithSender[];
+  meta: PaginationMeta;
+}
+
+// Sent with `load_messages` on joining a chat, so the client can tell threads apart.
+export type ThreadMessagePage = MessagePage & ChatThread;
+
+export interface MessageListQuery {
+  cursor?: string;
+  limit?: number;
+}
+
+export type ConversationListQuery = MessageListQuery;
+
+export type AttachmentSummary = Omit<Attachment, "storageKey"> & {
+  uploader: Pick<User, "id" | "firstName" | "lastName">;
+};
+
+export type UserSkillSummary = SkillSummary & {
+  proficiency: SkillProficiency;
+};
+
+// Everything shown on a user's public profile page; never includes contact details.
+export type PublicUserProfile = Pick<
+  User,
+  | "id"
+  | "firstName"
+  | "lastName"
+  | "avatarUrl"
+  | "bio"
+  | "role"
+  | "portfolioUrl"
+  | "githubUrl"
+  | "linkedinUrl"
+> & {
+  skills: UserSkillSummary[];
+  rating: RatingStats | null;
+  completedJobs: number;
+  memberSince: Date;
+  recentReviews: PublicReview[];
+};
+
+export type PublicReview = Pick<
+  Review,
+  "id" | "rating" | "comment" | "createdAt"
+> & {
+  reviewer: UserPublicProfile;
+  task: Pick<Task, "id" | "title">;
+};
+
+export type AdminSkill = Skill & {
+  _count: { tasks: number; users: number };
+};
+
+export interface UpdateUserSkillsRequestBody {
+  skills: { skillId: string; proficiency: SkillProficiency }[];
+}
+
+export interface SkillRequestBody {
+  name: string;
+  category?: TaskCategory | null;
+}
+
 export interface TaskIdParams {
   taskId: string;
 }
 
+// Ledger entries as shown to their wallet's owner, in dollars rather than cents.
+export interface WalletLedgerEntry {
+  id: string;
+  transactionId: string;
+  type: LedgerEntryType;
+  amount: number;
+  milestoneId: string | null;
+  timesheetId: string | null;
+  reference: string | null;
+  description: string;
+  createdAt: Date;
+}
+
+export interface WalletSummary {
+  balance: number;
+  // Funded but not yet released on tasks the user is client or freelancer of.
+  inEscrow: number;
+  entries: WalletLedgerEntry[];
+}
+
+export interface WithdrawRequestBody {
+  amount: number;
+}
+
+export interface OpenDisputeRequestBody {
+  milestoneId: string;
+  reason: string;
+}
+
+export interface DisputeEvidenceRequestBody {
+  message: string;
+}
+
+export interface ResolveDisputeRequestBody {
+  resolution: DisputeResolution;
+  // Required for a split: what the freelancer receives out of the milestone amount.
+  freelancerAmount?: number;
+  note: string;
+}
+
+export interface DisputeIdParams {
+  disputeId: string;
+}
+
+type UserName = Pick<User, "id" | "firstName" | "lastName">;
+
+export type DisputeEvidenceWithAuthor = DisputeEvidence & { author: UserName };
+
+export type DisputeSummary = Dispute & {
+  openedBy: UserName;
+  milestone: Pick<Milestone, "id" | "title" | "amount" | "status"> & {
+    task: Pick<Task, "id" | "title" | "clientId">;
+  };
+  _count: { evidence: number };
+};
+
+export type DisputeDetail = DisputeSummary & {
+  evidence: DisputeEvidenceWithAuthor[];
+};
+
+export type TimesheetWithEntries = Timesheet & { entries: TimeEntry[] };
+
+export interface HourlyContractSummary {
+  hourlyRate: number;
+  weeklyHourCap: number | null;
+  timesheets: TimesheetWithEntries[];
+}
+
+export interface TimeEntryRequestBody {
+  startedAt: Date;
+  endedAt: Date;
+  memo?: string;
+}
+
+export type UpdateTimeEntryRequestBody = Partial<TimeEntryRequestBody>;
+
+export interface StartTimerRequestBody {
+  memo?: string;
+}
+
+export interface WeeklyHourCapRequestBody {
+  // null removes the cap.
+  weeklyHourCap: number | null;
+}
+
+export interface DisputeTimesheetRequestBody {
+  reason: string;
+}
+
+export type InvoiceSummary = Omit<Invoice, "storageKey"> & {
+  documentNumber: string;
+};
+
+// What the platform would keep from a payment of `amount` on this task, in dollars.
+export interface FeeEstimate {
+  amount: number;
+  fee: number;
+  net: number;
+  effectivePercent: number;
+  minimumApplied: boolean;
+  // Earlier payments from the same client, which move the freelancer into lower tiers.
+  priorBillings: number;
+}
+
+export interface CreateReviewRequestBody {
+  rating: number;
+  communication: number;
+  quality: number;
+  timeliness: number;
+  comment: string;
+}
+
+export type ReviewWithAuthor = Review & {
+  reviewer: Pick<User, "id" | "firstName" | "lastName">;
+};
+
+// Both sides of a task's reviews as the requester may see them: their own always,
+// the other side's only once revealed.
+export interface TaskReviewSummary {
+  canReview: boolean;
+  // When the review window closes; null until the task is completed.
+  reviewDeadline: Date | null;
+  myReview: ReviewWithAuthor | null;
+  theirReview: ReviewWithAuthor | null;
+  theyHaveReviewed: boolean;
+}
+
 export interface NotificationIdParams {
   id: string;
 }
@@ -130,23 +506,66 @@ export interface AdminStatsData {
   totalBids: number;
   openTasks: number;
   completedTasks: number;
+  // Service fees collected by the platform, overall and over the last 30 days.
+  platformRevenue: number;
+  platformRevenueLast30Days: number;
 }
 
-export interface JoinTaskPayload {
+// Identifies a chat: the task chat, or with bidId set, the pre-hire thread between the
+// client and that bidder. Every chat socket event carries one.
+export interface ChatThread {
   taskId: string;
+  bidId?: string | null;
 }
 
-export interface SendMessagePayload {
-  taskId: string;
+export type JoinTaskPayload = ChatThread;
+
+export interface SendMessagePayload extends ChatThread {
   content: string;
 }
 
-export interface TypingPayload {
-  taskId: string;
+export interface TypingPayload extends ChatThread {
   isTyping: boolean;
 }
 
-export interface UserTypingPayload {
+export interface UserTypingPayload extends ChatThread {
   userId: string;
   isTyping: boolean;
 }
+
+export interface EditMessagePayload {
+  messageId: string;
+  content: string;
+}
+
+export interface DeleteMessagePayload {
+  messageId: string;
+}
+
+export interface MarkReadPayload extends ChatThread {
+  // The newest message the reader has seen; everything before it counts as read too.
+  messageId: string;
+}
+
+// Broadcast to the other participant when someone reads further into the chat.
+export interface MessageReadPayload extends ChatThread {
+  userId: string;
+  messageId: string;
+  lastReadAt: Date;
+}
+
+// Sent on join so the chat can show what the other side has already seen.
+export interface ChatReadState extends ChatThread {
+  cursors: { userId: string; lastReadAt: Date }[];
+}
+
+// An inbox entry: a task chat, or a pre-hire thread when bidId is set.
+export interface ConversationSummary extends ChatThread {
+  bidId: string | null;
+  taskTitle: string;
+  taskStatus: TaskStatus;
+  counterpart: UserPublicProfile;
+  lastMessage: MessageWithSender | null;
+  lastReadAt: Date | null;
+  unreadCount: number;
+}
@@ -10,12 +10,19 @@ import Dashboard from "./pages/Dashboard";
 import TaskDetail from "./pages/TaskDetail";
 import CreateTask from "./pages/CreateTask";
 import Profile from "./pages/Profile";
+import PublicProfile from "./pages/PublicProfile";
 import Notifications from "./pages/Notifications";
+import Inbox from "./pages/Inbox";
+import Wallet from "./pages/Wallet";
+import Invoices from "./pages/Invoices";
+import DisputeDetail from "./pages/DisputeDetail";
 import ProtectedRoute from "./components/ProtectedRoute";
 import AdminProtectedRoute from "./components/AdminProtectedRoute";
 import AdminDashboard from "./pages/admin/AdminDashboard";
 import ManageUsers from "./pages/admin/ManageUsers";
 import ManageTasks from "./pages/admin/ManageTasks";
+import ManageSkills from "./pages/admin/ManageSkills";
+import ManageDisputes from "./pages/admin/ManageDisputes";
 import CheckEmail from "./pages/auth/CheckEmail";
 import ForgotPassword from "./pages/auth/ForgotPassword";
 import ResetPassword from "./pages/auth/ResetPassword";
@@ -57,7 +64,12 @@ function App() {
             <Route path="/tasks/new" element={<CreateTask />} />
             <Route path="/task/:id" element={<TaskDetail />} />
             <Route path="/profile" element={<Profile />} />
+            <Route path="/users/:id" element={<PublicProfile />} />
             <Route path="/notifications" element={<Notifications />} />
+            <Route path="/inbox" element={<Inbox />} />
+            <Route path="/wallet" element={<Wallet />} />
+            <Route path="/invoices" element={<Invoices />} />
+            <Route path="/disputes/:id" element={<DisputeDetail />} />
             <Route
               path="/tasks/my-projects"
               element={
@@ -95,6 +107,8 @@ function App() {
             <Route path="/admin" element={<AdminDashboard />} />
             <Route path="/admin/users" element={<ManageUsers />} />
             <Route path="/admin/tasks" element={<ManageTasks />} />
+            <Route path="/admin/skills" element={<ManageSkills />} />
+            <Route path="/admin/disputes" element={<ManageDisputes />} />
           </Route>
 
           {/* Fallback route */}
@@ -0,0 +1,153 @@
+// client/src/components/AttachmentList.tsx
+import React, { useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "react-query";
+import { AxiosError } from "axios";
+import { toast } from "react-toastify";
+import { Download, Paperclip, Trash2, Upload } from "lucide-react";
+import { attachmentsApi } from "../services/api";
+import { useAuth } from "../contexts/AuthContext";
+import { ApiResponse, Attachment, AttachmentParentType } from "../types";
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${Math.ceil(bytes / 1024)} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Browsers cannot send the auth header on a plain link, so fetch the file and save it from a blob URL.
+export const downloadAttachment = async (
+  attachment: Pick<Attachment, "id" | "fileName">
+) => {
+  const response = await attachmentsApi.download(attachment.id);
+  const url = URL.createObjectURL(response.data);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = attachment.fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+interface AttachmentListProps {
+  parentType: AttachmentParentType;
+  parentId: string;
+  canUpload?: boolean;
+  title?: string;
+}
+
+const AttachmentList: React.FC<AttachmentListProps> = ({
+  parentType,
+  parentId,
+  canUpload = false,
+  title = "Attachments",
+}) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const queryKey = ["attachments", parentType, parentId];
+
+  const { data: attachments = [] } = useQuery(queryKey, () =>
+    attachmentsApi.list(parentType, parentId).then((res) => res.data.data!)
+  );
+
+  const uploadMutation = useMutation<unknown, AxiosError<ApiResponse>, File[]>(
+    (files) => attachmentsApi.upload(parentType, parentId, files),
+    {
+      onSuccess: () => {
+        toast.success("Files uploaded.");
+        queryClient.invalidateQueries(queryKey);
+      },
+      onError: (err) => {
+        const error = err.response?.data?.error;
+        toast.error(typeof error === "string" ? error : "Upload failed.");
+      },
+    }
+  );
+
+  const deleteMutation = useMutation<unknown, AxiosError<ApiResponse>, string>(
+    (id) => attachmentsApi.delete(id),
+    {
+      onSuccess: () => queryClient.invalidateQueries(queryKey),
+      onError: () => {
+        toast.error("Failed to delete file.");
+      },
+    }
+  );
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) uploadMutation.mutate(files);
+    e.target.value = "";
+  };
+
+  const handleDownload = (attachment: Attachment) =>
+    downloadAttachment(attachment).catch(() =>
+      toast.error("Failed to download file.")
+    );
+
+  if (attachments.length === 0 && !canUpload) return null;
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center justify-between mb-1">
+        <h4 className="text-sm font-semibold text-gray-700 flex items-center">
+          <Paperclip className="h-4 w-4 mr-1" /> {title}
+        </h4>
+        {canUpload && (
+          <>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadMutation.isLoading}
+              className="text-xs text-indigo-600 hover:text-indigo-800 flex items-center disabled:opacity-50"
+            >
+              <Upload className="h-3 w-3 mr-1" />
+              {uploadMutation.isLoading ? "Uploading..." : "Upload"}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={handleFilesSelected}
+            />
+          </>
+        )}
+      </div>
+      {attachments.length > 0 ? (
+        <ul className="space-y-1">
+          {attachments.map((attachment) => (
+            <li
+              key={attachment.id}
+              className="flex items-center justify-between text-sm bg-white border rounded-md px-3 py-1.5"
+            >
+              <button
+                type="button"
+                onClick={() => handleDownload(attachment)}
+                className="text-indigo-600 hover:underline truncate flex items-center"
+              >
+                <Download className="h-3 w-3 mr-1 flex-shrink-0" />
+                {attachment.fileName}
+              </button>
+              <span className="flex items-center text-xs text-gray-500 ml-2 flex-shrink-0">
+                {formatFileSize(attachment.size)}
+                {attachment.uploaderId === user?.id && (
+                  <button
+                    type="button"
+                    onClick={() => deleteMutation.mutate(attachment.id)}
+                    className="ml-2 text-red-500 hover:text-red-700"
+                    title="Delete file"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500">No files attached yet.</p>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentList;
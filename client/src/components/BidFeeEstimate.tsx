@@ -0,0 +1,70 @@
+// client/src/components/BidFeeEstimate.tsx
+import React, { useEffect, useState } from "react";
+import { useQuery } from "react-query";
+import { Percent } from "lucide-react";
+import { bidsApi } from "../services/api";
+
+interface BidFeeEstimateProps {
+  taskId: string;
+  // Raw value of the bid amount field.
+  amount: unknown;
+  isHourly: boolean;
+}
+
+const formatMoney = (amount: number) =>
+  amount.toLocaleString("en-US", { style: "currency", currency: "USD" });
+
+// Shows the freelancer what the platform keeps from the amount they are about to bid.
+// Fees fall as billings with the same client grow, so the figure is fetched per task.
+const BidFeeEstimate: React.FC<BidFeeEstimateProps> = ({
+  taskId,
+  amount,
+  isHourly,
+}) => {
+  const [debouncedAmount, setDebouncedAmount] = useState(0);
+
+  useEffect(() => {
+    const parsed = Number(amount);
+    const timeout = setTimeout(
+      () => setDebouncedAmount(Number.isFinite(parsed) ? parsed : 0),
+      300
+    );
+    return () => clearTimeout(timeout);
+  }, [amount]);
+
+  const { data: estimate } = useQuery(
+    ["feeEstimate", taskId, debouncedAmount],
+    () =>
+      bidsApi
+        .getFeeEstimate(taskId, debouncedAmount)
+        .then((res) => res.data.data),
+    { enabled: debouncedAmount > 0, keepPreviousData: true, staleTime: 60 * 1000 }
+  );
+
+  if (debouncedAmount <= 0 || !estimate) return null;
+
+  const unit = isHourly ? "/hr" : "";
+  return (
+    <div className="mt-1 text-xs text-gray-600 flex items-start">
+      <Percent className="h-3.5 w-3.5 mr-1 mt-0.5 text-gray-400 shrink-0" />
+      <span>
+        Service fee {formatMoney(estimate.fee)}
+        {unit}
+        {estimate.minimumApplied
+          ? " (minimum fee)"
+          : ` (${estimate.effectivePercent.toFixed(1)}%)`}
+        {" · "}
+        <span className="font-medium text-gray-800">
+          You receive {formatMoney(estimate.net)}
+          {unit}
+        </span>
+        {estimate.priorBillings > 0 &&
+          ` · reflects ${formatMoney(
+            estimate.priorBillings
+          )} already billed to this client`}
+      </span>
+    </div>
+  );
+};
+
+export default BidFeeEstimate;
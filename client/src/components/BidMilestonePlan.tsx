@@ -0,0 +1,45 @@
+// client/src/components/BidMilestonePlan.tsx
+import React from "react";
+import { format, parseISO } from "date-fns";
+import { ListOrdered } from "lucide-react";
+import { BidMilestone } from "../types";
+
+interface BidMilestonePlanProps {
+  plan: BidMilestone[];
+  bidAmount: number;
+}
+
+// Read-only view of the stages a freelancer proposed with their bid.
+const BidMilestonePlan: React.FC<BidMilestonePlanProps> = ({
+  plan,
+  bidAmount,
+}) => {
+  if (plan.length === 0) return null;
+
+  const total = plan.reduce((sum, stage) => sum + stage.amount, 0);
+
+  return (
+    <details className="mt-2 text-sm">
+      <summary className="cursor-pointer text-gray-500 flex items-center">
+        <ListOrdered className="h-4 w-4 mr-1" /> Milestone plan ({plan.length}{" "}
+        {plan.length === 1 ? "stage" : "stages"}, ${total.toFixed(2)} of $
+        {bidAmount.toFixed(2)})
+      </summary>
+      <ol className="mt-2 space-y-2 border-l-2 pl-3">
+        {plan.map((stage) => (
+          <li key={stage.id} className="text-gray-600">
+            <p className="font-medium">
+              {stage.position + 1}. {stage.title} - ${stage.amount.toFixed(2)}
+            </p>
+            <p className="text-xs text-gray-400">
+              Due {format(parseISO(stage.dueDate), "MMM dd, yyyy")}
+            </p>
+            {stage.description && <p>{stage.description}</p>}
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+};
+
+export default BidMilestonePlan;
@@ -0,0 +1,220 @@
+// client/src/components/BidNegotiation.tsx
+import React, { useState } from "react";
+import { useMutation, useQueryClient } from "react-query";
+import { AxiosError } from "axios";
+import { toast } from "react-toastify";
+import { format, parseISO } from "date-fns";
+import { ArrowLeftRight, Check, X } from "lucide-react";
+import { bidsApi } from "../services/api";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  ApiResponse,
+  BidStatus,
+  BidWithFreelancer,
+  CreateBidOfferPayload,
+  OfferStatus,
+} from "../types";
+
+const OFFER_STATUS_STYLES: Record<OfferStatus, string> = {
+  [OfferStatus.pending]: "bg-yellow-100 text-yellow-800",
+  [OfferStatus.accepted]: "bg-green-100 text-green-800",
+  [OfferStatus.declined]: "bg-red-100 text-red-700",
+  [OfferStatus.countered]: "bg-blue-100 text-blue-800",
+  [OfferStatus.cancelled]: "bg-gray-100 text-gray-600",
+};
+
+interface BidNegotiationProps {
+  bid: BidWithFreelancer;
+  clientId: string;
+}
+
+// Offer history and counter-offer controls for one bid, shown to the client and that bidder only.
+const BidNegotiation: React.FC<BidNegotiationProps> = ({ bid, clientId }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [isComposing, setIsComposing] = useState(false);
+  const [amount, setAmount] = useState(String(bid.amount));
+  const [timeline, setTimeline] = useState(bid.timeline);
+  const [message, setMessage] = useState("");
+
+  const offers = bid.offers ?? [];
+  const openOffer = offers.find((offer) => offer.status === OfferStatus.pending);
+  const isClient = user?.id === clientId;
+  const isOpen = bid.status === BidStatus.pending;
+  // The client starts a negotiation; afterwards whoever received the open offer may counter it.
+  const canPropose =
+    isOpen &&
+    (openOffer ? openOffer.proposerId !== user?.id : isClient);
+
+  const onError = (err: AxiosError<ApiResponse>) => {
+    const error = err.response?.data?.error;
+    toast.error(typeof error === "string" ? error : "Something went wrong.");
+  };
+  const refresh = () => queryClient.invalidateQueries(["bids", bid.taskId]);
+
+  const proposeMutation = useMutation<
+    unknown,
+    AxiosError<ApiResponse>,
+    CreateBidOfferPayload
+  >((offer) => bidsApi.createOffer(bid.id, offer), {
+    onSuccess: () => {
+      toast.success(openOffer ? "Counter-offer sent." : "Offer sent.");
+      setIsComposing(false);
+      setMessage("");
+      refresh();
+    },
+    onError,
+  });
+
+  const respondMutation = useMutation<
+    unknown,
+    AxiosError<ApiResponse>,
+    { offerId: string; action: "accept" | "decline" | "cancel" }
+  >(({ offerId, action }) => bidsApi.respondToOffer(bid.id, offerId, action), {
+    onSuccess: refresh,
+    onError,
+  });
+
+  const handlePropose = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedAmount = parseFloat(amount);
+    if (!(parsedAmount > 0) || !timeline.trim()) {
+      toast.error("Enter a positive amount and a timeline.");
+      return;
+    }
+    proposeMutation.mutate({
+      amount: parsedAmount,
+      timeline: timeline.trim(),
+      message: message.trim() || undefined,
+    });
+  };
+
+  if (offers.length === 0 && !canPropose) return null;
+
+  return (
+    <div className="mt-3 border-t pt-3">
+      {offers.length > 0 && (
+        <ul className="space-y-2 mb-3">
+          {offers.map((offer) => (
+            <li key={offer.id} className="text-sm">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-gray-700">
+                  {offer.proposerId === clientId ? "Client" : "Freelancer"}:
+                </span>
+                <span className="font-bold">${offer.amount}</span>
+                <span className="text-gray-600">- {offer.timeline}</span>
+                <span
+                  className={`px-2 py-0.5 text-xs rounded-full capitalize ${
+                    OFFER_STATUS_STYLES[offer.status]
+                  }`}
+                >
+                  {offer.status}
+                </span>
+                <span className="text-xs text-gray-400 ml-auto">
+                  {format(parseISO(offer.createdAt), "MMM dd, HH:mm")}
+                </span>
+              </div>
+              {offer.message && (
+                <p className="text-gray-600 italic ml-2">"{offer.message}"</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {openOffer && openOffer.proposerId !== user?.id && (
+        <div className="flex gap-2 mb-2">
+          <button
+            onClick={() =>
+              respondMutation.mutate({ offerId: openOffer.id, action: "accept" })
+            }
+            disabled={respondMutation.isLoading}
+            className="text-sm bg-green-600 text-white px-3 py-1.5 rounded-md hover:bg-green-700 disabled:opacity-50"
+          >
+            <Check className="h-4 w-4 inline-block mr-1" /> Accept terms
+          </button>
+          <button
+            onClick={() =>
+              respondMutation.mutate({ offerId: openOffer.id, action: "decline" })
+            }
+            disabled={respondMutation.isLoading}
+            className="text-sm border border-red-300 text-red-600 px-3 py-1.5 rounded-md hover:bg-red-50 disabled:opacity-50"
+          >
+            <X className="h-4 w-4 inline-block mr-1" /> Decline
+          </button>
+        </div>
+      )}
+      {openOffer && openOffer.proposerId === user?.id && (
+        <p className="text-sm text-gray-500 mb-2">
+          Waiting for a response to your offer.{" "}
+          <button
+            onClick={() =>
+              respondMutation.mutate({ offerId: openOffer.id, action: "cancel" })
+            }
+            disabled={respondMutation.isLoading}
+            className="text-indigo-600 hover:underline"
+          >
+            Withdraw offer
+          </button>
+        </p>
+      )}
+
+      {canPropose &&
+        (isComposing ? (
+          <form onSubmit={handlePropose} className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="number"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="p-2 border rounded-md text-sm"
+                placeholder="Amount ($)"
+              />
+              <input
+                type="text"
+                value={timeline}
+                onChange={(e) => setTimeline(e.target.value)}
+                className="p-2 border rounded-md text-sm"
+                placeholder="Timeline"
+              />
+            </div>
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={2}
+              maxLength={1000}
+              className="w-full p-2 border rounded-md text-sm"
+              placeholder="Add a note (optional)"
+            />
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={proposeMutation.isLoading}
+                className="text-sm bg-indigo-600 text-white px-3 py-1.5 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                Send offer
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsComposing(false)}
+                className="text-sm border border-gray-300 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-100"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            onClick={() => setIsComposing(true)}
+            className="text-sm text-indigo-600 hover:underline flex items-center"
+          >
+            <ArrowLeftRight className="h-4 w-4 mr-1" />
+            {openOffer ? "Counter-offer" : "Propose different terms"}
+          </button>
+        ))}
+    </div>
+  );
+};
+
+export default BidNegotiation;
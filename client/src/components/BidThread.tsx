@@ -0,0 +1,197 @@
+// client/src/components/BidThread.tsx
+import React, { useEffect, useRef, useState } from "react";
+import { toast } from "react-toastify";
+import { MessageSquare } from "lucide-react";
+import { chatApi } from "../services/api";
+import { useAuth } from "../contexts/AuthContext";
+import { useSocket } from "../contexts/SocketContext";
+import ChatMessage from "./ChatMessage";
+import ChatComposer from "./ChatComposer";
+import {
+  BidStatus,
+  BidWithFreelancer,
+  ChatReadState,
+  MessageReadPayload,
+  MessageWithSender,
+  ThreadMessagePage,
+} from "../types";
+
+interface BidThreadProps {
+  bid: BidWithFreelancer;
+  counterpartName: string;
+  initiallyExpanded?: boolean;
+}
+
+// Pre-hire messages between the client and one bidder. The thread only opens a socket
+// room while expanded, and carries on in the task chat once the bid is accepted.
+const BidThread: React.FC<BidThreadProps> = ({
+  bid,
+  counterpartName,
+  initiallyExpanded = false,
+}) => {
+  const { user } = useAuth();
+  const { socket, isConnected } = useSocket();
+  const [isExpanded, setIsExpanded] = useState(initiallyExpanded);
+  const [messages, setMessages] = useState<MessageWithSender[]>([]);
+  const [olderMessagesCursor, setOlderMessagesCursor] = useState<
+    string | null
+  >(null);
+  const [otherReadAt, setOtherReadAt] = useState<string | null>(null);
+  const lastMarkedReadRef = useRef<string | null>(null);
+
+  const { taskId, id: bidId } = bid;
+
+  useEffect(() => {
+    if (!socket || !isExpanded) return;
+    const thread = { taskId, bidId };
+    socket.emit("join_task", thread);
+
+    const handleLoadMessages = (page: ThreadMessagePage) => {
+      if (page.bidId !== bidId) return;
+      setMessages([...page.messages].reverse());
+      setOlderMessagesCursor(page.meta.nextCursor);
+    };
+    const handleNewMessage = (message: MessageWithSender) => {
+      if (message.bidId !== bidId) return;
+      setMessages((prev) => [...prev, message]);
+    };
+    const handleMessageUpdated = (updated: MessageWithSender) => {
+      if (updated.bidId !== bidId) return;
+      setMessages((prev) =>
+        prev.map((msg) => (msg.id === updated.id ? updated : msg))
+      );
+    };
+    const handleReadState = (state: ChatReadState) => {
+      if (state.bidId !== bidId) return;
+      const theirs = state.cursors.find((cursor) => cursor.userId !== user?.id);
+      setOtherReadAt(theirs?.lastReadAt ?? null);
+    };
+    const handleMessageRead = (read: MessageReadPayload) => {
+      if (read.bidId === bidId && read.userId !== user?.id) {
+        setOtherReadAt(read.lastReadAt);
+      }
+    };
+
+    socket.on("load_messages", handleLoadMessages);
+    socket.on("new_message", handleNewMessage);
+    socket.on("message_updated", handleMessageUpdated);
+    socket.on("read_state", handleReadState);
+    socket.on("message_read", handleMessageRead);
+
+    return () => {
+      socket.emit("leave_task", thread);
+      socket.off("load_messages", handleLoadMessages);
+      socket.off("new_message", handleNewMessage);
+      socket.off("message_updated", handleMessageUpdated);
+      socket.off("read_state", handleReadState);
+      socket.off("message_read", handleMessageRead);
+    };
+  }, [socket, isExpanded, taskId, bidId, user?.id]);
+
+  const newestMessageId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    if (
+      !socket ||
+      !isExpanded ||
+      !newestMessageId ||
+      lastMarkedReadRef.current === newestMessageId
+    ) {
+      return;
+    }
+    lastMarkedReadRef.current = newestMessageId;
+    socket.emit("mark_read", { taskId, bidId, messageId: newestMessageId });
+  }, [socket, isExpanded, taskId, bidId, newestMessageId]);
+
+  const lastSeenMessageId = otherReadAt
+    ? messages
+        .filter(
+          (msg) => msg.senderId === user?.id && msg.createdAt <= otherReadAt
+        )
+        .pop()?.id
+    : undefined;
+
+  const loadOlderMessages = async () => {
+    if (!olderMessagesCursor) return;
+    try {
+      const response = await chatApi.getMessagesByBid(
+        taskId,
+        bidId,
+        olderMessagesCursor
+      );
+      const older = response.data.data ?? [];
+      setMessages((prev) => [...[...older].reverse(), ...prev]);
+      setOlderMessagesCursor(response.data.meta?.nextCursor ?? null);
+    } catch {
+      toast.error("Failed to load older messages.");
+    }
+  };
+
+  if (!isExpanded) {
+    return (
+      <button
+        onClick={() => setIsExpanded(true)}
+        className="mt-3 text-sm text-indigo-600 hover:text-indigo-800 flex items-center"
+      >
+        <MessageSquare className="h-4 w-4 mr-1" /> Message {counterpartName}
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-3 border-t pt-3">
+      <div className="flex justify-between items-center mb-2">
+        <p className="text-sm font-semibold text-gray-700">
+          Messages with {counterpartName}
+        </p>
+        <button
+          onClick={() => setIsExpanded(false)}
+          className="text-xs text-gray-500 hover:text-gray-700"
+        >
+          Hide
+        </button>
+      </div>
+      <div className="max-h-64 overflow-y-auto space-y-2 mb-2">
+        {olderMessagesCursor && (
+          <button
+            onClick={loadOlderMessages}
+            className="block mx-auto text-xs text-indigo-600 hover:underline"
+          >
+            Load older messages
+          </button>
+        )}
+        {messages.length > 0 ? (
+          messages.map((msg) => (
+            <ChatMessage
+              key={msg.id}
+              message={msg}
+              isOwn={msg.senderId === user?.id}
+              isSeen={msg.id === lastSeenMessageId}
+              showSender={false}
+              compact
+            />
+          ))
+        ) : (
+          <p className="text-xs text-gray-500">
+            No messages yet. Ask a question before deciding on this bid.
+          </p>
+        )}
+      </div>
+      {bid.status === BidStatus.pending ? (
+        <ChatComposer
+          thread={{ taskId, bidId }}
+          disabled={!isConnected}
+          placeholder={
+            isConnected ? "Type your message..." : "Chat is unavailable"
+          }
+          compact
+        />
+      ) : (
+        <p className="text-xs text-gray-500">
+          This bid is no longer open, so the conversation is closed.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BidThread;
@@ -0,0 +1,134 @@
+// client/src/components/ChatComposer.tsx
+import React, { useRef, useState } from "react";
+import { useMutation } from "react-query";
+import { AxiosError } from "axios";
+import { toast } from "react-toastify";
+import { Paperclip, Send, X } from "lucide-react";
+import { chatApi } from "../services/api";
+import { useSocket } from "../contexts/SocketContext";
+import { ApiResponse, ChatThread } from "../types";
+
+interface ChatComposerProps {
+  thread: ChatThread;
+  disabled: boolean;
+  placeholder: string;
+  compact?: boolean;
+}
+
+const MAX_FILES_PER_MESSAGE = 5;
+
+// Text-only messages go over the socket; messages with files are uploaded over REST.
+const ChatComposer: React.FC<ChatComposerProps> = ({
+  thread,
+  disabled,
+  placeholder,
+  compact = false,
+}) => {
+  const { socket } = useSocket();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+
+  const reset = () => {
+    setDraft("");
+    setFiles([]);
+  };
+
+  const uploadMutation = useMutation<unknown, AxiosError<ApiResponse>>(
+    () => chatApi.sendWithFiles(thread, draft, files),
+    {
+      onSuccess: reset,
+      onError: (err) => {
+        const error = err.response?.data?.error;
+        toast.error(typeof error === "string" ? error : "Failed to send files.");
+      },
+    }
+  );
+
+  const canSend =
+    !disabled &&
+    !uploadMutation.isLoading &&
+    (!!draft.trim() || files.length > 0);
+
+  const handleSend = () => {
+    if (!canSend) return;
+    if (files.length > 0) {
+      uploadMutation.mutate();
+    } else if (socket) {
+      socket.emit("send_message", { ...thread, content: draft });
+      reset();
+    }
+  };
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    setFiles((prev) => [...prev, ...selected].slice(0, MAX_FILES_PER_MESSAGE));
+    e.target.value = "";
+  };
+
+  return (
+    <div>
+      {files.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {files.map((file, index) => (
+            <span
+              key={`${file.name}-${index}`}
+              className="flex items-center text-xs bg-gray-100 rounded-full px-2 py-0.5"
+            >
+              {file.name}
+              <button
+                onClick={() =>
+                  setFiles((prev) => prev.filter((_, i) => i !== index))
+                }
+                className="ml-1 text-gray-500 hover:text-red-600"
+                title="Remove file"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center space-x-2">
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || files.length >= MAX_FILES_PER_MESSAGE}
+          className="text-gray-500 hover:text-indigo-600 disabled:opacity-50"
+          title="Attach files"
+        >
+          <Paperclip className={compact ? "h-4 w-4" : "h-5 w-5"} />
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={handleFilesSelected}
+        />
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyPress={(e) => e.key === "Enter" && handleSend()}
+          className={`flex-1 border border-gray-300 rounded-md disabled:bg-gray-100 ${
+            compact ? "px-3 py-1.5 text-sm" : "px-4 py-2"
+          }`}
+          placeholder={placeholder}
+          disabled={disabled}
+        />
+        <button
+          onClick={handleSend}
+          disabled={!canSend}
+          className={`bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50 ${
+            compact ? "p-2" : "p-2.5"
+          }`}
+        >
+          <Send className={compact ? "h-4 w-4" : "h-5 w-5"} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ChatComposer;
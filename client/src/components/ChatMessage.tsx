@@ -0,0 +1,213 @@
+// client/src/components/ChatMessage.tsx
+import React, { useEffect, useState } from "react";
+import { useMutation } from "react-query";
+import { AxiosError } from "axios";
+import { toast } from "react-toastify";
+import { format, parseISO } from "date-fns";
+import { Ban, CheckCheck, FileText, Pencil, Trash2 } from "lucide-react";
+import { attachmentsApi, chatApi } from "../services/api";
+import { downloadAttachment, formatFileSize } from "./AttachmentList";
+import { ApiResponse, MessageAttachment, MessageWithSender } from "../types";
+
+// Mirrors the server: senders may edit or delete a message this long after sending it.
+const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+interface ChatMessageProps {
+  message: MessageWithSender;
+  isOwn: boolean;
+  // The other side has read up to this message.
+  isSeen?: boolean;
+  showSender?: boolean;
+  compact?: boolean;
+}
+
+const onDownloadError = () => toast.error("Failed to download file.");
+
+// Images are fetched with the auth header like any download and shown from a blob URL.
+const ImageThumbnail: React.FC<{ attachment: MessageAttachment }> = ({
+  attachment,
+}) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    attachmentsApi
+      .download(attachment.id)
+      .then((response) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(response.data);
+        setUrl(objectUrl);
+      })
+      .catch(() => setUrl(null));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment.id]);
+
+  return (
+    <button
+      type="button"
+      onClick={() => downloadAttachment(attachment).catch(onDownloadError)}
+      title={attachment.fileName}
+      className="block h-24 w-24 rounded-md overflow-hidden bg-gray-200"
+    >
+      {url && (
+        <img
+          src={url}
+          alt={attachment.fileName}
+          className="h-full w-full object-cover"
+        />
+      )}
+    </button>
+  );
+};
+
+const ChatMessage: React.FC<ChatMessageProps> = ({
+  message,
+  isOwn,
+  isSeen = false,
+  showSender = true,
+  compact = false,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+
+  const onError = (err: AxiosError<ApiResponse>) => {
+    const error = err.response?.data?.error;
+    toast.error(typeof error === "string" ? error : "Something went wrong.");
+  };
+  // The server broadcasts the change back to the chat, which replaces this message.
+  const editMutation = useMutation<unknown, AxiosError<ApiResponse>, string>(
+    (content) => chatApi.editMessage(message.id, content),
+    { onSuccess: () => setIsEditing(false), onError }
+  );
+  const deleteMutation = useMutation<unknown, AxiosError<ApiResponse>>(
+    () => chatApi.deleteMessage(message.id),
+    { onError }
+  );
+
+  const isDeleted = !!message.deletedAt;
+  const canChange =
+    isOwn &&
+    !isDeleted &&
+    Date.now() - parseISO(message.createdAt).getTime() <
+      MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+  const images = message.attachments.filter((a) =>
+    a.mimeType.startsWith("image/")
+  );
+  const files = message.attachments.filter(
+    (a) => !a.mimeType.startsWith("image/")
+  );
+
+  const handleDelete = () => {
+    if (window.confirm("Delete this message for everyone?")) {
+      deleteMutation.mutate();
+    }
+  };
+
+  return (
+    <div className={`group flex ${isOwn ? "justify-end" : "justify-start"}`}>
+      {canChange && !isEditing && (
+        <div className="self-center mr-2 hidden group-hover:flex gap-1 text-gray-400">
+          <button
+            onClick={() => {
+              setDraft(message.content);
+              setIsEditing(true);
+            }}
+            className="hover:text-indigo-600"
+            title="Edit message"
+          >
+            <Pencil className="h-3.5 w-3.5" />
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={deleteMutation.isLoading}
+            className="hover:text-red-600"
+            title="Delete message"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      )}
+      <div
+        className={`max-w-[80%] rounded-lg ${
+          compact ? "px-3 py-2 text-sm" : "p-3"
+        } ${
+          isOwn
+            ? "bg-indigo-600 text-white rounded-br-none"
+            : "bg-gray-100 text-gray-800 rounded-bl-none"
+        }`}
+      >
+        {showSender && (
+          <div className="font-semibold text-xs mb-1">
+            {message.sender?.firstName} {message.sender?.lastName}
+          </div>
+        )}
+        {isDeleted ? (
+          <p className="text-sm italic opacity-75 flex items-center">
+            <Ban className="h-3.5 w-3.5 mr-1" /> This message was deleted.
+          </p>
+        ) : isEditing ? (
+          <div className="space-y-1">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={2}
+              className="w-full p-1.5 rounded text-sm text-gray-800"
+            />
+            <div className="flex justify-end gap-2 text-xs">
+              <button onClick={() => setIsEditing(false)}>Cancel</button>
+              <button
+                onClick={() => editMutation.mutate(draft)}
+                disabled={editMutation.isLoading || !draft.trim()}
+                className="font-semibold disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        ) : (
+          message.content && (
+            <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+          )
+        )}
+        {images.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-1">
+            {images.map((attachment) => (
+              <ImageThumbnail key={attachment.id} attachment={attachment} />
+            ))}
+          </div>
+        )}
+        {files.map((attachment) => (
+          <button
+            key={attachment.id}
+            type="button"
+            onClick={() => downloadAttachment(attachment).catch(onDownloadError)}
+            className="mt-1 flex items-center text-xs underline"
+          >
+            <FileText className="h-3.5 w-3.5 mr-1 flex-shrink-0" />
+            {attachment.fileName} ({formatFileSize(attachment.size)})
+          </button>
+        ))}
+        <p className="text-xs text-right opacity-75 mt-1">
+          {message.editedAt && !isDeleted && (
+            <span className="mr-1">(edited)</span>
+          )}
+          {format(
+            parseISO(message.createdAt),
+            compact ? "MMM dd, HH:mm" : "HH:mm"
+          )}
+          {isSeen && (
+            <span className="ml-1 inline-flex items-center">
+              <CheckCheck className="h-3 w-3 mr-0.5" /> Seen
+            </span>
+          )}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ChatMessage;
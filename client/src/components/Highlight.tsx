@@ -0,0 +1,22 @@
+// client/src/components/Highlight.tsx
+import React from "react";
+
+// Must match the markers the backend search service passes to ts_headline.
+const HIGHLIGHT_PATTERN = /⟦(.*?)⟧/g;
+
+// Renders search-highlighted text as React nodes so task content is never injected as HTML.
+const Highlight: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {text.split(HIGHLIGHT_PATTERN).map((part, index) =>
+      index % 2 === 1 ? (
+        <mark key={index} className="bg-yellow-100 text-inherit rounded px-0.5">
+          {part}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{part}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+export default Highlight;
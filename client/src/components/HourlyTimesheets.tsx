@@ -0,0 +1,455 @@
+// client/src/components/HourlyTimesheets.tsx
+import React, { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "react-query";
+import { AxiosError } from "axios";
+import { toast } from "react-toastify";
+import { addDays, format, parseISO } from "date-fns";
+import { Clock, Play, Square, Trash2 } from "lucide-react";
+import { timesheetsApi } from "../services/api";
+import {
+  ApiResponse,
+  HourlyContractSummary,
+  TimeEntryPayload,
+  Timesheet,
+  TimesheetStatus,
+} from "../types";
+
+const TIMESHEET_STATUS_STYLES: Record<TimesheetStatus, string> = {
+  [TimesheetStatus.open]: "bg-gray-100 text-gray-700",
+  [TimesheetStatus.submitted]: "bg-yellow-100 text-yellow-800",
+  [TimesheetStatus.approved]: "bg-green-100 text-green-800",
+  [TimesheetStatus.disputed]: "bg-red-100 text-red-700",
+};
+
+const EDITABLE_STATUSES = [TimesheetStatus.open, TimesheetStatus.disputed];
+
+const formatHours = (minutes: number) => (minutes / 60).toFixed(2);
+
+const totalMinutes = (timesheet: Timesheet) =>
+  timesheet.entries.reduce((sum, entry) => sum + entry.minutes, 0);
+
+// Weeks start on Monday 00:00 UTC; shown as the dates they cover.
+const weekLabel = (weekStart: string) => {
+  const start = parseISO(weekStart);
+  return `${format(start, "MMM dd")} – ${format(addDays(start, 6), "MMM dd, yyyy")}`;
+};
+
+const formatElapsed = (since: string, now: number) => {
+  const seconds = Math.max(Math.floor((now - parseISO(since).getTime()) / 1000), 0);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor((seconds % 3600) / 60))}:${pad(seconds % 60)}`;
+};
+
+interface HourlyTimesheetsProps {
+  taskId: string;
+  isClient: boolean;
+  isAssignedFreelancer: boolean;
+  // Time can only be logged while the contract is running.
+  isActive: boolean;
+}
+
+// Time tracking for an hourly contract: the freelancer logs time and submits each week,
+// the client approves (and pays) or disputes it and ends the contract once the work is done.
+const HourlyTimesheets: React.FC<HourlyTimesheetsProps> = ({
+  taskId,
+  isClient,
+  isAssignedFreelancer,
+  isActive,
+}) => {
+  const queryClient = useQueryClient();
+  const [timerMemo, setTimerMemo] = useState("");
+  const [entryDate, setEntryDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [entryStart, setEntryStart] = useState("09:00");
+  const [entryEnd, setEntryEnd] = useState("10:00");
+  const [entryMemo, setEntryMemo] = useState("");
+  const [now, setNow] = useState(Date.now());
+
+  const { data: contract, isLoading } = useQuery<
+    HourlyContractSummary,
+    AxiosError
+  >(["timesheets", taskId], () =>
+    timesheetsApi.getByTask(taskId).then((res) => res.data.data!)
+  );
+
+  const runningEntry = contract?.timesheets
+    .flatMap((timesheet) => timesheet.entries)
+    .find((entry) => entry.endedAt === null);
+
+  useEffect(() => {
+    if (!runningEntry) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [runningEntry]);
+
+  const onError = (err: AxiosError<ApiResponse>) => {
+    const error = err.response?.data?.error;
+    toast.error(typeof error === "string" ? error : "Something went wrong.");
+  };
+  const refresh = () => {
+    queryClient.invalidateQueries(["timesheets", taskId]);
+    queryClient.invalidateQueries(["task", taskId]);
+    queryClient.invalidateQueries("wallet");
+  };
+
+  const startTimerMutation = useMutation<unknown, AxiosError<ApiResponse>, string>(
+    (memo) => timesheetsApi.startTimer(taskId, memo || undefined),
+    {
+      onSuccess: () => {
+        setTimerMemo("");
+        refresh();
+      },
+      onError,
+    }
+  );
+  const stopTimerMutation = useMutation<unknown, AxiosError<ApiResponse>, string>(
+    (entryId) => timesheetsApi.stopTimer(entryId),
+    { onSuccess: refresh, onError }
+  );
+  const addEntryMutation = useMutation<
+    unknown,
+    AxiosError<ApiResponse>,
+    TimeEntryPayload
+  >((entry) => timesheetsApi.addEntry(taskId, entry), {
+    onSuccess: () => {
+      toast.success("Time logged.");
+      setEntryMemo("");
+      refresh();
+    },
+    onError,
+  });
+  const deleteEntryMutation = useMutation<unknown, AxiosError<ApiResponse>, string>(
+    (entryId) => timesheetsApi.deleteEntry(entryId),
+    { onSuccess: refresh, onError }
+  );
+  const submitMutation = useMutation<unknown, AxiosError<ApiResponse>, string>(
+    (timesheetId) => timesheetsApi.submit(timesheetId),
+    {
+      onSuccess: () => {
+        toast.success("Timesheet submitted for approval.");
+        refresh();
+      },
+      onError,
+    }
+  );
+  const approveMutation = useMutation<unknown, AxiosError<ApiResponse>, string>(
+    (timesheetId) => timesheetsApi.approve(timesheetId),
+    {
+      onSuccess: () => {
+        toast.success("Timesheet approved and paid.");
+        refresh();
+      },
+      onError,
+    }
+  );
+  const disputeMutation = useMutation<
+    unknown,
+    AxiosError<ApiResponse>,
+    { timesheetId: string; reason: string }
+  >(({ timesheetId, reason }) => timesheetsApi.dispute(timesheetId, reason), {
+    onSuccess: () => {
+      toast.info("Timesheet sent back to the freelancer.");
+      refresh();
+    },
+    onError,
+  });
+  const endContractMutation = useMutation<unknown, AxiosError<ApiResponse>>(
+    () => timesheetsApi.endContract(taskId),
+    {
+      onSuccess: () => {
+        toast.success("Contract ended.");
+        refresh();
+      },
+      onError,
+    }
+  );
+  const capMutation = useMutation<
+    unknown,
+    AxiosError<ApiResponse>,
+    number | null
+  >((cap) => timesheetsApi.setWeeklyCap(taskId, cap), {
+    onSuccess: () => {
+      toast.success("Weekly hour cap updated.");
+      refresh();
+    },
+    onError,
+  });
+
+  const handleAddEntry = (e: React.FormEvent) => {
+    e.preventDefault();
+    addEntryMutation.mutate({
+      startedAt: new Date(`${entryDate}T${entryStart}`).toISOString(),
+      endedAt: new Date(`${entryDate}T${entryEnd}`).toISOString(),
+      memo: entryMemo.trim() || undefined,
+    });
+  };
+
+  const handleDispute = (timesheet: Timesheet) => {
+    const reason = window.prompt(
+      "What is wrong with these hours? The freelancer can correct them and submit again."
+    );
+    if (reason === null) return;
+    if (reason.trim().length < 10) {
+      toast.error("Please explain the problem in at least 10 characters.");
+      return;
+    }
+    disputeMutation.mutate({ timesheetId: timesheet.id, reason: reason.trim() });
+  };
+
+  const handleApprove = (timesheet: Timesheet) => {
+    const minutes = totalMinutes(timesheet);
+    const amount = ((minutes / 60) * (contract?.hourlyRate ?? 0)).toFixed(2);
+    if (
+      window.confirm(
+        `Approve ${formatHours(minutes)} hours? About $${amount} will be charged and paid to the freelancer.`
+      )
+    ) {
+      approveMutation.mutate(timesheet.id);
+    }
+  };
+
+  const handleEndContract = () => {
+    if (
+      window.confirm(
+        "End this contract? The project will be marked as completed and no more time can be logged."
+      )
+    ) {
+      endContractMutation.mutate();
+    }
+  };
+
+  const handleChangeCap = () => {
+    const value = window.prompt(
+      "Weekly hour cap (leave empty for no cap):",
+      contract?.weeklyHourCap?.toString() ?? ""
+    );
+    if (value === null) return;
+    const cap = value.trim() === "" ? null : parseFloat(value);
+    if (cap !== null && (isNaN(cap) || cap <= 0)) {
+      toast.error("The cap must be a positive number of hours.");
+      return;
+    }
+    capMutation.mutate(cap);
+  };
+
+  if (isLoading) return <p className="text-gray-500">Loading timesheets...</p>;
+  if (!contract) return null;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 mb-4">
+        <span>
+          Rate: <strong>${contract.hourlyRate.toFixed(2)}/hr</strong>
+        </span>
+        <span>
+          Weekly cap:{" "}
+          <strong>
+            {contract.weeklyHourCap === null
+              ? "none"
+              : `${contract.weeklyHourCap} hrs`}
+          </strong>
+        </span>
+        {isClient && (
+          <button
+            onClick={handleChangeCap}
+            disabled={capMutation.isLoading}
+            className="text-indigo-600 hover:underline disabled:opacity-50"
+          >
+            Change cap
+          </button>
+        )}
+        {isClient && isActive && (
+          <button
+            onClick={handleEndContract}
+            disabled={endContractMutation.isLoading}
+            className="ml-auto text-red-600 hover:underline disabled:opacity-50"
+          >
+            End contract
+          </button>
+        )}
+      </div>
+
+      {isAssignedFreelancer && isActive && (
+        <div className="bg-gray-50 p-4 rounded-md border mb-4 space-y-4">
+          {runningEntry ? (
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-mono text-2xl text-gray-900">
+                  {formatElapsed(runningEntry.startedAt, now)}
+                </p>
+                {runningEntry.memo && (
+                  <p className="text-sm text-gray-500">{runningEntry.memo}</p>
+                )}
+              </div>
+              <button
+                onClick={() => stopTimerMutation.mutate(runningEntry.id)}
+                disabled={stopTimerMutation.isLoading}
+                className="flex items-center bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 disabled:opacity-50"
+              >
+                <Square className="h-4 w-4 mr-2" /> Stop
+              </button>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <input
+                value={timerMemo}
+                onChange={(e) => setTimerMemo(e.target.value)}
+                placeholder="What are you working on?"
+                className="flex-1 p-2 border rounded-md"
+              />
+              <button
+                onClick={() => startTimerMutation.mutate(timerMemo.trim())}
+                disabled={startTimerMutation.isLoading}
+                className="flex items-center bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                <Play className="h-4 w-4 mr-2" /> Start timer
+              </button>
+            </div>
+          )}
+
+          <form onSubmit={handleAddEntry} className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Add time manually</p>
+            <div className="grid grid-cols-3 gap-2">
+              <input
+                type="date"
+                value={entryDate}
+                onChange={(e) => setEntryDate(e.target.value)}
+                className="p-2 border rounded-md"
+              />
+              <input
+                type="time"
+                value={entryStart}
+                onChange={(e) => setEntryStart(e.target.value)}
+                className="p-2 border rounded-md"
+              />
+              <input
+                type="time"
+                value={entryEnd}
+                onChange={(e) => setEntryEnd(e.target.value)}
+                className="p-2 border rounded-md"
+              />
+            </div>
+            <div className="flex gap-2">
+              <input
+                value={entryMemo}
+                onChange={(e) => setEntryMemo(e.target.value)}
+                placeholder="Memo"
+                className="flex-1 p-2 border rounded-md"
+              />
+              <button
+                type="submit"
+                disabled={addEntryMutation.isLoading}
+                className="bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                Log time
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {contract.timesheets.length === 0 ? (
+        <p className="text-gray-600 text-sm">No time logged yet.</p>
+      ) : (
+        contract.timesheets.map((timesheet) => {
+          const minutes = totalMinutes(timesheet);
+          const canEdit =
+            isAssignedFreelancer && EDITABLE_STATUSES.includes(timesheet.status);
+          return (
+            <div
+              key={timesheet.id}
+              className="bg-gray-50 p-4 rounded-md border mb-3"
+            >
+              <div className="flex justify-between items-start">
+                <div>
+                  <h4 className="font-semibold text-gray-800">
+                    Week of {weekLabel(timesheet.weekStart)}
+                  </h4>
+                  <p className="text-sm text-gray-600 flex items-center">
+                    <Clock className="h-4 w-4 mr-1" /> {formatHours(minutes)} hrs
+                    {timesheet.amount !== null &&
+                      ` · $${timesheet.amount.toFixed(2)} paid`}
+                  </p>
+                </div>
+                <span
+                  className={`px-2 py-1 text-xs font-semibold rounded-full capitalize ${
+                    TIMESHEET_STATUS_STYLES[timesheet.status]
+                  }`}
+                >
+                  {timesheet.status}
+                </span>
+              </div>
+              {timesheet.status === TimesheetStatus.disputed &&
+                timesheet.disputeReason && (
+                  <p className="mt-2 text-sm text-red-700 bg-red-50 p-2 rounded">
+                    Disputed: {timesheet.disputeReason}
+                  </p>
+                )}
+              <ul className="mt-2 divide-y text-sm">
+                {timesheet.entries.map((entry) => (
+                  <li
+                    key={entry.id}
+                    className="py-1 flex justify-between items-center"
+                  >
+                    <span className="text-gray-700">
+                      {format(parseISO(entry.startedAt), "EEE MMM dd, HH:mm")}
+                      {entry.endedAt
+                        ? ` – ${format(parseISO(entry.endedAt), "HH:mm")}`
+                        : " (running)"}
+                      {entry.memo && (
+                        <span className="text-gray-500"> · {entry.memo}</span>
+                      )}
+                    </span>
+                    <span className="flex items-center gap-2">
+                      {formatHours(entry.minutes)} hrs
+                      {canEdit && entry.endedAt && (
+                        <button
+                          onClick={() => deleteEntryMutation.mutate(entry.id)}
+                          disabled={deleteEntryMutation.isLoading}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Delete entry"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex gap-2 mt-3">
+                {canEdit && minutes > 0 && (
+                  <button
+                    onClick={() => submitMutation.mutate(timesheet.id)}
+                    disabled={submitMutation.isLoading}
+                    className="text-sm bg-indigo-600 text-white px-3 py-1.5 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    Submit week
+                  </button>
+                )}
+                {isClient && timesheet.status === TimesheetStatus.submitted && (
+                  <>
+                    <button
+                      onClick={() => handleApprove(timesheet)}
+                      disabled={approveMutation.isLoading}
+                      className="text-sm bg-green-600 text-white px-3 py-1.5 rounded-md hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Approve &amp; pay
+                    </button>
+                    <button
+                      onClick={() => handleDispute(timesheet)}
+                      disabled={disputeMutation.isLoading}
+                      className="text-sm border border-red-300 text-red-600 px-3 py-1.5 rounded-md hover:bg-red-50 disabled:opacity-50"
+                    >
+                      Dispute
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default HourlyTimesheets;
@@ -0,0 +1,82 @@
+// client/src/components/MilestoneAmountChange.tsx
+import React from "react";
+import { useMutation, useQueryClient } from "react-query";
+import { AxiosError } from "axios";
+import { toast } from "react-toastify";
+import { DollarSign } from "lucide-react";
+import { milestonesApi } from "../services/api";
+import { ApiResponse, Milestone, MilestoneStatus } from "../types";
+
+interface MilestoneAmountChangeProps {
+  milestone: Milestone;
+  isAssignedFreelancer: boolean;
+}
+
+// Shows the client's pending amount change; the hired freelancer answers it here.
+const MilestoneAmountChange: React.FC<MilestoneAmountChangeProps> = ({
+  milestone,
+  isAssignedFreelancer,
+}) => {
+  const queryClient = useQueryClient();
+
+  const respondMutation = useMutation<
+    unknown,
+    AxiosError<ApiResponse>,
+    "accept" | "decline"
+  >((action) => milestonesApi.respondToAmountChange(milestone.id, action), {
+    onSuccess: (_data, action) => {
+      toast.success(
+        action === "accept" ? "New amount accepted." : "Amount change declined."
+      );
+      queryClient.invalidateQueries(["milestones", milestone.taskId]);
+      queryClient.invalidateQueries("wallet");
+    },
+    onError: (err) => {
+      const error = err.response?.data?.error;
+      toast.error(
+        typeof error === "string" ? error : "Failed to answer the change."
+      );
+    },
+  });
+
+  if (
+    milestone.proposedAmount === null ||
+    milestone.status !== MilestoneStatus.pending
+  ) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 p-2 bg-yellow-50 border border-yellow-200 rounded-md text-sm">
+      <p className="flex items-center text-yellow-800">
+        <DollarSign className="h-4 w-4 mr-1" />
+        The client asked to change the amount from ${milestone.amount} to $
+        {milestone.proposedAmount}.
+      </p>
+      {isAssignedFreelancer ? (
+        <div className="flex gap-2 mt-2">
+          <button
+            onClick={() => respondMutation.mutate("accept")}
+            disabled={respondMutation.isLoading}
+            className="bg-green-600 text-white px-3 py-1 rounded hover:bg-green-700 disabled:opacity-50"
+          >
+            Accept
+          </button>
+          <button
+            onClick={() => respondMutation.mutate("decline")}
+            disabled={respondMutation.isLoading}
+            className="border border-red-300 text-red-600 px-3 py-1 rounded hover:bg-red-50 disabled:opacity-50"
+          >
+            Decline
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-yellow-700 mt-1">
+          Waiting for the freelancer to accept.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MilestoneAmountChange;
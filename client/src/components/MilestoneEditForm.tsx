@@ -0,0 +1,165 @@
+// client/src/components/MilestoneEditForm.tsx
+import React from "react";
+import { useMutation, useQueryClient } from "react-query";
+import { AxiosError, AxiosResponse } from "axios";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { toast } from "react-toastify";
+import { format, parseISO } from "date-fns";
+import { milestonesApi } from "../services/api";
+import {
+  ApiResponse,
+  Milestone,
+  MilestoneStatus,
+  UpdateMilestonePayload,
+} from "../types";
+
+const editSchema = z.object({
+  title: z.string().min(5, "Title must be at least 5 characters"),
+  description: z.string().min(10, "Description is required"),
+  amount: z.preprocess(
+    (val) => parseFloat(String(val)),
+    z.number().positive("Amount must be positive")
+  ),
+  dueDate: z
+    .string()
+    .refine((val) => !isNaN(new Date(val).getTime()), "Invalid due date"),
+  dependsOnId: z.string(),
+});
+type EditFormData = z.infer<typeof editSchema>;
+
+interface MilestoneEditFormProps {
+  milestone: Milestone;
+  // The task's other milestones, offered as dependencies.
+  milestones: Milestone[];
+  hasFreelancer: boolean;
+  onDone: () => void;
+}
+
+// Client-side editor for a pending milestone. Amount changes go to the freelancer
+// for approval when someone is hired.
+const MilestoneEditForm: React.FC<MilestoneEditFormProps> = ({
+  milestone,
+  milestones,
+  hasFreelancer,
+  onDone,
+}) => {
+  const queryClient = useQueryClient();
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<EditFormData>({
+    resolver: zodResolver(editSchema),
+    defaultValues: {
+      title: milestone.title,
+      description: milestone.description,
+      amount: milestone.amount,
+      dueDate: format(parseISO(milestone.dueDate), "yyyy-MM-dd"),
+      dependsOnId: milestone.dependsOnId ?? "",
+    },
+  });
+
+  const updateMutation = useMutation<
+    AxiosResponse<ApiResponse<Milestone>>,
+    AxiosError<ApiResponse>,
+    UpdateMilestonePayload
+  >((data) => milestonesApi.update(milestone.id, data), {
+    onSuccess: (response) => {
+      toast.success(response.data.message || "Milestone updated.");
+      queryClient.invalidateQueries(["milestones", milestone.taskId]);
+      queryClient.invalidateQueries("wallet");
+      onDone();
+    },
+    onError: (err) => {
+      const error = err.response?.data?.error;
+      toast.error(
+        typeof error === "string" ? error : "Failed to update milestone."
+      );
+    },
+  });
+
+  const onSubmit = (data: EditFormData) =>
+    updateMutation.mutate({
+      ...data,
+      dueDate: new Date(data.dueDate).toISOString(),
+      dependsOnId: data.dependsOnId || null,
+    });
+
+  const dependencyOptions = milestones.filter(
+    (m) => m.id !== milestone.id && m.status !== MilestoneStatus.cancelled
+  );
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="mt-3 space-y-2">
+      <input
+        {...register("title")}
+        className="w-full p-2 border rounded-md text-sm"
+        placeholder="Milestone Title"
+      />
+      <p className="text-sm text-red-500">{errors.title?.message}</p>
+      <textarea
+        {...register("description")}
+        rows={2}
+        className="w-full p-2 border rounded-md text-sm"
+      />
+      <p className="text-sm text-red-500">{errors.description?.message}</p>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <input
+            {...register("amount")}
+            type="number"
+            step="0.01"
+            className="w-full p-2 border rounded-md text-sm"
+          />
+          <p className="text-sm text-red-500">{errors.amount?.message}</p>
+        </div>
+        <div>
+          <input
+            {...register("dueDate")}
+            type="date"
+            className="w-full p-2 border rounded-md text-sm"
+          />
+          <p className="text-sm text-red-500">{errors.dueDate?.message}</p>
+        </div>
+      </div>
+      {dependencyOptions.length > 0 && (
+        <select
+          {...register("dependsOnId")}
+          className="w-full p-2 border rounded-md text-sm"
+        >
+          <option value="">No dependency</option>
+          {dependencyOptions.map((m) => (
+            <option key={m.id} value={m.id}>
+              Starts after "{m.title}"
+            </option>
+          ))}
+        </select>
+      )}
+      {hasFreelancer && (
+        <p className="text-xs text-gray-500">
+          A new amount only applies once the freelancer accepts it.
+        </p>
+      )}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={updateMutation.isLoading}
+          className="text-sm bg-indigo-600 text-white px-3 py-1.5 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+        >
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={onDone}
+          className="text-sm border border-gray-300 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-100"
+        >
+          Discard
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default MilestoneEditForm;
@@ -0,0 +1,198 @@
+// client/src/components/MilestoneRevisions.tsx
+import React, { useState } from "react";
+import { useMutation, useQueryClient } from "react-query";
+import { AxiosError } from "axios";
+import { toast } from "react-toastify";
+import { format, parseISO } from "date-fns";
+import {
+  AlertTriangle,
+  Ban,
+  CheckCircle,
+  Clock,
+  DollarSign,
+  FilePlus,
+  Pencil,
+  RotateCcw,
+  Scale,
+  Send,
+  XCircle,
+} from "lucide-react";
+import { milestonesApi } from "../services/api";
+import {
+  ApiResponse,
+  Milestone,
+  MilestoneEventType,
+  MilestoneStatus,
+} from "../types";
+
+const EVENT_LABELS: Record<MilestoneEventType, string> = {
+  [MilestoneEventType.submitted]: "Work submitted",
+  [MilestoneEventType.changes_requested]: "Changes requested",
+  [MilestoneEventType.payment_released]: "Payment released",
+  [MilestoneEventType.payment_auto_released]:
+    "Payment released automatically after the review period",
+  [MilestoneEventType.dispute_opened]: "Dispute opened",
+  [MilestoneEventType.dispute_resolved]: "Dispute resolved by an admin",
+  [MilestoneEventType.proposed]: "Proposed by the freelancer",
+  [MilestoneEventType.proposal_approved]: "Approved and funded by the client",
+  [MilestoneEventType.proposal_declined]: "Declined by the client",
+  [MilestoneEventType.updated]: "Edited by the client",
+  [MilestoneEventType.amount_change_requested]: "Amount change requested",
+  [MilestoneEventType.amount_change_accepted]: "Amount change accepted",
+  [MilestoneEventType.amount_change_declined]: "Amount change declined",
+  [MilestoneEventType.cancelled]: "Cancelled by the client",
+};
+
+const EVENT_ICONS: Record<MilestoneEventType, React.ElementType> = {
+  [MilestoneEventType.submitted]: Send,
+  [MilestoneEventType.changes_requested]: RotateCcw,
+  [MilestoneEventType.payment_released]: CheckCircle,
+  [MilestoneEventType.payment_auto_released]: Clock,
+  [MilestoneEventType.dispute_opened]: AlertTriangle,
+  [MilestoneEventType.dispute_resolved]: Scale,
+  [MilestoneEventType.proposed]: FilePlus,
+  [MilestoneEventType.proposal_approved]: CheckCircle,
+  [MilestoneEventType.proposal_declined]: XCircle,
+  [MilestoneEventType.updated]: Pencil,
+  [MilestoneEventType.amount_change_requested]: DollarSign,
+  [MilestoneEventType.amount_change_accepted]: CheckCircle,
+  [MilestoneEventType.amount_change_declined]: XCircle,
+  [MilestoneEventType.cancelled]: Ban,
+};
+
+interface MilestoneRevisionsProps {
+  milestone: Milestone;
+  maxRevisions: number;
+  isClient: boolean;
+}
+
+// Review timeline of a milestone plus the client's "request changes" form.
+const MilestoneRevisions: React.FC<MilestoneRevisionsProps> = ({
+  milestone,
+  maxRevisions,
+  isClient,
+}) => {
+  const queryClient = useQueryClient();
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [feedback, setFeedback] = useState("");
+
+  const events = milestone.events ?? [];
+  const revisionsUsed = events.filter(
+    (event) => event.type === MilestoneEventType.changes_requested
+  ).length;
+  const canRequestChanges =
+    isClient &&
+    milestone.status === MilestoneStatus.completed &&
+    revisionsUsed < maxRevisions;
+
+  const requestChangesMutation = useMutation<
+    unknown,
+    AxiosError<ApiResponse>,
+    string
+  >((text) => milestonesApi.requestChanges(milestone.id, text), {
+    onSuccess: () => {
+      toast.success("Changes requested.");
+      setIsRequesting(false);
+      setFeedback("");
+      queryClient.invalidateQueries(["milestones", milestone.taskId]);
+    },
+    onError: (err) => {
+      const error = err.response?.data?.error;
+      toast.error(
+        typeof error === "string" ? error : "Failed to request changes."
+      );
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (feedback.trim().length < 10) {
+      toast.error("Please describe the changes in at least 10 characters.");
+      return;
+    }
+    requestChangesMutation.mutate(feedback.trim());
+  };
+
+  const autoReleaseAt =
+    milestone.status === MilestoneStatus.completed && milestone.autoReleaseAt;
+
+  if (events.length === 0 && !canRequestChanges && !autoReleaseAt) return null;
+
+  return (
+    <div className="mt-3">
+      {events.length > 0 && (
+        <ol className="border-l-2 border-gray-200 pl-3 space-y-2">
+          {events.map((event) => {
+            const Icon = EVENT_ICONS[event.type];
+            return (
+              <li key={event.id} className="text-sm">
+                <p className="flex items-center text-gray-700">
+                  <Icon className="h-3.5 w-3.5 mr-1" />
+                  {EVENT_LABELS[event.type]}
+                  <span className="ml-2 text-xs text-gray-400">
+                    {format(parseISO(event.createdAt), "MMM dd, yyyy HH:mm")}
+                  </span>
+                </p>
+                {event.feedback && (
+                  <p className="text-gray-600 italic whitespace-pre-line">
+                    "{event.feedback}"
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+      <p className="text-xs text-gray-500 mt-2">
+        Revision rounds used: {revisionsUsed} of {maxRevisions}
+      </p>
+      {autoReleaseAt && (
+        <p className="text-xs text-blue-700 mt-1 flex items-center">
+          <Clock className="h-3.5 w-3.5 mr-1" />
+          Payment is released automatically on{" "}
+          {format(parseISO(autoReleaseAt), "MMM dd, yyyy HH:mm")} unless changes
+          are requested.
+        </p>
+      )}
+
+      {canRequestChanges &&
+        (isRequesting ? (
+          <form onSubmit={handleSubmit} className="mt-2 space-y-2">
+            <textarea
+              value={feedback}
+              onChange={(e) => setFeedback(e.target.value)}
+              rows={3}
+              maxLength={2000}
+              className="w-full p-2 border rounded-md text-sm"
+              placeholder="What needs to change?"
+            />
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={requestChangesMutation.isLoading}
+                className="text-sm bg-orange-500 text-white px-3 py-1.5 rounded-md hover:bg-orange-600 disabled:opacity-50"
+              >
+                Send back for changes
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsRequesting(false)}
+                className="text-sm border border-gray-300 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-100"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            onClick={() => setIsRequesting(true)}
+            className="mt-2 text-sm text-orange-600 hover:underline flex items-center"
+          >
+            <RotateCcw className="h-4 w-4 mr-1" /> Request changes
+          </button>
+        ))}
+    </div>
+  );
+};
+
+export default MilestoneRevisions;
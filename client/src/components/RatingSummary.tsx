@@ -0,0 +1,46 @@
+// client/src/components/RatingSummary.tsx
+import React from "react";
+import { Star } from "lucide-react";
+import { RatingStats } from "../types";
+
+interface RatingSummaryProps {
+  stats: RatingStats | null | undefined;
+  // Overall score only, for tight spots such as bid cards.
+  compact?: boolean;
+}
+
+const SUB_SCORES: {
+  key: keyof Omit<RatingStats, "count" | "rating">;
+  label: string;
+}[] = [
+  { key: "communication", label: "Communication" },
+  { key: "quality", label: "Quality" },
+  { key: "timeliness", label: "Timeliness" },
+];
+
+const RatingSummary: React.FC<RatingSummaryProps> = ({ stats, compact }) => {
+  if (!stats || stats.count === 0) {
+    return <p className="text-xs text-gray-400">No reviews yet</p>;
+  }
+
+  return (
+    <div className="text-xs text-gray-600">
+      <p className="flex items-center">
+        <Star className="h-3.5 w-3.5 mr-1 text-yellow-500 fill-yellow-400" />
+        <span className="font-semibold text-gray-800 mr-1">
+          {stats.rating.toFixed(1)}
+        </span>
+        ({stats.count} {stats.count === 1 ? "review" : "reviews"})
+      </p>
+      {!compact && (
+        <p className="mt-0.5">
+          {SUB_SCORES.map(
+            ({ key, label }) => `${label} ${stats[key].toFixed(1)}`
+          ).join(" · ")}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RatingSummary;
@@ -1,7 +1,9 @@
 // client/src/components/Sidebar.tsx
 import React from "react";
 import { NavLink, Link } from "react-router-dom";
+import { useQuery } from "react-query";
 import { useAuth } from "../contexts/AuthContext";
+import { conversationsApi } from "../services/api";
 import { UserRole } from "../types";
 import {
   LayoutDashboard,
@@ -12,14 +14,29 @@ import {
   Shield,
   LogOut,
   UserCheck,
+  Wallet,
+  FileText,
+  MessageSquare,
 } from "lucide-react";
 
 const Sidebar: React.FC = () => {
   const { user, logout } = useAuth();
+  // Keyed under "conversations", which the socket invalidates as messages arrive.
+  const { data: unreadMessages = 0 } = useQuery(
+    ["conversations", "unread"],
+    () =>
+      conversationsApi
+        .getUnreadCount()
+        .then((res) => res.data.data?.unreadCount ?? 0),
+    { enabled: !!user }
+  );
 
   const commonLinks = [
     { to: "/dashboard", icon: LayoutDashboard, text: "Dashboard" },
     { to: "/notifications", icon: Bell, text: "Notifications" },
+    { to: "/inbox", icon: MessageSquare, text: "Messages" },
+    { to: "/wallet", icon: Wallet, text: "Wallet" },
+    { to: "/invoices", icon: FileText, text: "Invoices" },
   ];
 
   const clientLinks = [
@@ -66,6 +83,11 @@ const Sidebar: React.FC = () => {
           <NavLink key={link.to} to={link.to} className={navLinkClass}>
             <link.icon className="h-5 w-5 mr-3" />
             <span className="font-medium">{link.text}</span>
+            {link.to === "/inbox" && unreadMessages > 0 && (
+              <span className="ml-auto px-2 py-0.5 text-xs font-semibold rounded-full bg-red-500 text-white">
+                {unreadMessages}
+              </span>
+            )}
           </NavLink>
         ))}
       </nav>
@@ -0,0 +1,122 @@
+// client/src/components/SkillPicker.tsx
+import React, { useEffect, useState } from "react";
+import { useQuery } from "react-query";
+import { X } from "lucide-react";
+import { skillsApi } from "../services/api";
+import { Skill, TaskCategory } from "../types";
+
+interface SkillPickerProps<T extends Skill> {
+  value: T[];
+  onChange: (skills: T[]) => void;
+  // Builds the stored entry for a newly picked skill, e.g. to attach a default proficiency.
+  toValue?: (skill: Skill) => T;
+  category?: TaskCategory;
+  max?: number;
+  placeholder?: string;
+  // Extra controls rendered inside each selected chip.
+  renderChipExtra?: (skill: T) => React.ReactNode;
+}
+
+const SkillPicker = <T extends Skill = Skill>({
+  value,
+  onChange,
+  toValue = (skill) => skill as T,
+  category,
+  max = 10,
+  placeholder = "Search skills...",
+  renderChipExtra,
+}: SkillPickerProps<T>) => {
+  const [input, setInput] = useState("");
+  const [debouncedInput, setDebouncedInput] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedInput(input.trim()), 200);
+    return () => clearTimeout(timeout);
+  }, [input]);
+
+  const { data: suggestions = [] } = useQuery(
+    ["skillSuggestions", debouncedInput, category],
+    () =>
+      skillsApi
+        .search({ q: debouncedInput || undefined, category, limit: 8 })
+        .then((res) => res.data.data ?? []),
+    { enabled: isOpen, keepPreviousData: true, staleTime: 60 * 1000 }
+  );
+
+  const selectedIds = new Set(value.map((skill) => skill.id));
+  const options = suggestions.filter((skill) => !selectedIds.has(skill.id));
+  const isFull = value.length >= max;
+
+  const addSkill = (skill: Skill) => {
+    if (isFull) return;
+    onChange([...value, toValue(skill)]);
+    setInput("");
+  };
+
+  const removeSkill = (skillId: string) =>
+    onChange(value.filter((skill) => skill.id !== skillId));
+
+  return (
+    <div>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {value.map((skill) => (
+            <span
+              key={skill.id}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-indigo-50 text-indigo-700 text-sm"
+            >
+              {skill.name}
+              {renderChipExtra?.(skill)}
+              <button
+                type="button"
+                onClick={() => removeSkill(skill.id)}
+                className="hover:text-indigo-900"
+                aria-label={`Remove ${skill.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="relative">
+        <input
+          type="text"
+          value={input}
+          disabled={isFull}
+          placeholder={isFull ? `Up to ${max} skills` : placeholder}
+          onChange={(e) => setInput(e.target.value)}
+          onFocus={() => setIsOpen(true)}
+          // Delay closing so a click on an option registers first.
+          onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              if (options[0]) addSkill(options[0]);
+            }
+          }}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:bg-gray-100"
+        />
+        {isOpen && options.length > 0 && (
+          <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-auto">
+            {options.map((skill) => (
+              <li key={skill.id}>
+                <button
+                  type="button"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => addSkill(skill)}
+                  className="w-full text-left px-3 py-2 text-sm hover:bg-indigo-50"
+                >
+                  {skill.name}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SkillPicker;
@@ -0,0 +1,202 @@
+// client/src/components/TaskReviews.tsx
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { AxiosError } from "axios";
+import { toast } from "react-toastify";
+import { format, parseISO } from "date-fns";
+import { EyeOff, Star } from "lucide-react";
+import { reviewsApi } from "../services/api";
+import { ApiResponse, CreateReviewPayload, Review } from "../types";
+
+interface TaskReviewsProps {
+  taskId: string;
+  counterpartName: string;
+}
+
+const SCORE_FIELDS: {
+  key: keyof Omit<CreateReviewPayload, "comment">;
+  label: string;
+}[] = [
+  { key: "rating", label: "Overall" },
+  { key: "communication", label: "Communication" },
+  { key: "quality", label: "Quality of work" },
+  { key: "timeliness", label: "Timeliness" },
+];
+
+const score = z.coerce.number().int().min(1, "Pick a score").max(5);
+const reviewSchema = z.object({
+  rating: score,
+  communication: score,
+  quality: score,
+  timeliness: score,
+  comment: z
+    .string()
+    .min(10, "Comment must be at least 10 characters")
+    .max(2000, "Comment must be at most 2000 characters"),
+});
+
+const Stars: React.FC<{ value: number }> = ({ value }) => (
+  <span className="inline-flex">
+    {[1, 2, 3, 4, 5].map((n) => (
+      <Star
+        key={n}
+        className={`h-4 w-4 ${
+          n <= value ? "text-yellow-500 fill-yellow-400" : "text-gray-300"
+        }`}
+      />
+    ))}
+  </span>
+);
+
+const ReviewCard: React.FC<{ title: string; review: Review }> = ({
+  title,
+  review,
+}) => (
+  <div className="bg-gray-50 p-4 rounded-md border">
+    <div className="flex justify-between items-center mb-2">
+      <p className="font-semibold text-gray-800">{title}</p>
+      <span className="text-xs text-gray-500">
+        {format(parseISO(review.createdAt), "MMM dd, yyyy")}
+      </span>
+    </div>
+    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm mb-2">
+      {SCORE_FIELDS.map(({ key, label }) => (
+        <div key={key} className="flex items-center justify-between">
+          <span className="text-gray-600">{label}</span>
+          <Stars value={review[key]} />
+        </div>
+      ))}
+    </div>
+    <p className="text-sm text-gray-700 whitespace-pre-wrap">{review.comment}</p>
+  </div>
+);
+
+// Review prompt and results for a completed task, shown to its client and hired freelancer.
+const TaskReviews: React.FC<TaskReviewsProps> = ({ taskId, counterpartName }) => {
+  const queryClient = useQueryClient();
+
+  const { data: summary, isLoading } = useQuery(["reviews", taskId], () =>
+    reviewsApi.getByTask(taskId).then((res) => res.data.data!)
+  );
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<CreateReviewPayload>({
+    resolver: zodResolver(reviewSchema),
+  });
+
+  const createMutation = useMutation<
+    unknown,
+    AxiosError<ApiResponse>,
+    CreateReviewPayload
+  >((review) => reviewsApi.create(taskId, review), {
+    onSuccess: () => {
+      toast.success("Review submitted.");
+      queryClient.invalidateQueries(["reviews", taskId]);
+    },
+    onError: (err) => {
+      const error = err.response?.data?.error;
+      toast.error(
+        typeof error === "string" ? error : "Failed to submit the review."
+      );
+    },
+  });
+
+  if (isLoading || !summary) {
+    return <p className="text-sm text-gray-500">Loading reviews...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {summary.canReview && (
+        <form
+          onSubmit={handleSubmit((data) => createMutation.mutate(data))}
+          className="space-y-3 bg-indigo-50 p-4 rounded-md border border-indigo-100"
+        >
+          <p className="font-semibold text-gray-800">
+            How was working with {counterpartName}?
+          </p>
+          {summary.reviewDeadline && (
+            <p className="text-xs text-gray-600">
+              Reviews are hidden until you have both submitted, or until{" "}
+              {format(parseISO(summary.reviewDeadline), "MMM dd, yyyy")}.
+            </p>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {SCORE_FIELDS.map(({ key, label }) => (
+              <div key={key}>
+                <label className="block text-sm text-gray-700 mb-1">
+                  {label}
+                </label>
+                <select
+                  {...register(key)}
+                  defaultValue=""
+                  className="w-full p-2 border rounded-md text-sm"
+                >
+                  <option value="" disabled>
+                    Choose...
+                  </option>
+                  {[5, 4, 3, 2, 1].map((n) => (
+                    <option key={n} value={n}>
+                      {n} {n === 1 ? "star" : "stars"}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-red-500 mt-1">
+                  {errors[key]?.message}
+                </p>
+              </div>
+            ))}
+          </div>
+          <div>
+            <textarea
+              {...register("comment")}
+              rows={3}
+              className="w-full p-2 border rounded-md text-sm"
+              placeholder="Share some details about the collaboration..."
+            />
+            <p className="text-xs text-red-500 mt-1">
+              {errors.comment?.message}
+            </p>
+          </div>
+          <button
+            type="submit"
+            disabled={createMutation.isLoading}
+            className="bg-indigo-600 text-white py-2 px-4 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {createMutation.isLoading ? "Submitting..." : "Submit Review"}
+          </button>
+        </form>
+      )}
+
+      {summary.myReview && (
+        <ReviewCard title="Your review" review={summary.myReview} />
+      )}
+      {summary.theirReview ? (
+        <ReviewCard
+          title={`${counterpartName}'s review of you`}
+          review={summary.theirReview}
+        />
+      ) : (
+        summary.theyHaveReviewed && (
+          <p className="text-sm text-gray-600 flex items-center">
+            <EyeOff className="h-4 w-4 mr-1" /> {counterpartName} has reviewed
+            you. Submit your review to see it.
+          </p>
+        )
+      )}
+      {!summary.canReview && !summary.myReview && !summary.theirReview && (
+        <p className="text-sm text-gray-600">
+          No reviews were left for this task.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TaskReviews;
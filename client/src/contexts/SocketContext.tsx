@@ -70,6 +70,11 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
         queryClient.invalidateQueries(['notifications', user.id]); // Refetch notifications
       });
 
+      // --- INBOX: any chat the user is in got a new message, or they read one elsewhere ---
+      const refreshConversations = () => queryClient.invalidateQueries('conversations');
+      newSocket.on('conversation_message', refreshConversations);
+      newSocket.on('conversation_read', refreshConversations);
+
       setSocket(newSocket);
 
       // Clean up on component unmount or when token/user change
@@ -79,6 +84,8 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
         newSocket.off('disconnect');
         newSocket.off('connect_error');
         newSocket.off('new_notification'); // <-- Clean up listener
+        newSocket.off('conversation_message');
+        newSocket.off('conversation_read');
         newSocket.close();
       };
     } else {
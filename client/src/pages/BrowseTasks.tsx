@@ -1,79 +1,256 @@
 // client/src/pages/BrowseTasks.tsx
-import React, { useState } from "react";
-import { useQuery } from "react-query";
+import React, { useEffect, useRef, useState } from "react";
+import { useInfiniteQuery } from "react-query";
 import { tasksApi } from "../services/api";
-import { TaskCategory } from "../types";
+import {
+  BudgetType,
+  Skill,
+  TaskCategory,
+  TaskListParams,
+  TaskSearchParams,
+  TaskSearchResult,
+  TaskSortOption,
+  TaskStatus,
+  TaskWithClient,
+} from "../types";
 import { Link } from "react-router-dom";
 import { format } from "date-fns";
-import { DollarSign, Search, Briefcase } from "lucide-react";
+import { DollarSign, Search, Briefcase, Loader2 } from "lucide-react";
+import Highlight from "../components/Highlight";
+import SkillPicker from "../components/SkillPicker";
+
+const PAGE_SIZE = 20;
+const MIN_SEARCH_LENGTH = 2;
+
+const SORT_LABELS: Record<TaskSortOption, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  budget_high: "Highest budget",
+  budget_low: "Lowest budget",
+  deadline_soon: "Deadline soonest",
+};
+
+const formatCategory = (cat: string) =>
+  cat
+    .replace(/_/g, " ")
+    .split(" ")
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(" ");
 
 const BrowseTasks: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [categoryFilter, setCategoryFilter] = useState<TaskCategory | "all">(
     "all"
   );
+  const [budgetTypeFilter, setBudgetTypeFilter] = useState<BudgetType | "all">(
+    "all"
+  );
+  const [minBudget, setMinBudget] = useState("");
+  const [maxBudget, setMaxBudget] = useState("");
+  const [deadlineTo, setDeadlineTo] = useState("");
+  const [skillFilter, setSkillFilter] = useState<Skill[]>([]);
+  const [sort, setSort] = useState<TaskSortOption>("newest");
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
-  const { data: tasks = [], isLoading } = useQuery("tasks", () =>
-    tasksApi.getAll().then((res) => res.data.data!)
+  // Wait for the user to stop typing before hitting the server.
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // A keyword switches the page to relevance-ranked full-text search.
+  const isSearching = debouncedSearch.length >= MIN_SEARCH_LENGTH;
+
+  const sharedFilters = {
+    limit: PAGE_SIZE,
+    ...(categoryFilter !== "all" && { category: categoryFilter }),
+    ...(budgetTypeFilter !== "all" && { budgetType: budgetTypeFilter }),
+    ...(minBudget && { minBudget: parseFloat(minBudget) }),
+    ...(maxBudget && { maxBudget: parseFloat(maxBudget) }),
+    ...(deadlineTo && { deadlineTo: new Date(deadlineTo).toISOString() }),
+    ...(skillFilter.length > 0 && {
+      skills: skillFilter.map((skill) => skill.slug).join(","),
+    }),
+  };
+  const filters: TaskListParams = {
+    ...sharedFilters,
+    status: TaskStatus.open, // Only show open tasks
+    sort,
+  };
+  const searchParams: TaskSearchParams = {
+    ...sharedFilters,
+    q: debouncedSearch,
+  };
+
+  const listQuery = useInfiniteQuery(
+    ["tasks", filters],
+    ({ pageParam }) =>
+      tasksApi.getAll({ ...filters, cursor: pageParam }).then((res) => res.data),
+    {
+      enabled: !isSearching,
+      getNextPageParam: (lastPage) => lastPage.meta?.nextCursor ?? undefined,
+      keepPreviousData: true,
+    }
   );
 
-  const filteredTasks = tasks
-    .filter((task) => task.status === "open") // Only show open tasks
-    .filter(
-      (task) =>
-        task.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        task.description.toLowerCase().includes(searchTerm.toLowerCase())
-    )
-    .filter(
-      (task) => categoryFilter === "all" || task.category === categoryFilter
-    );
+  const searchQuery = useInfiniteQuery(
+    ["taskSearch", searchParams],
+    ({ pageParam }) =>
+      tasksApi
+        .search({ ...searchParams, cursor: pageParam })
+        .then((res) => res.data),
+    {
+      enabled: isSearching,
+      getNextPageParam: (lastPage) => lastPage.meta?.nextCursor ?? undefined,
+      keepPreviousData: true,
+    }
+  );
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    isSearching ? searchQuery : listQuery;
+
+  const tasks: (TaskWithClient | TaskSearchResult)[] = isSearching
+    ? searchQuery.data?.pages.flatMap((page) => page.data?.results ?? []) ?? []
+    : listQuery.data?.pages.flatMap((page) => page.data ?? []) ?? [];
+  const suggestions = isSearching
+    ? searchQuery.data?.pages[0]?.data?.suggestions ?? []
+    : [];
+  const totalTasks = data?.pages[0]?.meta?.total ?? 0;
+
+  // Infinite scroll: fetch the next page once the sentinel below the list is visible.
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   return (
     <div>
       <h1 className="text-3xl font-bold text-gray-800 mb-2">Browse Projects</h1>
       <p className="text-gray-500 mb-6">
-        Find your next opportunity. There are currently {filteredTasks.length}{" "}
-        open projects.
+        Find your next opportunity. There are currently {totalTasks} open
+        projects matching your filters.
       </p>
 
       {/* --- FILTERS --- */}
-      <div className="mb-6 bg-white p-4 rounded-lg border border-gray-200 shadow-sm flex flex-col md:flex-row gap-4">
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+      <div className="mb-6 bg-white p-4 rounded-lg border border-gray-200 shadow-sm space-y-4">
+        <div className="flex flex-col md:flex-row gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search by keyword..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <select
+            value={categoryFilter}
+            onChange={(e) =>
+              setCategoryFilter(e.target.value as TaskCategory | "all")
+            }
+            className="border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="all">All Categories</option>
+            {Object.values(TaskCategory).map((cat) => (
+              <option key={cat} value={cat}>
+                {formatCategory(cat)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={isSearching ? "relevance" : sort}
+            onChange={(e) => setSort(e.target.value as TaskSortOption)}
+            disabled={isSearching}
+            className="border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:bg-gray-100"
+          >
+            {isSearching && <option value="relevance">Best match</option>}
+            {Object.entries(SORT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col md:flex-row gap-4">
+          <select
+            value={budgetTypeFilter}
+            onChange={(e) =>
+              setBudgetTypeFilter(e.target.value as BudgetType | "all")
+            }
+            className="border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="all">Any Rate</option>
+            {Object.values(BudgetType).map((type) => (
+              <option key={type} value={type}>
+                {type.charAt(0).toUpperCase() + type.slice(1)}
+              </option>
+            ))}
+          </select>
           <input
-            type="text"
-            placeholder="Search by keyword..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            type="number"
+            min="0"
+            placeholder="Min budget ($)"
+            value={minBudget}
+            onChange={(e) => setMinBudget(e.target.value)}
+            className="md:w-40 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
           />
+          <input
+            type="number"
+            min="0"
+            placeholder="Max budget ($)"
+            value={maxBudget}
+            onChange={(e) => setMaxBudget(e.target.value)}
+            className="md:w-40 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Due before
+            <input
+              type="date"
+              value={deadlineTo}
+              onChange={(e) => setDeadlineTo(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
         </div>
-        <select
-          value={categoryFilter}
-          onChange={(e) =>
-            setCategoryFilter(e.target.value as TaskCategory | "all")
-          }
-          className="border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
-        >
-          <option value="all">All Categories</option>
-          {Object.values(TaskCategory).map((cat) => (
-            <option key={cat} value={cat}>
-              {cat
-                .replace(/_/g, " ")
-                .split(" ")
-                .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
-                .join(" ")}
-            </option>
-          ))}
-        </select>
+        <SkillPicker
+          value={skillFilter}
+          onChange={setSkillFilter}
+          category={categoryFilter !== "all" ? categoryFilter : undefined}
+          placeholder="Filter by skills..."
+        />
       </div>
 
+      {suggestions.length > 0 && (
+        <div className="mb-4 text-sm text-gray-600 flex flex-wrap items-center gap-2">
+          <span>Did you mean:</span>
+          {suggestions.map((suggestion) => (
+            <button
+              key={suggestion}
+              onClick={() => setSearchTerm(suggestion)}
+              className="px-2 py-1 rounded-full bg-indigo-50 text-indigo-700 hover:bg-indigo-100"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* --- TASK LIST --- */}
       {isLoading ? (
         <p>Loading projects...</p>
       ) : (
         <div className="space-y-4">
-          {filteredTasks.map((task) => (
+          {tasks.map((task) => (
             <Link
               to={`/task/${task.id}`}
               key={task.id}
@@ -82,7 +259,11 @@ const BrowseTasks: React.FC = () => {
               <div className="flex flex-col md:flex-row justify-between">
                 <div>
                   <h2 className="text-xl font-semibold text-indigo-700">
-                    {task.title}
+                    {"titleHighlight" in task ? (
+                      <Highlight text={task.titleHighlight} />
+                    ) : (
+                      task.title
+                    )}
                   </h2>
                   <p className="text-sm text-gray-500 mt-1">
                     Posted by {task.client?.firstName} {task.client?.lastName}{" "}
@@ -100,11 +281,27 @@ const BrowseTasks: React.FC = () => {
                 </div>
               </div>
               <p className="text-gray-600 mt-4 line-clamp-2">
-                {task.description}
+                {"snippet" in task ? (
+                  <Highlight text={task.snippet} />
+                ) : (
+                  task.description
+                )}
               </p>
+              {task.skills && task.skills.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {task.skills.map((skill) => (
+                    <span
+                      key={skill.id}
+                      className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 text-xs"
+                    >
+                      {skill.name}
+                    </span>
+                  ))}
+                </div>
+              )}
             </Link>
           ))}
-          {filteredTasks.length === 0 && (
+          {tasks.length === 0 && (
             <div className="text-center py-16 bg-white rounded-lg border">
               <Briefcase className="h-12 w-12 mx-auto text-gray-300" />
               <h3 className="mt-2 text-lg font-medium text-gray-800">
@@ -115,6 +312,11 @@ const BrowseTasks: React.FC = () => {
               </p>
             </div>
           )}
+          <div ref={loadMoreRef} className="py-4 text-center">
+            {isFetchingNextPage && (
+              <Loader2 className="h-6 w-6 animate-spin mx-auto text-indigo-600" />
+            )}
+          </div>
         </div>
       )}
     </div>
@@ -5,10 +5,11 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useAuth } from '../contexts/AuthContext';
-import { tasksApi } from '../services/api';
-import { CreateTaskPayload, TaskCategory, BudgetType, Task, UserRole } from '../types';
+import { tasksApi, attachmentsApi } from '../services/api';
+import { CreateTaskPayload, TaskCategory, BudgetType, Task, UserRole, Skill } from '../types';
 import { useMutation, useQueryClient } from 'react-query';
 import { toast } from 'react-toastify';
+import SkillPicker from '../components/SkillPicker';
 
 const createTaskSchema = z.object({
   title: z.string().min(1, 'Title is required'),
@@ -20,6 +21,14 @@ const createTaskSchema = z.object({
   ),
   budgetType: z.nativeEnum(BudgetType, { required_error: 'Budget type is required' }),
   deadline: z.string().refine((val) => !isNaN(new Date(val).getTime()), 'Invalid deadline date'),
+  maxRevisions: z.preprocess(
+    (val) => parseInt(String(val), 10),
+    z.number().int().min(0, 'Cannot be negative').max(10, 'At most 10 revision rounds')
+  ),
+  weeklyHourCap: z.preprocess(
+    (val) => (val === '' || val == null ? null : parseFloat(String(val))),
+    z.number().positive('Cap must be a positive number').max(168, 'A week has 168 hours').nullable()
+  ),
 });
 
 type CreateTaskFormData = z.infer<typeof createTaskSchema>;
@@ -29,16 +38,20 @@ const CreateTask: React.FC = () => {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [error, setError] = useState<string | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [skills, setSkills] = useState<Skill[]>([]);
 
   const {
     register,
     handleSubmit,
+    watch,
     formState: { errors, isSubmitting },
   } = useForm<CreateTaskFormData>({
     resolver: zodResolver(createTaskSchema),
     defaultValues: {
       budgetType: BudgetType.fixed,
-      category: TaskCategory.web_development
+      category: TaskCategory.web_development,
+      maxRevisions: 2
     }
   });
 
@@ -50,9 +63,15 @@ const CreateTask: React.FC = () => {
       return res.data.data;
     }),
     {
-      onSuccess: (newTask) => {
+      onSuccess: async (newTask) => {
         queryClient.invalidateQueries('tasks');
         toast.success(`Task "${newTask.title}" created successfully!`);
+        if (files.length > 0) {
+          // The task is already posted at this point, so a failed upload is reported but not fatal.
+          await attachmentsApi.upload('task', newTask.id, files).catch(() => {
+            toast.warn('Some files could not be uploaded. You can add them from the project page.');
+          });
+        }
         navigate('/dashboard');
       },
       onError: (err: Error) => {
@@ -75,6 +94,8 @@ const CreateTask: React.FC = () => {
       const payload: CreateTaskPayload = {
         ...data,
         deadline: new Date(data.deadline).toISOString(),
+        weeklyHourCap: data.budgetType === BudgetType.hourly ? data.weeklyHourCap : null,
+        skillIds: skills.map((skill) => skill.id),
       };
       await createTaskMutation.mutateAsync(payload);
     } catch (e) {
@@ -154,6 +175,13 @@ const CreateTask: React.FC = () => {
           {errors.category && <p className="mt-1 text-sm text-red-600">{errors.category.message}</p>}
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Required Skills
+          </label>
+          <SkillPicker value={skills} onChange={setSkills} category={watch('category')} />
+        </div>
+
         <div className="grid grid-cols-2 gap-6">
           <div>
             <label htmlFor="budget" className="block text-sm font-medium text-gray-700">
@@ -202,6 +230,55 @@ const CreateTask: React.FC = () => {
           {errors.deadline && <p className="mt-1 text-sm text-red-600">{errors.deadline.message}</p>}
         </div>
 
+        <div>
+          <label htmlFor="maxRevisions" className="block text-sm font-medium text-gray-700">
+            Revision Rounds per Milestone
+          </label>
+          <input
+            id="maxRevisions"
+            {...register('maxRevisions')}
+            type="number"
+            min={0}
+            max={10}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <p className="mt-1 text-xs text-gray-500">How many times you can send submitted work back for changes before releasing payment.</p>
+          {errors.maxRevisions && <p className="mt-1 text-sm text-red-600">{errors.maxRevisions.message}</p>}
+        </div>
+
+        {watch('budgetType') === BudgetType.hourly && (
+          <div>
+            <label htmlFor="weeklyHourCap" className="block text-sm font-medium text-gray-700">
+              Weekly Hour Cap (optional)
+            </label>
+            <input
+              id="weeklyHourCap"
+              {...register('weeklyHourCap')}
+              type="number"
+              step="0.5"
+              min={0}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              placeholder="e.g., 20"
+            />
+            <p className="mt-1 text-xs text-gray-500">The most hours the freelancer can bill you in one week. You can change it later.</p>
+            {errors.weeklyHourCap && <p className="mt-1 text-sm text-red-600">{errors.weeklyHourCap.message}</p>}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="files" className="block text-sm font-medium text-gray-700">
+            Briefs &amp; Mockups (optional)
+          </label>
+          <input
+            id="files"
+            type="file"
+            multiple
+            onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+            className="mt-1 block w-full text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+          />
+          <p className="mt-1 text-xs text-gray-500">Up to 5 files, 10MB each. Images, PDFs, office documents, text and ZIP archives.</p>
+        </div>
+
         <button
           type="submit"
           disabled={isSubmitting || createTaskMutation.isLoading}
@@ -3,7 +3,7 @@ import React from "react";
 import { useAuth } from "../contexts/AuthContext";
 import { useQuery } from "react-query";
 import { notificationsApi, tasksApi, bidsApi } from "../services/api";
-import { UserRole, TaskStatus, BidStatus, TaskWithClient, Notification, BidWithFreelancer } from "../types";
+import { UserRole, TaskStatus, BidStatus, TaskWithClient, TaskListParams, Notification, BidWithFreelancer, RecommendedTask } from "../types";
 import { Link } from "react-router-dom";
 import { formatDistanceToNow } from "date-fns";
 import {
@@ -13,8 +13,12 @@ import {
   CheckCircle,
   Clock,
   Loader2,
+  Sparkles,
 } from "lucide-react";
 
+const countTasks = (params: TaskListParams) =>
+  tasksApi.getAll({ ...params, limit: 1 }).then((res) => res.data.meta?.total ?? 0);
+
 // Reusable Stat Card Component
 const StatCard: React.FC<{
   title: string;
@@ -39,18 +43,45 @@ const Dashboard: React.FC = () => {
   const { user } = useAuth();
   // navigate was removed as it was unused
 
-  const { data: allTasks, isLoading: isLoadingTasks } = useQuery(
-    'allTasksForDashboard',
-    () => tasksApi.getAll().then((res) => res.data.data || []),
+  const { data: recentTasks, isLoading: isLoadingTasks } = useQuery(
+    ['recentTasksForDashboard', user?.id],
+    () =>
+      tasksApi
+        .getAll(
+          user?.role === UserRole.client
+            ? { clientId: user.id, limit: 5 }
+            : { status: TaskStatus.open, limit: 5 }
+        )
+        .then((res) => res.data),
     { enabled: !!user }
   );
 
+  // Only the totals are needed for the stat cards, so ask for a single row per status.
+  const { data: clientCounts, isLoading: isLoadingCounts } = useQuery(
+    ['clientTaskCountsForDashboard', user?.id],
+    async () => {
+      const [assigned, inProgress, completed] = await Promise.all(
+        [TaskStatus.assigned, TaskStatus.in_progress, TaskStatus.completed].map((status) =>
+          countTasks({ clientId: user!.id, status })
+        )
+      );
+      return { active: assigned + inProgress, completed };
+    },
+    { enabled: user?.role === UserRole.client }
+  );
+
   const { data: myBids, isLoading: isLoadingBids } = useQuery(
     'myBidsForDashboard',
     () => bidsApi.getMyBids().then((res) => res.data.data || []), // FIX: Now correctly calls getMyBids
     { enabled: user?.role === UserRole.freelancer }
   );
 
+  const { data: recommendedTasks = [], isLoading: isLoadingRecommended } = useQuery(
+    ['recommendedTasks', user?.id],
+    () => tasksApi.getRecommended(5).then((res) => res.data.data || []),
+    { enabled: user?.role === UserRole.freelancer }
+  );
+
   const { data: notifications = [], isLoading: isLoadingNotifications } = useQuery(
     "notifications",
     () => notificationsApi.getAll().then((res) => res.data.data!),
@@ -61,37 +92,31 @@ const Dashboard: React.FC = () => {
   );
 
   const stats = React.useMemo(() => {
-    if (!user || !allTasks) return { active: 0, completed: 0, open: 0 };
+    if (!user) return { active: 0, completed: 0, open: 0 };
     
     if (user.role === UserRole.client) {
-      const myProjects = allTasks.filter(t => t.clientId === user.id);
       return {
-        active: myProjects.filter(p => p.status === TaskStatus.in_progress || p.status === TaskStatus.assigned).length,
-        completed: myProjects.filter(p => p.status === TaskStatus.completed).length,
+        active: clientCounts?.active ?? 0,
+        completed: clientCounts?.completed ?? 0,
         open: 0,
       };
     }
     
     if (user.role === UserRole.freelancer) {
-      // FIX: Added explicit 'any' type cast for task on bid object because it's not fully typed in the relation
-      const myAcceptedTaskIds = myBids?.filter((b: BidWithFreelancer) => b.status === BidStatus.accepted).map((b: BidWithFreelancer) => (b.task as any).id) || [];
-      const myCompletedTasks = allTasks.filter(t => myAcceptedTaskIds.includes(t.id) && t.status === TaskStatus.completed).length;
+      const myCompletedTasks = myBids?.filter((b: BidWithFreelancer) => b.status === BidStatus.accepted && b.task?.status === TaskStatus.completed).length ?? 0;
       return {
         active: 0,
         completed: myCompletedTasks,
-        open: allTasks.filter(t => t.status === TaskStatus.open).length,
+        open: recentTasks?.meta?.total ?? 0,
       };
     }
 
     return { active: 0, completed: 0, open: 0 };
-  }, [user, allTasks, myBids]);
+  }, [user, recentTasks, clientCounts, myBids]);
   
-  const recentProjects = (user?.role === UserRole.client 
-    ? allTasks?.filter(t => t.clientId === user.id) 
-    : allTasks
-  )?.slice(0, 5) || [];
+  const recentProjects = recentTasks?.data || [];
 
-  if (isLoadingTasks || isLoadingNotifications || (user?.role === UserRole.freelancer && isLoadingBids)) {
+  if (isLoadingTasks || isLoadingNotifications || (user?.role === UserRole.client && isLoadingCounts) || (user?.role === UserRole.freelancer && isLoadingBids)) {
     return <div className="p-8 text-center"><Loader2 className="h-8 w-8 animate-spin mx-auto text-indigo-600" /></div>;
   }
 
@@ -141,6 +166,37 @@ const Dashboard: React.FC = () => {
         )}
       </div>
 
+      {user?.role === UserRole.freelancer && (
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 mb-8">
+          <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center">
+            <Sparkles className="h-5 w-5 mr-2 text-indigo-600" /> Recommended for you
+          </h2>
+          {isLoadingRecommended ? (
+            <Loader2 className="h-6 w-6 animate-spin mx-auto text-indigo-600" />
+          ) : recommendedTasks.length > 0 ? (
+            <ul className="space-y-3">
+              {recommendedTasks.map((task: RecommendedTask) => (
+                <li key={task.id}>
+                  <Link to={`/task/${task.id}`} className="block p-3 rounded-md hover:bg-gray-50">
+                    <div className="flex items-center justify-between">
+                      <p className="font-semibold text-gray-700 truncate">{task.title}</p>
+                      <span className="text-sm font-medium text-green-600">${task.budget}</span>
+                    </div>
+                    {task.reasons.length > 0 && (
+                      <p className="text-sm text-gray-500">{task.reasons.join(" · ")}</p>
+                    )}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-center text-gray-500 py-8">
+              Add skills to your <Link to="/profile" className="text-indigo-600 hover:underline">profile</Link> to get tailored recommendations.
+            </p>
+          )}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
           <h2 className="text-xl font-semibold text-gray-800 mb-4">
@@ -0,0 +1,294 @@
+// src/pages/DisputeDetail.tsx
+import React, { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "react-query";
+import { AxiosError } from "axios";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, ArrowLeft, Scale, Send } from "lucide-react";
+import { toast } from "react-toastify";
+import { adminApi, disputesApi } from "../services/api";
+import { useAuth } from "../contexts/AuthContext";
+import AttachmentList from "../components/AttachmentList";
+import {
+  ApiResponse,
+  DisputeDetail as DisputeDetailData,
+  DisputeResolution,
+  DisputeStatus,
+  ResolveDisputePayload,
+  UserRole,
+} from "../types";
+
+const RESOLUTION_LABELS: Record<DisputeResolution, string> = {
+  [DisputeResolution.release_full]: "Pay the freelancer in full",
+  [DisputeResolution.refund_full]: "Refund the client in full",
+  [DisputeResolution.split]: "Split the payment",
+};
+
+const formatMoney = (amount: number) =>
+  amount.toLocaleString("en-US", { style: "currency", currency: "USD" });
+
+const getError = (err: AxiosError<ApiResponse>, fallback: string) => {
+  const error = err.response?.data?.error;
+  return typeof error === "string" ? error : fallback;
+};
+
+const DisputeDetail: React.FC = () => {
+  const { id: disputeId } = useParams<{ id: string }>();
+  if (!disputeId) throw new Error("Dispute ID is required.");
+
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const isAdmin = user?.role === UserRole.admin;
+
+  const [message, setMessage] = useState("");
+  const [resolution, setResolution] = useState<DisputeResolution>(
+    DisputeResolution.release_full
+  );
+  const [freelancerAmount, setFreelancerAmount] = useState("");
+  const [note, setNote] = useState("");
+
+  const {
+    data: dispute,
+    isLoading,
+    isError,
+  } = useQuery<DisputeDetailData, Error>(["dispute", disputeId], async () => {
+    const response = await disputesApi.get(disputeId);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(
+        response.data.error?.toString() || "Failed to fetch dispute"
+      );
+    }
+    return response.data.data;
+  });
+
+  const evidenceMutation = useMutation<
+    unknown,
+    AxiosError<ApiResponse>,
+    string
+  >((text) => disputesApi.addEvidence(disputeId, text), {
+    onSuccess: () => {
+      setMessage("");
+      queryClient.invalidateQueries(["dispute", disputeId]);
+    },
+    onError: (err) => {
+      toast.error(getError(err, "Failed to add evidence."));
+    },
+  });
+
+  const resolveMutation = useMutation<
+    unknown,
+    AxiosError<ApiResponse>,
+    ResolveDisputePayload
+  >((payload) => adminApi.resolveDispute(disputeId, payload), {
+    onSuccess: () => {
+      toast.success("Dispute resolved.");
+      queryClient.invalidateQueries(["dispute", disputeId]);
+      queryClient.invalidateQueries("adminDisputes");
+    },
+    onError: (err) => {
+      toast.error(getError(err, "Failed to resolve dispute."));
+    },
+  });
+
+  const handleAddEvidence = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!message.trim()) return;
+    evidenceMutation.mutate(message.trim());
+  };
+
+  const handleResolve = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (note.trim().length < 10) {
+      toast.error("Please explain the ruling in at least 10 characters.");
+      return;
+    }
+    const payload: ResolveDisputePayload = { resolution, note: note.trim() };
+    if (resolution === DisputeResolution.split) {
+      const value = parseFloat(freelancerAmount);
+      if (!(value > 0)) {
+        toast.error("Enter the amount paid to the freelancer.");
+        return;
+      }
+      payload.freelancerAmount = value;
+    }
+    if (window.confirm("Resolve this dispute? The ruling cannot be undone.")) {
+      resolveMutation.mutate(payload);
+    }
+  };
+
+  if (isLoading)
+    return <div className="p-8 text-center">Loading dispute...</div>;
+  if (isError || !dispute)
+    return (
+      <div className="p-8 text-center text-red-500">Error loading dispute.</div>
+    );
+
+  const isOpen = dispute.status === DisputeStatus.open;
+  const { milestone } = dispute;
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <Link
+        to={`/task/${milestone.task.id}`}
+        className="text-indigo-600 hover:underline flex items-center mb-4"
+      >
+        <ArrowLeft className="h-4 w-4 mr-1" /> Back to {milestone.task.title}
+      </Link>
+
+      <div className="bg-white p-6 rounded-lg shadow-sm border mb-6">
+        <div className="flex justify-between items-start">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+              <AlertTriangle className="h-6 w-6 mr-2 text-red-500" />
+              Dispute: {milestone.title}
+            </h1>
+            <p className="text-sm text-gray-500 mt-1">
+              Opened by {dispute.openedBy.firstName} {dispute.openedBy.lastName}{" "}
+              on {format(parseISO(dispute.createdAt), "MMM dd, yyyy HH:mm")} ·
+              Milestone amount {formatMoney(milestone.amount)}
+            </p>
+          </div>
+          <span
+            className={`px-2 py-1 text-xs font-semibold rounded-full capitalize ${
+              isOpen ? "bg-red-100 text-red-800" : "bg-gray-100 text-gray-800"
+            }`}
+          >
+            {dispute.status}
+          </span>
+        </div>
+        <p className="text-gray-700 mt-4 whitespace-pre-line">
+          {dispute.reason}
+        </p>
+
+        {!isOpen && dispute.resolution && (
+          <div className="mt-4 p-4 bg-gray-50 rounded-md border">
+            <p className="font-semibold text-gray-800 flex items-center">
+              <Scale className="h-4 w-4 mr-2" />
+              {RESOLUTION_LABELS[dispute.resolution]}
+            </p>
+            <p className="text-sm text-gray-600 mt-1">
+              {formatMoney(dispute.freelancerAmount ?? 0)} paid to the
+              freelancer,{" "}
+              {formatMoney(milestone.amount - (dispute.freelancerAmount ?? 0))}{" "}
+              refunded to the client.
+            </p>
+            {dispute.resolutionNote && (
+              <p className="text-sm text-gray-700 italic mt-2 whitespace-pre-line">
+                "{dispute.resolutionNote}"
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-sm border mb-6">
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">Evidence</h2>
+        {dispute.evidence.length === 0 ? (
+          <p className="text-sm text-gray-500">No statements yet.</p>
+        ) : (
+          <ul className="space-y-3">
+            {dispute.evidence.map((item) => (
+              <li key={item.id} className="border-l-2 border-gray-200 pl-3">
+                <p className="text-sm font-medium text-gray-800">
+                  {item.author.firstName} {item.author.lastName}
+                  <span className="ml-2 text-xs text-gray-400">
+                    {format(parseISO(item.createdAt), "MMM dd, yyyy HH:mm")}
+                  </span>
+                </p>
+                <p className="text-sm text-gray-700 whitespace-pre-line">
+                  {item.message}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {isOpen && (
+          <form onSubmit={handleAddEvidence} className="mt-4 flex gap-2">
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={2}
+              maxLength={2000}
+              className="flex-1 p-2 border rounded-md text-sm"
+              placeholder="Add a statement for the admin reviewing this dispute"
+            />
+            <button
+              type="submit"
+              disabled={evidenceMutation.isLoading || !message.trim()}
+              className="self-end inline-flex items-center bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              <Send className="h-4 w-4 mr-1" /> Send
+            </button>
+          </form>
+        )}
+
+        <AttachmentList
+          parentType="dispute"
+          parentId={dispute.id}
+          title="Evidence files"
+          canUpload={isOpen}
+        />
+      </div>
+
+      {isAdmin && isOpen && (
+        <form
+          onSubmit={handleResolve}
+          className="bg-white p-6 rounded-lg shadow-sm border space-y-4"
+        >
+          <h2 className="text-xl font-semibold text-gray-800 flex items-center">
+            <Scale className="h-5 w-5 mr-2" /> Resolve dispute
+          </h2>
+          <div className="space-y-2">
+            {Object.values(DisputeResolution).map((value) => (
+              <label key={value} className="flex items-center text-sm">
+                <input
+                  type="radio"
+                  name="resolution"
+                  value={value}
+                  checked={resolution === value}
+                  onChange={() => setResolution(value)}
+                  className="mr-2"
+                />
+                {RESOLUTION_LABELS[value]}
+              </label>
+            ))}
+          </div>
+          {resolution === DisputeResolution.split && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Paid to the freelancer (of {formatMoney(milestone.amount)})
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min="0.01"
+                max={milestone.amount}
+                value={freelancerAmount}
+                onChange={(e) => setFreelancerAmount(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          )}
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={3}
+            maxLength={2000}
+            className="w-full p-2 border rounded-md text-sm"
+            placeholder="Explain the ruling to both parties"
+          />
+          <button
+            type="submit"
+            disabled={resolveMutation.isLoading}
+            className="bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Resolve
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default DisputeDetail;
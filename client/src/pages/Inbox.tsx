@@ -0,0 +1,144 @@
+// client/src/pages/Inbox.tsx
+import React from "react";
+import { Link } from "react-router-dom";
+import { useInfiniteQuery } from "react-query";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { MessageSquare, User as UserIcon } from "lucide-react";
+import { conversationsApi } from "../services/api";
+import { useAuth } from "../contexts/AuthContext";
+import { ConversationSummary, MessageWithSender } from "../types";
+
+// Task chats open on the task page; a pre-hire thread opens expanded under its bid.
+const conversationLink = (conversation: ConversationSummary) =>
+  conversation.bidId
+    ? `/task/${conversation.taskId}?bid=${conversation.bidId}`
+    : `/task/${conversation.taskId}`;
+
+const messagePreview = (message: MessageWithSender) => {
+  if (message.deletedAt) return "Message deleted";
+  if (message.content) return message.content;
+  const count = message.attachments.length;
+  return `Sent ${count} ${count === 1 ? "file" : "files"}`;
+};
+
+const Inbox: React.FC = () => {
+  const { user } = useAuth();
+
+  // Kept fresh by the socket, which invalidates this query as messages arrive.
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    useInfiniteQuery(
+      "conversations",
+      async ({ pageParam }) => {
+        const response = await conversationsApi.getAll(pageParam);
+        if (!response.data.success || !response.data.data) {
+          throw new Error(
+            response.data.error?.toString() || "Failed to fetch conversations"
+          );
+        }
+        return response.data;
+      },
+      { getNextPageParam: (lastPage) => lastPage.meta?.nextCursor ?? undefined }
+    );
+  const conversations =
+    data?.pages.flatMap((page) => page.data ?? []) ?? [];
+
+  return (
+    <div className="max-w-4xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <h1 className="text-3xl font-bold mb-6">Messages</h1>
+
+      {isLoading ? (
+        <p className="text-center p-8">Loading conversations...</p>
+      ) : conversations.length === 0 ? (
+        <div className="text-center text-gray-500 bg-white p-12 rounded-lg shadow-sm border">
+          <MessageSquare className="h-12 w-12 mx-auto text-gray-400 mb-2" />
+          <p>No conversations yet.</p>
+          <p className="text-sm mt-1">
+            Chats start when you message about a bid or hire for a project.
+          </p>
+        </div>
+      ) : (
+        <ul className="bg-white rounded-lg shadow-sm border divide-y">
+          {conversations.map((conversation) => {
+            const { counterpart, lastMessage, unreadCount } = conversation;
+            return (
+              <li key={conversation.bidId ?? conversation.taskId}>
+                <Link
+                  to={conversationLink(conversation)}
+                  className={`flex items-center p-4 hover:bg-gray-50 ${
+                    unreadCount > 0 ? "bg-indigo-50" : ""
+                  }`}
+                >
+                  {counterpart.avatarUrl ? (
+                    <img
+                      src={counterpart.avatarUrl}
+                      alt="Avatar"
+                      className="h-10 w-10 rounded-full object-cover shrink-0"
+                    />
+                  ) : (
+                    <div className="h-10 w-10 rounded-full bg-gray-200 flex items-center justify-center shrink-0">
+                      <UserIcon className="h-5 w-5 text-gray-400" />
+                    </div>
+                  )}
+                  <div className="ml-4 flex-1 min-w-0">
+                    <div className="flex items-center justify-between">
+                      <p
+                        className={`text-gray-800 truncate ${
+                          unreadCount > 0 ? "font-bold" : "font-semibold"
+                        }`}
+                      >
+                        {counterpart.firstName} {counterpart.lastName}
+                      </p>
+                      {lastMessage && (
+                        <span className="text-xs text-gray-500 shrink-0 ml-2">
+                          {formatDistanceToNow(parseISO(lastMessage.createdAt), {
+                            addSuffix: true,
+                          })}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 truncate">
+                      {conversation.taskTitle}
+                      {conversation.bidId && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded bg-yellow-100 text-yellow-800">
+                          Pre-hire
+                        </span>
+                      )}
+                    </p>
+                    <div className="flex items-center justify-between mt-1">
+                      <p className="text-sm text-gray-600 truncate">
+                        {lastMessage
+                          ? `${
+                              lastMessage.senderId === user?.id ? "You: " : ""
+                            }${messagePreview(lastMessage)}`
+                          : "No messages yet."}
+                      </p>
+                      {unreadCount > 0 && (
+                        <span className="ml-2 shrink-0 px-2 py-0.5 text-xs font-semibold rounded-full bg-indigo-600 text-white">
+                          {unreadCount}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </Link>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {hasNextPage && (
+        <div className="text-center mt-4">
+          <button
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="text-indigo-600 hover:underline disabled:opacity-50"
+          >
+            {isFetchingNextPage ? "Loading..." : "Load older conversations"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Inbox;
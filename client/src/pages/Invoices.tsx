@@ -0,0 +1,165 @@
+// src/pages/Invoices.tsx
+import React, { useState } from "react";
+import { useQuery } from "react-query";
+import { Link } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { Download, FileText } from "lucide-react";
+import { toast } from "react-toastify";
+import { invoicesApi } from "../services/api";
+import { InvoiceKind, InvoiceSummary } from "../types";
+
+type KindFilter = InvoiceKind | "all";
+
+const KIND_LABELS: Record<InvoiceKind, string> = {
+  [InvoiceKind.invoice]: "Invoice",
+  [InvoiceKind.receipt]: "Receipt",
+};
+
+const formatMoney = (amount: number) =>
+  amount.toLocaleString("en-US", { style: "currency", currency: "USD" });
+
+// Same approach as attachments: the download needs the auth header, so save it from a blob URL.
+const downloadInvoice = async (invoice: InvoiceSummary) => {
+  const response = await invoicesApi.download(invoice.id);
+  const url = URL.createObjectURL(response.data);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${invoice.documentNumber}.pdf`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const Invoices: React.FC = () => {
+  const [kind, setKind] = useState<KindFilter>("all");
+
+  const {
+    data: invoices,
+    isLoading,
+    isError,
+  } = useQuery<InvoiceSummary[], Error>(["invoices", kind], async () => {
+    const response = await invoicesApi.getAll(
+      kind === "all" ? undefined : kind
+    );
+    if (!response.data.success || !response.data.data) {
+      throw new Error(
+        response.data.error?.toString() || "Failed to fetch invoices"
+      );
+    }
+    return response.data.data;
+  });
+
+  const handleDownload = (invoice: InvoiceSummary) =>
+    downloadInvoice(invoice).catch(() =>
+      toast.error("Failed to download the document.")
+    );
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-3xl font-bold text-gray-900 mb-2">Invoices</h1>
+      <p className="text-gray-600 mb-6">
+        An invoice is issued to the client and a receipt to the freelancer every
+        time a payment is released.
+      </p>
+
+      <div className="flex gap-2 mb-4">
+        {(["all", InvoiceKind.invoice, InvoiceKind.receipt] as KindFilter[]).map(
+          (value) => (
+            <button
+              key={value}
+              onClick={() => setKind(value)}
+              className={`px-3 py-1.5 rounded-md text-sm ${
+                kind === value
+                  ? "bg-indigo-600 text-white"
+                  : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+              }`}
+            >
+              {value === "all" ? "All" : `${KIND_LABELS[value]}s`}
+            </button>
+          )
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="p-8 text-center">Loading invoices...</div>
+      ) : isError ? (
+        <div className="p-8 text-center text-red-500">
+          Error loading invoices.
+        </div>
+      ) : invoices && invoices.length > 0 ? (
+        <div className="bg-white shadow-sm border rounded-lg overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider">
+                  Number
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider">
+                  Project
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider">
+                  Amount
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider">
+                  Paid On
+                </th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {invoices.map((invoice) => (
+                <tr key={invoice.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <p className="text-sm font-medium flex items-center">
+                      <FileText className="h-4 w-4 mr-1 text-gray-400" />
+                      {invoice.documentNumber}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {KIND_LABELS[invoice.kind]}
+                    </p>
+                  </td>
+                  <td className="px-6 py-4">
+                    <Link
+                      to={`/task/${invoice.taskId}`}
+                      className="text-sm text-indigo-600 hover:underline"
+                    >
+                      {invoice.taskTitle}
+                    </Link>
+                    <p className="text-xs text-gray-500">
+                      {invoice.description} &middot;{" "}
+                      {invoice.kind === InvoiceKind.invoice
+                        ? invoice.freelancerName
+                        : invoice.clientName}
+                    </p>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {formatMoney(invoice.amount)}
+                    {invoice.platformFee > 0 && (
+                      <p className="text-xs text-gray-500">
+                        Fee {formatMoney(invoice.platformFee)}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {format(parseISO(invoice.paidAt), "MMM dd, yyyy")}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    <button
+                      onClick={() => handleDownload(invoice)}
+                      className="inline-flex items-center text-sm text-indigo-600 hover:underline"
+                    >
+                      <Download className="h-4 w-4 mr-1" /> PDF
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-gray-600">No invoices yet.</p>
+      )}
+    </div>
+  );
+};
+
+export default Invoices;
@@ -2,7 +2,7 @@
 import React from 'react';
 import { useQuery } from 'react-query';
 import { bidsApi } from '../services/api';
-import { BidWithFreelancer, UserRole } from '../types';
+import { BidStatus, BidWithFreelancer, UserRole } from '../types';
 import { useAuth } from '../contexts/AuthContext';
 import { Link } from 'react-router-dom';
 import { format } from 'date-fns';
@@ -12,6 +12,7 @@ const BidStatusBadge = ({ status }: { status: string }) => (
   <span className={`px-2 py-1 text-xs font-medium rounded-full capitalize ${
     status === 'accepted' ? 'bg-green-100 text-green-800' :
     status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
+    status === 'withdrawn' ? 'bg-gray-100 text-gray-600' :
     'bg-red-100 text-red-800'
   }`}>
     {status}
@@ -41,11 +42,16 @@ const MyBids: React.FC = () => {
                 <Link to={`/task/${bid.taskId}`} className="block hover:bg-gray-50 p-3 rounded-md">
                   <div className="flex justify-between items-center">
                     <div>
-                      <h3 className="text-lg font-semibold text-indigo-700">{(bid.task as any).title}</h3>
+                      <h3 className="text-lg font-semibold text-indigo-700">{bid.task?.title}</h3>
                       <p className="text-sm text-gray-600 font-bold mt-1">${bid.amount} - {bid.timeline}</p>
                       <p className="text-xs text-gray-500 mt-1">
                         Submitted on {format(new Date(bid.createdAt), 'MMM dd, yyyy')}
                       </p>
+                      {bid.status === BidStatus.rejected && bid.rejectionReason && (
+                        <p className="text-sm text-red-700 mt-2">
+                          Client's note: {bid.rejectionReason}
+                        </p>
+                      )}
                     </div>
                     <BidStatusBadge status={bid.status} />
                   </div>
@@ -1,6 +1,6 @@
 // client/src/pages/MyProjects.tsx
 import React from 'react';
-import { useQuery } from 'react-query';
+import { useInfiniteQuery } from 'react-query';
 import { tasksApi } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
 import { TaskWithClient, UserRole } from '../types';
@@ -21,13 +21,17 @@ const StatusBadge = ({ status }: { status: string }) => (
 
 const MyProjects: React.FC = () => {
   const { user } = useAuth();
-  const { data: allTasks, isLoading } = useQuery(
-    'allTasks',
-    () => tasksApi.getAll().then((res) => res.data.data || []),
-    { enabled: user?.role === UserRole.client }
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery(
+    ['tasks', { clientId: user?.id }],
+    ({ pageParam }) =>
+      tasksApi.getAll({ clientId: user!.id, cursor: pageParam }).then((res) => res.data),
+    {
+      enabled: user?.role === UserRole.client,
+      getNextPageParam: (lastPage) => lastPage.meta?.nextCursor ?? undefined,
+    }
   );
 
-  const myProjects = allTasks?.filter(task => task.clientId === user?.id) || [];
+  const myProjects = data?.pages.flatMap((page) => page.data ?? []) ?? [];
 
   if (isLoading) {
     return <div className="p-8 text-center"><Loader2 className="h-8 w-8 animate-spin mx-auto" /></div>;
@@ -54,6 +58,17 @@ const MyProjects: React.FC = () => {
                 </Link>
               </li>
             ))}
+            {hasNextPage && (
+              <li className="pt-4 text-center">
+                <button
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                  className="text-indigo-600 hover:underline disabled:opacity-50"
+                >
+                  {isFetchingNextPage ? 'Loading...' : 'Load more projects'}
+                </button>
+              </li>
+            )}
           </ul>
         ) : (
           <div className="text-center py-12">
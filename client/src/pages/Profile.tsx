@@ -1,9 +1,15 @@
 // client/src/pages/Profile.tsx
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { useAuth } from "../contexts/AuthContext";
 import { useQuery, useMutation, useQueryClient, QueryKey } from "react-query";
 import { profileApi } from "../services/api";
-import { User, UpdateProfilePayload } from "../types";
+import {
+  User,
+  UpdateProfilePayload,
+  UserRole,
+  UserSkill,
+  SkillProficiency,
+} from "../types";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -18,6 +24,7 @@ import {
   Linkedin,
 } from "lucide-react";
 import { AxiosError } from "axios";
+import SkillPicker from "../components/SkillPicker";
 
 // --- Skeleton Component for a Professional Loading State ---
 const ProfileSkeleton = () => (
@@ -57,6 +64,7 @@ const ProfileSkeleton = () => (
 const profileSchema = z.object({
   firstName: z.string().min(1, "First name is required"),
   lastName: z.string().min(1, "Last name is required"),
+  bio: z.string().max(2000, "Bio must be at most 2000 characters").optional(),
   portfolioUrl: z.string().url("Please enter a valid URL").optional().or(z.literal('')),
   githubUrl: z.string().url("Please enter a valid URL").optional().or(z.literal('')),
   linkedinUrl: z.string().url("Please enter a valid URL").optional().or(z.literal('')),
@@ -68,6 +76,7 @@ const Profile: React.FC = () => {
   const { user, setUser } = useAuth();
   const queryClient = useQueryClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [skills, setSkills] = useState<UserSkill[]>([]);
 
   const {
     data: profile,
@@ -103,10 +112,12 @@ const Profile: React.FC = () => {
       reset({
         firstName: profile.firstName,
         lastName: profile.lastName,
+        bio: profile.bio || '',
         portfolioUrl: profile.portfolioUrl || '',
         githubUrl: profile.githubUrl || '',
         linkedinUrl: profile.linkedinUrl || '',
       });
+      setSkills(profile.skills ?? []);
     }
   }, [profile, reset]);
 
@@ -122,7 +133,10 @@ const Profile: React.FC = () => {
     },
     {
       onSuccess: (updatedUser) => {
-        queryClient.setQueryData(["profile", user?.id], updatedUser);
+        // The update response omits skills, so merge rather than replace the cached profile.
+        queryClient.setQueryData<User | undefined>(["profile", user?.id], (prev) =>
+          prev ? { ...prev, ...updatedUser } : updatedUser
+        );
         setUser((prev) => (prev ? { ...prev, ...updatedUser } : updatedUser));
         toast.success("Profile updated successfully!");
       },
@@ -152,6 +166,34 @@ const Profile: React.FC = () => {
     }
   );
 
+  const updateSkillsMutation = useMutation(
+    (nextSkills: UserSkill[]) =>
+      profileApi.updateSkills({
+        skills: nextSkills.map(({ id, proficiency }) => ({
+          skillId: id,
+          proficiency,
+        })),
+      }),
+    {
+      onSuccess: (response) => {
+        queryClient.setQueryData<User | undefined>(["profile", user?.id], (prev) =>
+          prev ? { ...prev, skills: response.data.data ?? [] } : prev
+        );
+        toast.success("Skills updated!");
+      },
+      onError: (err: any) => {
+        toast.error(err?.response?.data?.error || "Failed to update skills.");
+      },
+    }
+  );
+
+  const setProficiency = (skillId: string, proficiency: SkillProficiency) =>
+    setSkills((prev) =>
+      prev.map((skill) =>
+        skill.id === skillId ? { ...skill, proficiency } : skill
+      )
+    );
+
   const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -287,6 +329,12 @@ const Profile: React.FC = () => {
               </div>
             </div>
 
+            <div>
+              <label htmlFor="bio" className="block text-sm font-medium text-gray-600 mb-1">Bio</label>
+              <textarea id="bio" {...register("bio")} rows={4} placeholder="Tell others about your experience and what you work on." className="w-full px-4 py-2 border border-gray-300 rounded-lg shadow-sm" />
+              {errors.bio && <p className="mt-1 text-sm text-red-600">{errors.bio.message}</p>}
+            </div>
+
             <h3 className="text-lg font-medium text-gray-700 pt-4 border-t mt-6">Links</h3>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div>
@@ -322,6 +370,53 @@ const Profile: React.FC = () => {
             </div>
           </form>
         </div>
+
+        {profile.role === UserRole.freelancer && (
+          <div className="mt-10 border-t border-gray-200 pt-8">
+            <h2 className="text-xl font-semibold text-gray-700 mb-2">
+              Your Skills
+            </h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Clients filter projects and bids by these, so keep them accurate.
+            </p>
+            <SkillPicker<UserSkill>
+              value={skills}
+              onChange={setSkills}
+              max={30}
+              toValue={(skill) => ({
+                ...skill,
+                proficiency: SkillProficiency.intermediate,
+              })}
+              renderChipExtra={(skill) => (
+                <select
+                  value={skill.proficiency}
+                  onChange={(e) =>
+                    setProficiency(skill.id, e.target.value as SkillProficiency)
+                  }
+                  className="ml-1 bg-transparent text-xs capitalize focus:outline-none"
+                >
+                  {Object.values(SkillProficiency).map((level) => (
+                    <option key={level} value={level}>
+                      {level}
+                    </option>
+                  ))}
+                </select>
+              )}
+            />
+            <div className="flex justify-end pt-4">
+              <button
+                onClick={() => updateSkillsMutation.mutate(skills)}
+                disabled={updateSkillsMutation.isLoading}
+                className="inline-flex items-center justify-center py-2 px-6 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-wait"
+              >
+                {updateSkillsMutation.isLoading && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Save Skills
+              </button>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
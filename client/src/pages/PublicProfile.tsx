@@ -0,0 +1,183 @@
+// client/src/pages/PublicProfile.tsx
+import React from "react";
+import { useParams, Link } from "react-router-dom";
+import { useQuery } from "react-query";
+import { format, parseISO } from "date-fns";
+import {
+  ArrowLeft,
+  Briefcase,
+  CalendarDays,
+  Github,
+  Link as LinkIcon,
+  Linkedin,
+  Star,
+  User as UserIcon,
+} from "lucide-react";
+import { usersApi } from "../services/api";
+import { PublicUserProfile, UserRole } from "../types";
+import RatingSummary from "../components/RatingSummary";
+
+const PublicProfile: React.FC = () => {
+  const { id: userId } = useParams<{ id: string }>() as { id: string };
+
+  const {
+    data: profile,
+    isLoading,
+    isError,
+  } = useQuery<PublicUserProfile, Error>(["publicProfile", userId], async () => {
+    const response = await usersApi.getPublicProfile(userId);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(
+        response.data.error?.toString() || "Failed to fetch profile"
+      );
+    }
+    return response.data.data;
+  });
+
+  if (isLoading) {
+    return <div className="p-8 text-center">Loading profile...</div>;
+  }
+
+  if (isError || !profile) {
+    return (
+      <div className="text-center p-8 text-red-500">
+        This profile could not be loaded.
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <button
+        onClick={() => window.history.back()}
+        className="inline-flex items-center text-sm text-gray-600 hover:text-indigo-600 mb-4"
+      >
+        <ArrowLeft className="h-4 w-4 mr-1" /> Back
+      </button>
+
+      <div className="bg-white p-8 rounded-2xl shadow-sm border border-gray-200">
+        <div className="flex flex-col sm:flex-row items-center sm:space-x-8">
+          <div className="h-32 w-32 rounded-full ring-4 ring-white ring-offset-2 ring-offset-indigo-100 mb-6 sm:mb-0 shrink-0">
+            {profile.avatarUrl ? (
+              <img
+                src={profile.avatarUrl}
+                alt="Avatar"
+                className="h-full w-full rounded-full object-cover"
+              />
+            ) : (
+              <div className="h-full w-full rounded-full bg-gray-200 flex items-center justify-center">
+                <UserIcon className="h-16 w-16 text-gray-400" />
+              </div>
+            )}
+          </div>
+          <div className="text-center sm:text-left">
+            <h1 className="text-3xl font-bold text-gray-800">
+              {profile.firstName} {profile.lastName}
+            </h1>
+            <p className="text-gray-500 mt-1 capitalize">
+              {profile.role === UserRole.client ? "Client" : profile.role}
+            </p>
+            <div className="mt-3 flex flex-wrap items-center justify-center sm:justify-start gap-x-4 gap-y-1 text-sm text-gray-600">
+              <span className="flex items-center">
+                <CalendarDays className="h-4 w-4 mr-1 text-gray-400" />
+                Member since{" "}
+                {format(parseISO(profile.memberSince), "MMMM yyyy")}
+              </span>
+              <span className="flex items-center">
+                <Briefcase className="h-4 w-4 mr-1 text-gray-400" />
+                {profile.completedJobs} completed{" "}
+                {profile.completedJobs === 1 ? "job" : "jobs"}
+              </span>
+            </div>
+            <div className="mt-3">
+              <RatingSummary stats={profile.rating} />
+            </div>
+            <div className="mt-4 flex items-center justify-center sm:justify-start space-x-3">
+              {profile.portfolioUrl && (
+                <a href={profile.portfolioUrl} target="_blank" rel="noopener noreferrer" className="text-gray-500 hover:text-indigo-600">
+                  <LinkIcon className="h-6 w-6" />
+                </a>
+              )}
+              {profile.githubUrl && (
+                <a href={profile.githubUrl} target="_blank" rel="noopener noreferrer" className="text-gray-500 hover:text-gray-800">
+                  <Github className="h-6 w-6" />
+                </a>
+              )}
+              {profile.linkedinUrl && (
+                <a href={profile.linkedinUrl} target="_blank" rel="noopener noreferrer" className="text-gray-500 hover:text-blue-700">
+                  <Linkedin className="h-6 w-6" />
+                </a>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {profile.bio && (
+          <div className="mt-8 border-t border-gray-200 pt-6">
+            <h2 className="text-xl font-semibold text-gray-700 mb-3">About</h2>
+            <p className="text-gray-700 whitespace-pre-wrap">{profile.bio}</p>
+          </div>
+        )}
+
+        {profile.skills.length > 0 && (
+          <div className="mt-8 border-t border-gray-200 pt-6">
+            <h2 className="text-xl font-semibold text-gray-700 mb-3">Skills</h2>
+            <div className="flex flex-wrap gap-2">
+              {profile.skills.map((skill) => (
+                <span
+                  key={skill.id}
+                  className="px-3 py-1 text-sm rounded-full bg-indigo-50 text-indigo-700"
+                >
+                  {skill.name}
+                  <span className="ml-1 text-xs text-indigo-400 capitalize">
+                    {skill.proficiency}
+                  </span>
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-8 border-t border-gray-200 pt-6">
+          <h2 className="text-xl font-semibold text-gray-700 mb-3">Reviews</h2>
+          {profile.recentReviews.length > 0 ? (
+            <div className="space-y-3">
+              {profile.recentReviews.map((review) => (
+                <div key={review.id} className="bg-gray-50 p-4 rounded-md border">
+                  <div className="flex justify-between items-center mb-1">
+                    <Link
+                      to={`/task/${review.task.id}`}
+                      className="font-medium text-indigo-700 hover:underline"
+                    >
+                      {review.task.title}
+                    </Link>
+                    <span className="flex items-center text-sm text-gray-700">
+                      <Star className="h-4 w-4 mr-1 text-yellow-500 fill-yellow-400" />
+                      {review.rating}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                    {review.comment}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    <Link
+                      to={`/users/${review.reviewer.id}`}
+                      className="hover:underline"
+                    >
+                      {review.reviewer.firstName} {review.reviewer.lastName}
+                    </Link>{" "}
+                    &middot; {format(parseISO(review.createdAt), "MMM dd, yyyy")}
+                  </p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-600 text-sm">No reviews yet.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PublicProfile;
@@ -1,26 +1,47 @@
-import React, { useEffect, useState, useRef } from "react";
-import { useParams, Link } from "react-router-dom";
+import React, { useEffect, useLayoutEffect, useState, useRef } from "react";
+import {
+  useParams,
+  useSearchParams,
+  Link,
+  useNavigate,
+} from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
 import { useSocket } from "../contexts/SocketContext";
 import { useQuery, useMutation, useQueryClient } from "react-query";
-import { tasksApi, bidsApi, milestonesApi } from "../services/api";
+import {
+  tasksApi,
+  bidsApi,
+  milestonesApi,
+  disputesApi,
+  chatApi,
+} from "../services/api";
 import {
   TaskWithClient,
   BidWithFreelancer,
   Milestone,
+  Dispute,
+  DisputeStatus,
   MessageWithSender,
+  ThreadMessagePage,
+  UserTypingPayload,
+  MessageReadPayload,
+  ChatReadState,
   CreateBidPayload,
+  UpdateBidPayload,
   CreateMilestonePayload,
+  UpdateTaskPayload,
+  TaskCategory,
+  BudgetType,
   TaskStatus,
   UserRole,
   BidStatus,
   MilestoneStatus,
   ApiResponse,
+  Skill,
 } from "../types";
 import { format, parseISO } from "date-fns";
 import {
   ArrowLeft,
-  Send,
   MessageSquare,
   Briefcase,
   DollarSign,
@@ -29,22 +50,73 @@ import {
   UserCheck,
   Award,
   ShieldCheck,
+  Pencil,
+  XCircle,
+  RotateCcw,
+  Undo2,
+  History,
+  Star,
+  ThumbsDown,
+  AlertTriangle,
+  Trash2,
+  ChevronUp,
+  ChevronDown,
+  Link2,
+  Timer,
+  ThumbsUp,
 } from "lucide-react";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { toast } from "react-toastify";
 import { AxiosError, AxiosResponse } from "axios";
+import AttachmentList from "../components/AttachmentList";
+import SkillPicker from "../components/SkillPicker";
+import BidNegotiation from "../components/BidNegotiation";
+import MilestoneRevisions from "../components/MilestoneRevisions";
+import BidMilestonePlan from "../components/BidMilestonePlan";
+import MilestoneEditForm from "../components/MilestoneEditForm";
+import MilestoneAmountChange from "../components/MilestoneAmountChange";
+import HourlyTimesheets from "../components/HourlyTimesheets";
+import BidFeeEstimate from "../components/BidFeeEstimate";
+import RatingSummary from "../components/RatingSummary";
+import TaskReviews from "../components/TaskReviews";
+import BidThread from "../components/BidThread";
+import ChatMessage from "../components/ChatMessage";
+import ChatComposer from "../components/ChatComposer";
 
 // --- Zod Schemas for Forms ---
-const bidSchema = z.object({
+const bidMilestoneSchema = z.object({
+  title: z.string().min(5, "Title must be at least 5 characters"),
+  description: z.string().max(1000).optional(),
   amount: z.preprocess(
     (val) => parseFloat(String(val)),
     z.number().positive("Amount must be positive")
   ),
-  proposal: z.string().min(30, "Proposal must be at least 30 characters"),
-  timeline: z.string().min(1, "Timeline is required"),
+  dueDate: z
+    .string()
+    .refine((val) => !isNaN(new Date(val).getTime()), "Invalid due date"),
 });
+
+const bidSchema = z
+  .object({
+    amount: z.preprocess(
+      (val) => parseFloat(String(val)),
+      z.number().positive("Amount must be positive")
+    ),
+    proposal: z.string().min(30, "Proposal must be at least 30 characters"),
+    timeline: z.string().min(1, "Timeline is required"),
+    milestones: z.array(bidMilestoneSchema).max(20, "At most 20 stages"),
+  })
+  .refine(
+    (bid) =>
+      bid.milestones.reduce((sum, stage) => sum + stage.amount, 0) <=
+      bid.amount + 0.005,
+    {
+      message: "The milestone plan adds up to more than your bid amount",
+      path: ["milestones"],
+    }
+  );
 type BidFormData = z.infer<typeof bidSchema>;
 
 const milestoneSchema = z.object({
@@ -57,9 +129,52 @@ const milestoneSchema = z.object({
   dueDate: z
     .string()
     .refine((val) => !isNaN(new Date(val).getTime()), "Invalid due date"),
+  dependsOnId: z.string().optional(),
 });
 type MilestoneFormData = z.infer<typeof milestoneSchema>;
 
+const taskEditSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  description: z.string().min(10, "Description must be at least 10 characters"),
+  category: z.nativeEnum(TaskCategory),
+  budget: z.preprocess(
+    (val) => parseFloat(String(val)),
+    z.number().positive("Budget must be a positive number")
+  ),
+  budgetType: z.nativeEnum(BudgetType),
+  deadline: z
+    .string()
+    .refine((val) => !isNaN(new Date(val).getTime()), "Invalid deadline"),
+  maxRevisions: z.preprocess(
+    (val) => parseInt(String(val), 10),
+    z.number().int().min(0).max(10, "At most 10 revision rounds")
+  ),
+  weeklyHourCap: z.preprocess(
+    (val) => (val === "" || val == null ? null : parseFloat(String(val))),
+    z
+      .number()
+      .positive("Cap must be positive")
+      .max(168, "A week has 168 hours")
+      .nullable()
+  ),
+});
+type TaskEditFormData = z.infer<typeof taskEditSchema>;
+
+type BidFilter = "all" | "shortlisted" | "pending" | "rejected";
+
+const BID_FILTERS: Record<BidFilter, (bid: BidWithFreelancer) => boolean> = {
+  all: () => true,
+  shortlisted: (bid) => bid.isShortlisted,
+  pending: (bid) => bid.status === BidStatus.pending,
+  rejected: (bid) => bid.status === BidStatus.rejected,
+};
+
+const CANCELLABLE_STATUSES = [
+  TaskStatus.open,
+  TaskStatus.assigned,
+  TaskStatus.in_progress,
+];
+
 // --- Helper Components ---
 const StatusBadge: React.FC<{ status: TaskStatus }> = ({ status }) => {
   const styles = {
@@ -99,14 +214,33 @@ const TaskDetail: React.FC = () => {
   if (!taskId) throw new Error("Task ID is required.");
 
   const { user } = useAuth();
+  const navigate = useNavigate();
+  // Set by inbox links to a pre-hire thread, which then opens expanded.
+  const [searchParams] = useSearchParams();
   const { socket, isConnected } = useSocket();
   const queryClient = useQueryClient();
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const chatContainerRef = useRef<HTMLDivElement>(null);
+  // Scroll height before older messages were prepended, so the view can stay put.
+  const prependedFromHeightRef = useRef<number | null>(null);
 
   const [messages, setMessages] = useState<MessageWithSender[]>([]);
-  const [chatMessage, setChatMessage] = useState("");
+  const [olderMessagesCursor, setOlderMessagesCursor] = useState<
+    string | null
+  >(null);
+  const [isLoadingOlderMessages, setIsLoadingOlderMessages] = useState(false);
+  // How far each participant has read the chat, by user id.
+  const [readCursors, setReadCursors] = useState<Record<string, string>>({});
+  const lastMarkedReadRef = useRef<string | null>(null);
   const [isChatActive, setIsChatActive] = useState(false);
   const [typingUsers, setTypingUsers] = useState<string[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editSkills, setEditSkills] = useState<Skill[]>([]);
+  const [editingBidId, setEditingBidId] = useState<string | null>(null);
+  const [editingMilestoneId, setEditingMilestoneId] = useState<
+    string | null
+  >(null);
+  const [bidFilter, setBidFilter] = useState<BidFilter>("all");
 
   const { data: task, isLoading: isLoadingTask } = useQuery<
     TaskWithClient,
@@ -120,14 +254,23 @@ const TaskDetail: React.FC = () => {
     ["bids", taskId],
     () => bidsApi.getByTask(taskId).then((res) => res.data.data!)
   );
-  const { data: milestones = [] } = useQuery<Milestone[], AxiosError>(
-    ["milestones", taskId],
-    () => milestonesApi.getByTask(taskId).then((res) => res.data.data!)
-  );
 
   const isClient = user?.id === task?.clientId;
   const assignedFreelancer = bids.find((b) => b.status === BidStatus.accepted);
   const isAssignedFreelancer = user?.id === assignedFreelancer?.freelancerId;
+
+  // Milestones are only visible to the contract's parties and admins.
+  const { data: milestones = [] } = useQuery<Milestone[], AxiosError>(
+    ["milestones", taskId],
+    () => milestonesApi.getByTask(taskId).then((res) => res.data.data!),
+    {
+      enabled:
+        isClient || isAssignedFreelancer || user?.role === UserRole.admin,
+    }
+  );
+  const liveMilestones = milestones.filter(
+    (m) => m.status !== MilestoneStatus.cancelled
+  );
   const canChat =
     isConnected && isChatActive && (isClient || isAssignedFreelancer);
 
@@ -135,45 +278,135 @@ const TaskDetail: React.FC = () => {
     if (socket && taskId) {
       socket.emit("join_task", { taskId });
 
-      const handleLoadMessages = (history: MessageWithSender[]) =>
-        setMessages(history);
-      const handleNewMessage = (newMessage: MessageWithSender) =>
+      // Pre-hire threads share these events; they are rendered by BidThread instead.
+      const handleLoadMessages = (page: ThreadMessagePage) => {
+        if (page.bidId) return;
+        setMessages([...page.messages].reverse());
+        setOlderMessagesCursor(page.meta.nextCursor);
+      };
+      const handleNewMessage = (newMessage: MessageWithSender) => {
+        if (newMessage.bidId) return;
         setMessages((prev) => [...prev, newMessage]);
+      };
+      const handleMessageUpdated = (updated: MessageWithSender) => {
+        if (updated.bidId) return;
+        setMessages((prev) =>
+          prev.map((msg) => (msg.id === updated.id ? updated : msg))
+        );
+      };
       const handleChatActivated = () => {
         toast.info("Chat is now active!");
         setIsChatActive(true);
+        // Rejoin now that the hire has let us in; this also loads the pre-hire thread.
+        socket.emit("join_task", { taskId });
       };
-      const handleUserTyping = ({
-        userId,
-        isTyping,
-      }: {
-        userId: string;
-        isTyping: boolean;
-      }) => {
+      const handleUserTyping = ({ bidId, userId, isTyping }: UserTypingPayload) => {
+        if (bidId) return;
         setTypingUsers((prev) =>
           isTyping ? [...prev, userId] : prev.filter((id) => id !== userId)
         );
       };
 
+      const handleReadState = (state: ChatReadState) => {
+        if (state.bidId) return;
+        setReadCursors(
+          Object.fromEntries(
+            state.cursors.map((cursor) => [cursor.userId, cursor.lastReadAt])
+          )
+        );
+      };
+      const handleMessageRead = (read: MessageReadPayload) => {
+        if (read.bidId) return;
+        setReadCursors((prev) => ({ ...prev, [read.userId]: read.lastReadAt }));
+      };
+
+      const handleNegotiationUpdated = () =>
+        queryClient.invalidateQueries(["bids", taskId]);
+
       socket.on("load_messages", handleLoadMessages);
       socket.on("new_message", handleNewMessage);
+      socket.on("message_updated", handleMessageUpdated);
       socket.on("chat_activated", handleChatActivated);
       socket.on("user_typing", handleUserTyping);
+      socket.on("read_state", handleReadState);
+      socket.on("message_read", handleMessageRead);
+      socket.on("bid_negotiation_updated", handleNegotiationUpdated);
 
       return () => {
         socket.emit("leave_task", { taskId });
         socket.off("load_messages", handleLoadMessages);
         socket.off("new_message", handleNewMessage);
+        socket.off("message_updated", handleMessageUpdated);
         socket.off("chat_activated", handleChatActivated);
         socket.off("user_typing", handleUserTyping);
+        socket.off("read_state", handleReadState);
+        socket.off("message_read", handleMessageRead);
+        socket.off("bid_negotiation_updated", handleNegotiationUpdated);
       };
     }
-  }, [socket, taskId]);
+  }, [socket, taskId, queryClient]);
 
-  useEffect(() => {
+  useLayoutEffect(() => {
+    const container = chatContainerRef.current;
+    if (container && prependedFromHeightRef.current !== null) {
+      container.scrollTop =
+        container.scrollHeight - prependedFromHeightRef.current;
+      prependedFromHeightRef.current = null;
+      return;
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  // Reading the chat panel counts as reading up to the newest message.
+  const newestMessageId = messages[messages.length - 1]?.id;
+  const isChatParticipant = isClient || isAssignedFreelancer;
+  useEffect(() => {
+    if (
+      !socket ||
+      !isChatParticipant ||
+      !newestMessageId ||
+      lastMarkedReadRef.current === newestMessageId
+    ) {
+      return;
+    }
+    lastMarkedReadRef.current = newestMessageId;
+    socket.emit("mark_read", { taskId, messageId: newestMessageId });
+  }, [socket, taskId, isChatParticipant, newestMessageId]);
+
+  // The newest of the user's own messages the other side has seen.
+  const otherReadAt = Object.entries(readCursors)
+    .filter(([userId]) => userId !== user?.id)
+    .map(([, lastReadAt]) => lastReadAt)
+    .sort()
+    .pop();
+  const lastSeenMessageId = otherReadAt
+    ? messages
+        .filter(
+          (msg) => msg.senderId === user?.id && msg.createdAt <= otherReadAt
+        )
+        .pop()?.id
+    : undefined;
+
+  const loadOlderMessages = async () => {
+    if (!olderMessagesCursor || isLoadingOlderMessages) return;
+    setIsLoadingOlderMessages(true);
+    try {
+      const response = await chatApi.getMessagesByTask(
+        taskId,
+        olderMessagesCursor
+      );
+      const older = response.data.data ?? [];
+      prependedFromHeightRef.current =
+        chatContainerRef.current?.scrollHeight ?? null;
+      setMessages((prev) => [...[...older].reverse(), ...prev]);
+      setOlderMessagesCursor(response.data.meta?.nextCursor ?? null);
+    } catch {
+      toast.error("Failed to load older messages.");
+    } finally {
+      setIsLoadingOlderMessages(false);
+    }
+  };
+
   const getErrorMessage = (error: ApiResponse["error"]): string => {
     if (typeof error === "string") {
       return error;
@@ -190,6 +423,7 @@ const TaskDetail: React.FC = () => {
       queryClient.invalidateQueries(["task", taskId]);
       queryClient.invalidateQueries(["bids", taskId]);
       queryClient.invalidateQueries(["milestones", taskId]);
+      queryClient.invalidateQueries("wallet");
     };
 
     const acceptBidMutation = useMutation<
@@ -228,25 +462,314 @@ const TaskDetail: React.FC = () => {
       },
     });
 
+    const approveMilestoneMutation = useMutation<
+      AxiosResponse<ApiResponse<Milestone>>,
+      AxiosError<ApiResponse>,
+      string
+    >(milestonesApi.approve, {
+      onSuccess: () => {
+        toast.success("Milestone approved and funded into escrow.");
+        invalidateAllQueries();
+      },
+      onError: (err) => {
+        const error = err.response?.data?.error;
+        toast.error(getErrorMessage(error) || "Failed to approve milestone.");
+      },
+    });
+
+    const declineMilestoneMutation = useMutation<
+      AxiosResponse<ApiResponse<Milestone>>,
+      AxiosError<ApiResponse>,
+      { milestoneId: string; reason?: string }
+    >(({ milestoneId, reason }) => milestonesApi.decline(milestoneId, reason), {
+      onSuccess: () => {
+        toast.success("Milestone proposal declined.");
+        invalidateAllQueries();
+      },
+      onError: (err) => {
+        const error = err.response?.data?.error;
+        toast.error(getErrorMessage(error) || "Failed to decline milestone.");
+      },
+    });
+
+    const cancelMilestoneMutation = useMutation<
+      AxiosResponse<ApiResponse<Milestone>>,
+      AxiosError<ApiResponse>,
+      { milestoneId: string; reason?: string }
+    >(({ milestoneId, reason }) => milestonesApi.cancel(milestoneId, reason), {
+      onSuccess: () => {
+        toast.success("Milestone cancelled. Its escrow went back to your wallet.");
+        invalidateAllQueries();
+      },
+      onError: (err) => {
+        const error = err.response?.data?.error;
+        toast.error(getErrorMessage(error) || "Failed to cancel milestone.");
+      },
+    });
+
+    const reorderMilestonesMutation = useMutation<
+      AxiosResponse<ApiResponse<Milestone[]>>,
+      AxiosError<ApiResponse>,
+      string[]
+    >((milestoneIds) => milestonesApi.reorder(taskId, milestoneIds), {
+      onSuccess: () => invalidateAllQueries(),
+      onError: (err) => {
+        const error = err.response?.data?.error;
+        toast.error(getErrorMessage(error) || "Failed to reorder milestones.");
+      },
+    });
+
+    const openDisputeMutation = useMutation<
+      AxiosResponse<ApiResponse<Dispute>>,
+      AxiosError<ApiResponse>,
+      { milestoneId: string; reason: string }
+    >(({ milestoneId, reason }) => disputesApi.open(milestoneId, reason), {
+      onSuccess: (response) => {
+        toast.success("Dispute opened. An admin will review it.");
+        invalidateAllQueries();
+        if (response.data.data) navigate(`/disputes/${response.data.data.id}`);
+      },
+      onError: (err) => {
+        const error = err.response?.data?.error;
+        toast.error(getErrorMessage(error) || "Failed to open dispute.");
+      },
+    });
+
+    const updateTaskMutation = useMutation<
+      AxiosResponse<ApiResponse>,
+      AxiosError<ApiResponse>,
+      UpdateTaskPayload
+    >((data) => tasksApi.update(taskId, data), {
+      onSuccess: () => {
+        toast.success("Project updated. Bidders have been notified.");
+        setIsEditing(false);
+        invalidateAllQueries();
+      },
+      onError: (err) => {
+        const error = err.response?.data?.error;
+        toast.error(getErrorMessage(error) || "Failed to update project.");
+      },
+    });
+
+    const cancelTaskMutation = useMutation<
+      AxiosResponse<ApiResponse>,
+      AxiosError<ApiResponse>,
+      string | undefined
+    >((reason) => tasksApi.cancel(taskId, reason), {
+      onSuccess: () => {
+        toast.info("Project cancelled.");
+        invalidateAllQueries();
+      },
+      onError: (err) => {
+        const error = err.response?.data?.error;
+        toast.error(getErrorMessage(error) || "Failed to cancel project.");
+      },
+    });
+
+    const reopenTaskMutation = useMutation<
+      AxiosResponse<ApiResponse>,
+      AxiosError<ApiResponse>,
+      void
+    >(() => tasksApi.reopen(taskId), {
+      onSuccess: () => {
+        toast.success("Project reopened for bidding.");
+        invalidateAllQueries();
+      },
+      onError: (err) => {
+        const error = err.response?.data?.error;
+        toast.error(getErrorMessage(error) || "Failed to reopen project.");
+      },
+    });
+
+    const withdrawBidMutation = useMutation<
+      AxiosResponse<ApiResponse>,
+      AxiosError<ApiResponse>,
+      string
+    >(bidsApi.withdraw, {
+      onSuccess: () => {
+        toast.info("Bid withdrawn.");
+        invalidateAllQueries();
+      },
+      onError: (err) => {
+        const error = err.response?.data?.error;
+        toast.error(getErrorMessage(error) || "Failed to withdraw bid.");
+      },
+    });
+
+    const rejectBidMutation = useMutation<
+      AxiosResponse<ApiResponse>,
+      AxiosError<ApiResponse>,
+      { bidId: string; reason?: string }
+    >(({ bidId, reason }) => bidsApi.reject(bidId, reason), {
+      onSuccess: () => {
+        toast.info("Bid rejected. The freelancer has been notified.");
+        invalidateAllQueries();
+      },
+      onError: (err) => {
+        const error = err.response?.data?.error;
+        toast.error(getErrorMessage(error) || "Failed to reject bid.");
+      },
+    });
+
+    const shortlistBidMutation = useMutation<
+      AxiosResponse<ApiResponse>,
+      AxiosError<ApiResponse>,
+      { bidId: string; shortlisted: boolean }
+    >(({ bidId, shortlisted }) => bidsApi.shortlist(bidId, shortlisted), {
+      onSuccess: invalidateAllQueries,
+      onError: (err) => {
+        const error = err.response?.data?.error;
+        toast.error(getErrorMessage(error) || "Failed to update shortlist.");
+      },
+    });
+
     return {
       acceptBidMutation,
+      rejectBidMutation,
+      shortlistBidMutation,
+      withdrawBidMutation,
       milestoneCompletionMutation,
       releasePaymentMutation,
+      approveMilestoneMutation,
+      declineMilestoneMutation,
+      cancelMilestoneMutation,
+      reorderMilestonesMutation,
+      openDisputeMutation,
+      updateTaskMutation,
+      cancelTaskMutation,
+      reopenTaskMutation,
     };
   };
   const {
     acceptBidMutation,
+    rejectBidMutation,
+    shortlistBidMutation,
+    withdrawBidMutation,
     milestoneCompletionMutation,
     releasePaymentMutation,
+    approveMilestoneMutation,
+    declineMilestoneMutation,
+    cancelMilestoneMutation,
+    reorderMilestonesMutation,
+    openDisputeMutation,
+    updateTaskMutation,
+    cancelTaskMutation,
+    reopenTaskMutation,
   } = useTaskMutations();
 
+  const {
+    register: editRegister,
+    handleSubmit: handleEditSubmit,
+    reset: resetEditForm,
+    watch: watchEdit,
+    formState: { errors: editErrors },
+  } = useForm<TaskEditFormData>({ resolver: zodResolver(taskEditSchema) });
+
+  const startEditing = () => {
+    if (!task) return;
+    resetEditForm({
+      title: task.title,
+      description: task.description,
+      category: task.category,
+      budget: task.budget,
+      budgetType: task.budgetType,
+      deadline: format(parseISO(task.deadline), "yyyy-MM-dd"),
+      maxRevisions: task.maxRevisions,
+      weeklyHourCap: task.weeklyHourCap,
+    });
+    setEditSkills(task.skills ?? []);
+    setIsEditing(true);
+  };
+
+  const onEditSubmit = (data: TaskEditFormData) =>
+    updateTaskMutation.mutate({
+      ...data,
+      deadline: new Date(data.deadline).toISOString(),
+      weeklyHourCap:
+        data.budgetType === BudgetType.hourly ? data.weeklyHourCap : null,
+      skillIds: editSkills.map((skill) => skill.id),
+    });
+
+  const handleApproveMilestone = (milestone: Milestone) => {
+    if (
+      window.confirm(
+        `Approve "${milestone.title}"? $${milestone.amount} will be charged now and held in escrow.`
+      )
+    ) {
+      approveMilestoneMutation.mutate(milestone.id);
+    }
+  };
+
+  const handleDeclineMilestone = (milestoneId: string) => {
+    const reason = window.prompt(
+      "Decline this milestone? Optionally tell the freelancer why:"
+    );
+    if (reason !== null) {
+      declineMilestoneMutation.mutate({
+        milestoneId,
+        reason: reason.trim() || undefined,
+      });
+    }
+  };
+
+  const handleCancelMilestone = (milestone: Milestone) => {
+    const reason = window.prompt(
+      `Cancel "${milestone.title}"? Its $${milestone.amount} escrow goes back to your wallet. Optionally tell the freelancer why:`
+    );
+    if (reason !== null) {
+      cancelMilestoneMutation.mutate({
+        milestoneId: milestone.id,
+        reason: reason.trim() || undefined,
+      });
+    }
+  };
+
+  const handleMoveMilestone = (index: number, direction: -1 | 1) => {
+    const ids = milestones.map((m) => m.id);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderMilestonesMutation.mutate(ids);
+  };
+
+  const handleOpenDispute = (milestoneId: string) => {
+    const reason = window.prompt(
+      "Describe the problem with this milestone (at least 20 characters). Payments on it are frozen until an admin resolves the dispute."
+    );
+    if (reason === null) return;
+    if (reason.trim().length < 20) {
+      toast.error("Please describe the problem in at least 20 characters.");
+      return;
+    }
+    openDisputeMutation.mutate({ milestoneId, reason: reason.trim() });
+  };
+
+  const handleCancelTask = () => {
+    const reason = window.prompt(
+      "Cancel this project? Optionally tell the bidders why:"
+    );
+    if (reason !== null) {
+      cancelTaskMutation.mutate(reason.trim() || undefined);
+    }
+  };
+
   // --- CORRECTED FORM HANDLING & MUTATIONS ---
   const {
     register: bidRegister,
+    control: bidControl,
     handleSubmit: handleBidSubmit,
     reset: resetBidForm,
+    watch: watchBid,
     formState: { errors: bidErrors },
-  } = useForm<BidFormData>({ resolver: zodResolver(bidSchema) });
+  } = useForm<BidFormData>({
+    resolver: zodResolver(bidSchema),
+    defaultValues: { milestones: [] },
+  });
+  const {
+    fields: planFields,
+    append: appendPlanStage,
+    remove: removePlanStage,
+  } = useFieldArray({ control: bidControl, name: "milestones" });
   const bidMutation = useMutation<
     AxiosResponse<ApiResponse>,
     AxiosError<ApiResponse>,
@@ -263,8 +786,77 @@ const TaskDetail: React.FC = () => {
     },
   });
 
-  const onBidSubmit = (data: BidFormData) =>
-    bidMutation.mutate({ ...data, taskId });
+  const updateBidMutation = useMutation<
+    AxiosResponse<ApiResponse>,
+    AxiosError<ApiResponse>,
+    { bidId: string; data: UpdateBidPayload }
+  >(({ bidId, data }) => bidsApi.update(bidId, data), {
+    onSuccess: () => {
+      toast.success("Bid updated. The client has been notified.");
+      queryClient.invalidateQueries(["bids", taskId]);
+      setEditingBidId(null);
+      resetBidForm();
+    },
+    onError: (err) => {
+      const error = err.response?.data?.error;
+      toast.error(getErrorMessage(error) || "Failed to update bid.");
+    },
+  });
+
+  const onBidSubmit = (formData: BidFormData) => {
+    const data = {
+      ...formData,
+      milestones: formData.milestones.map((stage) => ({
+        ...stage,
+        dueDate: new Date(stage.dueDate).toISOString(),
+      })),
+    };
+    return editingBidId
+      ? updateBidMutation.mutate({ bidId: editingBidId, data })
+      : bidMutation.mutate({ ...data, taskId });
+  };
+
+  const startEditingBid = (bid: BidWithFreelancer) => {
+    resetBidForm({
+      amount: bid.amount,
+      proposal: bid.proposal,
+      timeline: bid.timeline,
+      milestones: (bid.milestonePlan ?? []).map((stage) => ({
+        title: stage.title,
+        description: stage.description,
+        amount: stage.amount,
+        dueDate: format(parseISO(stage.dueDate), "yyyy-MM-dd"),
+      })),
+    });
+    setEditingBidId(bid.id);
+  };
+
+  const stopEditingBid = () => {
+    setEditingBidId(null);
+    resetBidForm({
+      amount: undefined,
+      proposal: "",
+      timeline: "",
+      milestones: [],
+    });
+  };
+
+  const handleRejectBid = (bidId: string) => {
+    const reason = window.prompt(
+      "Reject this bid? Optionally tell the freelancer why:"
+    );
+    if (reason !== null) {
+      rejectBidMutation.mutate({ bidId, reason: reason.trim() || undefined });
+    }
+  };
+
+  const filteredBids = bids.filter(BID_FILTERS[bidFilter]);
+
+  const handleWithdrawBid = (bidId: string) => {
+    if (window.confirm("Withdraw this bid? You will not be able to bid on this project again.")) {
+      withdrawBidMutation.mutate(bidId);
+    }
+  };
 
   const {
     register: milestoneRegister,
@@ -277,8 +869,11 @@ const TaskDetail: React.FC = () => {
     AxiosError<ApiResponse>,
     CreateMilestonePayload
   >((data: CreateMilestonePayload) => milestonesApi.create(data), {
-    onSuccess: () => {
-      toast.success("Milestone created!");
+    onSuccess: (response) => {
+      toast.success(
+        response.data.message || "Milestone created and funded into escrow."
+      );
+      queryClient.invalidateQueries("wallet");
       queryClient.invalidateQueries(["milestones", taskId]);
       resetMilestoneForm();
     },
@@ -293,19 +888,20 @@ const TaskDetail: React.FC = () => {
       ...data,
       taskId,
       dueDate: new Date(data.dueDate).toISOString(),
+      dependsOnId: data.dependsOnId || undefined,
     });
 
-  const handleSendMessage = () => {
-    if (socket && canChat && chatMessage.trim()) {
-      socket.emit("send_message", { taskId, content: chatMessage });
-      setChatMessage("");
-    }
-  };
-
   const handleAcceptBid = (bidId: string) => {
+    const planTotal = (
+      bids.find((b) => b.id === bidId)?.milestonePlan ?? []
+    ).reduce((sum, stage) => sum + stage.amount, 0);
+    const planNote =
+      planTotal > 0
+        ? ` Their milestone plan ($${planTotal.toFixed(2)}) will be charged now and held in escrow.`
+        : "";
     if (
       window.confirm(
-        "Are you sure you want to hire this freelancer? This will start the project and lock the bids."
+        `Are you sure you want to hire this freelancer? This will start the project and lock the bids.${planNote}`
       )
     ) {
       acceptBidMutation.mutate(bidId);
@@ -332,10 +928,171 @@ const TaskDetail: React.FC = () => {
               <StatusBadge status={task.status} />
             </div>
             <p className="text-sm text-gray-500 mt-1">
-              Posted by {task.client?.firstName} {task.client?.lastName} on{" "}
+              Posted by{" "}
+              <Link
+                to={`/users/${task.clientId}`}
+                className="text-indigo-600 hover:underline"
+              >
+                {task.client?.firstName} {task.client?.lastName}
+              </Link>{" "}
+              on{" "}
               {format(parseISO(task.createdAt), "MMM dd, yyyy")}
             </p>
+            {isClient && (
+              <div className="flex flex-wrap gap-2 mt-4">
+                {task.status === TaskStatus.open && !isEditing && (
+                  <button
+                    onClick={startEditing}
+                    className="text-sm border border-gray-300 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-50"
+                  >
+                    <Pencil className="h-4 w-4 inline-block mr-1" /> Edit
+                  </button>
+                )}
+                {CANCELLABLE_STATUSES.includes(task.status) && (
+                  <button
+                    onClick={handleCancelTask}
+                    disabled={cancelTaskMutation.isLoading}
+                    className="text-sm border border-red-300 text-red-600 px-3 py-1.5 rounded-md hover:bg-red-50 disabled:opacity-50"
+                  >
+                    <XCircle className="h-4 w-4 inline-block mr-1" /> Cancel
+                    Project
+                  </button>
+                )}
+                {task.status === TaskStatus.cancelled && (
+                  <button
+                    onClick={() => reopenTaskMutation.mutate()}
+                    disabled={reopenTaskMutation.isLoading}
+                    className="text-sm border border-green-300 text-green-700 px-3 py-1.5 rounded-md hover:bg-green-50 disabled:opacity-50"
+                  >
+                    <RotateCcw className="h-4 w-4 inline-block mr-1" /> Reopen
+                    for Bidding
+                  </button>
+                )}
+              </div>
+            )}
           </div>
+          {isEditing && (
+            <form
+              onSubmit={handleEditSubmit(onEditSubmit)}
+              className="space-y-4 bg-gray-50 p-4 rounded-md border"
+            >
+              <h3 className="font-semibold text-gray-700">Edit Project</h3>
+              <div>
+                <input
+                  {...editRegister("title")}
+                  className="w-full p-2 border rounded-md"
+                  placeholder="Project title"
+                />
+                <p className="text-sm text-red-500 mt-1">
+                  {editErrors.title?.message}
+                </p>
+              </div>
+              <div>
+                <textarea
+                  {...editRegister("description")}
+                  rows={5}
+                  className="w-full p-2 border rounded-md"
+                  placeholder="Project description"
+                ></textarea>
+                <p className="text-sm text-red-500 mt-1">
+                  {editErrors.description?.message}
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <select
+                  {...editRegister("category")}
+                  className="w-full p-2 border rounded-md"
+                >
+                  {Object.values(TaskCategory).map((cat) => (
+                    <option key={cat} value={cat}>
+                      {cat.replace(/_/g, " ")}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  {...editRegister("budgetType")}
+                  className="w-full p-2 border rounded-md capitalize"
+                >
+                  {Object.values(BudgetType).map((type) => (
+                    <option key={type} value={type}>
+                      {type}
+                    </option>
+                  ))}
+                </select>
+                <div>
+                  <input
+                    {...editRegister("budget")}
+                    type="number"
+                    step="0.01"
+                    className="w-full p-2 border rounded-md"
+                    placeholder="Budget ($)"
+                  />
+                  <p className="text-sm text-red-500 mt-1">
+                    {editErrors.budget?.message}
+                  </p>
+                </div>
+                <div>
+                  <input
+                    {...editRegister("deadline")}
+                    type="date"
+                    className="w-full p-2 border rounded-md"
+                  />
+                  <p className="text-sm text-red-500 mt-1">
+                    {editErrors.deadline?.message}
+                  </p>
+                </div>
+                <div>
+                  <input
+                    {...editRegister("maxRevisions")}
+                    type="number"
+                    min={0}
+                    max={10}
+                    className="w-full p-2 border rounded-md"
+                    placeholder="Revision rounds"
+                    title="Revision rounds per milestone"
+                  />
+                  <p className="text-sm text-red-500 mt-1">
+                    {editErrors.maxRevisions?.message}
+                  </p>
+                </div>
+                {watchEdit("budgetType") === BudgetType.hourly && (
+                  <div>
+                    <input
+                      {...editRegister("weeklyHourCap")}
+                      type="number"
+                      step="0.5"
+                      className="w-full p-2 border rounded-md"
+                      placeholder="Weekly hour cap (optional)"
+                    />
+                    <p className="text-sm text-red-500 mt-1">
+                      {editErrors.weeklyHourCap?.message}
+                    </p>
+                  </div>
+                )}
+              </div>
+              <SkillPicker
+                value={editSkills}
+                onChange={setEditSkills}
+                category={watchEdit("category")}
+              />
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={updateTaskMutation.isLoading}
+                  className="flex-1 bg-indigo-600 text-white py-2 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  Save Changes
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setIsEditing(false)}
+                  className="flex-1 border border-gray-300 text-gray-700 py-2 rounded-md hover:bg-gray-100"
+                >
+                  Discard
+                </button>
+              </div>
+            </form>
+          )}
           <div>
             <h2 className="text-xl font-semibold text-gray-800 mb-2">
               Project Details
@@ -343,6 +1100,28 @@ const TaskDetail: React.FC = () => {
             <p className="text-gray-700 whitespace-pre-wrap">
               {task.description}
             </p>
+            {task.skills && task.skills.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-4">
+                {task.skills.map((skill) => (
+                  <span
+                    key={skill.id}
+                    className="px-2 py-1 rounded-full bg-indigo-50 text-indigo-700 text-sm"
+                  >
+                    {skill.name}
+                  </span>
+                ))}
+              </div>
+            )}
+            <AttachmentList
+              parentType="task"
+              parentId={task.id}
+              title="Project Files"
+              canUpload={
+                isClient &&
+                task.status !== TaskStatus.completed &&
+                task.status !== TaskStatus.cancelled
+              }
+            />
           </div>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border-t pt-6">
             <div className="flex items-center text-gray-700">
@@ -366,16 +1145,53 @@ const TaskDetail: React.FC = () => {
               <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center">
                 <Briefcase className="h-5 w-5 mr-2" /> Bids ({bids.length})
               </h2>
-              {bids.length > 0 ? (
-                bids.map((bid) => (
+              {isClient && bids.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {(Object.keys(BID_FILTERS) as BidFilter[]).map((filter) => (
+                    <button
+                      key={filter}
+                      onClick={() => setBidFilter(filter)}
+                      className={`px-3 py-1 rounded-full text-sm capitalize ${
+                        bidFilter === filter
+                          ? "bg-indigo-600 text-white"
+                          : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                      }`}
+                    >
+                      {filter} ({bids.filter(BID_FILTERS[filter]).length})
+                    </button>
+                  ))}
+                </div>
+              )}
+              {filteredBids.length > 0 ? (
+                filteredBids.map((bid) => (
                   <div
                     key={bid.id}
-                    className="bg-gray-50 p-4 rounded-md border mb-3"
+                    className={`bg-gray-50 p-4 rounded-md border mb-3 ${
+                      bid.status === BidStatus.withdrawn ? "opacity-60" : ""
+                    }`}
                   >
                     <div className="flex justify-between items-start">
                       <div>
                         <p className="font-semibold text-indigo-700">
-                          {bid.freelancer?.firstName} {bid.freelancer?.lastName}
+                          <Link
+                            to={`/users/${bid.freelancerId}`}
+                            className="hover:underline"
+                          >
+                            {bid.freelancer?.firstName} {bid.freelancer?.lastName}
+                          </Link>
+                          {bid.status === BidStatus.withdrawn && (
+                            <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-200 text-gray-600">
+                              Withdrawn
+                            </span>
+                          )}
+                          {bid.status === BidStatus.rejected && (
+                            <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-700">
+                              Rejected
+                            </span>
+                          )}
+                          {isClient && bid.isShortlisted && (
+                            <Star className="h-4 w-4 ml-2 inline-block text-yellow-500 fill-yellow-400" />
+                          )}
                         </p>
                         <p className="text-gray-800 text-sm font-bold">
                           ${bid.amount}{" "}
@@ -383,34 +1199,159 @@ const TaskDetail: React.FC = () => {
                             - {bid.timeline}
                           </span>
                         </p>
+                        <RatingSummary stats={bid.freelancerRating} />
                       </div>
-                      {isClient && (
-                        <button
-                          onClick={() => handleAcceptBid(bid.id)}
-                          disabled={acceptBidMutation.isLoading}
-                          className="bg-green-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-green-700 disabled:opacity-50"
-                        >
-                          <UserCheck className="h-4 w-4 inline-block mr-1" />{" "}
-                          Hire
-                        </button>
+                      {bid.freelancerId === user?.id &&
+                        bid.status === BidStatus.pending && (
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => startEditingBid(bid)}
+                              className="text-sm border border-gray-300 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-100"
+                            >
+                              <Pencil className="h-4 w-4 inline-block mr-1" />{" "}
+                              Edit
+                            </button>
+                            <button
+                              onClick={() => handleWithdrawBid(bid.id)}
+                              disabled={withdrawBidMutation.isLoading}
+                              className="text-sm border border-red-300 text-red-600 px-3 py-1.5 rounded-md hover:bg-red-50 disabled:opacity-50"
+                            >
+                              <Undo2 className="h-4 w-4 inline-block mr-1" />{" "}
+                              Withdraw
+                            </button>
+                          </div>
+                        )}
+                      {isClient && bid.status === BidStatus.pending && (
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() =>
+                              shortlistBidMutation.mutate({
+                                bidId: bid.id,
+                                shortlisted: !bid.isShortlisted,
+                              })
+                            }
+                            disabled={shortlistBidMutation.isLoading}
+                            className="border border-yellow-300 text-yellow-700 px-3 py-2 rounded-md text-sm hover:bg-yellow-50 disabled:opacity-50"
+                            title={
+                              bid.isShortlisted
+                                ? "Remove from shortlist"
+                                : "Add to shortlist"
+                            }
+                          >
+                            <Star
+                              className={`h-4 w-4 ${
+                                bid.isShortlisted ? "fill-yellow-400" : ""
+                              }`}
+                            />
+                          </button>
+                          <button
+                            onClick={() => handleRejectBid(bid.id)}
+                            disabled={rejectBidMutation.isLoading}
+                            className="border border-red-300 text-red-600 px-3 py-2 rounded-md text-sm hover:bg-red-50 disabled:opacity-50"
+                            title="Reject bid"
+                          >
+                            <ThumbsDown className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleAcceptBid(bid.id)}
+                            disabled={acceptBidMutation.isLoading}
+                            className="bg-green-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+                          >
+                            <UserCheck className="h-4 w-4 inline-block mr-1" />{" "}
+                            Hire
+                          </button>
+                        </div>
                       )}
                     </div>
                     <p className="text-gray-600 text-sm mt-2 italic">
                       "{bid.proposal}"
                     </p>
+                    {bid.milestonePlan && (
+                      <BidMilestonePlan
+                        plan={bid.milestonePlan}
+                        bidAmount={bid.amount}
+                      />
+                    )}
+                    {bid.status === BidStatus.rejected &&
+                      bid.rejectionReason && (
+                        <p className="text-sm text-red-700 mt-2">
+                          Rejection reason: {bid.rejectionReason}
+                        </p>
+                      )}
+                    {(isClient || bid.freelancerId === user?.id) &&
+                      bid.revisions &&
+                      bid.revisions.length > 0 && (
+                        <details className="mt-2 text-sm">
+                          <summary className="cursor-pointer text-gray-500 flex items-center">
+                            <History className="h-4 w-4 mr-1" /> Edited{" "}
+                            {bid.revisions.length}{" "}
+                            {bid.revisions.length === 1 ? "time" : "times"}
+                          </summary>
+                          <ul className="mt-2 space-y-2 border-l-2 pl-3">
+                            {bid.revisions.map((revision) => (
+                              <li key={revision.id} className="text-gray-600">
+                                <p className="text-xs text-gray-400">
+                                  Before{" "}
+                                  {format(
+                                    parseISO(revision.createdAt),
+                                    "MMM dd, yyyy HH:mm"
+                                  )}
+                                </p>
+                                <p className="font-medium">
+                                  ${revision.amount} - {revision.timeline}
+                                </p>
+                                <p className="italic">"{revision.proposal}"</p>
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      )}
+                    {task &&
+                      (isClient || bid.freelancerId === user?.id) &&
+                      (bid.status === BidStatus.pending ||
+                        (bid.offers && bid.offers.length > 0)) && (
+                        <BidNegotiation bid={bid} clientId={task.clientId} />
+                      )}
+                    {task &&
+                      (isClient || bid.freelancerId === user?.id) &&
+                      bid.status !== BidStatus.accepted && (
+                        <BidThread
+                          bid={bid}
+                          initiallyExpanded={searchParams.get("bid") === bid.id}
+                          counterpartName={
+                            (isClient
+                              ? bid.freelancer?.firstName
+                              : task.client?.firstName) ?? "the other side"
+                          }
+                        />
+                      )}
+                    {(isClient || bid.freelancerId === user?.id) && (
+                      <AttachmentList
+                        parentType="bid"
+                        parentId={bid.id}
+                        title="Work Samples"
+                        canUpload={
+                          bid.freelancerId === user?.id &&
+                          bid.status === BidStatus.pending
+                        }
+                      />
+                    )}
                   </div>
                 ))
               ) : (
-                <p className="text-gray-600 text-sm">No bids yet.</p>
+                <p className="text-gray-600 text-sm">
+                  {bids.length > 0 ? "No bids match this filter." : "No bids yet."}
+                </p>
               )}
               {user?.role === UserRole.freelancer &&
-                !bids.some((b) => b.freelancerId === user.id) && (
+                (editingBidId ||
+                  !bids.some((b) => b.freelancerId === user.id)) && (
                   <form
                     onSubmit={handleBidSubmit(onBidSubmit)}
                     className="mt-4 space-y-4 bg-gray-50 p-4 rounded-md border"
                   >
                     <h3 className="font-semibold text-gray-700">
-                      Submit Your Bid
+                      {editingBidId ? "Update Your Bid" : "Submit Your Bid"}
                     </h3>
                     {/* --- CORRECTED ERROR DISPLAY --- */}
                     <div>
@@ -419,7 +1360,16 @@ const TaskDetail: React.FC = () => {
                         type="number"
                         step="0.01"
                         className="w-full p-2 border rounded-md"
-                        placeholder="Your bid amount ($)"
+                        placeholder={
+                          task.budgetType === BudgetType.hourly
+                            ? "Your hourly rate ($/hr)"
+                            : "Your bid amount ($)"
+                        }
+                      />
+                      <BidFeeEstimate
+                        taskId={task.id}
+                        amount={watchBid("amount")}
+                        isHourly={task.budgetType === BudgetType.hourly}
                       />
                       <p className="text-sm text-red-500 mt-1">
                         {bidErrors.amount?.message}
@@ -447,97 +1397,380 @@ const TaskDetail: React.FC = () => {
                         {bidErrors.timeline?.message}
                       </p>
                     </div>
-                    <button
-                      type="submit"
-                      disabled={bidMutation.isLoading}
-                      className="w-full bg-indigo-600 text-white py-2 rounded-md hover:bg-indigo-700 disabled:opacity-50"
-                    >
-                      Submit Bid
-                    </button>
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium text-gray-700">
+                        Milestone plan (optional)
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Break your bid into stages. If you are hired, each stage
+                        becomes a milestone funded into escrow.
+                      </p>
+                      {planFields.map((field, index) => (
+                        <div
+                          key={field.id}
+                          className="grid grid-cols-12 gap-2 items-start"
+                        >
+                          <input
+                            {...bidRegister(`milestones.${index}.title`)}
+                            className="col-span-5 p-2 border rounded-md text-sm"
+                            placeholder={`Stage ${index + 1} title`}
+                          />
+                          <input
+                            {...bidRegister(`milestones.${index}.amount`)}
+                            type="number"
+                            step="0.01"
+                            className="col-span-3 p-2 border rounded-md text-sm"
+                            placeholder="Amount ($)"
+                          />
+                          <input
+                            {...bidRegister(`milestones.${index}.dueDate`)}
+                            type="date"
+                            className="col-span-3 p-2 border rounded-md text-sm"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => removePlanStage(index)}
+                            className="col-span-1 p-2 text-red-500 hover:text-red-700"
+                            title="Remove stage"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                          <input
+                            {...bidRegister(`milestones.${index}.description`)}
+                            className="col-span-11 p-2 border rounded-md text-sm"
+                            placeholder="What is delivered in this stage (optional)"
+                          />
+                          {bidErrors.milestones?.[index] && (
+                            <p className="col-span-12 text-sm text-red-500">
+                              {bidErrors.milestones[index]?.title?.message ||
+                                bidErrors.milestones[index]?.amount?.message ||
+                                bidErrors.milestones[index]?.dueDate?.message}
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                      <p className="text-sm text-red-500">
+                        {bidErrors.milestones?.message}
+                      </p>
+                      {planFields.length < 20 && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            appendPlanStage({
+                              title: "",
+                              description: "",
+                              amount: 0,
+                              dueDate: "",
+                            })
+                          }
+                          className="text-sm text-indigo-600 hover:underline flex items-center"
+                        >
+                          <Plus className="h-4 w-4 mr-1" /> Add a stage
+                        </button>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        type="submit"
+                        disabled={
+                          bidMutation.isLoading || updateBidMutation.isLoading
+                        }
+                        className="flex-1 bg-indigo-600 text-white py-2 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                      >
+                        {editingBidId ? "Save Changes" : "Submit Bid"}
+                      </button>
+                      {editingBidId && (
+                        <button
+                          type="button"
+                          onClick={stopEditingBid}
+                          className="flex-1 border border-gray-300 text-gray-700 py-2 rounded-md hover:bg-gray-100"
+                        >
+                          Discard
+                        </button>
+                      )}
+                    </div>
                   </form>
                 )}
             </div>
           )}
 
+          {task.budgetType === BudgetType.hourly &&
+            assignedFreelancer &&
+            (isClient || isAssignedFreelancer) && (
+              <div className="border-t pt-6">
+                <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center">
+                  <Timer className="h-5 w-5 mr-2 text-indigo-600" /> Time
+                  Tracking
+                </h2>
+                <HourlyTimesheets
+                  taskId={taskId}
+                  isClient={isClient}
+                  isAssignedFreelancer={isAssignedFreelancer}
+                  isActive={
+                    task.status === TaskStatus.assigned ||
+                    task.status === TaskStatus.in_progress
+                  }
+                />
+              </div>
+            )}
+
+          {task.status === TaskStatus.completed &&
+            assignedFreelancer &&
+            (isClient || isAssignedFreelancer) && (
+              <div className="border-t pt-6">
+                <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center">
+                  <ThumbsUp className="h-5 w-5 mr-2 text-indigo-600" /> Reviews
+                </h2>
+                <TaskReviews
+                  taskId={taskId}
+                  counterpartName={
+                    (isClient
+                      ? assignedFreelancer.freelancer?.firstName
+                      : task.client?.firstName) ?? "the other side"
+                  }
+                />
+              </div>
+            )}
+
           {task.status !== TaskStatus.open && (
             <div className="border-t pt-6">
               <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center">
                 <Award className="h-5 w-5 mr-2 text-yellow-600" /> Milestones
               </h2>
               {milestones.length > 0 ? (
-                milestones.map((m) => (
-                  <div
-                    key={m.id}
-                    className="bg-gray-50 p-4 rounded-md border mb-3"
-                  >
-                    <div className="flex justify-between items-start">
-                      <div>
-                        <p className="font-semibold text-gray-800">
-                          {m.title} -{" "}
-                          <span className="font-bold text-green-700">
-                            ${m.amount}
+                milestones.map((m, index) => {
+                  const dependency = milestones.find(
+                    (other) => other.id === m.dependsOnId
+                  );
+                  const isBlocked =
+                    !!dependency && dependency.status !== MilestoneStatus.paid;
+                  return (
+                    <div
+                      key={m.id}
+                      className="bg-gray-50 p-4 rounded-md border mb-3"
+                    >
+                      <div className="flex justify-between items-start">
+                        <div className="flex-1">
+                          <p className="font-semibold text-gray-800 flex items-center">
+                            {isClient && milestones.length > 1 && (
+                              <span className="flex flex-col mr-2">
+                                <button
+                                  onClick={() => handleMoveMilestone(index, -1)}
+                                  disabled={
+                                    index === 0 ||
+                                    reorderMilestonesMutation.isLoading
+                                  }
+                                  className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                                  title="Move up"
+                                >
+                                  <ChevronUp className="h-4 w-4" />
+                                </button>
+                                <button
+                                  onClick={() => handleMoveMilestone(index, 1)}
+                                  disabled={
+                                    index === milestones.length - 1 ||
+                                    reorderMilestonesMutation.isLoading
+                                  }
+                                  className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                                  title="Move down"
+                                >
+                                  <ChevronDown className="h-4 w-4" />
+                                </button>
+                              </span>
+                            )}
+                            <span>
+                              {m.title} -{" "}
+                              <span className="font-bold text-green-700">
+                                ${m.amount}
+                              </span>
+                            </span>
+                          </p>
+                          <p className="text-sm text-gray-500">
+                            Due: {format(parseISO(m.dueDate), "MMM dd, yyyy")}
+                          </p>
+                          {dependency && (
+                            <p
+                              className={`text-sm flex items-center ${
+                                isBlocked ? "text-orange-600" : "text-gray-500"
+                              }`}
+                            >
+                              <Link2 className="h-3.5 w-3.5 mr-1" />
+                              Starts after "{dependency.title}"
+                              {isBlocked && " (not paid yet)"}
+                            </p>
+                          )}
+                          {editingMilestoneId === m.id ? (
+                            <MilestoneEditForm
+                              milestone={m}
+                              milestones={milestones}
+                              hasFreelancer={!!assignedFreelancer}
+                              onDone={() => setEditingMilestoneId(null)}
+                            />
+                          ) : (
+                            <p className="text-sm text-gray-600 mt-2">
+                              {m.description}
+                            </p>
+                          )}
+                          {(isClient || isAssignedFreelancer) && (
+                            <MilestoneAmountChange
+                              milestone={m}
+                              isAssignedFreelancer={isAssignedFreelancer}
+                            />
+                          )}
+                          {(isClient || isAssignedFreelancer) && (
+                            <AttachmentList
+                              parentType="milestone"
+                              parentId={m.id}
+                              title="Deliverables"
+                              canUpload={
+                                isAssignedFreelancer &&
+                                (m.status === MilestoneStatus.pending ||
+                                  m.status === MilestoneStatus.in_progress)
+                              }
+                            />
+                          )}
+                          {(isClient || isAssignedFreelancer) && (
+                            <MilestoneRevisions
+                              milestone={m}
+                              maxRevisions={task.maxRevisions}
+                              isClient={isClient}
+                            />
+                          )}
+                        </div>
+                        <div className="text-right flex-shrink-0 ml-4">
+                          <span
+                            className={`px-2 py-1 text-xs font-semibold rounded-full capitalize bg-${
+                              m.status === MilestoneStatus.paid
+                                ? "green"
+                                : m.status === MilestoneStatus.completed
+                                ? "blue"
+                                : m.status === MilestoneStatus.disputed
+                                ? "red"
+                                : m.status === MilestoneStatus.proposed
+                                ? "purple"
+                                : "yellow"
+                            }-100 text-${
+                              m.status === MilestoneStatus.paid
+                                ? "green"
+                                : m.status === MilestoneStatus.completed
+                                ? "blue"
+                                : m.status === MilestoneStatus.disputed
+                                ? "red"
+                                : m.status === MilestoneStatus.proposed
+                                ? "purple"
+                                : "yellow"
+                            }-800`}
+                          >
+                            {m.status.replace("_", " ")}
                           </span>
-                        </p>
-                        <p className="text-sm text-gray-500">
-                          Due: {format(parseISO(m.dueDate), "MMM dd, yyyy")}
-                        </p>
-                        <p className="text-sm text-gray-600 mt-2">
-                          {m.description}
-                        </p>
-                      </div>
-                      <div className="text-right flex-shrink-0 ml-4">
-                        <span
-                          className={`px-2 py-1 text-xs font-semibold rounded-full capitalize bg-${
-                            m.status === MilestoneStatus.paid
-                              ? "green"
-                              : m.status === MilestoneStatus.completed
-                              ? "blue"
-                              : "yellow"
-                          }-100 text-${
-                            m.status === MilestoneStatus.paid
-                              ? "green"
-                              : m.status === MilestoneStatus.completed
-                              ? "blue"
-                              : "yellow"
-                          }-800`}
-                        >
-                          {m.status.replace("_", " ")}
-                        </span>
-                        {isAssignedFreelancer &&
-                          m.status === MilestoneStatus.pending && (
+                          {isAssignedFreelancer &&
+                            (m.status === MilestoneStatus.pending ||
+                              m.status === MilestoneStatus.in_progress) && (
+                              <button
+                                onClick={() =>
+                                  milestoneCompletionMutation.mutate(m.id)
+                                }
+                                disabled={isBlocked}
+                                title={
+                                  isBlocked
+                                    ? `Waiting for "${dependency?.title}" to be paid`
+                                    : undefined
+                                }
+                                className="mt-2 text-sm bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700 w-full disabled:opacity-50"
+                              >
+                                {m.status === MilestoneStatus.in_progress
+                                  ? "Resubmit Work"
+                                  : "Mark as Complete"}
+                              </button>
+                            )}
+                          {isClient && m.status === MilestoneStatus.completed && (
                             <button
-                              onClick={() =>
-                                milestoneCompletionMutation.mutate(m.id)
-                              }
-                              className="mt-2 text-sm bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700 w-full"
+                              onClick={() => releasePaymentMutation.mutate(m.id)}
+                              className="mt-2 text-sm bg-green-600 text-white px-3 py-1 rounded hover:bg-green-700 w-full"
                             >
-                              Mark as Complete
+                              Release Payment
                             </button>
                           )}
-                        {isClient && m.status === MilestoneStatus.completed && (
-                          <button
-                            onClick={() => releasePaymentMutation.mutate(m.id)}
-                            className="mt-2 text-sm bg-green-600 text-white px-3 py-1 rounded hover:bg-green-700 w-full"
-                          >
-                            Release Payment
-                          </button>
-                        )}
+                          {isClient &&
+                            m.status === MilestoneStatus.pending &&
+                            editingMilestoneId !== m.id && (
+                              <div className="mt-2 flex gap-1 justify-end">
+                                <button
+                                  onClick={() => setEditingMilestoneId(m.id)}
+                                  className="text-sm border border-gray-300 text-gray-700 px-2 py-1 rounded hover:bg-gray-100"
+                                  title="Edit milestone"
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </button>
+                                <button
+                                  onClick={() => handleCancelMilestone(m)}
+                                  disabled={cancelMilestoneMutation.isLoading}
+                                  className="text-sm border border-red-300 text-red-600 px-2 py-1 rounded hover:bg-red-50 disabled:opacity-50"
+                                  title="Cancel milestone"
+                                >
+                                  <XCircle className="h-4 w-4" />
+                                </button>
+                              </div>
+                            )}
+                          {isClient && m.status === MilestoneStatus.proposed && (
+                            <div className="mt-2 space-y-1">
+                              <button
+                                onClick={() => handleApproveMilestone(m)}
+                                disabled={approveMilestoneMutation.isLoading}
+                                className="text-sm bg-green-600 text-white px-3 py-1 rounded hover:bg-green-700 w-full disabled:opacity-50"
+                              >
+                                Approve &amp; Fund
+                              </button>
+                              <button
+                                onClick={() => handleDeclineMilestone(m.id)}
+                                disabled={declineMilestoneMutation.isLoading}
+                                className="text-sm border border-red-300 text-red-600 px-3 py-1 rounded hover:bg-red-50 w-full disabled:opacity-50"
+                              >
+                                Decline
+                              </button>
+                            </div>
+                          )}
+                          {(isClient || isAssignedFreelancer) &&
+                            (m.status === MilestoneStatus.pending ||
+                              m.status === MilestoneStatus.in_progress ||
+                              m.status === MilestoneStatus.completed) && (
+                              <button
+                                onClick={() => handleOpenDispute(m.id)}
+                                disabled={openDisputeMutation.isLoading}
+                                className="mt-2 text-sm text-red-600 hover:underline flex items-center justify-end w-full"
+                              >
+                                <AlertTriangle className="h-4 w-4 mr-1" /> Open
+                                dispute
+                              </button>
+                            )}
+                          {m.disputes && m.disputes.length > 0 && (
+                            <Link
+                              to={`/disputes/${m.disputes[0].id}`}
+                              className="mt-2 block text-sm text-indigo-600 hover:underline"
+                            >
+                              {m.disputes[0].status === DisputeStatus.open
+                                ? "View dispute"
+                                : "View dispute ruling"}
+                            </Link>
+                          )}
+                        </div>
                       </div>
                     </div>
-                  </div>
-                ))
+                  );
+                })
               ) : (
                 <p className="text-gray-600 text-sm">
                   No milestones defined yet.
                 </p>
               )}
-              {isClient && (
+              {(isClient || isAssignedFreelancer) && (
                 <form
                   onSubmit={handleMilestoneSubmit(onMilestoneSubmit)}
                   className="mt-4 space-y-4 bg-gray-50 p-4 rounded-md border"
                 >
                   <h3 className="font-semibold text-gray-700 flex items-center">
-                    <Plus className="h-4 w-4 mr-1" /> Add a New Milestone
+                    <Plus className="h-4 w-4 mr-1" />{" "}
+                    {isClient ? "Add a New Milestone" : "Propose a Milestone"}
                   </h3>
                   {/* --- CORRECTED ERROR DISPLAY --- */}
                   <div>
@@ -585,13 +1818,31 @@ const TaskDetail: React.FC = () => {
                       </p>
                     </div>
                   </div>
+                  {liveMilestones.length > 0 && (
+                    <select
+                      {...milestoneRegister("dependsOnId")}
+                      className="w-full p-2 border rounded-md"
+                    >
+                      <option value="">Can start right away</option>
+                      {liveMilestones.map((m) => (
+                        <option key={m.id} value={m.id}>
+                          Starts after "{m.title}"
+                        </option>
+                      ))}
+                    </select>
+                  )}
                   <button
                     type="submit"
                     disabled={milestoneMutation.isLoading}
                     className="w-full bg-indigo-600 text-white py-2 rounded-md hover:bg-indigo-700 disabled:opacity-50"
                   >
-                    Add Milestone
+                    {isClient ? "Add Milestone" : "Propose Milestone"}
                   </button>
+                  <p className="text-xs text-gray-500 text-center">
+                    {isClient
+                      ? "The milestone amount is charged now and held in escrow until you release payment."
+                      : "The client is asked to approve and fund the milestone before work on it starts."}
+                  </p>
                 </form>
               )}
             </div>
@@ -602,40 +1853,37 @@ const TaskDetail: React.FC = () => {
           <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
             <MessageSquare className="h-5 w-5 mr-2" /> Project Chat
           </h2>
-          <div className="flex-1 overflow-y-auto space-y-4 pr-2 border-t pt-4">
+          <div
+            ref={chatContainerRef}
+            onScroll={(e) =>
+              e.currentTarget.scrollTop < 40 && loadOlderMessages()
+            }
+            className="flex-1 overflow-y-auto space-y-4 pr-2 border-t pt-4"
+          >
+            {isChatActive && olderMessagesCursor && (
+              <p className="text-xs text-gray-400 text-center">
+                {isLoadingOlderMessages
+                  ? "Loading older messages..."
+                  : "Scroll up for older messages"}
+              </p>
+            )}
             {!isChatActive ? (
               <div className="text-center text-gray-500 pt-16">
                 <ShieldCheck className="h-12 w-12 mx-auto text-gray-400 mb-2" />
                 <h3 className="font-semibold">Private Chat</h3>
                 <p>
                   Hire a freelancer to begin a private conversation about the
-                  project.
+                  project. Until then, message bidders from their bids.
                 </p>
               </div>
             ) : messages.length > 0 ? (
               messages.map((msg) => (
-                <div
+                <ChatMessage
                   key={msg.id}
-                  className={`flex ${
-                    msg.senderId === user?.id ? "justify-end" : "justify-start"
-                  }`}
-                >
-                  <div
-                    className={`max-w-[80%] p-3 rounded-lg ${
-                      msg.senderId === user?.id
-                        ? "bg-indigo-600 text-white rounded-br-none"
-                        : "bg-gray-100 text-gray-800 rounded-bl-none"
-                    }`}
-                  >
-                    <div className="font-semibold text-xs mb-1">
-                      {msg.sender?.firstName} {msg.sender?.lastName}
-                    </div>
-                    <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
-                    <p className="text-xs text-right opacity-75 mt-1">
-                      {format(parseISO(msg.createdAt), "HH:mm")}
-                    </p>
-                  </div>
-                </div>
+                  message={msg}
+                  isOwn={msg.senderId === user?.id}
+                  isSeen={msg.id === lastSeenMessageId}
+                />
               ))
             ) : (
               <p className="text-gray-500 text-center mt-8">
@@ -650,26 +1898,13 @@ const TaskDetail: React.FC = () => {
                 A user is typing...
               </p>
             )}
-            <div className="flex items-center space-x-2">
-              <input
-                type="text"
-                value={chatMessage}
-                onChange={(e) => setChatMessage(e.target.value)}
-                onKeyPress={(e) => e.key === "Enter" && handleSendMessage()}
-                className="flex-1 px-4 py-2 border border-gray-300 rounded-md disabled:bg-gray-100"
-                placeholder={
-                  canChat ? "Type your message..." : "Chat is unavailable"
-                }
-                disabled={!canChat}
-              />
-              <button
-                onClick={handleSendMessage}
-                disabled={!canChat || !chatMessage.trim()}
-                className="bg-indigo-600 text-white p-2.5 rounded-md hover:bg-indigo-700 disabled:opacity-50"
-              >
-                <Send className="h-5 w-5" />
-              </button>
-            </div>
+            <ChatComposer
+              thread={{ taskId }}
+              disabled={!canChat}
+              placeholder={
+                canChat ? "Type your message..." : "Chat is unavailable"
+              }
+            />
             {!isConnected && (
               <p className="text-red-500 text-sm mt-1">
                 Disconnected from chat server.
@@ -0,0 +1,159 @@
+// src/pages/Wallet.tsx
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "react-query";
+import { AxiosError } from "axios";
+import { format, parseISO } from "date-fns";
+import { ArrowDownToLine, Lock, Wallet as WalletIcon } from "lucide-react";
+import { toast } from "react-toastify";
+import { walletApi } from "../services/api";
+import { ApiResponse, LedgerEntryType, WalletSummary } from "../types";
+
+const ENTRY_LABELS: Record<LedgerEntryType, string> = {
+  [LedgerEntryType.deposit]: "Payment",
+  [LedgerEntryType.escrow_fund]: "Escrow funded",
+  [LedgerEntryType.escrow_release]: "Milestone payment",
+  [LedgerEntryType.escrow_refund]: "Escrow refund",
+  [LedgerEntryType.payout]: "Withdrawal",
+  [LedgerEntryType.payout_reversal]: "Withdrawal returned",
+  [LedgerEntryType.platform_fee]: "Service fee",
+};
+
+const formatMoney = (amount: number) =>
+  amount.toLocaleString("en-US", { style: "currency", currency: "USD" });
+
+const Wallet: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [amount, setAmount] = useState("");
+
+  const { data: wallet, isLoading, isError } = useQuery<WalletSummary, Error>(
+    "wallet",
+    async () => {
+      const response = await walletApi.get();
+      if (!response.data.success || !response.data.data) {
+        throw new Error(
+          response.data.error?.toString() || "Failed to fetch wallet"
+        );
+      }
+      return response.data.data;
+    }
+  );
+
+  const withdrawMutation = useMutation<
+    unknown,
+    AxiosError<ApiResponse>,
+    number
+  >((value) => walletApi.withdraw(value), {
+    onSuccess: () => {
+      toast.success("Withdrawal sent.");
+      setAmount("");
+      queryClient.invalidateQueries("wallet");
+    },
+    onError: (err) => {
+      const error = err.response?.data?.error;
+      toast.error(typeof error === "string" ? error : "Withdrawal failed.");
+    },
+  });
+
+  const handleWithdraw = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    if (!(value > 0)) {
+      toast.error("Enter a positive amount.");
+      return;
+    }
+    withdrawMutation.mutate(value);
+  };
+
+  if (isLoading) return <div className="p-8 text-center">Loading wallet...</div>;
+  if (isError || !wallet)
+    return (
+      <div className="p-8 text-center text-red-500">Error loading wallet.</div>
+    );
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-3xl font-bold text-gray-900 mb-6">Wallet</h1>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        <div className="bg-white p-6 rounded-lg shadow-sm border">
+          <div className="flex items-center text-gray-500 text-sm">
+            <WalletIcon className="h-4 w-4 mr-2" /> Available balance
+          </div>
+          <p className="text-3xl font-bold text-gray-900 mt-2">
+            {formatMoney(wallet.balance)}
+          </p>
+          {wallet.balance > 0 && (
+            <form onSubmit={handleWithdraw} className="flex gap-2 mt-4">
+              <input
+                type="number"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="Amount"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                type="submit"
+                disabled={withdrawMutation.isLoading}
+                className="inline-flex items-center bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                <ArrowDownToLine className="h-4 w-4 mr-1" /> Withdraw
+              </button>
+            </form>
+          )}
+        </div>
+        <div className="bg-white p-6 rounded-lg shadow-sm border">
+          <div className="flex items-center text-gray-500 text-sm">
+            <Lock className="h-4 w-4 mr-2" /> Held in escrow
+          </div>
+          <p className="text-3xl font-bold text-gray-900 mt-2">
+            {formatMoney(wallet.inEscrow)}
+          </p>
+          <p className="text-sm text-gray-500 mt-2">
+            Funded milestones on your projects that have not been paid out yet.
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border">
+        <h2 className="text-lg font-semibold px-6 py-4 border-b">
+          Recent activity
+        </h2>
+        {wallet.entries.length === 0 ? (
+          <p className="px-6 py-8 text-center text-sm text-gray-500">
+            No transactions yet.
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {wallet.entries.map((entry) => (
+              <li
+                key={entry.id}
+                className="px-6 py-3 flex items-center justify-between"
+              >
+                <div>
+                  <p className="font-medium text-gray-800">
+                    {ENTRY_LABELS[entry.type]}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {entry.description} &middot;{" "}
+                    {format(parseISO(entry.createdAt), "MMM dd, yyyy HH:mm")}
+                  </p>
+                </div>
+                <span
+                  className={`font-semibold ${
+                    entry.amount >= 0 ? "text-green-600" : "text-gray-700"
+                  }`}
+                >
+                  {entry.amount >= 0 ? "+" : ""}
+                  {formatMoney(entry.amount)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Wallet;
@@ -3,7 +3,7 @@ import React from 'react';
 import { useQuery } from 'react-query';
 import { adminApi } from '../../services/api';
 import { AdminStatsData } from '../../types';
-import { Users, Briefcase, FileText, CheckCircle, Clock } from 'lucide-react';
+import { Users, Briefcase, FileText, CheckCircle, Clock, DollarSign, TrendingUp } from 'lucide-react';
 import { Link } from 'react-router-dom';
 
 const StatCard: React.FC<{ icon: React.ReactNode; title: string; value: number | string; color: string }> = ({ icon, title, value, color }) => (
@@ -18,6 +18,9 @@ const StatCard: React.FC<{ icon: React.ReactNode; title: string; value: number |
   </div>
 );
 
+const formatMoney = (amount: number) =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
 const AdminDashboard: React.FC = () => {
   const { data: stats, isLoading, isError } = useQuery<AdminStatsData, Error>(
     'adminStats',
@@ -50,6 +53,11 @@ const AdminDashboard: React.FC = () => {
         <StatCard icon={<CheckCircle className="h-6 w-6 text-white" />} title="Completed Tasks" value={stats?.completedTasks ?? 0} color="bg-gray-500" />
       </div>
 
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        <StatCard icon={<DollarSign className="h-6 w-6 text-white" />} title="Platform Fees Collected" value={formatMoney(stats?.platformRevenue ?? 0)} color="bg-emerald-600" />
+        <StatCard icon={<TrendingUp className="h-6 w-6 text-white" />} title="Fees, Last 30 Days" value={formatMoney(stats?.platformRevenueLast30Days ?? 0)} color="bg-teal-500" />
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border dark:border-gray-700">
           <h2 className="text-xl font-semibold mb-4">Management</h2>
@@ -60,6 +68,12 @@ const AdminDashboard: React.FC = () => {
             <Link to="/admin/tasks" className="block w-full text-center bg-gray-600 text-white py-3 px-4 rounded-md hover:bg-gray-700 transition-colors">
               Manage Tasks
             </Link>
+            <Link to="/admin/skills" className="block w-full text-center bg-gray-600 text-white py-3 px-4 rounded-md hover:bg-gray-700 transition-colors">
+              Manage Skills
+            </Link>
+            <Link to="/admin/disputes" className="block w-full text-center bg-red-600 text-white py-3 px-4 rounded-md hover:bg-red-700 transition-colors">
+              Review Disputes
+            </Link>
           </div>
         </div>
       </div>
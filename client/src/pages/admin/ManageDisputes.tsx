@@ -0,0 +1,134 @@
+// src/pages/admin/ManageDisputes.tsx
+import React, { useState } from "react";
+import { useQuery } from "react-query";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { adminApi } from "../../services/api";
+import { DisputeStatus, DisputeSummary } from "../../types";
+
+const ManageDisputes: React.FC = () => {
+  const [status, setStatus] = useState<DisputeStatus>(DisputeStatus.open);
+
+  const {
+    data: disputes,
+    isLoading,
+    isError,
+  } = useQuery<DisputeSummary[], Error>(["adminDisputes", status], async () => {
+    const response = await adminApi.getDisputes(status);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(
+        response.data.error?.toString() || "Failed to fetch disputes"
+      );
+    }
+    return response.data.data;
+  });
+
+  return (
+    <div className="max-w-7xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <div className="mb-6">
+        <Link
+          to="/admin"
+          className="text-indigo-600 dark:text-indigo-400 hover:underline"
+        >
+          &larr; Back to Admin Dashboard
+        </Link>
+        <h1 className="text-3xl font-bold mt-2">Disputes</h1>
+      </div>
+      <div className="flex gap-2 mb-4">
+        {Object.values(DisputeStatus).map((value) => (
+          <button
+            key={value}
+            onClick={() => setStatus(value)}
+            className={`px-3 py-1.5 rounded-md text-sm capitalize ${
+              status === value
+                ? "bg-indigo-600 text-white"
+                : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+            }`}
+          >
+            {value}
+          </button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="p-8 text-center">Loading disputes...</div>
+      ) : isError ? (
+        <div className="p-8 text-center text-red-500">
+          Error loading disputes.
+        </div>
+      ) : disputes && disputes.length > 0 ? (
+        <div className="bg-white dark:bg-gray-800 shadow-sm border dark:border-gray-700 rounded-lg overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th
+                  scope="col"
+                  className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider"
+                >
+                  Milestone
+                </th>
+                <th
+                  scope="col"
+                  className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider"
+                >
+                  Amount
+                </th>
+                <th
+                  scope="col"
+                  className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider"
+                >
+                  Opened By
+                </th>
+                <th
+                  scope="col"
+                  className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider"
+                >
+                  Evidence
+                </th>
+                <th
+                  scope="col"
+                  className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider"
+                >
+                  Opened On
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {disputes.map((dispute) => (
+                <tr key={dispute.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <Link
+                      to={`/disputes/${dispute.id}`}
+                      className="text-sm font-medium text-indigo-600 hover:underline"
+                    >
+                      {dispute.milestone.title}
+                    </Link>
+                    <p className="text-xs text-gray-500">
+                      {dispute.milestone.task.title}
+                    </p>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    ${dispute.milestone.amount.toFixed(2)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {dispute.openedBy.firstName} {dispute.openedBy.lastName}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {dispute._count.evidence}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {format(new Date(dispute.createdAt), "MMM dd, yyyy")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-gray-600">No {status} disputes.</p>
+      )}
+    </div>
+  );
+};
+
+export default ManageDisputes;
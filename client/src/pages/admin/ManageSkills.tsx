@@ -0,0 +1,253 @@
+// src/pages/admin/ManageSkills.tsx
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "react-query";
+import { adminApi } from "../../services/api";
+import { AdminSkill, SkillPayload, TaskCategory } from "../../types";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "react-toastify";
+import { Link } from "react-router-dom";
+
+const formatCategory = (cat: string) => cat.replace(/_/g, " ");
+
+const ManageSkills: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [category, setCategory] = useState<TaskCategory | "">("");
+
+  const {
+    data: skills,
+    isLoading,
+    isError,
+  } = useQuery<AdminSkill[], Error>("adminSkills", async () => {
+    const response = await adminApi.getSkills();
+    if (!response.data.success || !response.data.data) {
+      throw new Error(
+        response.data.error?.toString() || "Failed to fetch skills"
+      );
+    }
+    return response.data.data;
+  });
+
+  const onMutationError = (err: any) => {
+    toast.error(err?.response?.data?.error || err.message || "Request failed.");
+  };
+
+  const createSkillMutation = useMutation<any, Error, SkillPayload>(
+    (payload) => adminApi.createSkill(payload),
+    {
+      onSuccess: (data) => {
+        toast.success(data?.data?.message || "Skill created.");
+        setName("");
+        queryClient.invalidateQueries("adminSkills");
+      },
+      onError: onMutationError,
+    }
+  );
+
+  const updateSkillMutation = useMutation<
+    any,
+    Error,
+    { id: string; payload: Partial<SkillPayload> }
+  >(({ id, payload }) => adminApi.updateSkill(id, payload), {
+    onSuccess: (data) => {
+      toast.success(data?.data?.message || "Skill updated.");
+      queryClient.invalidateQueries("adminSkills");
+    },
+    onError: onMutationError,
+  });
+
+  const deleteSkillMutation = useMutation<any, Error, string>(
+    (skillId) => adminApi.deleteSkill(skillId),
+    {
+      onSuccess: (data) => {
+        toast.success(data?.data?.message || "Skill deleted.");
+        queryClient.invalidateQueries("adminSkills");
+      },
+      onError: onMutationError,
+    }
+  );
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    createSkillMutation.mutate({ name: name.trim(), category: category || null });
+  };
+
+  const handleRename = (skill: AdminSkill) => {
+    const newName = window.prompt("Rename skill:", skill.name);
+    if (newName && newName.trim() && newName.trim() !== skill.name) {
+      updateSkillMutation.mutate({ id: skill.id, payload: { name: newName.trim() } });
+    }
+  };
+
+  const handleDelete = (skill: AdminSkill) => {
+    if (
+      window.confirm(
+        `Delete "${skill.name}"? It will be removed from ${skill._count.tasks} tasks and ${skill._count.users} freelancer profiles.`
+      )
+    ) {
+      deleteSkillMutation.mutate(skill.id);
+    }
+  };
+
+  if (isLoading) return <div className="p-8 text-center">Loading skills...</div>;
+  if (isError)
+    return (
+      <div className="p-8 text-center text-red-500">Error loading skills.</div>
+    );
+
+  return (
+    <div className="max-w-7xl mx-auto py-8 px-4 sm:px-6 lg:px-8">
+      <div className="mb-6">
+        <Link
+          to="/admin"
+          className="text-indigo-600 dark:text-indigo-400 hover:underline"
+        >
+          &larr; Back to Admin Dashboard
+        </Link>
+        <h1 className="text-3xl font-bold mt-2">Manage Skills</h1>
+      </div>
+
+      <form
+        onSubmit={handleCreate}
+        className="mb-6 flex flex-col md:flex-row gap-3 bg-white dark:bg-gray-800 p-4 shadow-sm border dark:border-gray-700 rounded-lg"
+      >
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="New skill name, e.g. React"
+          maxLength={50}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value as TaskCategory | "")}
+          className="px-3 py-2 border border-gray-300 rounded-md capitalize focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="">Any category</option>
+          {Object.values(TaskCategory).map((cat) => (
+            <option key={cat} value={cat}>
+              {formatCategory(cat)}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={createSkillMutation.isLoading}
+          className="inline-flex items-center justify-center bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <Plus className="h-4 w-4 mr-1" /> Add Skill
+        </button>
+      </form>
+
+      <div className="bg-white dark:bg-gray-800 shadow-sm border dark:border-gray-700 rounded-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              <th
+                scope="col"
+                className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider"
+              >
+                Skill
+              </th>
+              <th
+                scope="col"
+                className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider"
+              >
+                Category
+              </th>
+              <th
+                scope="col"
+                className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider"
+              >
+                Tasks
+              </th>
+              <th
+                scope="col"
+                className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider"
+              >
+                Freelancers
+              </th>
+              <th
+                scope="col"
+                className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider"
+              >
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {skills?.map((skill) => (
+              <tr key={skill.id}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                  {skill.name}
+                  <span className="ml-2 text-xs text-gray-400">
+                    {skill.slug}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  <select
+                    value={skill.category ?? ""}
+                    onChange={(e) =>
+                      updateSkillMutation.mutate({
+                        id: skill.id,
+                        payload: {
+                          category: (e.target.value as TaskCategory) || null,
+                        },
+                      })
+                    }
+                    className="bg-transparent capitalize focus:outline-none"
+                  >
+                    <option value="">Any category</option>
+                    {Object.values(TaskCategory).map((cat) => (
+                      <option key={cat} value={cat}>
+                        {formatCategory(cat)}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                  {skill._count.tasks}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                  {skill._count.users}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  <button
+                    onClick={() => handleRename(skill)}
+                    disabled={updateSkillMutation.isLoading}
+                    className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-200 p-2 rounded-full hover:bg-indigo-100 dark:hover:bg-indigo-900/50"
+                    title="Rename Skill"
+                  >
+                    <Pencil className="h-5 w-5" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(skill)}
+                    disabled={deleteSkillMutation.isLoading}
+                    className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-200 p-2 rounded-full hover:bg-red-100 dark:hover:bg-red-900/50"
+                    title="Delete Skill"
+                  >
+                    <Trash2 className="h-5 w-5" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {skills?.length === 0 && (
+              <tr>
+                <td
+                  colSpan={5}
+                  className="px-6 py-8 text-center text-sm text-gray-500"
+                >
+                  No skills yet. Add the first one above.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ManageSkills;
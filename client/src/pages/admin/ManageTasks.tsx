@@ -4,7 +4,7 @@ import { useQuery, useMutation, useQueryClient } from "react-query";
 import { adminApi } from "../../services/api";
 import { TaskWithClient, TaskStatus } from "../../types";
 import { format } from "date-fns";
-import { Trash2 } from "lucide-react";
+import { Trash2, XCircle } from "lucide-react";
 import { toast } from "react-toastify";
 import { Link } from "react-router-dom";
 
@@ -40,6 +40,28 @@ const ManageTasks: React.FC = () => {
     }
   );
 
+  const cancelTaskMutation = useMutation<any, Error, string>(
+    (taskId) => adminApi.updateTaskStatus(taskId, TaskStatus.cancelled),
+    {
+      onSuccess: (data) => {
+        toast.success(data?.data?.message || "Task cancelled.");
+        queryClient.invalidateQueries("adminTasks");
+        queryClient.invalidateQueries("adminStats");
+      },
+      onError: (err: any) => {
+        toast.error(
+          err?.response?.data?.error || err.message || "Failed to cancel task."
+        );
+      },
+    }
+  );
+
+  const handleCancelTask = (taskId: string) => {
+    if (window.confirm("Cancel this task on behalf of the platform?")) {
+      cancelTaskMutation.mutate(taskId);
+    }
+  };
+
   const handleDeleteTask = (taskId: string) => {
     if (
       window.confirm(
@@ -136,6 +158,17 @@ const ManageTasks: React.FC = () => {
                   {format(new Date(task.createdAt), "MMM dd, yyyy")}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  {task.status !== TaskStatus.completed &&
+                    task.status !== TaskStatus.cancelled && (
+                      <button
+                        onClick={() => handleCancelTask(task.id)}
+                        disabled={cancelTaskMutation.isLoading}
+                        className="text-yellow-600 hover:text-yellow-900 dark:text-yellow-400 dark:hover:text-yellow-200 p-2 rounded-full hover:bg-yellow-100 dark:hover:bg-yellow-900/50"
+                        title="Cancel Task"
+                      >
+                        <XCircle className="h-5 w-5" />
+                      </button>
+                    )}
                   <button
                     onClick={() => handleDeleteTask(task.id)}
                     disabled={deleteTaskMutation.isLoading}
@@ -11,12 +11,51 @@ import {
   LoginPayload,
   UpdateProfilePayload,
   CreateTaskPayload,
+  UpdateTaskPayload,
+  TaskListParams,
+  TaskSearchParams,
+  TaskSearchData,
+  RecommendedTask,
   CreateBidPayload,
+  UpdateBidPayload,
+  CreateBidOfferPayload,
+  BidOffer,
   CreateMilestonePayload,
+  UpdateMilestonePayload,
   TaskWithClient,
   BidWithFreelancer,
   MessageWithSender,
   AdminStatsData,
+  TaskStatus,
+  Attachment,
+  AttachmentParentType,
+  Skill,
+  UserSkill,
+  AdminSkill,
+  SkillPayload,
+  UpdateSkillsPayload,
+  TaskCategory,
+  WalletSummary,
+  WalletLedgerEntry,
+  Dispute,
+  DisputeDetail,
+  DisputeEvidence,
+  DisputeStatus,
+  DisputeSummary,
+  ResolveDisputePayload,
+  HourlyContractSummary,
+  TimeEntry,
+  TimeEntryPayload,
+  Timesheet,
+  InvoiceKind,
+  InvoiceSummary,
+  FeeEstimate,
+  Review,
+  TaskReviewSummary,
+  CreateReviewPayload,
+  PublicUserProfile,
+  ConversationSummary,
+  ChatThread,
 } from "../types";
 
 const API_BASE_URL = "https://micro-freelance-marketplace.onrender.com/api";
@@ -75,13 +114,35 @@ export const authApi = {
 };
 
 export const tasksApi = {
-  getAll: (): Promise<AxiosResponse<ApiResponse<TaskWithClient[]>>> =>
-    api.get("/tasks"),
+  getAll: (
+    params: TaskListParams = {}
+  ): Promise<AxiosResponse<ApiResponse<TaskWithClient[]>>> =>
+    api.get("/tasks", { params }),
+  search: (
+    params: TaskSearchParams
+  ): Promise<AxiosResponse<ApiResponse<TaskSearchData>>> =>
+    api.get("/tasks/search", { params }),
+  getRecommended: (
+    limit?: number
+  ): Promise<AxiosResponse<ApiResponse<RecommendedTask[]>>> =>
+    api.get("/tasks/recommended", { params: { limit } }),
   create: (
     taskData: CreateTaskPayload
   ): Promise<AxiosResponse<ApiResponse<Task>>> => api.post("/tasks", taskData),
   getById: (id: string): Promise<AxiosResponse<ApiResponse<TaskWithClient>>> =>
     api.get(`/tasks/${id}`),
+  update: (
+    id: string,
+    taskData: UpdateTaskPayload
+  ): Promise<AxiosResponse<ApiResponse<Task>>> =>
+    api.patch(`/tasks/${id}`, taskData),
+  cancel: (
+    id: string,
+    reason?: string
+  ): Promise<AxiosResponse<ApiResponse<Task>>> =>
+    api.patch(`/tasks/${id}/cancel`, { reason }),
+  reopen: (id: string): Promise<AxiosResponse<ApiResponse<Task>>> =>
+    api.patch(`/tasks/${id}/reopen`),
 };
 
 export const bidsApi = {
@@ -91,9 +152,42 @@ export const bidsApi = {
     api.get(`/bids/task/${taskId}`),
   getMyBids: (): Promise<AxiosResponse<ApiResponse<BidWithFreelancer[]>>> =>
     api.get('/bids/my-bids'),
+  getFeeEstimate: (
+    taskId: string,
+    amount: number
+  ): Promise<AxiosResponse<ApiResponse<FeeEstimate>>> =>
+    api.get(`/bids/task/${taskId}/fee-estimate`, { params: { amount } }),
   create: (
     bidData: CreateBidPayload
   ): Promise<AxiosResponse<ApiResponse<Bid>>> => api.post("/bids", bidData),
+  update: (
+    bidId: string,
+    bidData: UpdateBidPayload
+  ): Promise<AxiosResponse<ApiResponse<Bid>>> =>
+    api.patch(`/bids/${bidId}`, bidData),
+  withdraw: (bidId: string): Promise<AxiosResponse<ApiResponse<Bid>>> =>
+    api.patch(`/bids/${bidId}/withdraw`),
+  reject: (
+    bidId: string,
+    reason?: string
+  ): Promise<AxiosResponse<ApiResponse<Bid>>> =>
+    api.patch(`/bids/${bidId}/reject`, { reason }),
+  shortlist: (
+    bidId: string,
+    shortlisted: boolean
+  ): Promise<AxiosResponse<ApiResponse<Bid>>> =>
+    api.patch(`/bids/${bidId}/shortlist`, { shortlisted }),
+  createOffer: (
+    bidId: string,
+    offer: CreateBidOfferPayload
+  ): Promise<AxiosResponse<ApiResponse<BidOffer>>> =>
+    api.post(`/bids/${bidId}/offers`, offer),
+  respondToOffer: (
+    bidId: string,
+    offerId: string,
+    action: "accept" | "decline" | "cancel"
+  ): Promise<AxiosResponse<ApiResponse<BidOffer>>> =>
+    api.patch(`/bids/${bidId}/offers/${offerId}/${action}`),
   accept: (bidId: string): Promise<AxiosResponse<ApiResponse>> =>
     api.patch(`/bids/${bidId}/accept`),
 };
@@ -111,10 +205,44 @@ export const milestonesApi = {
     milestoneId: string
   ): Promise<AxiosResponse<ApiResponse<Milestone>>> =>
     api.patch(`/milestones/${milestoneId}/complete`),
+  requestChanges: (
+    milestoneId: string,
+    feedback: string
+  ): Promise<AxiosResponse<ApiResponse<Milestone>>> =>
+    api.patch(`/milestones/${milestoneId}/request-changes`, { feedback }),
   releasePayment: (
     milestoneId: string
   ): Promise<AxiosResponse<ApiResponse<Milestone>>> =>
     api.patch(`/milestones/${milestoneId}/release-payment`),
+  approve: (
+    milestoneId: string
+  ): Promise<AxiosResponse<ApiResponse<Milestone>>> =>
+    api.patch(`/milestones/${milestoneId}/approve`),
+  decline: (
+    milestoneId: string,
+    reason?: string
+  ): Promise<AxiosResponse<ApiResponse<Milestone>>> =>
+    api.patch(`/milestones/${milestoneId}/decline`, { reason }),
+  update: (
+    milestoneId: string,
+    data: UpdateMilestonePayload
+  ): Promise<AxiosResponse<ApiResponse<Milestone>>> =>
+    api.patch(`/milestones/${milestoneId}`, data),
+  cancel: (
+    milestoneId: string,
+    reason?: string
+  ): Promise<AxiosResponse<ApiResponse<Milestone>>> =>
+    api.patch(`/milestones/${milestoneId}/cancel`, { reason }),
+  respondToAmountChange: (
+    milestoneId: string,
+    action: "accept" | "decline"
+  ): Promise<AxiosResponse<ApiResponse<Milestone>>> =>
+    api.patch(`/milestones/${milestoneId}/amount-change/${action}`),
+  reorder: (
+    taskId: string,
+    milestoneIds: string[]
+  ): Promise<AxiosResponse<ApiResponse<Milestone[]>>> =>
+    api.put(`/milestones/task/${taskId}/order`, { milestoneIds }),
 };
 
 export const notificationsApi = {
@@ -127,10 +255,54 @@ export const notificationsApi = {
 };
 
 export const chatApi = {
+  // Newest first; pass meta.nextCursor from the previous page to load older messages.
   getMessagesByTask: (
-    taskId: string
+    taskId: string,
+    cursor?: string
+  ): Promise<AxiosResponse<ApiResponse<MessageWithSender[]>>> =>
+    api.get(`/chat/task/${taskId}`, { params: { cursor } }),
+  getMessagesByBid: (
+    taskId: string,
+    bidId: string,
+    cursor?: string
   ): Promise<AxiosResponse<ApiResponse<MessageWithSender[]>>> =>
-    api.get(`/chat/task/${taskId}`),
+    api.get(`/chat/task/${taskId}/bid/${bidId}`, { params: { cursor } }),
+  // Messages with files go over REST; the server broadcasts them like any other message.
+  sendWithFiles: (
+    thread: ChatThread,
+    content: string,
+    files: File[]
+  ): Promise<AxiosResponse<ApiResponse<MessageWithSender>>> => {
+    const formData = new FormData();
+    formData.append("content", content);
+    files.forEach((file) => formData.append("files", file));
+    const path = thread.bidId
+      ? `/chat/task/${thread.taskId}/bid/${thread.bidId}/messages`
+      : `/chat/task/${thread.taskId}/messages`;
+    return api.post(path, formData, {
+      headers: { "Content-Type": "multipart/form-data" },
+    });
+  },
+  editMessage: (
+    messageId: string,
+    content: string
+  ): Promise<AxiosResponse<ApiResponse<MessageWithSender>>> =>
+    api.patch(`/chat/messages/${messageId}`, { content }),
+  deleteMessage: (
+    messageId: string
+  ): Promise<AxiosResponse<ApiResponse<MessageWithSender>>> =>
+    api.delete(`/chat/messages/${messageId}`),
+};
+
+export const conversationsApi = {
+  // Most recent activity first; pass meta.nextCursor from the previous page for more.
+  getAll: (
+    cursor?: string
+  ): Promise<AxiosResponse<ApiResponse<ConversationSummary[]>>> =>
+    api.get("/conversations", { params: { cursor } }),
+  getUnreadCount: (): Promise<
+    AxiosResponse<ApiResponse<{ unreadCount: number }>>
+  > => api.get("/conversations/unread-count"),
 };
 
 export const profileApi = {
@@ -147,6 +319,133 @@ export const profileApi = {
       headers: { "Content-Type": "multipart/form-data" },
     });
   },
+  updateSkills: (
+    payload: UpdateSkillsPayload
+  ): Promise<AxiosResponse<ApiResponse<UserSkill[]>>> =>
+    api.put("/profile/skills", payload),
+};
+
+export const skillsApi = {
+  search: (params: {
+    q?: string;
+    category?: TaskCategory;
+    limit?: number;
+  }): Promise<AxiosResponse<ApiResponse<Skill[]>>> =>
+    api.get("/skills", { params }),
+};
+
+export const attachmentsApi = {
+  list: (
+    parentType: AttachmentParentType,
+    parentId: string
+  ): Promise<AxiosResponse<ApiResponse<Attachment[]>>> =>
+    api.get(`/attachments/${parentType}/${parentId}`),
+  upload: (
+    parentType: AttachmentParentType,
+    parentId: string,
+    files: File[]
+  ): Promise<AxiosResponse<ApiResponse<Attachment[]>>> => {
+    const formData = new FormData();
+    files.forEach((file) => formData.append("files", file));
+    return api.post(`/attachments/${parentType}/${parentId}`, formData, {
+      headers: { "Content-Type": "multipart/form-data" },
+    });
+  },
+  download: (id: string): Promise<AxiosResponse<Blob>> =>
+    api.get(`/attachments/${id}/download`, { responseType: "blob" }),
+  delete: (id: string): Promise<AxiosResponse<ApiResponse<null>>> =>
+    api.delete(`/attachments/${id}`),
+};
+
+export const walletApi = {
+  get: (): Promise<AxiosResponse<ApiResponse<WalletSummary>>> =>
+    api.get("/wallet"),
+  withdraw: (
+    amount: number
+  ): Promise<AxiosResponse<ApiResponse<WalletLedgerEntry[]>>> =>
+    api.post("/wallet/withdraw", { amount }),
+};
+
+export const disputesApi = {
+  open: (
+    milestoneId: string,
+    reason: string
+  ): Promise<AxiosResponse<ApiResponse<Dispute>>> =>
+    api.post("/disputes", { milestoneId, reason }),
+  get: (disputeId: string): Promise<AxiosResponse<ApiResponse<DisputeDetail>>> =>
+    api.get(`/disputes/${disputeId}`),
+  addEvidence: (
+    disputeId: string,
+    message: string
+  ): Promise<AxiosResponse<ApiResponse<DisputeEvidence>>> =>
+    api.post(`/disputes/${disputeId}/evidence`, { message }),
+};
+
+export const timesheetsApi = {
+  getByTask: (
+    taskId: string
+  ): Promise<AxiosResponse<ApiResponse<HourlyContractSummary>>> =>
+    api.get(`/timesheets/task/${taskId}`),
+  setWeeklyCap: (
+    taskId: string,
+    weeklyHourCap: number | null
+  ): Promise<AxiosResponse<ApiResponse<null>>> =>
+    api.put(`/timesheets/task/${taskId}/cap`, { weeklyHourCap }),
+  startTimer: (
+    taskId: string,
+    memo?: string
+  ): Promise<AxiosResponse<ApiResponse<TimeEntry>>> =>
+    api.post(`/timesheets/task/${taskId}/timer`, { memo }),
+  stopTimer: (entryId: string): Promise<AxiosResponse<ApiResponse<TimeEntry>>> =>
+    api.patch(`/timesheets/entries/${entryId}/stop`),
+  addEntry: (
+    taskId: string,
+    data: TimeEntryPayload
+  ): Promise<AxiosResponse<ApiResponse<TimeEntry>>> =>
+    api.post(`/timesheets/task/${taskId}/entries`, data),
+  deleteEntry: (entryId: string): Promise<AxiosResponse<ApiResponse<null>>> =>
+    api.delete(`/timesheets/entries/${entryId}`),
+  submit: (timesheetId: string): Promise<AxiosResponse<ApiResponse<Timesheet>>> =>
+    api.patch(`/timesheets/${timesheetId}/submit`),
+  approve: (
+    timesheetId: string
+  ): Promise<AxiosResponse<ApiResponse<Timesheet>>> =>
+    api.patch(`/timesheets/${timesheetId}/approve`),
+  dispute: (
+    timesheetId: string,
+    reason: string
+  ): Promise<AxiosResponse<ApiResponse<Timesheet>>> =>
+    api.patch(`/timesheets/${timesheetId}/dispute`, { reason }),
+  endContract: (taskId: string): Promise<AxiosResponse<ApiResponse<null>>> =>
+    api.patch(`/timesheets/task/${taskId}/end`),
+};
+
+export const invoicesApi = {
+  getAll: (
+    kind?: InvoiceKind
+  ): Promise<AxiosResponse<ApiResponse<InvoiceSummary[]>>> =>
+    api.get("/invoices", { params: { kind } }),
+  download: (invoiceId: string): Promise<AxiosResponse<Blob>> =>
+    api.get(`/invoices/${invoiceId}/download`, { responseType: "blob" }),
+};
+
+export const usersApi = {
+  getPublicProfile: (
+    userId: string
+  ): Promise<AxiosResponse<ApiResponse<PublicUserProfile>>> =>
+    api.get(`/users/${userId}/public`),
+};
+
+export const reviewsApi = {
+  getByTask: (
+    taskId: string
+  ): Promise<AxiosResponse<ApiResponse<TaskReviewSummary>>> =>
+    api.get(`/reviews/task/${taskId}`),
+  create: (
+    taskId: string,
+    review: CreateReviewPayload
+  ): Promise<AxiosResponse<ApiResponse<Review>>> =>
+    api.post(`/reviews/task/${taskId}`, review),
 };
 
 export const adminApi = {
@@ -158,6 +457,33 @@ export const adminApi = {
     api.delete(`/admin/users/${userId}`),
   getTasks: (): Promise<AxiosResponse<ApiResponse<TaskWithClient[]>>> =>
     api.get("/admin/tasks"),
+  updateTaskStatus: (
+    taskId: string,
+    status: TaskStatus
+  ): Promise<AxiosResponse<ApiResponse<Task>>> =>
+    api.patch(`/admin/tasks/${taskId}/status`, { status }),
   deleteTask: (taskId: string): Promise<AxiosResponse<ApiResponse<null>>> =>
     api.delete(`/admin/tasks/${taskId}`),
+  getSkills: (): Promise<AxiosResponse<ApiResponse<AdminSkill[]>>> =>
+    api.get("/admin/skills"),
+  createSkill: (
+    payload: SkillPayload
+  ): Promise<AxiosResponse<ApiResponse<Skill>>> =>
+    api.post("/admin/skills", payload),
+  updateSkill: (
+    skillId: string,
+    payload: Partial<SkillPayload>
+  ): Promise<AxiosResponse<ApiResponse<Skill>>> =>
+    api.patch(`/admin/skills/${skillId}`, payload),
+  deleteSkill: (skillId: string): Promise<AxiosResponse<ApiResponse<null>>> =>
+    api.delete(`/admin/skills/${skillId}`),
+  getDisputes: (
+    status: DisputeStatus
+  ): Promise<AxiosResponse<ApiResponse<DisputeSummary[]>>> =>
+    api.get("/admin/disputes", { params: { status } }),
+  resolveDispute: (
+    disputeId: string,
+    payload: ResolveDisputePayload
+  ): Promise<AxiosResponse<ApiResponse<Dispute>>> =>
+    api.post(`/admin/disputes/${disputeId}/resolve`, payload),
 };
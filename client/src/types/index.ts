@@ -35,11 +35,27 @@ export enum BidStatus {
 }
 
 export enum MilestoneStatus {
+  proposed = 'proposed',
   pending = 'pending',
   in_progress = 'in_progress',
   completed = 'completed',
   paid = 'paid',
   cancelled = 'cancelled',
+  disputed = 'disputed',
+}
+
+export enum SkillProficiency {
+  beginner = 'beginner',
+  intermediate = 'intermediate',
+  expert = 'expert',
+}
+
+export enum OfferStatus {
+  pending = 'pending',
+  accepted = 'accepted',
+  declined = 'declined',
+  countered = 'countered',
+  cancelled = 'cancelled',
 }
 
 export interface User {
@@ -52,16 +68,58 @@ export interface User {
   createdAt: string;
   updatedAt: string;
   avatarUrl : string | null;
+  bio?: string | null;
   portfolioUrl?: string | null;
   githubUrl?: string | null;
   linkedinUrl?: string | null;
+  skills?: UserSkill[];
+}
+
+export interface Skill {
+  id: string;
+  name: string;
+  slug: string;
+  category: TaskCategory | null;
+}
+
+export interface UserSkill extends Skill {
+  proficiency: SkillProficiency;
+}
+
+export interface AdminSkill extends Skill {
+  createdAt: string;
+  updatedAt: string;
+  _count: { tasks: number; users: number };
 }
 
 export interface UserPublicProfile {
   id: string;
   firstName: string;
   lastName: string;
-  email: string;
+  avatarUrl: string | null;
+}
+
+export interface PublicReview {
+  id: string;
+  rating: number;
+  comment: string;
+  createdAt: string;
+  reviewer: UserPublicProfile;
+  task: Pick<Task, 'id' | 'title'>;
+}
+
+// Another user's profile as anyone signed in may see it; no contact details.
+export interface PublicUserProfile extends UserPublicProfile {
+  bio: string | null;
+  role: UserRole;
+  portfolioUrl: string | null;
+  githubUrl: string | null;
+  linkedinUrl: string | null;
+  skills: UserSkill[];
+  rating: RatingStats | null;
+  completedJobs: number;
+  memberSince: string;
+  recentReviews: PublicReview[];
 }
 
 export interface Task {
@@ -74,6 +132,9 @@ export interface Task {
   deadline: string;
   status: TaskStatus;
   clientId: string;
+  maxRevisions: number;
+  weeklyHourCap: number | null;
+  completedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -86,10 +147,33 @@ export interface Bid {
   proposal: string;
   timeline: string;
   status: BidStatus;
+  isShortlisted: boolean;
+  rejectionReason: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface BidRevision {
+  id: string;
+  bidId: string;
+  amount: number;
+  proposal: string;
+  timeline: string;
+  createdAt: string;
+}
+
+export interface BidOffer {
+  id: string;
+  bidId: string;
+  proposerId: string;
+  amount: number;
+  timeline: string;
+  message: string | null;
+  status: OfferStatus;
+  respondedAt: string | null;
+  createdAt: string;
+}
+
 export interface Milestone {
   id: string;
   taskId: string;
@@ -98,10 +182,208 @@ export interface Milestone {
   amount: number;
   dueDate: string;
   status: MilestoneStatus;
+  position: number;
+  dependsOnId: string | null;
+  // Amount change asked for by the client, waiting for the freelancer's answer.
+  proposedAmount: number | null;
+  autoReleaseAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  events?: MilestoneEvent[];
+  disputes?: Dispute[];
+}
+
+export enum MilestoneEventType {
+  submitted = 'submitted',
+  changes_requested = 'changes_requested',
+  payment_released = 'payment_released',
+  payment_auto_released = 'payment_auto_released',
+  dispute_opened = 'dispute_opened',
+  dispute_resolved = 'dispute_resolved',
+  proposed = 'proposed',
+  proposal_approved = 'proposal_approved',
+  proposal_declined = 'proposal_declined',
+  updated = 'updated',
+  amount_change_requested = 'amount_change_requested',
+  amount_change_accepted = 'amount_change_accepted',
+  amount_change_declined = 'amount_change_declined',
+  cancelled = 'cancelled',
+}
+
+export interface MilestoneEvent {
+  id: string;
+  milestoneId: string;
+  actorId: string | null;
+  type: MilestoneEventType;
+  feedback: string | null;
+  createdAt: string;
+}
+
+export enum DisputeStatus {
+  open = 'open',
+  resolved = 'resolved',
+}
+
+export enum DisputeResolution {
+  release_full = 'release_full',
+  refund_full = 'refund_full',
+  split = 'split',
+}
+
+export interface Dispute {
+  id: string;
+  milestoneId: string;
+  openedById: string;
+  reason: string;
+  status: DisputeStatus;
+  resolution: DisputeResolution | null;
+  freelancerAmount: number | null;
+  resolutionNote: string | null;
+  resolvedById: string | null;
+  resolvedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface DisputeEvidence {
+  id: string;
+  disputeId: string;
+  authorId: string;
+  message: string;
+  createdAt: string;
+  author: Pick<User, 'id' | 'firstName' | 'lastName'>;
+}
+
+export interface DisputeSummary extends Dispute {
+  openedBy: Pick<User, 'id' | 'firstName' | 'lastName'>;
+  milestone: Pick<Milestone, 'id' | 'title' | 'amount' | 'status'> & {
+    task: Pick<Task, 'id' | 'title' | 'clientId'>;
+  };
+  _count: { evidence: number };
+}
+
+export interface DisputeDetail extends DisputeSummary {
+  evidence: DisputeEvidence[];
+}
+
+export interface ResolveDisputePayload {
+  resolution: DisputeResolution;
+  freelancerAmount?: number;
+  note: string;
+}
+
+export enum TimesheetStatus {
+  open = 'open',
+  submitted = 'submitted',
+  approved = 'approved',
+  disputed = 'disputed',
+}
+
+export interface TimeEntry {
+  id: string;
+  timesheetId: string;
+  startedAt: string;
+  endedAt: string | null;
+  minutes: number;
+  memo: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Timesheet {
+  id: string;
+  taskId: string;
+  freelancerId: string;
+  weekStart: string;
+  status: TimesheetStatus;
+  hourlyRate: number | null;
+  amount: number | null;
+  submittedAt: string | null;
+  reviewedAt: string | null;
+  disputeReason: string | null;
+  createdAt: string;
+  updatedAt: string;
+  entries: TimeEntry[];
+}
+
+export interface HourlyContractSummary {
+  hourlyRate: number;
+  weeklyHourCap: number | null;
+  timesheets: Timesheet[];
+}
+
+export interface TimeEntryPayload {
+  startedAt: string;
+  endedAt: string;
+  memo?: string;
+}
+
+export enum InvoiceKind {
+  invoice = 'invoice',
+  receipt = 'receipt',
+}
+
+// Invoices go to the client and receipts to the freelancer of a paid milestone or timesheet.
+export interface InvoiceSummary {
+  id: string;
+  number: number;
+  documentNumber: string;
+  kind: InvoiceKind;
+  recipientId: string;
+  taskId: string;
+  milestoneId: string | null;
+  timesheetId: string | null;
+  clientName: string;
+  freelancerName: string;
+  taskTitle: string;
+  description: string;
+  amount: number;
+  platformFee: number;
+  paidAt: string;
+  createdAt: string;
+}
+
+// Averages over a user's revealed reviews.
+export interface RatingStats {
+  count: number;
+  rating: number;
+  communication: number;
+  quality: number;
+  timeliness: number;
+}
+
+export interface Review {
+  id: string;
+  taskId: string;
+  reviewerId: string;
+  revieweeId: string;
+  rating: number;
+  communication: number;
+  quality: number;
+  timeliness: number;
+  comment: string;
+  revealAt: string;
+  createdAt: string;
+  reviewer?: Pick<User, 'id' | 'firstName' | 'lastName'>;
+}
+
+// Reviews are double-blind: theirReview stays null until both are in or the window closes.
+export interface TaskReviewSummary {
+  canReview: boolean;
+  reviewDeadline: string | null;
+  myReview: Review | null;
+  theirReview: Review | null;
+  theyHaveReviewed: boolean;
+}
+
+export interface CreateReviewPayload {
+  rating: number;
+  communication: number;
+  quality: number;
+  timeliness: number;
+  comment: string;
+}
+
 export interface Notification {
   id: string;
   userId: string;
@@ -114,33 +396,133 @@ export interface Notification {
 export interface Message {
   id: string;
   taskId: string;
+  // Set while the message is part of a bid's pre-hire thread.
+  bidId: string | null;
   senderId: string;
+  // Empty once the message is deleted.
   content: string;
   createdAt: string;
+  editedAt: string | null;
+  deletedAt: string | null;
 }
 
+export type AttachmentParentType = 'task' | 'bid' | 'milestone' | 'dispute' | 'message';
+
+export interface Attachment {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  uploaderId: string;
+  taskId: string | null;
+  bidId: string | null;
+  milestoneId: string | null;
+  disputeId: string | null;
+  messageId: string | null;
+  createdAt: string;
+  uploader?: Pick<User, 'id' | 'firstName' | 'lastName'>;
+}
+
+export type MessageAttachment = Pick<Attachment, 'id' | 'fileName' | 'mimeType' | 'size'>;
+
 export interface TaskWithClient extends Task {
   client?: UserPublicProfile;
+  skills?: Skill[];
+}
+
+export interface TaskSearchResult extends TaskWithClient {
+  rank: number;
+  titleHighlight: string;
+  snippet: string;
+}
+
+export interface RecommendedTask extends TaskWithClient {
+  score: number;
+  reasons: string[];
+}
+
+export interface TaskSearchData {
+  results: TaskSearchResult[];
+  suggestions: string[];
 }
 
 export interface BidWithFreelancer extends Bid {
   freelancer?: UserPublicProfile;
+  freelancerRating?: RatingStats | null;
+  task?: Pick<Task, 'id' | 'title' | 'status'>;
+  revisions?: BidRevision[];
+  offers?: BidOffer[];
+  milestonePlan?: BidMilestone[];
+}
+
+export interface BidMilestone {
+  id: string;
+  bidId: string;
+  position: number;
+  title: string;
+  description: string;
+  amount: number;
+  dueDate: string;
 }
 
 export interface MessageWithSender extends Message {
   sender?: Pick<User, 'id' | 'firstName' | 'lastName'>;
+  attachments: MessageAttachment[];
+}
+
+// The task chat, or with bidId set, the pre-hire thread between the client and that bidder.
+export interface ChatThread {
+  taskId: string;
+  bidId?: string | null;
+}
+
+export interface MessageReadPayload extends ChatThread {
+  userId: string;
+  messageId: string;
+  lastReadAt: string;
+}
+
+// Sent with `read_state` on joining a task chat: how far each participant has read.
+export interface ChatReadState extends ChatThread {
+  cursors: { userId: string; lastReadAt: string }[];
+}
+
+// An inbox entry: a task chat, or a pre-hire thread when bidId is set.
+export interface ConversationSummary extends ChatThread {
+  bidId: string | null;
+  taskTitle: string;
+  taskStatus: TaskStatus;
+  counterpart: UserPublicProfile;
+  lastMessage: MessageWithSender | null;
+  lastReadAt: string | null;
+  unreadCount: number;
+}
+
+export interface MessagePage {
+  messages: MessageWithSender[];
+  meta: PaginationMeta;
 }
 
+// Sent with `load_messages` when joining a chat: the latest page, newest first.
+export type ThreadMessagePage = MessagePage & ChatThread;
+
 export interface AuthResponseData {
   token: string;
   user: User;
 }
 
+export interface PaginationMeta {
+  total: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   message?: string;
   error?: string | object[] | { message: string }[];
   data?: T;
+  meta?: PaginationMeta;
 }
 
 export interface RegisterPayload {
@@ -159,6 +541,7 @@ export interface LoginPayload {
 export interface UpdateProfilePayload {
   firstName: string;
   lastName: string;
+  bio?: string;
   portfolioUrl?: string;
   githubUrl?: string;
   linkedinUrl?: string;
@@ -171,6 +554,55 @@ export interface CreateTaskPayload {
   budget: number;
   budgetType: BudgetType;
   deadline: string;
+  skillIds?: string[];
+  maxRevisions?: number;
+  weeklyHourCap?: number | null;
+}
+
+export type UpdateTaskPayload = Partial<CreateTaskPayload>;
+
+export type TaskSortOption =
+  | 'newest'
+  | 'oldest'
+  | 'budget_high'
+  | 'budget_low'
+  | 'deadline_soon';
+
+export interface TaskListParams {
+  q?: string;
+  category?: TaskCategory;
+  minBudget?: number;
+  maxBudget?: number;
+  budgetType?: BudgetType;
+  status?: TaskStatus;
+  clientId?: string;
+  skills?: string;
+  deadlineFrom?: string;
+  deadlineTo?: string;
+  sort?: TaskSortOption;
+  cursor?: string;
+  limit?: number;
+}
+
+export type TaskSearchParams = Omit<
+  TaskListParams,
+  'status' | 'clientId' | 'sort'
+> & { q: string };
+
+export interface UpdateSkillsPayload {
+  skills: { skillId: string; proficiency: SkillProficiency }[];
+}
+
+export interface SkillPayload {
+  name: string;
+  category?: TaskCategory | null;
+}
+
+export interface BidMilestoneInput {
+  title: string;
+  description?: string;
+  amount: number;
+  dueDate: string;
 }
 
 export interface CreateBidPayload {
@@ -178,14 +610,66 @@ export interface CreateBidPayload {
   amount: number;
   proposal: string;
   timeline: string;
+  milestones?: BidMilestoneInput[];
+}
+
+export interface CreateBidOfferPayload {
+  amount: number;
+  timeline: string;
+  message?: string;
 }
 
+export type UpdateBidPayload = Partial<Omit<CreateBidPayload, 'taskId'>>;
+
 export interface CreateMilestonePayload {
   taskId: string;
   title: string;
   description: string;
   amount: number;
   dueDate: string;
+  dependsOnId?: string;
+}
+
+export type UpdateMilestonePayload = Partial<
+  Omit<CreateMilestonePayload, 'taskId' | 'dependsOnId'>
+> & { dependsOnId?: string | null };
+
+export enum LedgerEntryType {
+  deposit = 'deposit',
+  escrow_fund = 'escrow_fund',
+  escrow_release = 'escrow_release',
+  escrow_refund = 'escrow_refund',
+  payout = 'payout',
+  payout_reversal = 'payout_reversal',
+  platform_fee = 'platform_fee',
+}
+
+export interface WalletLedgerEntry {
+  id: string;
+  transactionId: string;
+  type: LedgerEntryType;
+  amount: number;
+  milestoneId: string | null;
+  timesheetId: string | null;
+  reference: string | null;
+  description: string;
+  createdAt: string;
+}
+
+export interface WalletSummary {
+  balance: number;
+  inEscrow: number;
+  entries: WalletLedgerEntry[];
+}
+
+// What the platform would keep from a payment of `amount`, shown before bidding.
+export interface FeeEstimate {
+  amount: number;
+  fee: number;
+  net: number;
+  effectivePercent: number;
+  minimumApplied: boolean;
+  priorBillings: number;
 }
 
 export interface AdminStatsData {
@@ -194,23 +678,30 @@ export interface AdminStatsData {
     totalBids: number;
     openTasks: number;
     completedTasks: number;
+    platformRevenue: number;
+    platformRevenueLast30Days: number;
 }
 
-export interface JoinTaskPayload {
-  taskId: string;
+export type JoinTaskPayload = ChatThread;
+
+export interface SendMessagePayload extends ChatThread {
+  content: string;
 }
 
-export interface SendMessagePayload {
-  taskId: string;
+export interface EditMessagePayload {
+  messageId: string;
   content: string;
 }
 
-export interface TypingPayload {
-  taskId: string;
+export interface DeleteMessagePayload {
+  messageId: string;
+}
+
+export interface TypingPayload extends ChatThread {
   isTyping: boolean;
 }
 
-export interface UserTypingPayload {
+export interface UserTypingPayload extends ChatThread {
   userId: string;
   isTyping: boolean;
 }
\ No newline at end of file